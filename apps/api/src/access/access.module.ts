@@ -0,0 +1,15 @@
+import { Module, Global, ConsoleLogger, Scope } from '@nestjs/common';
+import { APP_GUARD } from '@nestjs/core';
+import { AccessService } from './access.service.js';
+import { ApiTokenGuard } from './api-token.guard.js';
+
+@Global()
+@Module({
+  providers: [
+    { provide: ConsoleLogger, useClass: ConsoleLogger, scope: Scope.TRANSIENT },
+    AccessService,
+    { provide: APP_GUARD, useClass: ApiTokenGuard },
+  ],
+  exports: [AccessService],
+})
+export class AccessModule {}
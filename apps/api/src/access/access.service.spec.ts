@@ -0,0 +1,134 @@
+import { Test } from '@nestjs/testing';
+import { ConsoleLogger } from '@nestjs/common';
+import { AccessService } from './access.service.js';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdir, mkdtemp, realpath, rm, symlink } from 'node:fs/promises';
+import { delimiter, join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+describe('AccessService', () => {
+  let tmpDir: string;
+  let root: string;
+  let outside: string;
+
+  const createService = async (): Promise<AccessService> => {
+    const module = await Test.createTestingModule({
+      providers: [
+        AccessService,
+        { provide: ConsoleLogger, useValue: new ConsoleLogger() },
+      ],
+    }).compile();
+    return module.get(AccessService);
+  };
+
+  beforeEach(async () => {
+    tmpDir = await realpath(await mkdtemp(join(tmpdir(), 'cr-access-')));
+    root = join(tmpDir, 'root');
+    outside = join(tmpDir, 'outside');
+    await mkdir(join(root, 'repo'), { recursive: true });
+    await mkdir(outside);
+    vi.stubEnv('REVIEW_COUNCIL_API_TOKEN', 'secret-token');
+    vi.stubEnv('REVIEW_COUNCIL_ALLOWED_ROOTS', root);
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await rm(tmpDir, { recursive: true, force: true });
+  });
+
+  describe('isValidToken', () => {
+    it('should accept the configured token', async () => {
+      const service = await createService();
+      expect(service.generatedToken).toBe(false);
+      expect(service.isValidToken('secret-token')).toBe(true);
+    });
+
+    it('should reject a missing or different token', async () => {
+      const service = await createService();
+      expect(service.isValidToken(undefined)).toBe(false);
+      expect(service.isValidToken('')).toBe(false);
+      expect(service.isValidToken('secret')).toBe(false);
+      expect(service.isValidToken('secret-token-2')).toBe(false);
+      expect(service.isValidToken('SECRET-TOKEN')).toBe(false);
+    });
+
+    it('should generate a random token when none is configured', async () => {
+      vi.stubEnv('REVIEW_COUNCIL_API_TOKEN', undefined);
+      const first = await createService();
+      const second = await createService();
+
+      expect(first.generatedToken).toBe(true);
+      expect(first.token).toMatch(/^[0-9a-f]{48}$/);
+      expect(second.token).not.toBe(first.token);
+      expect(first.isValidToken(first.token)).toBe(true);
+      expect(first.isValidToken(second.token)).toBe(false);
+    });
+  });
+
+  describe('getAllowedRoots', () => {
+    it('should split REVIEW_COUNCIL_ALLOWED_ROOTS on the path delimiter', async () => {
+      vi.stubEnv(
+        'REVIEW_COUNCIL_ALLOWED_ROOTS',
+        ` ${root}${delimiter}${delimiter}${outside} `,
+      );
+      const service = await createService();
+      expect(service.getAllowedRoots()).toEqual([root, outside]);
+    });
+
+    it('should default to HOST_HOME', async () => {
+      vi.stubEnv('REVIEW_COUNCIL_ALLOWED_ROOTS', undefined);
+      vi.stubEnv('HOST_HOME', outside);
+      const service = await createService();
+      expect(service.getAllowedRoots()).toEqual([outside]);
+    });
+  });
+
+  describe('resolveAllowedPath', () => {
+    it('should accept paths within an allowed root, existing or not', async () => {
+      const service = await createService();
+      await expect(
+        service.resolveAllowedPath(join(root, 'repo')),
+      ).resolves.toBe(join(root, 'repo'));
+      await expect(
+        service.resolveAllowedPath(join(root, 'repo', 'new-file.ts')),
+      ).resolves.toBe(join(root, 'repo', 'new-file.ts'));
+      await expect(service.resolveAllowedPath(root)).resolves.toBe(root);
+    });
+
+    it('should reject paths that leave the root through ..', async () => {
+      const service = await createService();
+      await expect(
+        service.resolveAllowedPath(join(root, 'repo', '..', '..', 'outside')),
+      ).rejects.toThrow('Path is outside the allowed directories');
+      await expect(
+        service.resolveAllowedPath(`${root}/../outside/missing.ts`),
+      ).rejects.toThrow('Path is outside the allowed directories');
+    });
+
+    it('should reject a symlink inside the root that points outside it', async () => {
+      await symlink(outside, join(root, 'escape'));
+      const service = await createService();
+
+      await expect(
+        service.resolveAllowedPath(join(root, 'escape')),
+      ).rejects.toThrow('Path is outside the allowed directories');
+      await expect(
+        service.resolveAllowedPath(join(root, 'escape', 'missing.ts')),
+      ).rejects.toThrow('Path is outside the allowed directories');
+    });
+
+    it('should accept paths through a symlinked root', async () => {
+      const link = join(tmpDir, 'root-link');
+      await symlink(root, link);
+      vi.stubEnv('REVIEW_COUNCIL_ALLOWED_ROOTS', link);
+      const service = await createService();
+
+      await expect(
+        service.resolveAllowedPath(join(root, 'repo')),
+      ).resolves.toBe(join(root, 'repo'));
+      await expect(service.resolveAllowedPath(outside)).rejects.toThrow(
+        'Path is outside the allowed directories',
+      );
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { Injectable, ConsoleLogger, Inject } from '@nestjs/common';
+import { createHash, randomBytes, timingSafeEqual } from 'node:crypto';
+import { realpath } from 'node:fs/promises';
+import { basename, delimiter, dirname, join, resolve } from 'node:path';
+import { homedir } from 'node:os';
+import { isWithinRoot } from '../../../../src/review/path-utils.js';
+
+/**
+ * API token and allowed directories of the web API. The token comes from
+ * REVIEW_COUNCIL_API_TOKEN (a random one is generated when unset); paths the
+ * API lists or reviews must stay within REVIEW_COUNCIL_ALLOWED_ROOTS.
+ */
+@Injectable()
+export class AccessService {
+  readonly token: string;
+  /** True when the token was generated because REVIEW_COUNCIL_API_TOKEN is unset. */
+  readonly generatedToken: boolean;
+
+  constructor(@Inject(ConsoleLogger) private readonly logger: ConsoleLogger) {
+    this.logger.setContext(AccessService.name);
+    const configured = process.env.REVIEW_COUNCIL_API_TOKEN?.trim();
+    this.token = configured || randomBytes(24).toString('hex');
+    this.generatedToken = !configured;
+  }
+
+  isValidToken(candidate: string | undefined): boolean {
+    if (!candidate) return false;
+    // Compare digests so the comparison takes the same time for any length
+    const digest = (value: string) =>
+      createHash('sha256').update(value).digest();
+    return timingSafeEqual(digest(candidate), digest(this.token));
+  }
+
+  /** Resolved per call so REVIEW_COUNCIL_ALLOWED_ROOTS / HOST_HOME changes are honoured. */
+  getAllowedRoots(): string[] {
+    const configured = (process.env.REVIEW_COUNCIL_ALLOWED_ROOTS ?? '')
+      .split(delimiter)
+      .map((root) => root.trim())
+      .filter(Boolean);
+    const roots =
+      configured.length > 0 ? configured : [process.env.HOST_HOME || homedir()];
+    return roots.map((root) => resolve(root));
+  }
+
+  /**
+   * Resolve `path` (relative to the cwd) with symlinks followed and throw
+   * unless it lies within an allowed root. Paths that do not exist yet are
+   * resolved through their nearest existing ancestor.
+   */
+  async resolveAllowedPath(path: string): Promise<string> {
+    const target = await this.realpathOrResolve(path);
+    for (const root of this.getAllowedRoots()) {
+      if (isWithinRoot(target, await this.realpathOrResolve(root))) {
+        return target;
+      }
+    }
+    this.logger.warn(`Rejected path outside the allowed roots: ${target}`);
+    throw new Error(`Path is outside the allowed directories: ${path}`);
+  }
+
+  private async realpathOrResolve(path: string): Promise<string> {
+    const absolute = resolve(path);
+    try {
+      return await realpath(absolute);
+    } catch {
+      // A missing entry below a symlinked directory must not escape the check
+      const parent = dirname(absolute);
+      if (parent === absolute) return absolute;
+      return join(await this.realpathOrResolve(parent), basename(absolute));
+    }
+  }
+}
@@ -0,0 +1,89 @@
+import { ExecutionContext, UnauthorizedException } from '@nestjs/common';
+import type { IncomingMessage } from 'node:http';
+import { ApiTokenGuard, extractToken } from './api-token.guard.js';
+import { AccessService } from './access.service.js';
+import { describe, it, expect, vi } from 'vitest';
+
+const request = (
+  url: string,
+  headers: IncomingMessage['headers'] = {},
+): IncomingMessage => ({ url, headers }) as IncomingMessage;
+
+describe('extractToken', () => {
+  it('should read a Bearer Authorization header', () => {
+    expect(
+      extractToken(
+        request('/api/config', { authorization: 'Bearer secret-token' }),
+      ),
+    ).toBe('secret-token');
+  });
+
+  it('should read the token query parameter', () => {
+    expect(extractToken(request('/ws/reviews?token=secret%2Dtoken'))).toBe(
+      'secret-token',
+    );
+  });
+
+  it('should prefer the header over the query parameter', () => {
+    expect(
+      extractToken(
+        request('/api/reviews/job-1/events?token=other', {
+          authorization: 'Bearer secret-token',
+        }),
+      ),
+    ).toBe('secret-token');
+  });
+
+  it('should return undefined without a token or for other schemes', () => {
+    expect(extractToken(request('/api/config'))).toBeUndefined();
+    expect(
+      extractToken(request('/api/config', { authorization: 'Basic abc' })),
+    ).toBeUndefined();
+  });
+});
+
+describe('ApiTokenGuard', () => {
+  const access = {
+    isValidToken: vi.fn((token?: string) => token === 'secret-token'),
+  };
+  const guard = new ApiTokenGuard(access as unknown as AccessService);
+  const context = (type: string, req: IncomingMessage): ExecutionContext =>
+    ({
+      getType: () => type,
+      switchToHttp: () => ({ getRequest: () => req }),
+    }) as unknown as ExecutionContext;
+
+  it('should let requests with the token through', () => {
+    expect(
+      guard.canActivate(
+        context(
+          'http',
+          request('/api/config', { authorization: 'Bearer secret-token' }),
+        ),
+      ),
+    ).toBe(true);
+    expect(
+      guard.canActivate(
+        context(
+          'http',
+          request('/api/reviews/job-1/events?token=secret-token'),
+        ),
+      ),
+    ).toBe(true);
+  });
+
+  it('should reject requests with a missing or invalid token', () => {
+    expect(() =>
+      guard.canActivate(context('http', request('/api/config'))),
+    ).toThrow(UnauthorizedException);
+    expect(() =>
+      guard.canActivate(
+        context('http', request('/api/config', { authorization: 'Bearer x' })),
+      ),
+    ).toThrow('Missing or invalid API token');
+  });
+
+  it('should leave WebSocket contexts to the gateway', () => {
+    expect(guard.canActivate(context('ws', request('/ws/reviews')))).toBe(true);
+  });
+});
@@ -0,0 +1,35 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Inject,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import type { IncomingMessage } from 'node:http';
+import { AccessService } from './access.service.js';
+
+/**
+ * Token sent by a client: `Authorization: Bearer <token>`, or a `token` query
+ * parameter for WebSocket and EventSource clients that cannot set headers.
+ */
+export function extractToken(request: IncomingMessage): string | undefined {
+  const header = request.headers.authorization;
+  if (header?.startsWith('Bearer ')) return header.slice('Bearer '.length);
+  const url = new URL(request.url ?? '', 'http://localhost');
+  return url.searchParams.get('token') ?? undefined;
+}
+
+/** Rejects every HTTP request without the API token. */
+@Injectable()
+export class ApiTokenGuard implements CanActivate {
+  constructor(@Inject(AccessService) private readonly access: AccessService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    if (context.getType() !== 'http') return true;
+    const request = context.switchToHttp().getRequest<IncomingMessage>();
+    if (!this.access.isValidToken(extractToken(request))) {
+      throw new UnauthorizedException('Missing or invalid API token');
+    }
+    return true;
+  }
+}
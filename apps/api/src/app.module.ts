@@ -1,10 +1,19 @@
 import { Module } from '@nestjs/common';
 import { AcpModule } from '../../../src/acp/acp.module.js';
+import { AccessModule } from './access/access.module.js';
 import { ReviewApiModule } from './review/review-api.module.js';
 import { ConfigApiModule } from './config/config-api.module.js';
 import { FilesystemApiModule } from './filesystem/filesystem-api.module.js';
+import { HistoryApiModule } from './history/history-api.module.js';
 
 @Module({
-  imports: [AcpModule, ReviewApiModule, ConfigApiModule, FilesystemApiModule],
+  imports: [
+    AcpModule,
+    AccessModule,
+    ReviewApiModule,
+    ConfigApiModule,
+    FilesystemApiModule,
+    HistoryApiModule,
+  ],
 })
 export class AppModule {}
@@ -17,8 +17,16 @@ export class ConfigController {
       if (!body.reviewers || !Array.isArray(body.reviewers)) {
         return { valid: false, error: 'reviewers must be an array' };
       }
-      if (!body.decisionMaker || typeof body.decisionMaker !== 'object') {
-        return { valid: false, error: 'decisionMaker is required' };
+      const hasPanel =
+        Array.isArray(body.decisionMakers) && body.decisionMakers.length > 0;
+      if (
+        !hasPanel &&
+        (!body.decisionMaker || typeof body.decisionMaker !== 'object')
+      ) {
+        return {
+          valid: false,
+          error: 'decisionMaker or decisionMakers is required',
+        };
       }
       if (!body.review || typeof body.review !== 'object') {
         return { valid: false, error: 'review settings are required' };
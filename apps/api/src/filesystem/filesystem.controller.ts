@@ -1,10 +1,18 @@
-import { Controller, Get, Post, Query, Body, ConsoleLogger, Inject } from '@nestjs/common';
-import { readdir, writeFile, access } from 'node:fs/promises';
+import {
+  Controller,
+  Get,
+  Post,
+  Query,
+  Body,
+  Inject,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { readdir, writeFile } from 'node:fs/promises';
 import { join, resolve } from 'node:path';
-import { constants } from 'node:fs';
 import { execFile } from 'node:child_process';
-import { homedir } from 'node:os';
 import { ConfigService } from '../../../../src/config/config.service.js';
+import { AccessService } from '../access/access.service.js';
 
 interface DirectoryEntry {
   name: string;
@@ -56,17 +64,24 @@ const KNOWN_AGENTS: AgentDefinition[] = [
 export class FilesystemController {
   constructor(
     @Inject(ConfigService) private readonly configService: ConfigService,
+    @Inject(AccessService) private readonly access: AccessService,
   ) {}
 
-  private get defaultRoot(): string {
-    return process.env.HOST_HOME || homedir();
-  }
-
+  /** Lists subdirectories; defaults to the first allowed root and never leaves the allowed roots. */
   @Get('list')
   async listDirectory(
     @Query('path') dirPath?: string,
   ): Promise<DirectoryEntry[]> {
-    const targetPath = resolve(dirPath || this.defaultRoot);
+    let targetPath: string;
+    try {
+      targetPath = await this.access.resolveAllowedPath(
+        dirPath || this.access.getAllowedRoots()[0],
+      );
+    } catch (error) {
+      throw new ForbiddenException(
+        error instanceof Error ? error.message : 'Path not allowed',
+      );
+    }
     const entries = await readdir(targetPath, { withFileTypes: true });
 
     const directories: DirectoryEntry[] = entries
@@ -115,6 +130,13 @@ export class FilesystemController {
     @Body() config: Record<string, unknown>,
   ): Promise<{ success: boolean }> {
     const configPath = resolve(process.cwd(), 'review-council.config.json');
+    try {
+      this.configService.validate(config, 'web UI');
+    } catch (error) {
+      throw new BadRequestException(
+        error instanceof Error ? error.message : 'Invalid config',
+      );
+    }
     await writeFile(configPath, JSON.stringify(config, null, 2), 'utf-8');
     await this.configService.loadConfig(configPath);
     return { success: true };
@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+import { HistoryController } from './history.controller.js';
+import { HistoryModule } from '../../../../src/history/history.module.js';
+
+@Module({
+  imports: [HistoryModule],
+  controllers: [HistoryController],
+})
+export class HistoryApiModule {}
@@ -0,0 +1,77 @@
+import {
+  Controller,
+  Get,
+  Delete,
+  Param,
+  Inject,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  HistoryService,
+  isValidReviewId,
+} from '../../../../src/history/history.service.js';
+import { CheckpointService } from '../../../../src/history/checkpoint.service.js';
+import {
+  ReviewCheckpointSummary,
+  ReviewHistoryRecord,
+  ReviewHistorySummary,
+} from '../../../../src/history/history.types.js';
+
+@Controller('history')
+export class HistoryController {
+  constructor(
+    @Inject(HistoryService) private readonly historyService: HistoryService,
+    @Inject(CheckpointService)
+    private readonly checkpointService: CheckpointService,
+  ) {}
+
+  @Get()
+  listHistory(): Promise<ReviewHistorySummary[]> {
+    return this.historyService.list();
+  }
+
+  /** Interrupted codebase reviews that can be resumed. */
+  @Get('checkpoints')
+  listCheckpoints(): Promise<ReviewCheckpointSummary[]> {
+    return this.checkpointService.list();
+  }
+
+  @Delete('checkpoints/:id')
+  async deleteCheckpoint(
+    @Param('id') id: string,
+  ): Promise<{ success: boolean }> {
+    this.assertValidId(id);
+    const removed = await this.checkpointService.remove(id);
+    if (!removed) {
+      throw new NotFoundException(`Checkpoint not found: ${id}`);
+    }
+    return { success: true };
+  }
+
+  @Get(':id')
+  async getHistory(@Param('id') id: string): Promise<ReviewHistoryRecord> {
+    this.assertValidId(id);
+    const record = await this.historyService.get(id);
+    if (!record) {
+      throw new NotFoundException(`Review not found: ${id}`);
+    }
+    return record;
+  }
+
+  @Delete(':id')
+  async deleteHistory(@Param('id') id: string): Promise<{ success: boolean }> {
+    this.assertValidId(id);
+    const removed = await this.historyService.remove(id);
+    if (!removed) {
+      throw new NotFoundException(`Review not found: ${id}`);
+    }
+    return { success: true };
+  }
+
+  private assertValidId(id: string): void {
+    if (!isValidReviewId(id)) {
+      throw new BadRequestException('Invalid review id');
+    }
+  }
+}
@@ -1,6 +1,7 @@
 import { NestFactory } from '@nestjs/core';
 import { WsAdapter } from '@nestjs/platform-ws';
 import { AppModule } from './app.module.js';
+import { AccessService } from './access/access.service.js';
 
 async function bootstrap() {
   const app = await NestFactory.create(AppModule);
@@ -9,5 +10,11 @@ async function bootstrap() {
   app.enableCors();
   await app.listen(3100);
   console.log('API server running on http://localhost:3100');
+  const access = app.get(AccessService);
+  if (access.generatedToken) {
+    console.log(
+      `REVIEW_COUNCIL_API_TOKEN is not set; API token for this run: ${access.token}`,
+    );
+  }
 }
 bootstrap();
@@ -1,9 +1,17 @@
-import { Module } from '@nestjs/common';
+import { Module, ConsoleLogger, Scope } from '@nestjs/common';
 import { ReviewGateway } from './review.gateway.js';
+import { ReviewJobsController } from './review-jobs.controller.js';
+import { ReviewJobsService } from './review-jobs.service.js';
 import { ReviewModule } from '../../../../src/review/review.module.js';
+import { HistoryModule } from '../../../../src/history/history.module.js';
 
 @Module({
-  imports: [ReviewModule],
-  providers: [ReviewGateway],
+  imports: [ReviewModule, HistoryModule],
+  controllers: [ReviewJobsController],
+  providers: [
+    { provide: ConsoleLogger, useClass: ConsoleLogger, scope: Scope.TRANSIENT },
+    ReviewJobsService,
+    ReviewGateway,
+  ],
 })
 export class ReviewApiModule {}
@@ -0,0 +1,114 @@
+import {
+  BadRequestException,
+  MessageEvent,
+  NotFoundException,
+} from '@nestjs/common';
+import { ReviewJobsController } from './review-jobs.controller.js';
+import {
+  ReviewJobEvent,
+  ReviewJobListener,
+  ReviewJobStatus,
+  ReviewJobsService,
+} from './review-jobs.service.js';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+describe('ReviewJobsController', () => {
+  let events: ReviewJobEvent[];
+  let status: ReviewJobStatus;
+  const jobs = {
+    get: vi.fn((): { id: string; status: ReviewJobStatus } | null => ({
+      id: 'job-1',
+      status,
+    })),
+    subscribe: vi.fn(
+      (_id: string, listener: ReviewJobListener, lastSeq = 0) => {
+        for (const event of events) {
+          if (event.seq! > lastSeq) listener(event);
+        }
+        return () => {};
+      },
+    ),
+    startDiff: vi.fn().mockResolvedValue({ id: 'job-1' }),
+    startFile: vi.fn().mockResolvedValue({ id: 'job-2' }),
+    startCodebase: vi.fn().mockResolvedValue({ id: 'job-3' }),
+  };
+  let controller: ReviewJobsController;
+
+  /** Collect what the SSE stream sends, and whether it ended. */
+  const stream = (lastEventId?: string) => {
+    const sent: MessageEvent[] = [];
+    let completed = false;
+    controller.events('job-1', lastEventId).subscribe({
+      next: (event) => sent.push(event),
+      complete: () => {
+        completed = true;
+      },
+    });
+    return { sent, completed };
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    events = [
+      {
+        seq: 1,
+        event: 'progress',
+        data: { reviewer: 'Gemini', status: 'sending', timestamp: 't' },
+      },
+      { seq: 2, event: 'error', data: { message: 'Review cancelled' } },
+    ];
+    status = 'cancelled';
+    controller = new ReviewJobsController(jobs as unknown as ReviewJobsService);
+  });
+
+  it('should replay events with their seq as id and end after the outcome', () => {
+    const { sent, completed } = stream();
+
+    expect(sent).toEqual([
+      { id: '1', type: 'progress', data: events[0].data },
+      { id: '2', type: 'error', data: { message: 'Review cancelled' } },
+    ]);
+    expect(completed).toBe(true);
+  });
+
+  it('should end the stream of a finished job resumed after its last event', () => {
+    const { sent, completed } = stream('2');
+
+    expect(sent).toEqual([]);
+    expect(completed).toBe(true);
+  });
+
+  it('should keep the stream of a running job open', () => {
+    status = 'running';
+    events = events.slice(0, 1);
+    const { sent, completed } = stream();
+
+    expect(sent).toHaveLength(1);
+    expect(completed).toBe(false);
+  });
+
+  it('should reject unknown jobs', () => {
+    jobs.get.mockReturnValueOnce(null);
+    expect(() => controller.events('job-2')).toThrow(NotFoundException);
+  });
+
+  it('should start the review of the kind given in the body', async () => {
+    const body = { kind: 'file', filePaths: ['src/a.ts'] };
+
+    await expect(controller.startReview(body)).resolves.toEqual({
+      reviewId: 'job-2',
+    });
+    expect(jobs.startFile).toHaveBeenCalledWith(body);
+    expect(jobs.startDiff).not.toHaveBeenCalled();
+  });
+
+  it('should reject a review without a known kind', () => {
+    expect(() => controller.startReview({ repoPath: '/repo' })).toThrow(
+      BadRequestException,
+    );
+    expect(() =>
+      controller.startReview({ kind: 'branch', repoPath: '/repo' }),
+    ).toThrow('kind must be one of "diff", "file", "codebase"');
+    expect(jobs.startDiff).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,139 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Sse,
+  Body,
+  Param,
+  Headers,
+  Inject,
+  BadRequestException,
+  NotFoundException,
+  MessageEvent,
+} from '@nestjs/common';
+import { Observable } from 'rxjs';
+import type { ReviewStartedResponse } from '@code-review-council/shared';
+import { ReviewJobsService } from './review-jobs.service.js';
+import type {
+  ReviewJobDetail,
+  ReviewJobSummary,
+} from './review-jobs.service.js';
+
+@Controller('reviews')
+export class ReviewJobsController {
+  constructor(
+    @Inject(ReviewJobsService) private readonly jobs: ReviewJobsService,
+  ) {}
+
+  /** Queued, running and recently finished review jobs, newest first. */
+  @Get()
+  listJobs(): ReviewJobSummary[] {
+    return this.jobs.list();
+  }
+
+  /**
+   * Start a review of the `kind` given in the body; the per-kind routes below
+   * take the same body without it.
+   */
+  @Post()
+  startReview(
+    @Body() body: Record<string, unknown>,
+  ): Promise<ReviewStartedResponse> {
+    switch (body.kind) {
+      case 'diff':
+        return this.startDiff(body);
+      case 'file':
+        return this.startFile(body);
+      case 'codebase':
+        return this.startCodebase(body);
+      default:
+        throw new BadRequestException(
+          'kind must be one of "diff", "file", "codebase"',
+        );
+    }
+  }
+
+  @Post('diff')
+  startDiff(
+    @Body() body: Record<string, unknown>,
+  ): Promise<ReviewStartedResponse> {
+    this.assertString(body, 'repoPath');
+    return this.started(() => this.jobs.startDiff(body));
+  }
+
+  @Post('file')
+  startFile(
+    @Body() body: Record<string, unknown>,
+  ): Promise<ReviewStartedResponse> {
+    return this.started(() => this.jobs.startFile(body));
+  }
+
+  @Post('codebase')
+  startCodebase(
+    @Body() body: Record<string, unknown>,
+  ): Promise<ReviewStartedResponse> {
+    this.assertString(body, 'directory');
+    return this.started(() => this.jobs.startCodebase(body));
+  }
+
+  /**
+   * The same events as the WebSocket gateway, as Server-Sent Events whose id
+   * is the event `seq`; a reconnect with `Last-Event-ID` replays the rest.
+   * The stream ends after the `result` or `error` event, or right after the
+   * replay when the job had already finished.
+   */
+  @Sse(':id/events')
+  events(
+    @Param('id') id: string,
+    @Headers('last-event-id') lastEventId?: string,
+  ): Observable<MessageEvent> {
+    if (!this.jobs.get(id)) {
+      throw new NotFoundException(`Review job not found: ${id}`);
+    }
+    return new Observable<MessageEvent>((subscriber) => {
+      const unsubscribe = this.jobs.subscribe(
+        id,
+        ({ seq, event, data }) => {
+          subscriber.next({
+            ...(seq !== undefined ? { id: String(seq) } : {}),
+            type: event,
+            data,
+          });
+          if (event === 'result' || event === 'error') subscriber.complete();
+        },
+        Number(lastEventId) || 0,
+      );
+      // Resuming after the final event replays nothing; don't leave the stream open
+      const status = this.jobs.get(id)?.status;
+      if (status !== 'queued' && status !== 'running') subscriber.complete();
+      return () => unsubscribe?.();
+    });
+  }
+
+  @Get(':id')
+  getJob(@Param('id') id: string): ReviewJobDetail {
+    const job = this.jobs.get(id);
+    if (!job) {
+      throw new NotFoundException(`Review job not found: ${id}`);
+    }
+    return job;
+  }
+
+  private async started(
+    submit: () => Promise<ReviewJobSummary>,
+  ): Promise<ReviewStartedResponse> {
+    try {
+      return { reviewId: (await submit()).id };
+    } catch (error) {
+      throw new BadRequestException(
+        error instanceof Error ? error.message : 'Invalid review request',
+      );
+    }
+  }
+
+  private assertString(body: Record<string, unknown>, field: string): void {
+    if (typeof body[field] !== 'string' || !body[field]) {
+      throw new BadRequestException(`${field} is required`);
+    }
+  }
+}
@@ -0,0 +1,195 @@
+import { ConsoleLogger } from '@nestjs/common';
+import { ReviewJobEvent, ReviewJobsService } from './review-jobs.service.js';
+import {
+  ReviewRunOptions,
+  ReviewService,
+} from '../../../../src/review/review.service.js';
+import { ConfigService } from '../../../../src/config/config.service.js';
+import { CheckpointService } from '../../../../src/history/checkpoint.service.js';
+import { AccessService } from '../access/access.service.js';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+describe('ReviewJobsService', () => {
+  const reviewService = { reviewDiff: vi.fn() };
+  const configService = {
+    getConfig: vi.fn().mockReturnValue({
+      reviewers: [{ name: 'Gemini', cliPath: 'gemini', cliArgs: [] }],
+      decisionMaker: { name: 'Claude', cliPath: 'claude', cliArgs: [] },
+      review: { defaultChecks: ['code-quality'], language: 'en' },
+    }),
+    validate: vi.fn(),
+  };
+  const access = { resolveAllowedPath: vi.fn().mockResolvedValue('/repo') };
+  let service: ReviewJobsService;
+
+  /** Start a diff review whose reviewer streams `deltas` deltas, and wait for its outcome. */
+  const runReview = async (deltas: number): Promise<ReviewJobEvent[]> => {
+    reviewService.reviewDiff.mockImplementation(
+      async (
+        _repoPath: string,
+        _baseBranch: string,
+        _checks: string[],
+        _extra: string | undefined,
+        { onDelta }: ReviewRunOptions,
+      ) => {
+        // Stream after the test subscribed, as a real review would
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        for (let i = 0; i < deltas; i++) onDelta!('Gemini', `chunk ${i}\n`);
+        return { id: 'review-1' };
+      },
+    );
+    const job = await service.startDiff({ repoPath: '/repo' });
+    const live: ReviewJobEvent[] = [];
+    await new Promise<void>((resolve) => {
+      service.subscribe(job.id, (event) => {
+        live.push(event);
+        if (event.event === 'result') resolve();
+      });
+    });
+    return live;
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new ReviewJobsService(
+      new ConsoleLogger(),
+      reviewService as unknown as ReviewService,
+      configService as unknown as ConfigService,
+      {} as CheckpointService,
+      access as unknown as AccessService,
+    );
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+  });
+
+  /** A review that only ends when it is cancelled. */
+  const runUntilCancelled = (
+    _repoPath: string,
+    _baseBranch: string,
+    _checks: string[],
+    _extra: string | undefined,
+    { signal }: ReviewRunOptions,
+  ) =>
+    new Promise((_resolve, reject) => {
+      signal!.addEventListener('abort', () =>
+        reject(new Error('Review cancelled')),
+      );
+    });
+
+  it('should replay every event of a short review', async () => {
+    const live = await runReview(10);
+    const jobId = service.list()[0].id;
+
+    const replayed: ReviewJobEvent[] = [];
+    service.subscribe(jobId, (event) => replayed.push(event));
+
+    expect(replayed).toEqual(live);
+    expect(live.map((e) => e.seq)).toEqual(live.map((_, i) => i + 1));
+  });
+
+  it('should drop the oldest streamed output and say so on replay', async () => {
+    const live = await runReview(6_000);
+    const jobId = service.list()[0].id;
+
+    const replayed: ReviewJobEvent[] = [];
+    service.subscribe(jobId, (event) => replayed.push(event));
+
+    expect(replayed.length).toBeLessThanOrEqual(5_000);
+    expect(replayed[0]).toMatchObject({ event: 'truncated' });
+    expect(replayed[0].seq).toBeUndefined();
+    // Job state, progress and the result survive; only deltas were dropped
+    const kept = (e: ReviewJobEvent) => e.event !== 'delta';
+    expect(replayed.slice(1).filter(kept)).toEqual(live.filter(kept));
+    expect(replayed.at(-1)).toMatchObject({ event: 'result' });
+  });
+
+  it('should not report truncation to clients resuming after the dropped output', async () => {
+    const live = await runReview(6_000);
+    const jobId = service.list()[0].id;
+    const lastSeq = live.at(-3)!.seq!;
+
+    const replayed: ReviewJobEvent[] = [];
+    service.subscribe(jobId, (event) => replayed.push(event), lastSeq);
+
+    expect(replayed).toEqual(live.slice(-2));
+  });
+
+  it('should cancel a queued job as soon as its last client leaves', async () => {
+    vi.stubEnv('REVIEW_COUNCIL_MAX_REVIEWS', '1');
+    reviewService.reviewDiff.mockImplementation(runUntilCancelled);
+    const running = await service.startDiff({ repoPath: '/repo' });
+    const queued = await service.startDiff({ repoPath: '/repo' });
+
+    service.subscribe(queued.id, () => {})!();
+
+    expect(service.get(queued.id)?.status).toBe('cancelled');
+    expect(service.get(running.id)?.status).toBe('running');
+    service.cancel(running.id);
+  });
+
+  it('should cancel a running job nobody reattached to within the grace period', async () => {
+    vi.useFakeTimers();
+    vi.stubEnv('REVIEW_COUNCIL_ORPHAN_GRACE_SECONDS', '5');
+    reviewService.reviewDiff.mockImplementation(runUntilCancelled);
+    const job = await service.startDiff({ repoPath: '/repo' });
+
+    service.subscribe(job.id, () => {})!();
+    await vi.advanceTimersByTimeAsync(4_999);
+    expect(service.get(job.id)?.status).toBe('running');
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(service.get(job.id)?.status).toBe('cancelled');
+  });
+
+  it('should keep a running job whose client reattached within the grace period', async () => {
+    vi.useFakeTimers();
+    vi.stubEnv('REVIEW_COUNCIL_ORPHAN_GRACE_SECONDS', '5');
+    reviewService.reviewDiff.mockImplementation(runUntilCancelled);
+    const job = await service.startDiff({ repoPath: '/repo' });
+
+    service.subscribe(job.id, () => {})!();
+    await vi.advanceTimersByTimeAsync(4_000);
+    service.subscribe(job.id, () => {});
+    await vi.advanceTimersByTimeAsync(60_000);
+
+    expect(service.get(job.id)?.status).toBe('running');
+    service.cancel(job.id);
+  });
+
+  it('should validate a client config merged with the server config before queuing', async () => {
+    configService.validate.mockImplementationOnce(() => {
+      throw new Error(
+        'Invalid config (review request): "reviewers" must be a non-empty array',
+      );
+    });
+
+    await expect(
+      service.startDiff({ repoPath: '/repo', config: { reviewers: [] } }),
+    ).rejects.toThrow('"reviewers" must be a non-empty array');
+    expect(configService.validate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        reviewers: [],
+        decisionMaker: { name: 'Claude', cliPath: 'claude', cliArgs: [] },
+      }),
+      'review request',
+    );
+    expect(service.list()).toEqual([]);
+  });
+
+  it('should reject file and codebase requests with malformed lists', async () => {
+    await expect(service.startFile({ filePaths: 'src/a.ts' })).rejects.toThrow(
+      'filePaths must be a non-empty string array',
+    );
+    await expect(service.startFile({ filePaths: [1] })).rejects.toThrow(
+      'filePaths must be a non-empty string array',
+    );
+    await expect(
+      service.startCodebase({ directory: '/repo', extensions: '.ts' }),
+    ).rejects.toThrow('extensions must be a string array');
+    expect(access.resolveAllowedPath).not.toHaveBeenCalled();
+    expect(service.list()).toEqual([]);
+  });
+});
@@ -0,0 +1,624 @@
+import {
+  Injectable,
+  ConsoleLogger,
+  Inject,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { randomUUID } from 'node:crypto';
+import type {
+  DmProgressEvent,
+  ReviewProgressEvent,
+} from '@code-review-council/shared';
+import { ReviewService } from '../../../../src/review/review.service.js';
+import { ReviewResult } from '../../../../src/review/review.types.js';
+import { ConfigService } from '../../../../src/config/config.service.js';
+import { CouncilConfig } from '../../../../src/config/config.types.js';
+import { CheckpointService } from '../../../../src/history/checkpoint.service.js';
+import { AccessService } from '../access/access.service.js';
+import { sanitizeErrorMessage } from '../../../../src/review/retry-utils.js';
+
+/** Reviews running at once unless REVIEW_COUNCIL_MAX_REVIEWS says otherwise; the rest wait in the queue. */
+const DEFAULT_MAX_RUNNING_JOBS = 2;
+/** Finished jobs kept for `GET /reviews`; the oldest are dropped first. */
+const MAX_FINISHED_JOBS = 50;
+/**
+ * Seconds a running job nobody follows any more is kept for a reconnect before
+ * it is cancelled, unless REVIEW_COUNCIL_ORPHAN_GRACE_SECONDS says otherwise.
+ */
+const DEFAULT_ORPHAN_GRACE_SECONDS = 60;
+/** Events buffered per job for replay; beyond this the oldest streamed output is dropped. */
+const MAX_BUFFERED_EVENTS = 5_000;
+/** Streamed output that may be dropped from the buffer; job state, progress and the outcome are always kept. */
+const DROPPABLE_EVENTS = new Set(['delta', 'tool-activity']);
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === 'string');
+}
+
+export type ReviewJobKind = 'diff' | 'file' | 'codebase';
+export type ReviewJobStatus =
+  | 'queued'
+  | 'running'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+/** ReviewService callbacks of a job; every call becomes an event for the job's subscribers. */
+export interface ReviewJobCallbacks {
+  onDelta: (reviewer: string, content: string) => void;
+  onReviewerDone: (
+    reviewer: string,
+    status: 'done' | 'error',
+    durationMs: number,
+    error?: string,
+  ) => void;
+  onToolActivity: (reviewer: string, toolName: string, args?: unknown) => void;
+  onDmStart: (name: string) => void;
+  onDmDelta: (content: string, name?: string) => void;
+}
+
+export type ReviewJobRunner = (
+  callbacks: ReviewJobCallbacks,
+  signal: AbortSignal,
+) => Promise<ReviewResult>;
+
+/** Payload of every job event, by event name. */
+export interface ReviewJobEventData {
+  job: ReviewJobSummary;
+  progress: ReviewProgressEvent;
+  'dm-progress': DmProgressEvent;
+  delta: { reviewer: string; content: string };
+  'tool-activity': { reviewer: string; toolName: string; args?: unknown };
+  result: ReviewResult;
+  error: { message: string };
+  truncated: { message: string };
+}
+
+export type ReviewJobEventName = keyof ReviewJobEventData;
+
+export type ReviewJobEvent = {
+  [E in ReviewJobEventName]: {
+    /**
+     * 1-based position in the job's event log, used to replay what a client
+     * missed. Absent on the `truncated` notice, which is not part of the log.
+     */
+    seq?: number;
+    event: E;
+    data: ReviewJobEventData[E];
+  };
+}[ReviewJobEventName];
+
+export type ReviewJobListener = (event: ReviewJobEvent) => void;
+
+export interface ReviewJobSummary {
+  id: string;
+  kind: ReviewJobKind;
+  status: ReviewJobStatus;
+  /** 1-based position in the queue while queued. */
+  position?: number;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  /** Id of the review result (and its history record) once the job completed. */
+  reviewId?: string;
+  error?: string;
+}
+
+export interface ReviewJobDetail extends ReviewJobSummary {
+  result?: ReviewResult;
+}
+
+interface ReviewJob {
+  id: string;
+  kind: ReviewJobKind;
+  status: ReviewJobStatus;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  /** Reviewer names, reported as 'sending' when the job starts. */
+  reviewers: string[];
+  /** A decision maker started; its `dm-progress` is reported 'done' with the result. */
+  dmStarted: boolean;
+  run: ReviewJobRunner;
+  controller: AbortController;
+  listeners: Set<ReviewJobListener>;
+  /** Events replayed to clients that (re)subscribe; see MAX_BUFFERED_EVENTS. */
+  events: ReviewJobEvent[];
+  /** Seq of the last emitted event. */
+  seq: number;
+  /** Seq of the newest event dropped from `events`; 0 while nothing was dropped. */
+  droppedThroughSeq: number;
+  result?: ReviewResult;
+  error?: string;
+  orphanTimer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Queue of web reviews. At most REVIEW_COUNCIL_MAX_REVIEWS jobs run at once
+ * (AcpService additionally caps agent processes across them); clients follow
+ * a job by subscribing to its events and, after a reconnect, re-subscribe to
+ * replay the ones they missed.
+ */
+@Injectable()
+export class ReviewJobsService implements OnModuleDestroy {
+  private readonly jobs = new Map<string, ReviewJob>();
+  private readonly queue: ReviewJob[] = [];
+  private running = 0;
+
+  constructor(
+    @Inject(ConsoleLogger) private readonly logger: ConsoleLogger,
+    @Inject(ReviewService) private readonly reviewService: ReviewService,
+    @Inject(ConfigService) private readonly configService: ConfigService,
+    @Inject(CheckpointService)
+    private readonly checkpointService: CheckpointService,
+    @Inject(AccessService) private readonly access: AccessService,
+  ) {
+    this.logger.setContext(ReviewJobsService.name);
+  }
+
+  /**
+   * Queue a review from a WebSocket message or REST body; the reviewed paths
+   * and a client-supplied `config` are checked before anything is queued.
+   */
+  async startDiff(data: Record<string, unknown>): Promise<ReviewJobSummary> {
+    await this.assertAllowedPaths([data.repoPath]);
+    const configOverride = this.extractConfig(data);
+    const config = configOverride ?? this.configService.getConfig();
+    return this.submit(
+      'diff',
+      config.reviewers.map((r) => r.name),
+      (callbacks, signal) =>
+        this.reviewService.reviewDiff(
+          data.repoPath as string,
+          (data.baseBranch as string) ?? 'main',
+          (data.checks as string[]) ?? config.review.defaultChecks,
+          data.extra as string | undefined,
+          {
+            ...callbacks,
+            mode: this.resolveMode(data),
+            config: configOverride,
+            signal,
+          },
+        ),
+    );
+  }
+
+  async startFile(data: Record<string, unknown>): Promise<ReviewJobSummary> {
+    if (!isStringArray(data.filePaths) || data.filePaths.length === 0) {
+      throw new Error('filePaths must be a non-empty string array');
+    }
+    await this.assertAllowedPaths(data.filePaths);
+    const configOverride = this.extractConfig(data);
+    const config = configOverride ?? this.configService.getConfig();
+    return this.submit(
+      'file',
+      config.reviewers.map((r) => r.name),
+      (callbacks, signal) =>
+        this.reviewService.reviewFiles(
+          data.filePaths as string[],
+          (data.checks as string[]) ?? config.review.defaultChecks,
+          data.extra as string | undefined,
+          {
+            ...callbacks,
+            mode: this.resolveMode(data),
+            config: configOverride,
+            signal,
+          },
+        ),
+    );
+  }
+
+  async startCodebase(
+    data: Record<string, unknown>,
+  ): Promise<ReviewJobSummary> {
+    if (data.extensions !== undefined && !isStringArray(data.extensions)) {
+      throw new Error('extensions must be a string array');
+    }
+    await this.assertAllowedPaths([data.directory]);
+    const configOverride = this.extractConfig(data);
+    const config = configOverride ?? this.configService.getConfig();
+    return this.submit(
+      'codebase',
+      config.reviewers.map((r) => r.name),
+      (callbacks, signal) =>
+        this.reviewService.reviewCodebase(
+          data.directory as string,
+          {
+            extensions: (data.extensions as string[] | undefined)?.map((e) =>
+              e.startsWith('.') ? e : `.${e}`,
+            ),
+            maxBatchSize: data.batchSize as number | undefined,
+          },
+          (data.checks as string[]) ?? config.review.defaultChecks,
+          data.extra as string | undefined,
+          {
+            ...callbacks,
+            mode: this.resolveMode(data),
+            config: configOverride,
+            signal,
+          },
+        ),
+    );
+  }
+
+  async resumeCodebase(
+    data: Record<string, unknown>,
+  ): Promise<ReviewJobSummary> {
+    const reviewId = data.reviewId as string;
+    const checkpoint = await this.checkpointService.get(reviewId);
+    if (!checkpoint) {
+      throw new Error(`No checkpoint found for review "${reviewId}"`);
+    }
+    await this.assertAllowedPaths([checkpoint.request.directory ?? '.']);
+    return this.submit(
+      'codebase',
+      checkpoint.config.reviewers.map((r) => r.name),
+      (callbacks, signal) =>
+        this.reviewService.resumeCodebase(reviewId, { ...callbacks, signal }),
+    );
+  }
+
+  private submit(
+    kind: ReviewJobKind,
+    reviewers: string[],
+    run: ReviewJobRunner,
+  ): ReviewJobSummary {
+    const job: ReviewJob = {
+      id: `job-${randomUUID().slice(0, 8)}`,
+      kind,
+      status: 'queued',
+      createdAt: new Date().toISOString(),
+      reviewers,
+      dmStarted: false,
+      run,
+      controller: new AbortController(),
+      listeners: new Set(),
+      events: [],
+      seq: 0,
+      droppedThroughSeq: 0,
+    };
+    this.jobs.set(job.id, job);
+    this.queue.push(job);
+    this.emit(job, 'job', this.toSummary(job));
+    this.logger.log(`Queued ${kind} review job ${job.id}`);
+    this.drain();
+    return this.toSummary(job);
+  }
+
+  /**
+   * Follow a job: the listener first gets the buffered events after
+   * `lastSeq` (all of them by default), then every later event. When some of
+   * the missed streamed output is no longer buffered, the replay starts with a
+   * `truncated` notice. Returns the unsubscribe function, or null for an
+   * unknown job. When the last listener unsubscribes, a queued job is
+   * cancelled at once and a running one after the orphan grace period.
+   */
+  subscribe(
+    id: string,
+    listener: ReviewJobListener,
+    lastSeq = 0,
+  ): (() => void) | null {
+    const job = this.jobs.get(id);
+    if (!job) return null;
+    clearTimeout(job.orphanTimer);
+    job.orphanTimer = undefined;
+    if (lastSeq < job.droppedThroughSeq) {
+      listener({
+        event: 'truncated',
+        data: {
+          message:
+            'Part of the streamed output is no longer available; the final result is complete.',
+        },
+      });
+    }
+    for (const event of job.events) {
+      if (event.seq! > lastSeq) listener(event);
+    }
+    if (this.isFinished(job)) return () => {};
+    job.listeners.add(listener);
+    return () => {
+      job.listeners.delete(listener);
+      if (job.listeners.size > 0 || this.isFinished(job)) return;
+      const cancelOrphan = () => {
+        this.logger.warn(`Cancelling job ${job.id}: no client attached`);
+        this.cancel(job.id);
+      };
+      const graceMs = this.orphanGraceMs();
+      // A queued job has cost nothing yet, so it is not kept for a reconnect
+      if (job.status === 'queued' || graceMs === 0) cancelOrphan();
+      else job.orphanTimer = setTimeout(cancelOrphan, graceMs);
+    };
+  }
+
+  /** Returns false for an unknown or already finished job. */
+  cancel(id: string): boolean {
+    const job = this.jobs.get(id);
+    if (!job || this.isFinished(job)) return false;
+    clearTimeout(job.orphanTimer);
+    if (job.status === 'queued') {
+      this.queue.splice(this.queue.indexOf(job), 1);
+      this.finish(job, 'cancelled', undefined, 'Review cancelled');
+      this.emitPositions();
+      return true;
+    }
+    job.controller.abort();
+    return true;
+  }
+
+  /** Newest first. */
+  list(): ReviewJobSummary[] {
+    return [...this.jobs.values()].reverse().map((job) => this.toSummary(job));
+  }
+
+  get(id: string): ReviewJobDetail | null {
+    const job = this.jobs.get(id);
+    if (!job) return null;
+    return {
+      ...this.toSummary(job),
+      ...(job.result ? { result: job.result } : {}),
+    };
+  }
+
+  onModuleDestroy(): void {
+    for (const job of this.jobs.values()) {
+      clearTimeout(job.orphanTimer);
+      job.controller.abort();
+    }
+  }
+
+  private async assertAllowedPaths(paths: unknown[]): Promise<void> {
+    if (paths.length === 0) throw new Error('No paths to review');
+    for (const path of paths) {
+      if (typeof path !== 'string' || !path) {
+        throw new Error('Review paths must be non-empty strings');
+      }
+      await this.access.resolveAllowedPath(path);
+    }
+  }
+
+  private resolveMode(
+    data: Record<string, unknown>,
+  ): 'inline' | 'batch' | 'explore' | undefined {
+    const mode = data.analysisMode;
+    if (mode === 'inline' || mode === 'batch' || mode === 'explore')
+      return mode;
+    return undefined;
+  }
+
+  private extractConfig(
+    data: Record<string, unknown>,
+  ): CouncilConfig | undefined {
+    if (
+      data.config &&
+      typeof data.config === 'object' &&
+      !Array.isArray(data.config)
+    ) {
+      const partial = data.config as Partial<CouncilConfig>;
+      if (!partial.decisionMaker) {
+        const serverCfg = this.configService.getConfig();
+        const merged = {
+          ...serverCfg,
+          ...partial,
+          decisionMaker: serverCfg.decisionMaker,
+        };
+        this.configService.validate(merged, 'review request');
+        this.assertKnownHttpReviewers(merged);
+        return merged;
+      }
+      this.configService.validate(data.config, 'review request');
+      this.assertKnownHttpReviewers(data.config as CouncilConfig);
+      return data.config as CouncilConfig;
+    }
+    return undefined;
+  }
+
+  /**
+   * HTTP reviewers send the key from `apiKeyEnv` to `baseUrl`, so a client-supplied
+   * config may only use endpoint/key pairs that the server config already defines.
+   */
+  private assertKnownHttpReviewers(config: CouncilConfig): void {
+    const serverCfg = this.configService.getConfig();
+    const endpointKey = (r: { baseUrl?: string; apiKeyEnv?: string }) =>
+      `${r.baseUrl ?? ''}\n${r.apiKeyEnv ?? ''}`;
+    const allowed = new Set(
+      [
+        ...serverCfg.reviewers,
+        serverCfg.decisionMaker,
+        ...(serverCfg.decisionMakers ?? []),
+        ...(serverCfg.fix?.agent ? [serverCfg.fix.agent] : []),
+      ]
+        .filter((r) => r.protocol === 'http')
+        .map(endpointKey),
+    );
+    for (const r of [
+      ...(config.reviewers ?? []),
+      config.decisionMaker,
+      ...(config.decisionMakers ?? []),
+      config.fix?.agent,
+    ]) {
+      if (r?.protocol === 'http' && !allowed.has(endpointKey(r))) {
+        throw new Error(
+          `HTTP reviewer "${r.name}" must use a baseUrl/apiKeyEnv defined in the server config`,
+        );
+      }
+    }
+  }
+
+  /** Resolved per call so REVIEW_COUNCIL_MAX_REVIEWS changes are honoured. */
+  private maxRunning(): number {
+    const raw = process.env.REVIEW_COUNCIL_MAX_REVIEWS?.trim();
+    return raw && /^[1-9]\d*$/.test(raw)
+      ? Number(raw)
+      : DEFAULT_MAX_RUNNING_JOBS;
+  }
+
+  /** Resolved per call so REVIEW_COUNCIL_ORPHAN_GRACE_SECONDS changes are honoured. */
+  private orphanGraceMs(): number {
+    const raw = process.env.REVIEW_COUNCIL_ORPHAN_GRACE_SECONDS?.trim();
+    const seconds =
+      raw && /^\d+$/.test(raw) ? Number(raw) : DEFAULT_ORPHAN_GRACE_SECONDS;
+    return seconds * 1000;
+  }
+
+  private drain(): void {
+    while (this.running < this.maxRunning() && this.queue.length > 0) {
+      const job = this.queue.shift()!;
+      this.running++;
+      void this.start(job);
+    }
+    this.emitPositions();
+  }
+
+  private async start(job: ReviewJob): Promise<void> {
+    job.status = 'running';
+    job.startedAt = new Date().toISOString();
+    this.logger.log(`Starting review job ${job.id}`);
+    this.emit(job, 'job', this.toSummary(job));
+    for (const reviewer of job.reviewers) {
+      this.emit(job, 'progress', {
+        reviewer,
+        status: 'sending',
+        timestamp: new Date().toISOString(),
+      });
+    }
+    try {
+      const result = await job.run(this.callbacks(job), job.controller.signal);
+      if (job.dmStarted) {
+        this.emit(job, 'dm-progress', {
+          status: 'done',
+          timestamp: new Date().toISOString(),
+        });
+      }
+      this.finish(job, 'completed', result);
+    } catch (error) {
+      const cancelled = job.controller.signal.aborted;
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      if (!cancelled) {
+        this.logger.error(
+          `Review job ${job.id} failed: ${sanitizeErrorMessage(error)}`,
+        );
+      }
+      this.finish(
+        job,
+        cancelled ? 'cancelled' : 'failed',
+        undefined,
+        cancelled ? 'Review cancelled' : message,
+      );
+    } finally {
+      this.running--;
+      this.drain();
+    }
+  }
+
+  private finish(
+    job: ReviewJob,
+    status: ReviewJobStatus,
+    result?: ReviewResult,
+    error?: string,
+  ): void {
+    job.status = status;
+    job.finishedAt = new Date().toISOString();
+    job.result = result;
+    job.error = error;
+    this.emit(job, 'job', this.toSummary(job));
+    if (result) {
+      this.emit(job, 'result', result);
+    } else if (error) {
+      this.emit(job, 'error', { message: error });
+    }
+    job.listeners.clear();
+    this.prune();
+  }
+
+  private callbacks(job: ReviewJob): ReviewJobCallbacks {
+    let dmName = 'Decision Maker';
+    return {
+      onDelta: (reviewer, content) =>
+        this.emit(job, 'delta', { reviewer, content }),
+      onReviewerDone: (reviewer, status, durationMs, error) =>
+        this.emit(job, 'progress', {
+          reviewer,
+          status,
+          durationMs,
+          error,
+          timestamp: new Date().toISOString(),
+        }),
+      onToolActivity: (reviewer, toolName, args) =>
+        this.emit(job, 'tool-activity', { reviewer, toolName, args }),
+      onDmStart: (name) => {
+        dmName = name;
+        const timestamp = new Date().toISOString();
+        this.emit(job, 'progress', {
+          reviewer: name,
+          status: 'sending',
+          timestamp,
+        });
+        if (!job.dmStarted) {
+          job.dmStarted = true;
+          this.emit(job, 'dm-progress', { status: 'sending', timestamp });
+        }
+      },
+      onDmDelta: (content, name) =>
+        this.emit(job, 'delta', { reviewer: name ?? dmName, content }),
+    };
+  }
+
+  private emit<E extends ReviewJobEventName>(
+    job: ReviewJob,
+    event: E,
+    data: ReviewJobEventData[E],
+  ): void {
+    const entry = { seq: ++job.seq, event, data } as ReviewJobEvent;
+    job.events.push(entry);
+    if (job.events.length > MAX_BUFFERED_EVENTS) this.trimEvents(job);
+    for (const listener of job.listeners) listener(entry);
+  }
+
+  /** Drop the oldest streamed output until a quarter of the buffer is free again. */
+  private trimEvents(job: ReviewJob): void {
+    let excess = job.events.length - Math.floor(MAX_BUFFERED_EVENTS * 0.75);
+    job.events = job.events.filter((entry) => {
+      if (excess <= 0 || !DROPPABLE_EVENTS.has(entry.event)) return true;
+      excess--;
+      job.droppedThroughSeq = entry.seq!;
+      return false;
+    });
+  }
+
+  /** Tell queued jobs' subscribers where they stand after the queue moved. */
+  private emitPositions(): void {
+    for (const job of this.queue) {
+      this.emit(job, 'job', this.toSummary(job));
+    }
+  }
+
+  /** Completed, failed or cancelled; its `result` or `error` event is the last one. */
+  private isFinished(job: ReviewJob): boolean {
+    return !!(job.result || job.error);
+  }
+
+  private prune(): void {
+    const finished = [...this.jobs.values()].filter((j) => this.isFinished(j));
+    for (const job of finished.slice(
+      0,
+      Math.max(0, finished.length - MAX_FINISHED_JOBS),
+    )) {
+      this.jobs.delete(job.id);
+    }
+  }
+
+  private toSummary(job: ReviewJob): ReviewJobSummary {
+    const position = this.queue.indexOf(job);
+    return {
+      id: job.id,
+      kind: job.kind,
+      status: job.status,
+      ...(position >= 0 ? { position: position + 1 } : {}),
+      createdAt: job.createdAt,
+      ...(job.startedAt ? { startedAt: job.startedAt } : {}),
+      ...(job.finishedAt ? { finishedAt: job.finishedAt } : {}),
+      ...(job.result ? { reviewId: job.result.id } : {}),
+      ...(job.error ? { error: job.error } : {}),
+    };
+  }
+}
@@ -0,0 +1,135 @@
+import type { IncomingMessage } from 'node:http';
+import { WebSocket } from 'ws';
+import { ReviewGateway } from './review.gateway.js';
+import { ReviewJobsService } from './review-jobs.service.js';
+import { AccessService } from '../access/access.service.js';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+describe('ReviewGateway', () => {
+  const access = {
+    isValidToken: vi.fn((token?: string) => token === 'secret-token'),
+  };
+  const jobs = { subscribe: vi.fn(), cancel: vi.fn(), startDiff: vi.fn() };
+  let gateway: ReviewGateway;
+  let client: {
+    close: ReturnType<typeof vi.fn>;
+    on: ReturnType<typeof vi.fn>;
+    send: ReturnType<typeof vi.fn>;
+    readyState: number;
+  };
+
+  const connect = (url: string) =>
+    gateway.handleConnection(
+      client as unknown as WebSocket,
+      {
+        url,
+        headers: {},
+      } as IncomingMessage,
+    );
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    gateway = new ReviewGateway(
+      jobs as unknown as ReviewJobsService,
+      access as unknown as AccessService,
+    );
+    client = {
+      close: vi.fn(),
+      on: vi.fn(),
+      send: vi.fn(),
+      readyState: WebSocket.OPEN,
+    };
+  });
+
+  /** Deliver a raw message to the connected client's handler and let it settle. */
+  const receive = async (raw: string) => {
+    const onMessage = client.on.mock.calls.find(
+      ([name]) => name === 'message',
+    )![1] as (raw: string) => void;
+    onMessage(raw);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  };
+  const sent = (): unknown[] =>
+    client.send.mock.calls.map(
+      ([json]) => JSON.parse(json as string) as unknown,
+    );
+
+  it('should accept a connection with the token', () => {
+    connect('/ws/reviews?token=secret-token');
+
+    expect(client.close).not.toHaveBeenCalled();
+    expect(client.on).toHaveBeenCalledWith('message', expect.any(Function));
+  });
+
+  it('should close a connection with a missing or invalid token', () => {
+    connect('/ws/reviews');
+    connect('/ws/reviews?token=wrong');
+
+    expect(client.close).toHaveBeenCalledTimes(2);
+    expect(client.close).toHaveBeenCalledWith(
+      1008,
+      'Missing or invalid API token',
+    );
+    expect(client.on).not.toHaveBeenCalled();
+  });
+
+  it('should answer malformed messages with an error', async () => {
+    connect('/ws/reviews?token=secret-token');
+    await receive('{"event":"attach"}');
+    await receive('{"event":"start:diff","data":"/repo"}');
+    await receive('null');
+
+    expect(sent()).toEqual([
+      { event: 'error', data: { message: 'attach needs a jobId' } },
+      {
+        event: 'error',
+        data: {
+          message: 'A message must be { "event": string, "data"?: object }',
+        },
+      },
+      {
+        event: 'error',
+        data: {
+          message: 'A message must be { "event": string, "data"?: object }',
+        },
+      },
+    ]);
+    expect(jobs.startDiff).not.toHaveBeenCalled();
+  });
+
+  it('should report an unexpected failure as an error', async () => {
+    jobs.subscribe.mockImplementation(() => {
+      throw new Error('Subscriber failed');
+    });
+    connect('/ws/reviews?token=secret-token');
+    await receive('{"event":"attach","data":{"jobId":"job-1"}}');
+
+    expect(sent()).toEqual([
+      { event: 'error', data: { message: 'Subscriber failed' } },
+    ]);
+  });
+
+  it('should cancel a job whose cancel arrived while its start was checked', async () => {
+    let queue!: (job: { id: string }) => void;
+    jobs.startDiff.mockReturnValue(
+      new Promise((resolve) => {
+        queue = resolve;
+      }),
+    );
+    jobs.subscribe.mockReturnValue(() => {});
+    connect('/ws/reviews?token=secret-token');
+    await receive('{"event":"start:diff","data":{"repoPath":"/repo"}}');
+    await receive('{"event":"cancel"}');
+    expect(jobs.cancel).not.toHaveBeenCalled();
+
+    queue({ id: 'job-1' });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(jobs.cancel).toHaveBeenCalledWith('job-1');
+    expect(jobs.subscribe).toHaveBeenCalledWith(
+      'job-1',
+      expect.any(Function),
+      0,
+    );
+  });
+});
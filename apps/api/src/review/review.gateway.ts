@@ -3,208 +3,168 @@ import {
   OnGatewayConnection,
 } from '@nestjs/websockets';
 import { WebSocket } from 'ws';
-import { ReviewService } from '../../../../src/review/review.service.js';
-import { ConfigService } from '../../../../src/config/config.service.js';
+import type { IncomingMessage } from 'node:http';
+import { ReviewJobsService, ReviewJobSummary } from './review-jobs.service.js';
+import { AccessService } from '../access/access.service.js';
+import { extractToken } from '../access/api-token.guard.js';
 
 interface WsIncoming {
   event: string;
-  data: Record<string, unknown>;
+  data?: Record<string, unknown>;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
 }
 
 @WebSocketGateway({ path: '/ws/reviews' })
 export class ReviewGateway implements OnGatewayConnection {
+  /**
+   * Review job each socket follows; `cancel` cancels it. Closing the socket
+   * detaches, and ReviewJobsService cancels a job nobody follows any more.
+   */
+  private readonly attached = new Map<
+    WebSocket,
+    { jobId: string; unsubscribe: () => void }
+  >();
+  /** Sockets whose `start:*` is still being checked; `cancelled` once they sent `cancel` meanwhile. */
+  private readonly starting = new Map<WebSocket, { cancelled: boolean }>();
+
   constructor(
-    private readonly reviewService: ReviewService,
-    private readonly configService: ConfigService,
+    private readonly jobs: ReviewJobsService,
+    private readonly access: AccessService,
   ) {}
 
-  handleConnection(client: WebSocket): void {
+  handleConnection(client: WebSocket, request: IncomingMessage): void {
+    if (!this.access.isValidToken(extractToken(request))) {
+      client.close(1008, 'Missing or invalid API token');
+      return;
+    }
     client.on('message', (raw: Buffer | string) => {
-      let msg: WsIncoming;
+      let msg: unknown;
       try {
         msg = JSON.parse(typeof raw === 'string' ? raw : raw.toString());
       } catch {
         this.send(client, 'error', { message: 'Invalid JSON' });
         return;
       }
-      this.handleMessage(client, msg).catch(() => {});
+      if (
+        !isRecord(msg) ||
+        typeof msg.event !== 'string' ||
+        (msg.data !== undefined && !isRecord(msg.data))
+      ) {
+        this.send(client, 'error', {
+          message: 'A message must be { "event": string, "data"?: object }',
+        });
+        return;
+      }
+      this.handleMessage(client, msg as unknown as WsIncoming).catch(
+        (error: unknown) =>
+          this.send(client, 'error', { message: errorMessage(error) }),
+      );
     });
+    client.on('close', () => this.detach(client));
   }
 
   private async handleMessage(
     client: WebSocket,
     msg: WsIncoming,
   ): Promise<void> {
-    const { event, data } = msg;
+    const { event, data = {} } = msg;
 
     switch (event) {
       case 'start:codebase':
-        await this.runCodebaseReview(client, data);
+        await this.start(client, () => this.jobs.startCodebase(data));
         break;
       case 'start:diff':
-        await this.runDiffReview(client, data);
+        await this.start(client, () => this.jobs.startDiff(data));
         break;
       case 'start:file':
-        await this.runFileReview(client, data);
+        await this.start(client, () => this.jobs.startFile(data));
+        break;
+      case 'resume:codebase':
+        await this.start(client, () => this.jobs.resumeCodebase(data));
+        break;
+      case 'attach':
+        if (typeof data.jobId !== 'string') {
+          this.send(client, 'error', { message: 'attach needs a jobId' });
+          break;
+        }
+        this.attach(client, data.jobId, Number(data.lastSeq) || 0);
+        break;
+      case 'cancel':
+        this.cancel(client);
         break;
       default:
         this.send(client, 'error', { message: `Unknown event: ${event}` });
     }
   }
 
-  private createCallbacks(client: WebSocket) {
-    const onDelta = (reviewer: string, content: string) => {
-      this.send(client, 'delta', { reviewer, content });
-    };
-    const onReviewerDone = (reviewer: string, status: 'done' | 'error', durationMs: number, error?: string) => {
-      this.send(client, 'progress', {
-        reviewer,
-        status,
-        durationMs,
-        error,
-        timestamp: new Date().toISOString(),
-      });
-    };
-    const onToolActivity = (reviewer: string, toolName: string, args?: unknown) => {
-      this.send(client, 'tool-activity', { reviewer, toolName, args });
-    };
-    let dmName = 'Decision Maker';
-    const onDmStart = (name: string) => {
-      dmName = name;
-      this.send(client, 'progress', { reviewer: name, status: 'sending', timestamp: new Date().toISOString() });
-    };
-    const onDmDelta = (content: string) => {
-      this.send(client, 'delta', { reviewer: dmName, content });
-    };
-    return { onDelta, onReviewerDone, onToolActivity, onDmStart, onDmDelta };
-  }
-
-  private sendInitialProgress(client: WebSocket, config: import('../../../../src/config/config.types.js').CouncilConfig): void {
-    for (const r of config.reviewers) {
-      this.send(client, 'progress', {
-        reviewer: r.name,
-        status: 'sending',
-        timestamp: new Date().toISOString(),
-      });
-    }
-  }
-
-  private resolveMode(data: Record<string, unknown>): 'inline' | 'batch' | 'explore' | undefined {
-    const mode = data.analysisMode;
-    if (mode === 'inline' || mode === 'batch' || mode === 'explore') return mode;
-    return undefined;
-  }
-
-  private extractConfig(data: Record<string, unknown>): import('../../../../src/config/config.types.js').CouncilConfig | undefined {
-    if (data.config && typeof data.config === 'object' && !Array.isArray(data.config)) {
-      type CouncilConfig = import('../../../../src/config/config.types.js').CouncilConfig;
-      const partial = data.config as Partial<CouncilConfig>;
-      if (!partial.decisionMaker) {
-        const serverCfg = this.configService.getConfig();
-        return { ...serverCfg, ...partial, decisionMaker: serverCfg.decisionMaker };
-      }
-      return data.config as CouncilConfig;
-    }
-    return undefined;
-  }
-
-  private async runDiffReview(
+  /**
+   * Queue a review job and follow it; the first event the socket gets is its
+   * `job` state. A `cancel` sent while the request was being checked, or a
+   * socket closed before it learned the job id, cancels the job right away.
+   */
+  private async start(
     client: WebSocket,
-    data: Record<string, unknown>,
+    submit: () => Promise<ReviewJobSummary>,
   ): Promise<void> {
+    const pending = { cancelled: false };
+    this.starting.set(client, pending);
+    let job: ReviewJobSummary;
     try {
-      const configOverride = this.extractConfig(data);
-      const config = configOverride ?? this.configService.getConfig();
-      this.sendInitialProgress(client, config);
-      const { onDelta, onReviewerDone, onToolActivity, onDmStart, onDmDelta } = this.createCallbacks(client);
-      const result = await this.reviewService.reviewDiff(
-        data.repoPath as string,
-        (data.baseBranch as string) ?? 'main',
-        (data.checks as string[]) ?? config.review.defaultChecks,
-        data.extra as string | undefined,
-        onDelta,
-        onReviewerDone,
-        onToolActivity,
-        this.resolveMode(data),
-        configOverride,
-        onDmDelta,
-        onDmStart,
-      );
-      this.send(client, 'result', result);
+      job = await submit();
     } catch (error) {
-      this.send(client, 'error', {
-        message: error instanceof Error ? error.message : 'Unknown error',
-      });
+      this.send(client, 'error', { message: errorMessage(error) });
+      return;
+    } finally {
+      if (this.starting.get(client) === pending) this.starting.delete(client);
     }
+    const open = client.readyState === WebSocket.OPEN;
+    if (pending.cancelled || !open) this.jobs.cancel(job.id);
+    if (open) this.attach(client, job.id);
   }
 
-  private async runFileReview(
-    client: WebSocket,
-    data: Record<string, unknown>,
-  ): Promise<void> {
-    try {
-      const configOverride = this.extractConfig(data);
-      const config = configOverride ?? this.configService.getConfig();
-      this.sendInitialProgress(client, config);
-      const { onDelta, onReviewerDone, onToolActivity, onDmStart, onDmDelta } = this.createCallbacks(client);
-      const result = await this.reviewService.reviewFiles(
-        data.filePaths as string[],
-        (data.checks as string[]) ?? config.review.defaultChecks,
-        data.extra as string | undefined,
-        onDelta,
-        onReviewerDone,
-        onToolActivity,
-        this.resolveMode(data),
-        configOverride,
-        onDmDelta,
-        onDmStart,
-      );
-      this.send(client, 'result', result);
-    } catch (error) {
-      this.send(client, 'error', {
-        message: error instanceof Error ? error.message : 'Unknown error',
-      });
+  /** Follow a job, e.g. after a reconnect; events after `lastSeq` are replayed first. */
+  private attach(client: WebSocket, jobId: string, lastSeq = 0): void {
+    this.detach(client);
+    const unsubscribe = this.jobs.subscribe(
+      jobId,
+      ({ seq, event, data }) => this.send(client, event, data, seq),
+      lastSeq,
+    );
+    if (!unsubscribe) {
+      this.send(client, 'error', { message: `Unknown review job: ${jobId}` });
+      return;
     }
+    this.attached.set(client, { jobId, unsubscribe });
   }
 
-  private async runCodebaseReview(
-    client: WebSocket,
-    data: Record<string, unknown>,
-  ): Promise<void> {
-    try {
-      const configOverride = this.extractConfig(data);
-      const config = configOverride ?? this.configService.getConfig();
-      this.sendInitialProgress(client, config);
-      const { onDelta, onReviewerDone, onToolActivity, onDmStart, onDmDelta } = this.createCallbacks(client);
-      const result = await this.reviewService.reviewCodebase(
-        data.directory as string,
-        {
-          extensions: (data.extensions as string[] | undefined)?.map((e) =>
-            e.startsWith('.') ? e : `.${e}`,
-          ),
-          maxBatchSize: data.batchSize as number | undefined,
-        },
-        (data.checks as string[]) ?? config.review.defaultChecks,
-        data.extra as string | undefined,
-        onDelta,
-        onReviewerDone,
-        onToolActivity,
-        this.resolveMode(data),
-        configOverride,
-        onDmDelta,
-        onDmStart,
-      );
-      this.send(client, 'result', result);
-    } catch (error) {
-      this.send(client, 'error', {
-        message: error instanceof Error ? error.message : 'Unknown error',
-      });
-    }
+  private detach(client: WebSocket): void {
+    this.attached.get(client)?.unsubscribe();
+    this.attached.delete(client);
+  }
+
+  private cancel(client: WebSocket): void {
+    const attached = this.attached.get(client);
+    if (attached) this.jobs.cancel(attached.jobId);
+    const pending = this.starting.get(client);
+    if (pending) pending.cancelled = true;
   }
 
-  private send(client: WebSocket, event: string, data: unknown): void {
+  /** Job events carry their `seq` so the client can resume from the last one it saw. */
+  private send(
+    client: WebSocket,
+    event: string,
+    data: unknown,
+    seq?: number,
+  ): void {
     if (client.readyState === WebSocket.OPEN) {
-      client.send(JSON.stringify({ event, data }));
+      client.send(JSON.stringify({ event, data, seq }));
     }
   }
 }
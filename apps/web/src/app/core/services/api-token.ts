@@ -0,0 +1,25 @@
+import { HttpInterceptorFn } from '@angular/common/http';
+
+const TOKEN_STORAGE_KEY = 'review-council-api-token';
+
+/**
+ * API token from the `?token=` link printed by `srvctl.sh start`, remembered
+ * so later visits without the query parameter keep working.
+ */
+export function getApiToken(): string | null {
+  const fromUrl = new URLSearchParams(location.search).get('token');
+  if (fromUrl) {
+    localStorage.setItem(TOKEN_STORAGE_KEY, fromUrl);
+    return fromUrl;
+  }
+  return localStorage.getItem(TOKEN_STORAGE_KEY);
+}
+
+export const apiTokenInterceptor: HttpInterceptorFn = (req, next) => {
+  const token = getApiToken();
+  return next(
+    token
+      ? req.clone({ setHeaders: { Authorization: `Bearer ${token}` } })
+      : req,
+  );
+};
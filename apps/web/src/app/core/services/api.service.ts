@@ -6,7 +6,9 @@ import {
   CouncilConfig,
   ReviewResult,
   ReviewProgressEvent,
+  ReviewJob,
 } from './review-store.service';
+import { getApiToken } from './api-token';
 
 const API_BASE = '/api';
 
@@ -26,15 +28,76 @@ export interface AgentDetectionResult {
   version?: string;
 }
 
+export interface ReviewHistorySummary {
+  id: string;
+  createdAt: string;
+  kind: 'diff' | 'file' | 'codebase';
+  target: string;
+  status: ReviewResult['status'];
+  reviewers: string[];
+  decisionCount: number;
+  durationMs?: number;
+}
+
+export interface ReviewCheckpointSummary {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  target: string;
+  reviewers: string[];
+  totalBatches: number;
+  completedBatches: number;
+}
+
+export interface ReviewHistoryRecord {
+  id: string;
+  createdAt: string;
+  request: {
+    kind: 'diff' | 'file' | 'codebase';
+    mode: 'inline' | 'batch' | 'explore';
+    checks: string[];
+    extraInstructions?: string;
+    repoPath?: string;
+    baseBranch?: string;
+    filePaths?: string[];
+    directory?: string;
+    extensions?: string[];
+    maxBatchSize?: number;
+  };
+  config: CouncilConfig;
+  result: ReviewResult;
+}
+
+/** Reconnect attempts after the socket drops mid-review, with exponential backoff. */
+const MAX_RECONNECT_ATTEMPTS = 8;
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30_000;
+
 interface WsMessage {
   event: string;
   data: unknown;
+  /** Position in the job's event log; absent on errors not tied to a job and on `truncated` notices. */
+  seq?: number;
+}
+
+/** Review the UI is following, kept across reconnects. */
+interface ReviewStream {
+  jobId?: string;
+  /** Last job event received; a reconnect replays everything after it. */
+  lastSeq: number;
+  completed: boolean;
+  attempts: number;
+  /** Cancel asked for while no socket was open; sent as soon as one is. */
+  cancelRequested: boolean;
 }
 
 @Injectable({ providedIn: 'root' })
 export class ApiService {
   private readonly http = inject(HttpClient);
   private readonly store = inject(ReviewStore);
+  /** Socket of the running review, used to cancel it. */
+  private ws: WebSocket | null = null;
+  private stream: ReviewStream | null = null;
 
   async listDirectory(path: string): Promise<DirectoryEntry[]> {
     return firstValueFrom(
@@ -76,6 +139,44 @@ export class ApiService {
     );
   }
 
+  async listHistory(): Promise<ReviewHistorySummary[]> {
+    return firstValueFrom(
+      this.http.get<ReviewHistorySummary[]>(`${API_BASE}/history`),
+    );
+  }
+
+  async getHistory(id: string): Promise<ReviewHistoryRecord> {
+    return firstValueFrom(
+      this.http.get<ReviewHistoryRecord>(
+        `${API_BASE}/history/${encodeURIComponent(id)}`,
+      ),
+    );
+  }
+
+  async deleteHistory(id: string): Promise<{ success: boolean }> {
+    return firstValueFrom(
+      this.http.delete<{ success: boolean }>(
+        `${API_BASE}/history/${encodeURIComponent(id)}`,
+      ),
+    );
+  }
+
+  async listCheckpoints(): Promise<ReviewCheckpointSummary[]> {
+    return firstValueFrom(
+      this.http.get<ReviewCheckpointSummary[]>(
+        `${API_BASE}/history/checkpoints`,
+      ),
+    );
+  }
+
+  async deleteCheckpoint(id: string): Promise<{ success: boolean }> {
+    return firstValueFrom(
+      this.http.delete<{ success: boolean }>(
+        `${API_BASE}/history/checkpoints/${encodeURIComponent(id)}`,
+      ),
+    );
+  }
+
   startCodebaseReview(params: {
     directory: string;
     extensions?: string[];
@@ -90,6 +191,12 @@ export class ApiService {
     this.connectWs('start:codebase', params);
   }
 
+  resumeCodebaseReview(reviewId: string): void {
+    this.store.reset();
+    this.store.isReviewing.set(true);
+    this.connectWs('resume:codebase', { reviewId });
+  }
+
   startDiffReview(params: {
     repoPath: string;
     baseBranch?: string;
@@ -115,13 +222,48 @@ export class ApiService {
     this.connectWs('start:file', params);
   }
 
+  /**
+   * Ask the server to stop the running review; it answers with a "Review
+   * cancelled" error. While reconnecting, the cancel follows the `attach`.
+   */
+  cancelReview(): void {
+    const stream = this.stream;
+    if (!stream || stream.completed) return;
+    if (this.ws?.readyState === WebSocket.OPEN) {
+      this.ws.send(JSON.stringify({ event: 'cancel', data: {} }));
+    } else {
+      stream.cancelRequested = true;
+    }
+  }
+
   private connectWs(event: string, data: Record<string, unknown>): void {
+    const stream: ReviewStream = {
+      lastSeq: 0,
+      completed: false,
+      attempts: 0,
+      cancelRequested: false,
+    };
+    this.stream = stream;
+    this.ws?.close();
+    this.openWs(stream, { event, data });
+  }
+
+  /** Open a socket for the stream; after a drop, `attach` replays the events missed since `lastSeq`. */
+  private openWs(stream: ReviewStream, first: WsMessage): void {
     const protocol = location.protocol === 'https:' ? 'wss:' : 'ws:';
-    const ws = new WebSocket(`${protocol}//${location.host}/ws/reviews`);
-    let completed = false;
+    const token = getApiToken();
+    const query = token ? `?token=${encodeURIComponent(token)}` : '';
+    const ws = new WebSocket(
+      `${protocol}//${location.host}/ws/reviews${query}`,
+    );
+    this.ws = ws;
 
     ws.onopen = () => {
-      ws.send(JSON.stringify({ event, data }));
+      ws.send(JSON.stringify(first));
+      if (stream.cancelRequested) {
+        stream.cancelRequested = false;
+        ws.send(JSON.stringify({ event: 'cancel', data: {} }));
+      }
     };
 
     ws.onmessage = (ev: MessageEvent) => {
@@ -131,8 +273,20 @@ export class ApiService {
       } catch {
         return;
       }
+      stream.attempts = 0;
+      this.store.reconnecting.set(false);
+      if (msg.seq !== undefined) {
+        if (msg.seq <= stream.lastSeq) return;
+        stream.lastSeq = msg.seq;
+      }
 
       switch (msg.event) {
+        case 'job': {
+          const job = msg.data as ReviewJob;
+          stream.jobId = job.id;
+          this.store.job.set(job);
+          break;
+        }
         case 'progress':
           this.store.updateProgress(msg.data as ReviewProgressEvent);
           break;
@@ -141,19 +295,22 @@ export class ApiService {
           this.store.appendDelta(delta.reviewer, delta.content);
           break;
         }
+        case 'truncated':
+          this.store.outputTruncated.set(true);
+          break;
         case 'tool-activity': {
           const activity = msg.data as { reviewer: string; toolName: string; args?: unknown };
           this.store.updateToolActivity(activity.reviewer, activity.toolName, activity.args);
           break;
         }
         case 'result':
-          completed = true;
+          stream.completed = true;
           this.store.result.set(msg.data as ReviewResult);
           this.store.isReviewing.set(false);
           ws.close();
           break;
         case 'error':
-          completed = true;
+          stream.completed = true;
           this.store.error.set(
             (msg.data as { message: string }).message,
           );
@@ -164,17 +321,36 @@ export class ApiService {
     };
 
     ws.onerror = () => {
-      if (!completed) {
+      // Before the server accepted the review there is no job to reattach to
+      if (!stream.completed && !stream.jobId && this.stream === stream) {
+        stream.completed = true;
         this.store.error.set('WebSocket connection error');
         this.store.isReviewing.set(false);
       }
     };
 
     ws.onclose = () => {
-      if (!completed) {
-        this.store.error.set('WebSocket connection closed unexpectedly');
-        this.store.isReviewing.set(false);
+      if (this.ws === ws) this.ws = null;
+      if (stream.completed || this.stream !== stream) return;
+      if (stream.jobId && stream.attempts < MAX_RECONNECT_ATTEMPTS) {
+        const delay = Math.min(
+          RECONNECT_BASE_DELAY_MS * 2 ** stream.attempts,
+          RECONNECT_MAX_DELAY_MS,
+        );
+        stream.attempts++;
+        this.store.reconnecting.set(true);
+        setTimeout(() => {
+          if (this.stream !== stream || stream.completed) return;
+          this.openWs(stream, {
+            event: 'attach',
+            data: { jobId: stream.jobId, lastSeq: stream.lastSeq },
+          });
+        }, delay);
+        return;
       }
+      this.store.reconnecting.set(false);
+      this.store.error.set('WebSocket connection closed unexpectedly');
+      this.store.isReviewing.set(false);
     };
   }
 }
@@ -10,11 +10,21 @@ export interface ReviewProgressEvent {
   timestamp: string;
 }
 
+/** Server-side job running the current review. */
+export interface ReviewJob {
+  id: string;
+  status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+  /** 1-based position in the queue while queued. */
+  position?: number;
+}
+
 export interface ReviewerConfig {
   name: string;
   cliPath: string;
   cliArgs: string[];
-  protocol?: 'acp' | 'copilot';
+  protocol?: 'acp' | 'copilot' | 'http';
+  baseUrl?: string;
+  apiKeyEnv?: string;
   model?: string;
   timeoutMs?: number;
   maxRetries?: number;
@@ -42,6 +52,23 @@ export type ReviewCategory =
   | 'best-practices'
   | 'other';
 
+/** How a finding's location held up against the reviewed code. */
+export type FindingAnchor = 'verified' | 'corrected' | 'unknown-file';
+
+export interface JudgeVote {
+  judge: string;
+  verdict: 'accepted' | 'rejected' | 'modified';
+  severity: 'high' | 'medium' | 'low';
+  reasoning: string;
+}
+
+/** Patch proposed by the fix phase; `status` is the `git apply --check` result. */
+export interface FindingFix {
+  patch: string;
+  status: 'valid' | 'invalid';
+  error?: string;
+}
+
 export interface ReviewDecisionItem {
   severity: 'high' | 'medium' | 'low';
   category: ReviewCategory;
@@ -52,6 +79,9 @@ export interface ReviewDecisionItem {
   verdict: 'accepted' | 'rejected' | 'modified';
   reasoning: string;
   suggestion: string;
+  anchor?: FindingAnchor;
+  votes?: JudgeVote[];
+  fix?: FindingFix;
 }
 
 export interface AdditionalFinding {
@@ -59,7 +89,17 @@ export interface AdditionalFinding {
   category: ReviewCategory;
   description: string;
   file?: string;
+  line?: number;
   suggestion: string;
+  anchor?: FindingAnchor;
+}
+
+/** Tokens reported by the agents; `cost` (USD) covers the models with a configured price. */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cost?: number;
+  unpricedModels?: string[];
 }
 
 export interface ReviewDecision {
@@ -67,14 +107,54 @@ export interface ReviewDecision {
   overallAssessment: string;
   decisions: ReviewDecisionItem[];
   additionalFindings: AdditionalFinding[];
+  judges?: string[];
   parseFailed?: boolean;
+  usage?: TokenUsage;
+  cached?: boolean;
+}
+
+export interface ReviewFinding {
+  severity: 'high' | 'medium' | 'low';
+  category: ReviewCategory;
+  description: string;
+  file?: string;
+  line?: number;
+  suggestion: string;
+  anchor?: FindingAnchor;
 }
 
 export interface IndividualReview {
   reviewer: string;
   review: string;
+  findings?: ReviewFinding[];
+  notes?: string[];
+  status: 'success' | 'error';
+  durationMs?: number;
+  usage?: TokenUsage;
+  cached?: boolean;
+}
+
+export interface DebateStance {
+  reviewer: string;
+  finding: string;
+  stance: 'agree' | 'dispute';
+  comment: string;
+}
+
+export interface DebateEntry {
+  reviewer: string;
   status: 'success' | 'error';
+  response: string;
   durationMs?: number;
+  stances?: DebateStance[];
+  findings?: ReviewFinding[];
+  usage?: TokenUsage;
+  cached?: boolean;
+}
+
+export interface DebateRound {
+  round: number;
+  entries: DebateEntry[];
 }
 
 export interface ReviewResult {
@@ -82,7 +162,10 @@ export interface ReviewResult {
   status: 'completed' | 'failed' | 'partial';
   individualReviews: IndividualReview[];
   decision?: ReviewDecision;
+  debate?: DebateRound[];
   durationMs?: number;
+  usage?: TokenUsage;
+  downscaled?: string[];
 }
 
 @Injectable({ providedIn: 'root' })
@@ -90,6 +173,11 @@ export class ReviewStore {
   readonly config = signal<CouncilConfig | null>(null);
   readonly reviewMode = signal<ReviewMode>('codebase');
   readonly isReviewing = signal(false);
+  readonly job = signal<ReviewJob | null>(null);
+  /** The socket dropped and the review stream is being reattached. */
+  readonly reconnecting = signal(false);
+  /** The server no longer had part of the streamed output when replaying it. */
+  readonly outputTruncated = signal(false);
   readonly progress = signal<Map<string, ReviewProgressEvent>>(new Map());
   readonly result = signal<ReviewResult | null>(null);
   readonly error = signal<string | null>(null);
@@ -145,6 +233,9 @@ export class ReviewStore {
 
   reset(): void {
     this.isReviewing.set(false);
+    this.job.set(null);
+    this.reconnecting.set(false);
+    this.outputTruncated.set(false);
     this.progress.set(new Map());
     this.result.set(null);
     this.error.set(null);
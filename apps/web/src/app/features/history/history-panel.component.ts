@@ -0,0 +1,200 @@
+import { Component, inject, signal } from '@angular/core';
+import { DatePipe } from '@angular/common';
+import { Drawer } from 'primeng/drawer';
+import { Button } from 'primeng/button';
+import { Tag } from 'primeng/tag';
+import {
+  ApiService,
+  ReviewCheckpointSummary,
+  ReviewHistorySummary,
+} from '../../core/services/api.service';
+import { ReviewStore } from '../../core/services/review-store.service';
+
+@Component({
+  selector: 'app-history-panel',
+  standalone: true,
+  imports: [Drawer, Button, Tag, DatePipe],
+  template: `
+    <p-button
+      label="History"
+      icon="pi pi-history"
+      severity="secondary"
+      size="small"
+      (onClick)="open()"
+      [disabled]="store.isReviewing()"
+    />
+
+    <p-drawer
+      header="Review History"
+      [(visible)]="visible"
+      position="right"
+      [style]="{ width: '28rem' }"
+    >
+      @if (loading()) {
+        <div class="text-sm" style="color: var(--p-text-muted-color)">
+          <i class="pi pi-spin pi-spinner" style="margin-right: 0.5rem"></i>
+          Loading...
+        </div>
+      } @else if (error()) {
+        <div class="text-sm" style="color: var(--p-red-500)">{{ error() }}</div>
+      } @else {
+        @if (checkpoints().length > 0) {
+          <h3 class="font-semibold mb-2">Interrupted</h3>
+          <ul class="space-y-2 mb-4">
+            @for (checkpoint of checkpoints(); track checkpoint.id) {
+              <li
+                class="p-3 rounded"
+                style="border: 1px solid var(--p-surface-border)"
+              >
+                <div class="flex items-center gap-2">
+                  <span class="font-medium">codebase</span>
+                  <p-tag
+                    severity="warn"
+                    [value]="checkpoint.completedBatches + ' / ' + checkpoint.totalBatches + ' batches'"
+                  />
+                  <span class="text-xs ml-auto" style="color: var(--p-text-muted-color)">
+                    {{ checkpoint.updatedAt | date: 'short' }}
+                  </span>
+                  <p-button
+                    icon="pi pi-play"
+                    [text]="true"
+                    [rounded]="true"
+                    size="small"
+                    title="Resume"
+                    (onClick)="resume(checkpoint)"
+                  />
+                  <p-button
+                    icon="pi pi-trash"
+                    severity="danger"
+                    [text]="true"
+                    [rounded]="true"
+                    size="small"
+                    title="Discard"
+                    (onClick)="discard(checkpoint)"
+                  />
+                </div>
+                <div class="text-sm truncate" [title]="checkpoint.target">{{ checkpoint.target }}</div>
+                <div class="text-xs" style="color: var(--p-text-muted-color)">
+                  {{ checkpoint.reviewers.join(', ') }}
+                </div>
+              </li>
+            }
+          </ul>
+        }
+        @if (entries().length === 0) {
+          <div class="text-sm" style="color: var(--p-text-muted-color)">
+            No past reviews.
+          </div>
+        } @else {
+          <ul class="space-y-2">
+            @for (entry of entries(); track entry.id) {
+              <li
+                class="p-3 rounded cursor-pointer"
+                style="border: 1px solid var(--p-surface-border)"
+                (click)="load(entry)"
+              >
+                <div class="flex items-center gap-2">
+                  <span class="font-medium">{{ entry.kind }}</span>
+                  <p-tag
+                    [severity]="
+                      entry.status === 'completed'
+                        ? 'success'
+                        : entry.status === 'partial'
+                          ? 'warn'
+                          : 'danger'
+                    "
+                    [value]="entry.status"
+                  />
+                  <span class="text-xs ml-auto" style="color: var(--p-text-muted-color)">
+                    {{ entry.createdAt | date: 'short' }}
+                  </span>
+                  <p-button
+                    icon="pi pi-trash"
+                    severity="danger"
+                    [text]="true"
+                    [rounded]="true"
+                    size="small"
+                    (onClick)="remove(entry, $event)"
+                  />
+                </div>
+                <div class="text-sm truncate" [title]="entry.target">{{ entry.target }}</div>
+                <div class="text-xs" style="color: var(--p-text-muted-color)">
+                  {{ entry.reviewers.join(', ') }} · {{ entry.decisionCount }} decisions
+                </div>
+              </li>
+            }
+          </ul>
+        }
+      }
+    </p-drawer>
+  `,
+})
+export class HistoryPanelComponent {
+  private readonly api = inject(ApiService);
+  readonly store = inject(ReviewStore);
+
+  visible = false;
+  entries = signal<ReviewHistorySummary[]>([]);
+  checkpoints = signal<ReviewCheckpointSummary[]>([]);
+  loading = signal(false);
+  error = signal('');
+
+  async open(): Promise<void> {
+    this.visible = true;
+    await this.refresh();
+  }
+
+  async refresh(): Promise<void> {
+    this.loading.set(true);
+    this.error.set('');
+    try {
+      const [entries, checkpoints] = await Promise.all([
+        this.api.listHistory(),
+        this.api.listCheckpoints(),
+      ]);
+      this.entries.set(entries);
+      this.checkpoints.set(checkpoints);
+    } catch {
+      this.error.set('Cannot load review history');
+    } finally {
+      this.loading.set(false);
+    }
+  }
+
+  async load(entry: ReviewHistorySummary): Promise<void> {
+    try {
+      const record = await this.api.getHistory(entry.id);
+      this.store.reset();
+      this.store.result.set(record.result);
+      this.visible = false;
+    } catch {
+      this.error.set(`Cannot load review ${entry.id}`);
+    }
+  }
+
+  resume(checkpoint: ReviewCheckpointSummary): void {
+    this.api.resumeCodebaseReview(checkpoint.id);
+    this.visible = false;
+  }
+
+  async discard(checkpoint: ReviewCheckpointSummary): Promise<void> {
+    try {
+      await this.api.deleteCheckpoint(checkpoint.id);
+      this.checkpoints.update((list) =>
+        list.filter((c) => c.id !== checkpoint.id),
+      );
+    } catch {
+      this.error.set(`Cannot discard review ${checkpoint.id}`);
+    }
+  }
+
+  async remove(entry: ReviewHistorySummary, event: Event): Promise<void> {
+    event.stopPropagation();
+    try {
+      await this.api.deleteHistory(entry.id);
+      this.entries.update((list) => list.filter((e) => e.id !== entry.id));
+    } catch {
+      this.error.set(`Cannot delete review ${entry.id}`);
+    }
+  }
+}
@@ -35,11 +35,19 @@ import { ReviewDecisionItem } from '../../core/services/review-store.service';
           <td>
             @if (d.file) {
               <code>{{ d.file }}{{ d.line ? ':' + d.line : '' }}</code>
+              @if (d.anchor === 'unknown-file') {
+                <small> (not a reviewed file)</small>
+              }
             }
           </td>
           <td>{{ d.reasoning }}</td>
           <td>{{ d.suggestion }}</td>
-          <td>{{ d.raisedBy?.join(', ') }}</td>
+          <td>
+            {{ d.raisedBy?.join(', ') }}
+            @if (d.votes?.length) {
+              <div><small>{{ formatVotes(d) }}</small></div>
+            }
+          </td>
         </tr>
       </ng-template>
     </p-table>
@@ -48,6 +56,10 @@ import { ReviewDecisionItem } from '../../core/services/review-store.service';
 export class DecisionTableComponent {
   decisions = input.required<ReviewDecisionItem[]>();
 
+  formatVotes(d: ReviewDecisionItem): string {
+    return (d.votes ?? []).map((v) => `${v.judge}: ${v.verdict}`).join(', ');
+  }
+
   verdictIcon(verdict: string): string {
     if (verdict === 'accepted') return '\u2705';
     if (verdict === 'rejected') return '\u274C';
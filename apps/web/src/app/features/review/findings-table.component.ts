@@ -0,0 +1,53 @@
+import { Component, input } from '@angular/core';
+import { TableModule } from 'primeng/table';
+import { Tag } from 'primeng/tag';
+import { ReviewFinding } from '../../core/services/review-store.service';
+
+@Component({
+  selector: 'app-findings-table',
+  standalone: true,
+  imports: [TableModule, Tag],
+  template: `
+    <p-table [value]="findings()" [scrollable]="true" styleClass="p-datatable-sm">
+      <ng-template #header>
+        <tr>
+          <th>Severity</th>
+          <th>Category</th>
+          <th>File</th>
+          <th>Description</th>
+          <th>Suggestion</th>
+        </tr>
+      </ng-template>
+      <ng-template #body let-f>
+        <tr>
+          <td>
+            <p-tag
+              [severity]="severityColor(f.severity)"
+              [value]="f.severity"
+            />
+          </td>
+          <td>{{ f.category }}</td>
+          <td>
+            @if (f.file) {
+              <code>{{ f.file }}{{ f.line ? ':' + f.line : '' }}</code>
+              @if (f.anchor === 'unknown-file') {
+                <small> (not a reviewed file)</small>
+              }
+            }
+          </td>
+          <td>{{ f.description }}</td>
+          <td>{{ f.suggestion }}</td>
+        </tr>
+      </ng-template>
+    </p-table>
+  `,
+})
+export class FindingsTableComponent {
+  findings = input.required<ReviewFinding[]>();
+
+  severityColor(severity: string): 'danger' | 'warn' | 'info' {
+    if (severity === 'high') return 'danger';
+    if (severity === 'medium') return 'warn';
+    return 'info';
+  }
+}
@@ -1,14 +1,41 @@
-import { Component, inject, computed } from '@angular/core';
+import { Component, inject, computed, effect, signal } from '@angular/core';
+import { Button } from 'primeng/button';
 import { Card } from 'primeng/card';
 import { ProgressSpinner } from 'primeng/progressspinner';
 import { Tag } from 'primeng/tag';
 import { ReviewStore } from '../../core/services/review-store.service';
+import { ApiService } from '../../core/services/api.service';
 
 @Component({
   selector: 'app-progress-tracker',
   standalone: true,
-  imports: [Card, ProgressSpinner, Tag],
+  imports: [Button, Card, ProgressSpinner, Tag],
   template: `
+    @if (store.isReviewing()) {
+      <div class="flex justify-end items-center gap-2 mb-2">
+        @if (store.reconnecting()) {
+          <p-tag severity="warn" value="Reconnecting…" />
+        }
+        @if (store.outputTruncated()) {
+          <p-tag severity="warn" value="Partial output" />
+        }
+        @if (store.job()?.status === 'queued') {
+          <p-tag
+            severity="secondary"
+            [value]="'Queued #' + store.job()?.position"
+          />
+        }
+        <p-button
+          label="Cancel"
+          icon="pi pi-stop"
+          severity="danger"
+          [outlined]="true"
+          size="small"
+          [loading]="cancelling()"
+          (onClick)="cancel()"
+        />
+      </div>
+    }
     @if (entries().length > 0) {
       <div class="flex flex-wrap gap-3 mb-4">
         @for (entry of entries(); track entry.reviewer) {
@@ -45,6 +72,20 @@ import { ReviewStore } from '../../core/services/review-store.service';
   `,
 })
 export class ProgressTrackerComponent {
-  private readonly store = inject(ReviewStore);
+  readonly store = inject(ReviewStore);
+  private readonly api = inject(ApiService);
   entries = computed(() => [...this.store.progress().values()]);
+  cancelling = signal(false);
+
+  constructor() {
+    // Re-arm the button for the next review
+    effect(() => {
+      if (!this.store.isReviewing()) this.cancelling.set(false);
+    });
+  }
+
+  cancel(): void {
+    this.cancelling.set(true);
+    this.api.cancelReview();
+  }
 }
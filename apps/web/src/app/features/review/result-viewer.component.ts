@@ -15,8 +15,13 @@ import {
   ReviewDecision,
   AdditionalFinding,
   ReviewDecisionItem,
+  IndividualReview,
+  DebateEntry,
+  TokenUsage,
 } from '../../core/services/review-store.service';
 import { DecisionTableComponent } from './decision-table.component';
+import { FindingsTableComponent } from './findings-table.component';
+import { ProgressTrackerComponent } from './progress-tracker.component';
 
 @Component({
   selector: 'app-result-viewer',
@@ -29,9 +34,12 @@ import { DecisionTableComponent } from './decision-table.component';
     Button,
     Tag,
     DecisionTableComponent,
+    FindingsTableComponent,
+    ProgressTrackerComponent,
   ],
   template: `
     <div class="p-4 space-y-4">
+      <app-progress-tracker />
 
       @if (!store.result() && store.isReviewing() && store.progress().size > 0) {
         <h2 class="text-lg font-bold mb-2">Live Output</h2>
@@ -178,6 +186,14 @@ import { DecisionTableComponent } from './decision-table.component';
               {{ (r.durationMs / 1000).toFixed(1) }}s
             </span>
           }
+          @if (r.usage; as usage) {
+            <span class="text-sm" style="color: var(--p-text-muted-color)" [title]="unpricedNote(usage)">
+              {{ formatUsage(usage) }}
+            </span>
+          }
+          @if (r.downscaled?.length) {
+            <p-tag severity="warn" value="downscaled to fit budget" [title]="r.downscaled!.join('; ')" />
+          }
         </div>
 
         <p-accordion [multiple]="true">
@@ -188,6 +204,12 @@ import { DecisionTableComponent } from './decision-table.component';
                 @if (review.durationMs) {
                   ({{ (review.durationMs / 1000).toFixed(1) }}s)
                 }
+                @if (review.usage; as usage) {
+                  <span class="text-sm ml-2" style="color: var(--p-text-muted-color)">{{ formatUsage(usage) }}</span>
+                }
+                @if (review.cached) {
+                  <p-tag class="ml-2" severity="info" value="cached" title="Served from the response cache" />
+                }
               </p-accordion-header>
               <p-accordion-content>
                 <div class="relative">
@@ -198,21 +220,74 @@ import { DecisionTableComponent } from './decision-table.component';
                     [rounded]="true"
                     size="small"
                     class="absolute top-0 right-0"
-                    (onClick)="copyText(review.review)"
+                    (onClick)="copyText(reviewToMarkdown(review))"
                   />
-                  <div class="markdown-body pr-8" [innerHTML]="renderMarkdown(review.review)"></div>
+                  @if (review.findings; as findings) {
+                    <div class="pr-8">
+                      @if (findings.length > 0) {
+                        <app-findings-table [findings]="findings" />
+                      } @else {
+                        <p class="text-sm" style="color: var(--p-text-muted-color)">No issues found.</p>
+                      }
+                      @if (review.notes?.length) {
+                        <h3 class="font-semibold mt-3">Notes</h3>
+                        <ul class="list-disc pl-6 text-sm">
+                          @for (note of review.notes; track $index) {
+                            <li>{{ note }}</li>
+                          }
+                        </ul>
+                      }
+                    </div>
+                  } @else {
+                    <div class="markdown-body pr-8" [innerHTML]="renderMarkdown(review.review)"></div>
+                  }
                 </div>
               </p-accordion-content>
             </p-accordion-panel>
           }
         </p-accordion>
 
+        @if (r.debate?.length) {
+          <h2 class="text-lg font-bold mt-4">Council Debate</h2>
+          <p-accordion [multiple]="true">
+            @for (round of r.debate; track round.round) {
+              <p-accordion-panel [value]="'debate-' + round.round">
+                <p-accordion-header>Round {{ round.round }}</p-accordion-header>
+                <p-accordion-content>
+                  @for (entry of round.entries; track entry.reviewer) {
+                    <h3 class="font-semibold mt-2">
+                      {{ entry.reviewer }}
+                      @if (entry.durationMs) {
+                        ({{ (entry.durationMs / 1000).toFixed(1) }}s)
+                      }
+                      @if (entry.cached) {
+                        <p-tag class="ml-2" severity="info" value="cached" title="Served from the response cache" />
+                      }
+                    </h3>
+                    @if (entry.status === 'error') {
+                      <div class="text-sm" style="color: var(--p-red-500)">{{ entry.response }}</div>
+                    } @else {
+                      <div class="markdown-body" [innerHTML]="renderMarkdown(debateEntryToMarkdown(entry))"></div>
+                    }
+                  }
+                </p-accordion-content>
+              </p-accordion-panel>
+            }
+          </p-accordion>
+        }
+
         @if (r.decision) {
           <h2 class="text-lg font-bold mt-4">Final Decision</h2>
           <p-accordion [multiple]="true">
             <p-accordion-panel value="dm">
               <p-accordion-header>
                 DM ({{ r.decision.reviewer }})
+                @if (r.decision.usage; as usage) {
+                  <span class="text-sm ml-2" style="color: var(--p-text-muted-color)">{{ formatUsage(usage) }}</span>
+                }
+                @if (r.decision.cached) {
+                  <p-tag class="ml-2" severity="info" value="cached" title="Served from the response cache" />
+                }
               </p-accordion-header>
               <p-accordion-content>
                 <div class="relative">
@@ -307,10 +382,64 @@ export class ResultViewerComponent {
     return this.sanitizer.bypassSecurityTrustHtml(html);
   }
 
+  /** `12,345 in / 678 out tokens · ~$0.0123`; the cost only covers models with a configured price. */
+  formatUsage(usage: TokenUsage): string {
+    const tokens = `${usage.inputTokens.toLocaleString()} in / ${usage.outputTokens.toLocaleString()} out tokens`;
+    return usage.cost !== undefined ? `${tokens} · ~$${usage.cost.toFixed(4)}` : tokens;
+  }
+
+  unpricedNote(usage: TokenUsage): string {
+    return usage.unpricedModels?.length
+      ? `No price configured for: ${usage.unpricedModels.join(', ')}`
+      : '';
+  }
+
   copyText(text: string): void {
     navigator.clipboard.writeText(text);
   }
 
+  /** Markdown for one reviewer: findings table + notes when parsed, raw text otherwise. */
+  reviewToMarkdown(review: IndividualReview): string {
+    if (!review.findings) return review.review;
+    let md = '';
+    if (review.findings.length === 0) {
+      md += `No issues found.\n`;
+    } else {
+      md += `| Severity | Category | File | Description | Suggestion |\n`;
+      md += `|---|---|---|---|---|\n`;
+      for (const f of review.findings) {
+        const file = f.file ? `${f.file}${f.line ? ':' + f.line : ''}` : '';
+        md += `| ${f.severity} | ${f.category} | ${file} | ${f.description} | ${f.suggestion} |\n`;
+      }
+    }
+    if (review.notes && review.notes.length > 0) {
+      md += `\n**Notes:**\n\n`;
+      for (const n of review.notes) md += `- ${n}\n`;
+    }
+    return md;
+  }
+
+  /** Markdown for one debate turn: stances and new findings when parsed, raw text otherwise. */
+  debateEntryToMarkdown(entry: DebateEntry): string {
+    if (!entry.stances && !entry.findings) return entry.response;
+    let md = '';
+    for (const s of entry.stances ?? []) {
+      const icon = s.stance === 'agree' ? '\u2705' : '\u274C';
+      md += `- ${icon} **${s.reviewer}**: "${s.finding}"${s.comment ? ` — ${s.comment}` : ''}\n`;
+    }
+    const findings = entry.findings ?? [];
+    if (findings.length > 0) {
+      md += `\n**New findings:**\n\n`;
+      md += `| Severity | Category | File | Description | Suggestion |\n`;
+      md += `|---|---|---|---|---|\n`;
+      for (const f of findings) {
+        const file = f.file ? `${f.file}${f.line ? ':' + f.line : ''}` : '';
+        md += `| ${f.severity} | ${f.category} | ${file} | ${f.description} | ${f.suggestion} |\n`;
+      }
+    }
+    return md || 'No further comments.';
+  }
+
   copyDecision(decision: ReviewDecision): void {
     let text = `## Overall Assessment\n\n${decision.overallAssessment}\n`;
     if (decision.decisions.length > 0) {
@@ -328,7 +457,8 @@ export class ResultViewerComponent {
       text += `| Severity | Category | Description | File | Suggestion |\n`;
       text += `|---|---|---|---|---|\n`;
       for (const f of decision.additionalFindings) {
-        text += `| ${f.severity} | ${f.category} | ${f.description} | ${f.file ?? ''} | ${f.suggestion} |\n`;
+        const file = f.file ? `${f.file}${f.line ? ':' + f.line : ''}` : '';
+        text += `| ${f.severity} | ${f.category} | ${f.description} | ${file} | ${f.suggestion} |\n`;
       }
     }
     navigator.clipboard.writeText(text);
@@ -370,11 +500,25 @@ export class ResultViewerComponent {
     md += `**Status:** ${result.status}\n`;
     if (result.durationMs)
       md += `**Duration:** ${(result.durationMs / 1000).toFixed(1)}s\n`;
+    if (result.usage) md += `**Usage:** ${this.formatUsage(result.usage)}\n`;
+    if (result.downscaled?.length)
+      md += `**Downscaled to fit budget:** ${result.downscaled.join('; ')}\n`;
     md += `\n## Individual Reviews\n\n`;
     for (const r of result.individualReviews) {
       md += `### ${r.reviewer}`;
       if (r.durationMs) md += ` (${(r.durationMs / 1000).toFixed(1)}s)`;
-      md += `\n\n${r.review}\n\n`;
+      if (r.cached) md += ' (cached)';
+      md += `\n\n${this.reviewToMarkdown(r)}\n\n`;
+    }
+    if (result.debate?.length) {
+      md += `## Council Debate\n\n`;
+      for (const round of result.debate) {
+        md += `### Round ${round.round}\n\n`;
+        for (const e of round.entries) {
+          md += `#### ${e.reviewer}\n\n`;
+          md += `${e.status === 'error' ? e.response : this.debateEntryToMarkdown(e)}\n\n`;
+        }
+      }
     }
     if (result.decision) {
       const d = result.decision;
@@ -403,7 +547,7 @@ export class ResultViewerComponent {
         md += `| Severity | Category | Description | File | Suggestion |\n`;
         md += `|---|---|---|---|---|\n`;
         for (const f of d.additionalFindings) {
-          const file = f.file ?? '';
+          const file = f.file ? `${f.file}${f.line ? ':' + f.line : ''}` : '';
           md += `| ${f.severity} | ${f.category} | ${f.description} | ${file} | ${f.suggestion} |\n`;
         }
         md += `\n`;
@@ -3,11 +3,17 @@ import { ReviewFormComponent } from './review-form.component';
 import { ResultViewerComponent } from './result-viewer.component';
 import { ReviewStore } from '../../core/services/review-store.service';
 import { Button } from 'primeng/button';
+import { HistoryPanelComponent } from '../history/history-panel.component';
 
 @Component({
   selector: 'app-review-page',
   standalone: true,
-  imports: [ReviewFormComponent, ResultViewerComponent, Button],
+  imports: [
+    ReviewFormComponent,
+    ResultViewerComponent,
+    Button,
+    HistoryPanelComponent,
+  ],
   template: `
     <div class="h-screen flex flex-col" style="background: var(--p-surface-ground)">
       <header
@@ -15,6 +21,7 @@ import { Button } from 'primeng/button';
         style="background: var(--p-primary-color); color: var(--p-primary-contrast-color)"
       >
         <h1 class="text-xl font-bold">Code Review Council</h1>
+        <app-history-panel class="ml-auto" />
       </header>
 
       <div class="flex flex-1 overflow-hidden">
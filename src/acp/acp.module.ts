@@ -1,10 +1,12 @@
 import { Module, Global, ConsoleLogger, Scope } from '@nestjs/common';
 import { AcpService } from './acp.service.js';
+import { ResponseCacheService } from './response-cache.service.js';
 
 @Global()
 @Module({
   providers: [
     { provide: ConsoleLogger, useClass: ConsoleLogger, scope: Scope.TRANSIENT },
+    ResponseCacheService,
     AcpService,
   ],
   exports: [AcpService],
@@ -1,6 +1,8 @@
 import { Test } from '@nestjs/testing';
 import { ConsoleLogger } from '@nestjs/common';
 import { AcpService } from './acp.service.js';
+import { HttpChatClient } from './http-chat-client.js';
+import { ResponseCacheService } from './response-cache.service.js';
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 
 vi.mock('node:child_process', () => ({
@@ -41,12 +43,21 @@ vi.mock('@shrek1478/copilot-sdk-with-acp', () => {
 
 describe('AcpService', () => {
   let service: AcpService;
+  let responseCache: {
+    get: ReturnType<typeof vi.fn>;
+    set: ReturnType<typeof vi.fn>;
+  };
 
   beforeEach(async () => {
+    responseCache = {
+      get: vi.fn().mockResolvedValue(null),
+      set: vi.fn().mockResolvedValue(undefined),
+    };
     const module = await Test.createTestingModule({
       providers: [
         AcpService,
         { provide: ConsoleLogger, useValue: new ConsoleLogger() },
+        { provide: ResponseCacheService, useValue: responseCache },
       ],
     }).compile();
     service = module.get(AcpService);
@@ -242,6 +253,124 @@ describe('AcpService', () => {
     expect(result).toBe('Full message');
   });
 
+  it('should destroy the session as soon as the review is cancelled', async () => {
+    const handle = await service.createClient({
+      name: 'Slow',
+      cliPath: 'slow-cli',
+      cliArgs: [],
+    });
+    const mockSession = {
+      on: vi.fn(),
+      sendAndWait: vi.fn().mockReturnValue(new Promise(() => {})),
+      destroy: vi.fn().mockResolvedValue(undefined),
+    };
+    (handle.client as any).createSession = vi
+      .fn()
+      .mockResolvedValue(mockSession);
+    const controller = new AbortController();
+
+    const pending = service.sendPrompt(handle, 'Review this', 60_000, {
+      signal: controller.signal,
+    });
+    await vi.waitFor(() => expect(mockSession.sendAndWait).toHaveBeenCalled());
+    controller.abort();
+
+    await expect(pending).rejects.toThrow('Review cancelled');
+    expect(mockSession.destroy).toHaveBeenCalled();
+    await expect(
+      service.sendPrompt(handle, 'Review this', 60_000, {
+        signal: controller.signal,
+      }),
+    ).rejects.toThrow('Review cancelled');
+    expect((handle.client as any).createSession).toHaveBeenCalledTimes(1);
+  });
+
+  it('should wait for a free agent slot beyond REVIEW_COUNCIL_MAX_AGENTS', async () => {
+    vi.stubEnv('REVIEW_COUNCIL_MAX_AGENTS', '1');
+    try {
+      const first = await service.createClient({
+        name: 'R1',
+        cliPath: 'cli1',
+        cliArgs: [],
+      });
+      let secondReady = false;
+      const second = service
+        .createClient({ name: 'R2', cliPath: 'cli2', cliArgs: [] })
+        .then((handle) => {
+          secondReady = true;
+          return handle;
+        });
+      // HTTP reviewers spawn no process and never wait
+      await service.createClient({
+        name: 'Local',
+        cliPath: '',
+        cliArgs: [],
+        protocol: 'http',
+        baseUrl: 'http://localhost:11434/v1',
+        model: 'llama3',
+      });
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      expect(secondReady).toBe(false);
+
+      await service.stopClient(first);
+      const handle = await second;
+      expect(handle.name).toBe('R2');
+    } finally {
+      vi.unstubAllEnvs();
+    }
+  });
+
+  it('should stop waiting for a slot once the review is cancelled', async () => {
+    vi.stubEnv('REVIEW_COUNCIL_MAX_AGENTS', '1');
+    try {
+      const first = await service.createClient({
+        name: 'R1',
+        cliPath: 'cli1',
+        cliArgs: [],
+      });
+      const controller = new AbortController();
+      const cancelled = service.createClient(
+        { name: 'R2', cliPath: 'cli2', cliArgs: [] },
+        undefined,
+        controller.signal,
+      );
+      const third = service.createClient({
+        name: 'R3',
+        cliPath: 'cli3',
+        cliArgs: [],
+      });
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      controller.abort();
+      await expect(cancelled).rejects.toThrow('Review cancelled');
+
+      // The cancelled waiter gave up its place, so the slot goes to the next one
+      await service.stopClient(first);
+      const handle = await third;
+      expect(handle.name).toBe('R3');
+    } finally {
+      vi.unstubAllEnvs();
+    }
+  });
+
+  it('should reject clients still waiting for a slot on shutdown', async () => {
+    vi.stubEnv('REVIEW_COUNCIL_MAX_AGENTS', '1');
+    try {
+      await service.createClient({ name: 'R1', cliPath: 'cli1', cliArgs: [] });
+      const waiting = service.createClient({
+        name: 'R2',
+        cliPath: 'cli2',
+        cliArgs: [],
+      });
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      await service.stopAll();
+
+      await expect(waiting).rejects.toThrow('shutting down');
+    } finally {
+      vi.unstubAllEnvs();
+    }
+  });
+
   it('should call stopAll on module destroy', async () => {
     const h1 = await service.createClient({
       name: 'R1',
@@ -464,4 +593,159 @@ describe('AcpService', () => {
 
     expect(mockSession.destroy).toHaveBeenCalled();
   });
+
+  it('should report token usage of http reviewers', async () => {
+    const handle = await service.createClient({
+      name: 'Local',
+      cliPath: '',
+      cliArgs: [],
+      protocol: 'http',
+      baseUrl: 'http://localhost:11434/v1',
+      model: 'llama3',
+    });
+    vi.spyOn(handle.client as HttpChatClient, 'chat').mockResolvedValue({
+      content: 'Review result',
+      usage: { inputTokens: 120, outputTokens: 30 },
+    });
+    const onUsage = vi.fn();
+
+    await service.sendPrompt(handle, 'Review this code', 1000, { onUsage });
+
+    expect(onUsage).toHaveBeenCalledWith({
+      model: 'llama3',
+      inputTokens: 120,
+      outputTokens: 30,
+    });
+  });
+
+  describe('response cache', () => {
+    const createHttpHandle = () =>
+      service.createClient({
+        name: 'Local',
+        cliPath: '',
+        cliArgs: [],
+        protocol: 'http',
+        baseUrl: 'http://localhost:11434/v1',
+        model: 'llama3',
+      });
+    const cacheKey = {
+      reviewer: 'Local',
+      model: 'llama3',
+      protocol: 'http',
+      prompt: 'Review this code',
+    };
+
+    it('should serve a cached response without contacting the agent', async () => {
+      const handle = await createHttpHandle();
+      const chat = vi.spyOn(handle.client as HttpChatClient, 'chat');
+      responseCache.get.mockResolvedValue('Cached review');
+      const onDelta = vi.fn();
+      const onCacheHit = vi.fn();
+
+      const result = await service.sendPrompt(
+        handle,
+        'Review this code',
+        1000,
+        {
+          cache: { ttlMs: 60_000 },
+          onDelta,
+          onCacheHit,
+        },
+      );
+
+      expect(result).toBe('Cached review');
+      expect(responseCache.get).toHaveBeenCalledWith(cacheKey, 60_000);
+      expect(chat).not.toHaveBeenCalled();
+      expect(onDelta).toHaveBeenCalledWith('Cached review');
+      expect(onCacheHit).toHaveBeenCalled();
+    });
+
+    it('should store the response on a miss', async () => {
+      const handle = await createHttpHandle();
+      vi.spyOn(handle.client as HttpChatClient, 'chat').mockResolvedValue({
+        content: 'Fresh review',
+      });
+      const onCacheHit = vi.fn();
+
+      const result = await service.sendPrompt(
+        handle,
+        'Review this code',
+        1000,
+        {
+          cache: { ttlMs: 60_000 },
+          onCacheHit,
+        },
+      );
+
+      expect(result).toBe('Fresh review');
+      expect(responseCache.set).toHaveBeenCalledWith(
+        cacheKey,
+        'Fresh review',
+        60_000,
+      );
+      expect(onCacheHit).not.toHaveBeenCalled();
+    });
+
+    it('should look up a response before any client exists', async () => {
+      responseCache.get.mockResolvedValue('Cached review');
+      const onCacheHit = vi.fn();
+      const config = {
+        name: 'Local',
+        cliPath: '',
+        cliArgs: [],
+        protocol: 'http' as const,
+        model: 'llama3',
+      };
+
+      const result = await service.getCachedResponse(
+        config,
+        'Review this code',
+        { cache: { ttlMs: 60_000 }, onCacheHit },
+      );
+
+      expect(result).toBe('Cached review');
+      expect(responseCache.get).toHaveBeenCalledWith(cacheKey, 60_000);
+      expect(onCacheHit).toHaveBeenCalled();
+      await expect(
+        service.getCachedResponse(
+          config,
+          'Review this code',
+          { cache: { ttlMs: 60_000 } },
+          '/repo',
+        ),
+      ).resolves.toBeNull();
+      await expect(
+        service.getCachedResponse(config, 'Review this code'),
+      ).resolves.toBeNull();
+      expect(responseCache.get).toHaveBeenCalledTimes(1);
+    });
+
+    it('should bypass the cache without cache options or for agents in a repo', async () => {
+      const handle = await createHttpHandle();
+      vi.spyOn(handle.client as HttpChatClient, 'chat').mockResolvedValue({
+        content: 'Fresh review',
+      });
+      await service.sendPrompt(handle, 'Review this code', 1000);
+      const repoHandle = await service.createClient(
+        {
+          name: 'Local',
+          cliPath: '',
+          cliArgs: [],
+          protocol: 'http',
+          baseUrl: 'http://localhost:11434/v1',
+          model: 'llama3',
+        },
+        '/repo',
+      );
+      vi.spyOn(repoHandle.client as HttpChatClient, 'chat').mockResolvedValue({
+        content: 'Fresh review',
+      });
+      await service.sendPrompt(repoHandle, 'Review this code', 1000, {
+        cache: { ttlMs: 60_000 },
+      });
+
+      expect(responseCache.get).not.toHaveBeenCalled();
+      expect(responseCache.set).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -12,16 +12,45 @@ import {
   type SessionConfig,
 } from '@shrek1478/copilot-sdk-with-acp';
 import { ReviewerConfig } from '../config/config.types.js';
-import { sanitizeErrorMessage } from '../review/retry-utils.js';
+import {
+  cancelledError,
+  sanitizeErrorMessage,
+  throwIfCancelled,
+} from '../review/retry-utils.js';
+import type { UsageSample } from '../review/usage.js';
+import { MAX_AGENT_PROCESSES } from '../constants.js';
+import { HttpChatClient } from './http-chat-client.js';
+import {
+  ResponseCacheKey,
+  ResponseCacheOptions,
+  ResponseCacheService,
+} from './response-cache.service.js';
 
 export interface SendPromptOptions {
   onDelta?: (delta: string) => void;
   onToolActivity?: (toolName: string, args?: unknown) => void;
+  /** Called for every usage report (an agent may report several per prompt, one per model call). */
+  onUsage?: (usage: UsageSample) => void;
+  /**
+   * Serve the response from the response cache when possible and store it
+   * otherwise. Ignored for clients with a working directory, whose agents may
+   * read files the prompt does not contain.
+   */
+  cache?: ResponseCacheOptions;
+  /** Called when the response came from the cache; no prompt was sent. */
+  onCacheHit?: () => void;
+  /**
+   * Cancels the prompt: the session is destroyed (or the HTTP request aborted)
+   * and `sendPrompt` rejects with "Review cancelled".
+   */
+  signal?: AbortSignal;
 }
 
 export interface AcpClientHandle {
   name: string;
-  client: CopilotClient;
+  /** CLI child process (`acp` / `copilot`) or OpenAI-compatible endpoint (`http`). */
+  client: CopilotClient | HttpChatClient;
+  protocol: 'acp' | 'copilot' | 'http';
   model?: string;
   streaming?: boolean;
   cwd?: string;
@@ -32,8 +61,18 @@ export class AcpService implements OnModuleDestroy {
   private clients = new Set<AcpClientHandle>();
   private stopping = false;
   private resolvedPaths = new Map<string, string>();
+  /** CLI agent processes holding a slot; HTTP clients spawn none and take no slot. */
+  private runningProcesses = 0;
+  private slotWaiters: {
+    resolve: () => void;
+    reject: (error: Error) => void;
+  }[] = [];
 
-  constructor(@Inject(ConsoleLogger) private readonly logger: ConsoleLogger) {
+  constructor(
+    @Inject(ConsoleLogger) private readonly logger: ConsoleLogger,
+    @Inject(ResponseCacheService)
+    private readonly responseCache: ResponseCacheService,
+  ) {
     this.logger.setContext(AcpService.name);
   }
 
@@ -89,10 +128,21 @@ export class AcpService implements OnModuleDestroy {
   private static readonly CLI_RESOLVE_TIMEOUT_MS = 5_000;
   private static readonly SAFE_CLI_NAME = /^(?!-)[A-Za-z0-9._-]+$/;
 
-  async createClient(config: ReviewerConfig, cwd?: string): Promise<AcpClientHandle> {
+  /**
+   * Start a client for `config`. CLI agents wait for a free process slot first;
+   * `signal` cancels that wait (rejecting with "Review cancelled").
+   */
+  async createClient(
+    config: ReviewerConfig,
+    cwd?: string,
+    signal?: AbortSignal,
+  ): Promise<AcpClientHandle> {
     if (this.stopping) {
       throw new Error('Cannot create client: AcpService is shutting down');
     }
+    if (config.protocol === 'http') {
+      return this.createHttpClient(config, cwd);
+    }
     if (
       !config.cliPath ||
       !AcpService.SAFE_CLI_NAME.test(config.cliPath) ||
@@ -116,11 +166,56 @@ export class AcpService implements OnModuleDestroy {
       protocol: config.protocol ?? 'acp',
       ...(cwd ? { cwd } : {}),
     };
+    await this.acquireProcessSlot(config.name, signal);
     const client = new CopilotClient(opts);
-    await client.start();
+    try {
+      await client.start();
+    } catch (error) {
+      this.releaseProcessSlot();
+      throw error;
+    }
     const handle: AcpClientHandle = {
       name: config.name,
       client,
+      protocol: config.protocol ?? 'acp',
+      model: config.model,
+      streaming: config.streaming,
+      cwd,
+    };
+    this.clients.add(handle);
+    return handle;
+  }
+
+  private createHttpClient(
+    config: ReviewerConfig,
+    cwd?: string,
+  ): AcpClientHandle {
+    if (!config.baseUrl || !config.model) {
+      throw new Error(
+        `HTTP reviewer ${config.name} requires "baseUrl" and "model"`,
+      );
+    }
+    let apiKey: string | undefined;
+    if (config.apiKeyEnv) {
+      apiKey = process.env[config.apiKeyEnv];
+      if (!apiKey) {
+        throw new Error(
+          `Environment variable ${config.apiKeyEnv} (API key for ${config.name}) is not set`,
+        );
+      }
+    }
+    const client = new HttpChatClient({
+      baseUrl: config.baseUrl,
+      model: config.model,
+      apiKey,
+    });
+    this.logger.log(
+      `Creating HTTP client: ${config.name} (${client.endpoint}) [model: ${config.model}]`,
+    );
+    const handle: AcpClientHandle = {
+      name: config.name,
+      client,
+      protocol: 'http',
       model: config.model,
       streaming: config.streaming,
       cwd,
@@ -178,16 +273,88 @@ export class AcpService implements OnModuleDestroy {
     });
   }
 
+  /**
+   * The cached response to `prompt`, looked up before a client is created so a
+   * hit spawns no agent process. Null when caching is off, the client would get
+   * a working directory (see `SendPromptOptions.cache`) or nothing is cached;
+   * a hit is reported through `onDelta` and `onCacheHit` like in `sendPrompt`.
+   */
+  async getCachedResponse(
+    config: ReviewerConfig,
+    prompt: string,
+    options?: SendPromptOptions,
+    cwd?: string,
+  ): Promise<string | null> {
+    throwIfCancelled(options?.signal);
+    if (!options?.cache || cwd) return null;
+    return this.readCache(
+      {
+        reviewer: config.name,
+        model: config.model,
+        protocol: config.protocol ?? 'acp',
+        prompt,
+      },
+      options.cache,
+      options,
+    );
+  }
+
   async sendPrompt(
     handle: AcpClientHandle,
     prompt: string,
     timeoutMs = 180_000,
     options?: SendPromptOptions,
+  ): Promise<string> {
+    throwIfCancelled(options?.signal);
+    if (!options?.cache || handle.cwd) {
+      return this.sendUncached(handle, prompt, timeoutMs, options);
+    }
+    const key: ResponseCacheKey = {
+      reviewer: handle.name,
+      model: handle.model,
+      protocol: handle.protocol,
+      prompt,
+    };
+    const cached = await this.readCache(key, options.cache, options);
+    if (cached !== null) return cached;
+    const content = await this.sendUncached(handle, prompt, timeoutMs, options);
+    await this.responseCache.set(key, content, options.cache.ttlMs);
+    return content;
+  }
+
+  private async readCache(
+    key: ResponseCacheKey,
+    cache: ResponseCacheOptions,
+    options: SendPromptOptions,
+  ): Promise<string | null> {
+    const cached = await this.responseCache.get(key, cache.ttlMs);
+    if (cached === null) return null;
+    this.logger.log(`[CACHE] ${key.reviewer} response served from cache`);
+    options.onDelta?.(cached);
+    options.onCacheHit?.();
+    return cached;
+  }
+
+  private async sendUncached(
+    handle: AcpClientHandle,
+    prompt: string,
+    timeoutMs: number,
+    options?: SendPromptOptions,
   ): Promise<string> {
     const sendStartMs = Date.now();
     this.logger.log(`[SEND] ${handle.name} reviewing...`);
 
     const streaming = handle.streaming === true; // 預設 false
+    if (handle.client instanceof HttpChatClient) {
+      return this.sendHttpPrompt(
+        handle,
+        handle.client,
+        prompt,
+        timeoutMs,
+        sendStartMs,
+        options,
+      );
+    }
     const sessionOpts: SessionConfig = { streaming };
     if (handle.model) sessionOpts.model = handle.model;
     if (handle.cwd) sessionOpts.workingDirectory = handle.cwd;
@@ -227,6 +394,11 @@ export class AcpService implements OnModuleDestroy {
     // 註冊 usage 事件（記錄 model、token 使用量）
     session.on('assistant.usage', (event) => {
       const { model, inputTokens, outputTokens } = event.data;
+      options?.onUsage?.({
+        model: model ?? handle.model,
+        inputTokens,
+        outputTokens,
+      });
       if (model) {
         this.logger.log(
           `[MODEL] ${handle.name} model: ${model} (in: ${inputTokens ?? '?'}, out: ${outputTokens ?? '?'})`,
@@ -235,7 +407,10 @@ export class AcpService implements OnModuleDestroy {
     });
 
     try {
-      const response = await session.sendAndWait({ prompt }, timeoutMs);
+      const response = await this.untilCancelled(
+        session.sendAndWait({ prompt }, timeoutMs),
+        options?.signal,
+      );
       const content = response?.data?.content ?? '';
 
       if (!content.trim()) {
@@ -259,8 +434,132 @@ export class AcpService implements OnModuleDestroy {
     }
   }
 
+  /**
+   * HTTP reviewers have no agent session: the prompt goes out as a single
+   * chat completion and tool activity is never reported.
+   */
+  private async sendHttpPrompt(
+    handle: AcpClientHandle,
+    client: HttpChatClient,
+    prompt: string,
+    timeoutMs: number,
+    sendStartMs: number,
+    options?: SendPromptOptions,
+  ): Promise<string> {
+    const streaming = handle.streaming === true;
+    let deltaCount = 0;
+    const response = await client
+      .chat(prompt, {
+        streaming,
+        timeoutMs,
+        onDelta: (delta) => {
+          deltaCount++;
+          if (deltaCount === 1 && streaming) {
+            this.logger.log(`[DELTA] ${handle.name} first delta received`);
+          }
+          options?.onDelta?.(delta);
+        },
+        signal: options?.signal,
+      })
+      .catch((error: unknown) => {
+        throwIfCancelled(options?.signal);
+        throw error;
+      });
+    if (response.usage) {
+      options?.onUsage?.({
+        model: response.model ?? handle.model,
+        ...response.usage,
+      });
+    }
+    if (response.model) {
+      this.logger.log(
+        `[MODEL] ${handle.name} model: ${response.model} (in: ${response.usage?.inputTokens ?? '?'}, out: ${response.usage?.outputTokens ?? '?'})`,
+      );
+    }
+    if (!response.content.trim()) {
+      throw new Error(`Empty response from ${handle.name}`);
+    }
+    const elapsedSec = ((Date.now() - sendStartMs) / 1000).toFixed(1);
+    this.logger.log(
+      `[DONE] ${handle.name} done. (${elapsedSec}s, ${deltaCount} deltas${streaming ? ', streaming' : ''})`,
+    );
+    return response.content;
+  }
+
+  /**
+   * Settle with `promise`, or reject with "Review cancelled" as soon as the
+   * signal fires so the caller can destroy the session without waiting for
+   * the agent to finish.
+   */
+  private untilCancelled<T>(
+    promise: Promise<T>,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    if (!signal) return promise;
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => reject(cancelledError());
+      if (signal.aborted) return onAbort();
+      signal.addEventListener('abort', onAbort, { once: true });
+      promise
+        .then(resolve, reject)
+        .finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  }
+
+  /** Resolved per call so REVIEW_COUNCIL_MAX_AGENTS changes are honoured. */
+  private maxProcesses(): number {
+    const raw = process.env.REVIEW_COUNCIL_MAX_AGENTS?.trim();
+    return raw && /^[1-9]\d*$/.test(raw) ? Number(raw) : MAX_AGENT_PROCESSES;
+  }
+
+  /**
+   * Wait until fewer than `maxProcesses()` agent processes are running, then
+   * take a slot. An aborted `signal` gives up the place in the queue.
+   */
+  private async acquireProcessSlot(
+    name: string,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    throwIfCancelled(signal);
+    if (this.runningProcesses < this.maxProcesses()) {
+      this.runningProcesses++;
+      return;
+    }
+    this.logger.log(
+      `[WAIT] ${name} waiting for a free agent slot (${this.runningProcesses} running)`,
+    );
+    // The releasing client hands its slot over, so the count stays unchanged
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        this.slotWaiters = this.slotWaiters.filter((w) => w !== waiter);
+        reject(cancelledError());
+      };
+      const waiter = {
+        resolve: () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        },
+        reject: (error: Error) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.slotWaiters.push(waiter);
+    });
+  }
+
+  private releaseProcessSlot(): void {
+    const next = this.slotWaiters.shift();
+    if (next) {
+      next.resolve();
+    } else {
+      this.runningProcesses = Math.max(0, this.runningProcesses - 1);
+    }
+  }
+
   private async stopWithForce(
-    client: CopilotClient,
+    client: CopilotClient | HttpChatClient,
     name: string,
     timeoutMs = 5_000,
   ): Promise<void> {
@@ -292,7 +591,9 @@ export class AcpService implements OnModuleDestroy {
 
   async stopClient(handle: AcpClientHandle): Promise<void> {
     await this.stopWithForce(handle.client, handle.name);
-    this.clients.delete(handle);
+    if (this.clients.delete(handle) && handle.protocol !== 'http') {
+      this.releaseProcessSlot();
+    }
   }
 
   async onModuleDestroy(): Promise<void> {
@@ -303,6 +604,14 @@ export class AcpService implements OnModuleDestroy {
     this.stopping = true;
     const handles = [...this.clients];
     this.clients.clear();
+    this.runningProcesses = 0;
+    const waiters = this.slotWaiters;
+    this.slotWaiters = [];
+    for (const waiter of waiters) {
+      waiter.reject(
+        new Error('Cannot create client: AcpService is shutting down'),
+      );
+    }
     const results = await Promise.allSettled(
       handles.map((handle) => this.stopWithForce(handle.client, handle.name)),
     );
@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  createServer,
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+} from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { HttpChatClient } from './http-chat-client.js';
+
+type Handler = (
+  req: IncomingMessage,
+  body: Record<string, unknown>,
+  res: ServerResponse,
+) => void;
+
+describe('HttpChatClient', () => {
+  let server: Server;
+  let baseUrl: string;
+  let handler: Handler;
+  let lastRequest: { headers: IncomingMessage['headers']; url?: string };
+
+  beforeEach(async () => {
+    server = createServer((req, res) => {
+      let raw = '';
+      req.on('data', (c: Buffer) => (raw += c.toString()));
+      req.on('end', () => {
+        lastRequest = { headers: req.headers, url: req.url };
+        handler(req, JSON.parse(raw) as Record<string, unknown>, res);
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/`;
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should return the full message when not streaming', async () => {
+    let sentBody: Record<string, unknown> = {};
+    handler = (_req, body, res) => {
+      sentBody = body;
+      res.setHeader('Content-Type', 'application/json');
+      res.end(
+        JSON.stringify({
+          model: 'llama3',
+          choices: [{ message: { content: 'looks good' } }],
+          usage: { prompt_tokens: 12, completion_tokens: 3 },
+        }),
+      );
+    };
+    const deltas: string[] = [];
+    const client = new HttpChatClient({
+      baseUrl,
+      model: 'llama3',
+      apiKey: 'secret',
+    });
+    const res = await client.chat('review this', {
+      timeoutMs: 5_000,
+      onDelta: (d) => deltas.push(d),
+    });
+
+    expect(res).toEqual({
+      content: 'looks good',
+      model: 'llama3',
+      usage: { inputTokens: 12, outputTokens: 3 },
+    });
+    expect(deltas).toEqual(['looks good']);
+    expect(lastRequest.url).toBe('/v1/chat/completions');
+    expect(lastRequest.headers.authorization).toBe('Bearer secret');
+    expect(sentBody).toMatchObject({
+      model: 'llama3',
+      stream: false,
+      messages: [{ role: 'user', content: 'review this' }],
+    });
+  });
+
+  it('should stream SSE deltas into onDelta', async () => {
+    handler = (_req, body, res) => {
+      expect(body.stream).toBe(true);
+      res.setHeader('Content-Type', 'text/event-stream');
+      const chunk = (data: unknown) =>
+        res.write(`data: ${JSON.stringify(data)}\r\n\r\n`);
+      chunk({ model: 'qwen', choices: [{ delta: { content: 'Hel' } }] });
+      res.write(': keep-alive\n\n');
+      chunk({ choices: [{ delta: { content: 'lo' } }] });
+      chunk({
+        choices: [],
+        usage: { prompt_tokens: 5, completion_tokens: 2 },
+      });
+      res.end('data: [DONE]\n\n');
+    };
+    const deltas: string[] = [];
+    const client = new HttpChatClient({ baseUrl, model: 'qwen' });
+    const res = await client.chat('hi', {
+      streaming: true,
+      timeoutMs: 5_000,
+      onDelta: (d) => deltas.push(d),
+    });
+
+    expect(deltas).toEqual(['Hel', 'lo']);
+    expect(res).toEqual({
+      content: 'Hello',
+      model: 'qwen',
+      usage: { inputTokens: 5, outputTokens: 2 },
+    });
+    expect(lastRequest.headers.authorization).toBeUndefined();
+  });
+
+  it('should surface HTTP errors with status and body', async () => {
+    handler = (_req, _body, res) => {
+      res.statusCode = 503;
+      res.end('model loading');
+    };
+    const client = new HttpChatClient({ baseUrl, model: 'm' });
+    await expect(client.chat('hi', { timeoutMs: 5_000 })).rejects.toThrow(
+      /HTTP 503 Service Unavailable .*: model loading/,
+    );
+  });
+
+  it('should time out and abort on stop', async () => {
+    handler = () => {
+      // never respond
+    };
+    const client = new HttpChatClient({ baseUrl, model: 'm' });
+    await expect(client.chat('hi', { timeoutMs: 50 })).rejects.toThrow(
+      'timed out after 50ms',
+    );
+
+    const pending = client.chat('hi', { timeoutMs: 5_000 });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    await client.stop();
+    await expect(pending).rejects.toThrow('client stopped');
+  });
+
+  it('should abort when the review is cancelled', async () => {
+    handler = () => {
+      // never respond
+    };
+    const client = new HttpChatClient({ baseUrl, model: 'm' });
+    const controller = new AbortController();
+    const pending = client.chat('hi', {
+      timeoutMs: 5_000,
+      signal: controller.signal,
+    });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    controller.abort();
+    await expect(pending).rejects.toThrow('review cancelled');
+  });
+});
@@ -0,0 +1,192 @@
+export interface HttpChatClientOptions {
+  /** OpenAI-compatible API root, e.g. `http://localhost:11434/v1`. */
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+}
+
+export interface ChatRequestOptions {
+  streaming?: boolean;
+  timeoutMs: number;
+  onDelta?: (delta: string) => void;
+  /** Abort the request when the review it belongs to is cancelled. */
+  signal?: AbortSignal;
+}
+
+export interface ChatUsage {
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+export interface ChatResponse {
+  content: string;
+  model?: string;
+  usage?: ChatUsage;
+}
+
+interface ChatCompletionChunk {
+  model?: string;
+  choices?: {
+    delta?: { content?: string | null };
+    message?: { content?: string | null };
+  }[];
+  usage?: { prompt_tokens?: number; completion_tokens?: number } | null;
+  error?: { message?: string };
+}
+
+const MAX_ERROR_BODY_LENGTH = 300;
+
+function toUsage(usage: ChatCompletionChunk['usage']): ChatUsage | undefined {
+  if (!usage) return undefined;
+  return {
+    inputTokens: usage.prompt_tokens,
+    outputTokens: usage.completion_tokens,
+  };
+}
+
+/**
+ * Minimal client for OpenAI-compatible `/chat/completions` endpoints
+ * (OpenAI, llama.cpp server, Ollama, vLLM, ...). Unlike CLI-based reviewers
+ * there is no child process: `stop()` / `forceStop()` abort in-flight requests.
+ */
+export class HttpChatClient {
+  private readonly inFlight = new Set<AbortController>();
+
+  constructor(private readonly options: HttpChatClientOptions) {}
+
+  get model(): string {
+    return this.options.model;
+  }
+
+  get endpoint(): string {
+    return `${this.options.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+  }
+
+  async chat(
+    prompt: string,
+    request: ChatRequestOptions,
+  ): Promise<ChatResponse> {
+    const controller = new AbortController();
+    this.inFlight.add(controller);
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, request.timeoutMs);
+    const onCancel = () => controller.abort();
+    if (request.signal?.aborted) controller.abort();
+    request.signal?.addEventListener('abort', onCancel, { once: true });
+    const streaming = request.streaming === true;
+    try {
+      const res = await fetch(this.endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: streaming ? 'text/event-stream' : 'application/json',
+          ...(this.options.apiKey
+            ? { Authorization: `Bearer ${this.options.apiKey}` }
+            : {}),
+        },
+        body: JSON.stringify({
+          model: this.options.model,
+          messages: [{ role: 'user', content: prompt }],
+          stream: streaming,
+          ...(streaming ? { stream_options: { include_usage: true } } : {}),
+        }),
+        signal: controller.signal,
+      });
+      if (!res.ok) {
+        const body = (await res.text()).slice(0, MAX_ERROR_BODY_LENGTH);
+        throw new Error(
+          `HTTP ${res.status} ${res.statusText} from ${this.endpoint}${body ? `: ${body}` : ''}`,
+        );
+      }
+      return streaming
+        ? await this.readStream(res, request.onDelta)
+        : await this.readJson(res, request.onDelta);
+    } catch (error) {
+      if (timedOut) {
+        throw new Error(`Request timed out after ${request.timeoutMs}ms`);
+      }
+      if (request.signal?.aborted) {
+        throw new Error('Request aborted: review cancelled');
+      }
+      if (controller.signal.aborted) {
+        throw new Error('Request aborted: client stopped');
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      request.signal?.removeEventListener('abort', onCancel);
+      this.inFlight.delete(controller);
+    }
+  }
+
+  stop(): Promise<void> {
+    for (const controller of this.inFlight) controller.abort();
+    this.inFlight.clear();
+    return Promise.resolve();
+  }
+
+  forceStop(): Promise<void> {
+    return this.stop();
+  }
+
+  private async readJson(
+    res: Response,
+    onDelta?: (delta: string) => void,
+  ): Promise<ChatResponse> {
+    const body = (await res.json()) as ChatCompletionChunk;
+    if (body.error?.message) throw new Error(body.error.message);
+    const content = body.choices?.[0]?.message?.content ?? '';
+    if (content) onDelta?.(content);
+    return { content, model: body.model, usage: toUsage(body.usage) };
+  }
+
+  /** Parse a `text/event-stream` body of `data: <chunk>` events ending in `data: [DONE]`. */
+  private async readStream(
+    res: Response,
+    onDelta?: (delta: string) => void,
+  ): Promise<ChatResponse> {
+    if (!res.body) throw new Error(`Empty response body from ${this.endpoint}`);
+    const decoder = new TextDecoder();
+    const result: ChatResponse = { content: '' };
+    let buffer = '';
+    let done = false;
+
+    const handleLine = (line: string): void => {
+      if (!line.startsWith('data:')) return;
+      const data = line.slice('data:'.length).trim();
+      if (data === '[DONE]') {
+        done = true;
+        return;
+      }
+      let chunk: ChatCompletionChunk;
+      try {
+        chunk = JSON.parse(data) as ChatCompletionChunk;
+      } catch {
+        return; // keep-alive or vendor-specific noise
+      }
+      if (chunk.error?.message) throw new Error(chunk.error.message);
+      if (chunk.model) result.model = chunk.model;
+      if (chunk.usage) result.usage = toUsage(chunk.usage);
+      const delta = chunk.choices?.[0]?.delta?.content;
+      if (delta) {
+        result.content += delta;
+        onDelta?.(delta);
+      }
+    };
+
+    for await (const bytes of res.body) {
+      buffer += decoder.decode(bytes, { stream: true });
+      let newline: number;
+      while (!done && (newline = buffer.indexOf('\n')) !== -1) {
+        handleLine(buffer.slice(0, newline).replace(/\r$/, ''));
+        buffer = buffer.slice(newline + 1);
+      }
+      if (done) break;
+    }
+    if (!done) handleLine((buffer + decoder.decode()).trim());
+    return result;
+  }
+}
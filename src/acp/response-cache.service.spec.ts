@@ -0,0 +1,148 @@
+import { Test } from '@nestjs/testing';
+import { ConsoleLogger } from '@nestjs/common';
+import {
+  ResponseCacheKey,
+  ResponseCacheService,
+  responseCacheKey,
+  responseCacheOptions,
+} from './response-cache.service.js';
+import { CouncilConfig } from '../config/config.types.js';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, readdir, rm, utimes, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+const key: ResponseCacheKey = {
+  reviewer: 'Gemini',
+  model: 'gemini-2.5-pro',
+  protocol: 'acp',
+  prompt: 'Review this code',
+};
+
+const HOUR_MS = 3_600_000;
+
+describe('responseCacheKey', () => {
+  it('should differ by reviewer, model, protocol and prompt', () => {
+    const base = responseCacheKey(key);
+    expect(responseCacheKey({ ...key })).toBe(base);
+    expect(responseCacheKey({ ...key, reviewer: 'Codex' })).not.toBe(base);
+    expect(responseCacheKey({ ...key, model: 'gemini-2.5-flash' })).not.toBe(
+      base,
+    );
+    expect(responseCacheKey({ ...key, protocol: 'http' })).not.toBe(base);
+    expect(responseCacheKey({ ...key, prompt: 'Review that code' })).not.toBe(
+      base,
+    );
+  });
+
+  it('should ignore the random part of prompt delimiters', () => {
+    const prompt = (uuid: string) => `CODE-${uuid}\nconst a = 1;\nCODE-${uuid}`;
+    expect(
+      responseCacheKey({
+        ...key,
+        prompt: prompt('0b8e4f6a-1c2d-4e5f-8a9b-0c1d2e3f4a5b'),
+      }),
+    ).toBe(
+      responseCacheKey({
+        ...key,
+        prompt: prompt('9f8e7d6c-5b4a-4c3d-9e2f-1a0b9c8d7e6f'),
+      }),
+    );
+  });
+});
+
+describe('responseCacheOptions', () => {
+  const config = (cache?: CouncilConfig['cache']): CouncilConfig => ({
+    reviewers: [],
+    decisionMaker: { name: 'Claude', cliPath: 'claude', cliArgs: [] },
+    review: { defaultChecks: [], language: 'en' },
+    cache,
+  });
+
+  it('should be on by default with a 24 hour TTL', () => {
+    expect(responseCacheOptions(config())).toEqual({ ttlMs: 24 * HOUR_MS });
+    expect(responseCacheOptions(config({ ttlHours: 2 }))).toEqual({
+      ttlMs: 2 * HOUR_MS,
+    });
+  });
+
+  it('should be off when cache.enabled is false', () => {
+    expect(responseCacheOptions(config({ enabled: false }))).toBeUndefined();
+  });
+});
+
+describe('ResponseCacheService', () => {
+  let service: ResponseCacheService;
+  let tmpDir: string;
+  let originalDataDir: string | undefined;
+
+  beforeEach(async () => {
+    tmpDir = await mkdtemp(join(tmpdir(), 'cr-cache-'));
+    originalDataDir = process.env.REVIEW_COUNCIL_DATA_DIR;
+    process.env.REVIEW_COUNCIL_DATA_DIR = tmpDir;
+    const module = await Test.createTestingModule({
+      providers: [
+        ResponseCacheService,
+        { provide: ConsoleLogger, useValue: new ConsoleLogger() },
+      ],
+    }).compile();
+    service = module.get(ResponseCacheService);
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    if (originalDataDir === undefined) {
+      delete process.env.REVIEW_COUNCIL_DATA_DIR;
+    } else {
+      process.env.REVIEW_COUNCIL_DATA_DIR = originalDataDir;
+    }
+    await rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should store and read back a response', async () => {
+    expect(await service.get(key, HOUR_MS)).toBeNull();
+    await service.set(key, 'Looks good', HOUR_MS);
+    expect(await service.get(key, HOUR_MS)).toBe('Looks good');
+    expect(await readdir(join(tmpDir, 'cache'))).toEqual([
+      `${responseCacheKey(key)}.json`,
+    ]);
+  });
+
+  it('should ignore entries older than the TTL', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-01-01T00:00:00.000Z'));
+    await service.set(key, 'Looks good', HOUR_MS);
+    vi.setSystemTime(new Date('2025-01-01T02:00:00.000Z'));
+    expect(await service.get(key, 3 * HOUR_MS)).toBe('Looks good');
+    expect(await service.get(key, HOUR_MS)).toBeNull();
+    expect(await readdir(join(tmpDir, 'cache'))).toEqual([]);
+  });
+
+  it('should delete expired entries of other prompts when storing one', async () => {
+    const other = { ...key, prompt: 'Review that code' };
+    await service.set(other, 'Old review', HOUR_MS);
+    const twoHoursAgo = new Date(Date.now() - 2 * HOUR_MS);
+    await utimes(
+      join(tmpDir, 'cache', `${responseCacheKey(other)}.json`),
+      twoHoursAgo,
+      twoHoursAgo,
+    );
+    // The first write of a service instance already swept, so use a fresh one
+    const fresh = new ResponseCacheService(new ConsoleLogger());
+    await fresh.set(key, 'Looks good', HOUR_MS);
+
+    expect(await readdir(join(tmpDir, 'cache'))).toEqual([
+      `${responseCacheKey(key)}.json`,
+    ]);
+  });
+
+  it('should treat a corrupt entry as a miss', async () => {
+    await service.set(key, 'Looks good', HOUR_MS);
+    await writeFile(
+      join(tmpDir, 'cache', `${responseCacheKey(key)}.json`),
+      '{ not json',
+    );
+    expect(await service.get(key, HOUR_MS)).toBeNull();
+    expect(await readdir(join(tmpDir, 'cache'))).toEqual([]);
+  });
+});
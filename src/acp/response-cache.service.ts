@@ -0,0 +1,178 @@
+import { Injectable, ConsoleLogger, Inject } from '@nestjs/common';
+import { createHash } from 'node:crypto';
+import {
+  mkdir,
+  readdir,
+  readFile,
+  rename,
+  rm,
+  stat,
+  writeFile,
+} from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import { CouncilConfig } from '../config/config.types.js';
+import { DEFAULT_CACHE_TTL_HOURS, REVIEW_COUNCIL_DIR } from '../constants.js';
+import { sanitizeErrorMessage } from '../review/retry-utils.js';
+
+/** Settings of a prompt whose response may be served from, and stored in, the cache. */
+export interface ResponseCacheOptions {
+  /** Entries older than this are ignored and deleted. */
+  ttlMs: number;
+}
+
+/** Who answered which prompt; together they identify a cached response. */
+export interface ResponseCacheKey {
+  reviewer: string;
+  model?: string;
+  protocol: string;
+  prompt: string;
+}
+
+interface ResponseCacheEntry {
+  reviewer: string;
+  model?: string;
+  protocol: string;
+  createdAt: string;
+  content: string;
+}
+
+/**
+ * Prompts fence untrusted data with random delimiters (e.g. `CODE-<uuid>`) that
+ * differ on every run; the key ignores the random part so re-runs still match.
+ */
+const DELIMITER_PATTERN =
+  /\b([A-Z]+)-[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/g;
+
+const HOUR_MS = 3_600_000;
+/** How often `set` sweeps expired entries out of the cache directory. */
+const PRUNE_INTERVAL_MS = HOUR_MS;
+
+export function responseCacheKey(key: ResponseCacheKey): string {
+  const prompt = key.prompt.replace(DELIMITER_PATTERN, '$1-*');
+  return createHash('sha256')
+    .update(
+      JSON.stringify([key.reviewer, key.model ?? null, key.protocol, prompt]),
+    )
+    .digest('hex');
+}
+
+/** Cache settings for prompts of this config, or undefined when `cache.enabled` is false. */
+export function responseCacheOptions(
+  config: CouncilConfig,
+): ResponseCacheOptions | undefined {
+  if (config.cache?.enabled === false) return undefined;
+  return {
+    ttlMs: (config.cache?.ttlHours ?? DEFAULT_CACHE_TTL_HOURS) * HOUR_MS,
+  };
+}
+
+/**
+ * On-disk cache of agent responses, one JSON file per key. Best-effort: read
+ * and write failures are logged and treated as a miss, never failing a review.
+ */
+@Injectable()
+export class ResponseCacheService {
+  private nextPruneMs = 0;
+
+  constructor(@Inject(ConsoleLogger) private readonly logger: ConsoleLogger) {
+    this.logger.setContext(ResponseCacheService.name);
+  }
+
+  /** Resolved per call so REVIEW_COUNCIL_DATA_DIR / cwd changes are honoured. */
+  getCacheDir(): string {
+    const base = process.env.REVIEW_COUNCIL_DATA_DIR?.trim();
+    return resolve(base || resolve(process.cwd(), REVIEW_COUNCIL_DIR), 'cache');
+  }
+
+  /** The cached response, or null when there is none younger than `ttlMs`; stale entries are deleted. */
+  async get(key: ResponseCacheKey, ttlMs: number): Promise<string | null> {
+    const filePath = this.entryPath(key);
+    try {
+      const entry = JSON.parse(
+        await readFile(filePath, 'utf-8'),
+      ) as Partial<ResponseCacheEntry>;
+      const createdMs = Date.parse(entry.createdAt ?? '');
+      if (
+        typeof entry.content !== 'string' ||
+        !Number.isFinite(createdMs) ||
+        Date.now() - createdMs > ttlMs
+      ) {
+        await this.remove(filePath);
+        return null;
+      }
+      return entry.content;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.logger.warn(
+          `Ignoring unreadable cache entry ${filePath}: ${sanitizeErrorMessage(error)}`,
+        );
+        if (error instanceof SyntaxError) await this.remove(filePath);
+      }
+      return null;
+    }
+  }
+
+  /** Store a response; every `PRUNE_INTERVAL_MS` this also deletes entries older than `ttlMs`. */
+  async set(
+    key: ResponseCacheKey,
+    content: string,
+    ttlMs: number,
+  ): Promise<void> {
+    const filePath = this.entryPath(key);
+    const entry: ResponseCacheEntry = {
+      reviewer: key.reviewer,
+      model: key.model,
+      protocol: key.protocol,
+      createdAt: new Date().toISOString(),
+      content,
+    };
+    try {
+      await mkdir(this.getCacheDir(), { recursive: true });
+      // Write to a temp file first so concurrent readers never see a partial entry
+      const tmpPath = `${filePath}.${process.pid}.tmp`;
+      await writeFile(tmpPath, JSON.stringify(entry), 'utf-8');
+      await rename(tmpPath, filePath);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to cache the response of ${key.reviewer}: ${sanitizeErrorMessage(error)}`,
+      );
+    }
+    if (Date.now() >= this.nextPruneMs) {
+      this.nextPruneMs = Date.now() + PRUNE_INTERVAL_MS;
+      await this.prune(ttlMs);
+    }
+  }
+
+  /** Delete entries (and leftover temp files) last written more than `ttlMs` ago. */
+  private async prune(ttlMs: number): Promise<void> {
+    const dir = this.getCacheDir();
+    try {
+      for (const name of await readdir(dir)) {
+        const filePath = join(dir, name);
+        // Another process may have replaced or removed the entry meanwhile
+        const info = await stat(filePath).catch(() => null);
+        if (info && Date.now() - info.mtimeMs > ttlMs) {
+          await this.remove(filePath);
+        }
+      }
+    } catch (error) {
+      this.logger.warn(
+        `Failed to prune the response cache: ${sanitizeErrorMessage(error)}`,
+      );
+    }
+  }
+
+  private async remove(filePath: string): Promise<void> {
+    try {
+      await rm(filePath, { force: true });
+    } catch (error) {
+      this.logger.warn(
+        `Failed to delete cache entry ${filePath}: ${sanitizeErrorMessage(error)}`,
+      );
+    }
+  }
+
+  private entryPath(key: ResponseCacheKey): string {
+    return join(this.getCacheDir(), `${responseCacheKey(key)}.json`);
+  }
+}
@@ -2,9 +2,11 @@
 import { ConsoleLogger } from '@nestjs/common';
 import { CommandFactory } from 'nest-commander';
 import { CliModule } from './cli/cli.module.js';
+import { isMachineReadableStdout } from './cli/result-formatters.js';
 import {
   MAX_REVIEWER_CONCURRENCY,
   BATCH_CONCURRENCY,
+  EXIT_CODES,
 } from './constants.js';
 
 const FRAMEWORK_CONTEXTS = new Set([
@@ -31,10 +33,23 @@ process.setMaxListeners(
     (BATCH_CONCURRENCY * MAX_REVIEWER_CONCURRENCY + 1) * LISTENERS_PER_CLIENT,
 );
 
+// With a machine-readable --format and no --output, stdout carries only the
+// formatted result (e.g. `| jq`); route logs and banners to stderr instead.
+if (isMachineReadableStdout(process.argv.slice(2))) {
+  process.stdout.write = process.stderr.write.bind(process.stderr);
+}
+
 async function bootstrap() {
-  await CommandFactory.run(CliModule, { logger: new CliLogger() });
+  await CommandFactory.run(CliModule, {
+    logger: new CliLogger(),
+    // nest-commander's default handler prints the error but leaves exit code 0
+    serviceErrorHandler: (err: Error) => {
+      console.error(`Error: ${err.message}`);
+      process.exitCode = EXIT_CODES.failed;
+    },
+  });
 }
 bootstrap().catch((err) => {
   console.error('Fatal error:', err);
-  process.exitCode = 1;
+  process.exitCode = EXIT_CODES.failed;
 });
@@ -0,0 +1,103 @@
+import { Command, CommandRunner, Option } from 'nest-commander';
+import { Inject } from '@nestjs/common';
+import { HistoryService } from '../history/history.service.js';
+import { applyPatches } from '../review/patch-validator.js';
+import { sanitizeErrorMessage } from '../review/retry-utils.js';
+import { numberedFixes, sanitize } from './result-printer.js';
+
+@Command({
+  name: 'apply',
+  arguments: '<reviewId>',
+  description:
+    'Apply patches proposed by the fix phase of a past review to the working tree',
+})
+export class ApplyCommand extends CommandRunner {
+  constructor(
+    @Inject(HistoryService) private readonly historyService: HistoryService,
+  ) {
+    super();
+  }
+
+  async run(
+    params: string[],
+    options: { finding?: number[]; repo?: string },
+  ): Promise<void> {
+    const id = params[0];
+    const record = await this.historyService.get(id);
+    if (!record) {
+      throw new Error(`Review not found in history: "${sanitize(id)}"`);
+    }
+    const decisions = record.result.decision?.decisions ?? [];
+    const fixes = numberedFixes(decisions);
+
+    let chosen: typeof fixes;
+    if (options.finding) {
+      chosen = options.finding.map((n) => {
+        const fix = fixes.find((f) => f.number === n);
+        if (!fix) {
+          throw new Error(
+            n > decisions.length
+              ? `Review ${sanitize(id)} has no decision #${n}`
+              : `Decision #${n} of ${sanitize(id)} has no proposed patch`,
+          );
+        }
+        if (fix.item.fix.status !== 'valid') {
+          throw new Error(
+            `Patch for decision #${n} did not pass git apply --check when it was proposed: ${sanitize(fix.item.fix.error ?? 'unknown error')}`,
+          );
+        }
+        return fix;
+      });
+    } else {
+      chosen = fixes.filter((f) => f.item.fix.status === 'valid');
+      if (chosen.length === 0) {
+        throw new Error(
+          `Review ${sanitize(id)} has no valid patches (enable the fix phase with "fix.enabled" in the config)`,
+        );
+      }
+    }
+
+    const { request } = record;
+    const dir = options.repo ?? request.repoPath ?? request.directory ?? '.';
+    try {
+      await applyPatches(
+        dir,
+        chosen.map((f) => f.item.fix.patch),
+      );
+    } catch (error) {
+      throw new Error(
+        `git apply failed, no patch was applied: ${sanitizeErrorMessage(error)}`,
+      );
+    }
+    console.log(`Applied ${chosen.length} patch(es) to ${sanitize(dir)}:`);
+    for (const { number, item } of chosen) {
+      console.log(`  #${number} ${sanitize(item.description)}`);
+    }
+  }
+
+  @Option({
+    flags: '--finding <list>',
+    description:
+      'Comma-separated decision numbers to apply, as listed under Proposed Fixes (default: all valid patches)',
+  })
+  parseFinding(val: string) {
+    return val.split(',').map((part) => {
+      const n = Number(part.trim());
+      if (!Number.isInteger(n) || n <= 0) {
+        throw new Error(
+          `--finding must be a comma-separated list of positive integers, got "${sanitize(val)}"`,
+        );
+      }
+      return n;
+    });
+  }
+
+  @Option({
+    flags: '--repo <path>',
+    description:
+      'Repository to patch (default: the reviewed repository or directory)',
+  })
+  parseRepo(val: string) {
+    return val;
+  }
+}
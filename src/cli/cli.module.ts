@@ -2,12 +2,54 @@ import { Module } from '@nestjs/common';
 import { CouncilConfigModule } from '../config/config.module.js';
 import { AcpModule } from '../acp/acp.module.js';
 import { ReviewModule } from '../review/review.module.js';
+import { HistoryModule } from '../history/history.module.js';
+import { HooksModule } from '../hooks/hooks.module.js';
 import { DiffCommand } from './diff.command.js';
 import { FileCommand } from './file.command.js';
 import { CodebaseCommand } from './codebase.command.js';
+import {
+  HistoryCommand,
+  HistoryListCommand,
+  HistoryShowCommand,
+  HistoryRmCommand,
+} from './history.command.js';
+import {
+  HooksCommand,
+  HooksInstallCommand,
+  HooksUninstallCommand,
+  HooksRunCommand,
+} from './hooks.command.js';
+import { ApplyCommand } from './apply.command.js';
+import {
+  PublishCommand,
+  PublishGitHubCommand,
+  PublishGitLabCommand,
+} from './publish.command.js';
 
 @Module({
-  imports: [CouncilConfigModule, AcpModule, ReviewModule],
-  providers: [DiffCommand, FileCommand, CodebaseCommand],
+  imports: [
+    CouncilConfigModule,
+    AcpModule,
+    ReviewModule,
+    HistoryModule,
+    HooksModule,
+  ],
+  providers: [
+    DiffCommand,
+    FileCommand,
+    CodebaseCommand,
+    HistoryCommand,
+    HistoryListCommand,
+    HistoryShowCommand,
+    HistoryRmCommand,
+    HooksCommand,
+    HooksInstallCommand,
+    HooksUninstallCommand,
+    HooksRunCommand,
+    PublishCommand,
+    PublishGitHubCommand,
+    PublishGitLabCommand,
+    ApplyCommand,
+  ],
 })
 export class CliModule {}
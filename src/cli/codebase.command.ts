@@ -3,8 +3,25 @@ import { Inject } from '@nestjs/common';
 import { existsSync, statSync } from 'node:fs';
 import { ReviewService } from '../review/review.service.js';
 import { ConfigService } from '../config/config.service.js';
-import { printResult, sanitize, parseChecksOption } from './result-printer.js';
-import { VALID_CHECK_CATEGORIES, MAX_BATCH_SIZE } from '../constants.js';
+import {
+  sanitize,
+  parseChecksOption,
+  printGateSummary,
+  printPlan,
+  noCacheOverride,
+  runCancellable,
+} from './result-printer.js';
+import {
+  emitResult,
+  OutputFormat,
+  resolveOutputFormat,
+} from './result-formatters.js';
+import { evaluateGate, resolveGatePolicy } from '../review/gate-policy.js';
+import {
+  VALID_CHECK_CATEGORIES,
+  MAX_BATCH_SIZE,
+  EXIT_CODES,
+} from '../constants.js';
 
 @Command({ name: 'codebase', description: 'Review entire codebase' })
 export class CodebaseCommand extends CommandRunner {
@@ -16,7 +33,12 @@ export class CodebaseCommand extends CommandRunner {
   }
 
   async run(_params: string[], options: Record<string, string>): Promise<void> {
+    const format = resolveOutputFormat(options.format, options.output);
     await this.configService.loadConfig(options.config);
+    if (options.resume) {
+      await this.resume(options.resume, options, format);
+      return;
+    }
 
     const directory = options.dir ?? process.cwd();
     const extensions =
@@ -44,22 +66,97 @@ export class CodebaseCommand extends CommandRunner {
       VALID_CHECK_CATEGORIES,
       config.review.defaultChecks,
     );
+    const gatePolicy = resolveGatePolicy(
+      options.failOn,
+      options.failOnCategory,
+      config.review,
+    );
     const extra = options.extra;
 
     console.log('\n=== Code Review Council ===\n');
     console.log(`Directory: ${sanitize(directory)}`);
     if (extensions) console.log(`Extensions: ${extensions.map(sanitize).join(', ')}`);
     if (parsedBatchSize) console.log(`Batch size: ${parsedBatchSize}`);
+    const codebaseOptions = { extensions, maxBatchSize: parsedBatchSize };
+
+    if (options.dryRun) {
+      const plan = await this.reviewService.planCodebase(
+        directory,
+        codebaseOptions,
+      );
+      printPlan(plan);
+      process.exitCode = plan.overBudget ? EXIT_CODES.failed : EXIT_CODES.ok;
+      return;
+    }
     console.log('Reviewing...\n');
 
-    const result = await this.reviewService.reviewCodebase(
-      directory,
-      { extensions, maxBatchSize: parsedBatchSize },
-      checks,
-      extra,
+    const result = await runCancellable((signal) =>
+      this.reviewService.reviewCodebase(
+        directory,
+        codebaseOptions,
+        checks,
+        extra,
+        { config: noCacheOverride(config, options), signal },
+      ),
     );
+    if (!result) return;
 
-    printResult(result);
+    await emitResult(result, format, options.output);
+
+    const outcome = evaluateGate(result, gatePolicy);
+    printGateSummary(outcome, gatePolicy);
+    process.exitCode = outcome.exitCode;
+  }
+
+  /** Continue an interrupted review; what to review and by whom comes from its checkpoint. */
+  private async resume(
+    reviewId: string,
+    options: Record<string, string>,
+    format: OutputFormat,
+  ): Promise<void> {
+    const conflicting = [
+      options.dir && '--dir',
+      options.extensions && '--extensions',
+      options.batchSize && '--batch-size',
+      options.checks && '--checks',
+      options.extra && '--extra',
+      options.dryRun && '--dry-run',
+      noCacheOverride(this.configService.getConfig(), options) && '--no-cache',
+    ].filter(Boolean);
+    if (conflicting.length > 0) {
+      throw new Error(
+        `--resume continues with the settings the review started with and cannot be combined with ${conflicting.join(', ')}`,
+      );
+    }
+    const gatePolicy = resolveGatePolicy(
+      options.failOn,
+      options.failOnCategory,
+      this.configService.getConfig().review,
+    );
+
+    console.log('\n=== Code Review Council ===\n');
+    console.log(`Resuming: ${sanitize(reviewId)}`);
+    console.log('Reviewing...\n');
+
+    const result = await runCancellable((signal) =>
+      this.reviewService.resumeCodebase(reviewId, { signal }),
+    );
+    if (!result) return;
+
+    await emitResult(result, format, options.output);
+
+    const outcome = evaluateGate(result, gatePolicy);
+    printGateSummary(outcome, gatePolicy);
+    process.exitCode = outcome.exitCode;
+  }
+
+  @Option({
+    flags: '--resume <reviewId>',
+    description:
+      'Resume an interrupted batch-mode review from its checkpoint, skipping finished batches',
+  })
+  parseResume(val: string) {
+    return val;
   }
 
   @Option({
@@ -92,6 +189,24 @@ export class CodebaseCommand extends CommandRunner {
     return val;
   }
 
+  @Option({
+    flags: '--dry-run',
+    description:
+      'Print the review plan and token / cost estimate without contacting any agent',
+  })
+  parseDryRun() {
+    return true;
+  }
+
+  @Option({
+    flags: '--no-cache',
+    description:
+      'Send every prompt to the agents instead of reusing cached responses',
+  })
+  parseNoCache() {
+    return false;
+  }
+
   @Option({
     flags: '--checks <list>',
     description: 'Comma-separated check categories',
@@ -115,4 +230,39 @@ export class CodebaseCommand extends CommandRunner {
   parseConfig(val: string) {
     return val;
   }
+
+  @Option({
+    flags: '--format <format>',
+    description:
+      'Output format: text, json, sarif, junit, markdown (default: text, or inferred from --output)',
+  })
+  parseFormat(val: string) {
+    return val;
+  }
+
+  @Option({
+    flags: '--output <file>',
+    description: 'Write the result to a file instead of stdout',
+  })
+  parseOutput(val: string) {
+    return val;
+  }
+
+  @Option({
+    flags: '--fail-on <severity>',
+    description:
+      'Exit with code 2 when an accepted finding is at or above this severity: high, medium, low, none',
+  })
+  parseFailOn(val: string) {
+    return val;
+  }
+
+  @Option({
+    flags: '--fail-on-category <list>',
+    description:
+      'Comma-separated categories that exit with code 2 (combined with --fail-on when both are set)',
+  })
+  parseFailOnCategory(val: string) {
+    return val;
+  }
 }
@@ -3,8 +3,17 @@ import { Inject } from '@nestjs/common';
 import { existsSync, statSync } from 'node:fs';
 import { ReviewService } from '../review/review.service.js';
 import { ConfigService } from '../config/config.service.js';
-import { printResult, sanitize, parseChecksOption } from './result-printer.js';
-import { VALID_CHECK_CATEGORIES } from '../constants.js';
+import {
+  sanitize,
+  parseChecksOption,
+  printGateSummary,
+  printPlan,
+  noCacheOverride,
+  runCancellable,
+} from './result-printer.js';
+import { emitResult, resolveOutputFormat } from './result-formatters.js';
+import { evaluateGate, resolveGatePolicy } from '../review/gate-policy.js';
+import { EXIT_CODES, VALID_CHECK_CATEGORIES } from '../constants.js';
 
 @Command({ name: 'diff', description: 'Review git diff' })
 export class DiffCommand extends CommandRunner {
@@ -16,6 +25,23 @@ export class DiffCommand extends CommandRunner {
   }
 
   async run(_params: string[], options: Record<string, string>): Promise<void> {
+    const format = resolveOutputFormat(options.format, options.output);
+    const targetFlags = [
+      options.range && '--range',
+      options.commit && '--commit',
+      options.staged && '--staged',
+      options.workingTree && '--working-tree',
+    ].filter(Boolean);
+    if (targetFlags.length > 1) {
+      throw new Error(
+        `${targetFlags.join(', ')} cannot be used together; choose one diff target`,
+      );
+    }
+    if (options.incremental && targetFlags.length > 0) {
+      throw new Error(
+        `--incremental cannot be combined with ${targetFlags[0]}`,
+      );
+    }
     await this.configService.loadConfig(options.config);
 
     const repoPath = options.repo ?? process.cwd();
@@ -26,21 +52,68 @@ export class DiffCommand extends CommandRunner {
       VALID_CHECK_CATEGORIES,
       config.review.defaultChecks,
     );
+    const gatePolicy = resolveGatePolicy(
+      options.failOn,
+      options.failOnCategory,
+      config.review,
+    );
     const extra = options.extra;
+    const incremental = Boolean(options.incremental);
+    const diffOptions = {
+      incremental,
+      range: options.range,
+      commit: options.commit,
+      staged: Boolean(options.staged),
+      workingTree: Boolean(options.workingTree),
+    };
 
     console.log('\n=== Code Review Council ===\n');
     console.log(`Repo: ${sanitize(repoPath)}`);
-    console.log(`Base: ${sanitize(baseBranch)}`);
+    if (options.range) {
+      console.log(`Range: ${sanitize(options.range)}`);
+    } else if (options.commit) {
+      console.log(`Commit: ${sanitize(options.commit)}`);
+    } else if (options.staged) {
+      console.log('Target: staged changes');
+    } else if (options.workingTree) {
+      console.log('Target: unstaged working tree changes');
+    } else {
+      console.log(`Base: ${sanitize(baseBranch)}`);
+    }
+    if (incremental) console.log('Incremental: changes since last review');
+
+    if (options.dryRun) {
+      const plan = await this.reviewService.planDiff(
+        repoPath,
+        baseBranch,
+        undefined,
+        diffOptions,
+      );
+      printPlan(plan);
+      process.exitCode = plan.overBudget ? EXIT_CODES.failed : EXIT_CODES.ok;
+      return;
+    }
     console.log('Reviewing...\n');
 
-    const result = await this.reviewService.reviewDiff(
-      repoPath,
-      baseBranch,
-      checks,
-      extra,
+    const result = await runCancellable((signal) =>
+      this.reviewService.reviewDiff(repoPath, baseBranch, checks, extra, {
+        config: noCacheOverride(config, options),
+        diff: diffOptions,
+        signal,
+      }),
     );
+    if (!result) return;
+    if (result.incremental) {
+      console.log(
+        `Reviewed changes since ${result.incremental.sinceSha.slice(0, 12)} (${sanitize(result.incremental.sinceReviewId)})`,
+      );
+    }
+
+    await emitResult(result, format, options.output);
 
-    printResult(result);
+    const outcome = evaluateGate(result, gatePolicy);
+    printGateSummary(outcome, gatePolicy);
+    process.exitCode = outcome.exitCode;
   }
 
   @Option({
@@ -65,6 +138,66 @@ export class DiffCommand extends CommandRunner {
     return val;
   }
 
+  @Option({
+    flags: '--range <range>',
+    description:
+      'Review a commit range (A..B or A...B) instead of base-vs-HEAD',
+  })
+  parseRange(val: string) {
+    return val;
+  }
+
+  @Option({
+    flags: '--commit <sha>',
+    description: 'Review a single commit against its parent',
+  })
+  parseCommit(val: string) {
+    return val;
+  }
+
+  @Option({
+    flags: '--staged',
+    description: 'Review staged changes only (what is about to be committed)',
+  })
+  parseStaged() {
+    return true;
+  }
+
+  @Option({
+    flags: '--working-tree',
+    description: 'Review unstaged working tree changes only',
+  })
+  parseWorkingTree() {
+    return true;
+  }
+
+  @Option({
+    flags: '--incremental',
+    description:
+      'Only review changes since the last reviewed commit of this branch (from history)',
+  })
+  parseIncremental() {
+    return true;
+  }
+
+  @Option({
+    flags: '--dry-run',
+    description:
+      'Print the review plan and token / cost estimate without contacting any agent',
+  })
+  parseDryRun() {
+    return true;
+  }
+
+  @Option({
+    flags: '--no-cache',
+    description:
+      'Send every prompt to the agents instead of reusing cached responses',
+  })
+  parseNoCache() {
+    return false;
+  }
+
   @Option({
     flags: '--checks <list>',
     description: 'Comma-separated check categories',
@@ -88,4 +221,39 @@ export class DiffCommand extends CommandRunner {
   parseConfig(val: string) {
     return val;
   }
+
+  @Option({
+    flags: '--format <format>',
+    description:
+      'Output format: text, json, sarif, junit, markdown (default: text, or inferred from --output)',
+  })
+  parseFormat(val: string) {
+    return val;
+  }
+
+  @Option({
+    flags: '--output <file>',
+    description: 'Write the result to a file instead of stdout',
+  })
+  parseOutput(val: string) {
+    return val;
+  }
+
+  @Option({
+    flags: '--fail-on <severity>',
+    description:
+      'Exit with code 2 when an accepted finding is at or above this severity: high, medium, low, none',
+  })
+  parseFailOn(val: string) {
+    return val;
+  }
+
+  @Option({
+    flags: '--fail-on-category <list>',
+    description:
+      'Comma-separated categories that exit with code 2 (combined with --fail-on when both are set)',
+  })
+  parseFailOnCategory(val: string) {
+    return val;
+  }
 }
@@ -2,8 +2,17 @@ import { Command, CommandRunner, Option } from 'nest-commander';
 import { Inject } from '@nestjs/common';
 import { ReviewService } from '../review/review.service.js';
 import { ConfigService } from '../config/config.service.js';
-import { printResult, sanitize, parseChecksOption } from './result-printer.js';
-import { VALID_CHECK_CATEGORIES } from '../constants.js';
+import {
+  sanitize,
+  parseChecksOption,
+  printGateSummary,
+  printPlan,
+  noCacheOverride,
+  runCancellable,
+} from './result-printer.js';
+import { emitResult, resolveOutputFormat } from './result-formatters.js';
+import { evaluateGate, resolveGatePolicy } from '../review/gate-policy.js';
+import { EXIT_CODES, VALID_CHECK_CATEGORIES } from '../constants.js';
 
 @Command({ name: 'file', description: 'Review specific files' })
 export class FileCommand extends CommandRunner {
@@ -19,6 +28,7 @@ export class FileCommand extends CommandRunner {
       throw new Error('Please provide at least one file path.');
     }
 
+    const format = resolveOutputFormat(options.format, options.output);
     await this.configService.loadConfig(options.config);
 
     const config = this.configService.getConfig();
@@ -27,15 +37,55 @@ export class FileCommand extends CommandRunner {
       VALID_CHECK_CATEGORIES,
       config.review.defaultChecks,
     );
+    const gatePolicy = resolveGatePolicy(
+      options.failOn,
+      options.failOnCategory,
+      config.review,
+    );
     const extra = options.extra;
 
     console.log('\n=== Code Review Council ===\n');
     console.log(`Files: ${params.map(sanitize).join(', ')}`);
+
+    if (options.dryRun) {
+      const plan = await this.reviewService.planFiles(params);
+      printPlan(plan);
+      process.exitCode = plan.overBudget ? EXIT_CODES.failed : EXIT_CODES.ok;
+      return;
+    }
     console.log('Reviewing...\n');
 
-    const result = await this.reviewService.reviewFiles(params, checks, extra);
+    const result = await runCancellable((signal) =>
+      this.reviewService.reviewFiles(params, checks, extra, {
+        config: noCacheOverride(config, options),
+        signal,
+      }),
+    );
+    if (!result) return;
+
+    await emitResult(result, format, options.output);
 
-    printResult(result);
+    const outcome = evaluateGate(result, gatePolicy);
+    printGateSummary(outcome, gatePolicy);
+    process.exitCode = outcome.exitCode;
+  }
+
+  @Option({
+    flags: '--dry-run',
+    description:
+      'Print the review plan and token / cost estimate without contacting any agent',
+  })
+  parseDryRun() {
+    return true;
+  }
+
+  @Option({
+    flags: '--no-cache',
+    description:
+      'Send every prompt to the agents instead of reusing cached responses',
+  })
+  parseNoCache() {
+    return false;
   }
 
   @Option({
@@ -61,4 +111,39 @@ export class FileCommand extends CommandRunner {
   parseConfig(val: string) {
     return val;
   }
+
+  @Option({
+    flags: '--format <format>',
+    description:
+      'Output format: text, json, sarif, junit, markdown (default: text, or inferred from --output)',
+  })
+  parseFormat(val: string) {
+    return val;
+  }
+
+  @Option({
+    flags: '--output <file>',
+    description: 'Write the result to a file instead of stdout',
+  })
+  parseOutput(val: string) {
+    return val;
+  }
+
+  @Option({
+    flags: '--fail-on <severity>',
+    description:
+      'Exit with code 2 when an accepted finding is at or above this severity: high, medium, low, none',
+  })
+  parseFailOn(val: string) {
+    return val;
+  }
+
+  @Option({
+    flags: '--fail-on-category <list>',
+    description:
+      'Comma-separated categories that exit with code 2 (combined with --fail-on when both are set)',
+  })
+  parseFailOnCategory(val: string) {
+    return val;
+  }
 }
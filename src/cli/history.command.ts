@@ -0,0 +1,148 @@
+import { Command, CommandRunner, Option, SubCommand } from 'nest-commander';
+import { Inject } from '@nestjs/common';
+import { HistoryService } from '../history/history.service.js';
+import { printResult, sanitize } from './result-printer.js';
+
+@SubCommand({ name: 'list', description: 'List past reviews (newest first)' })
+export class HistoryListCommand extends CommandRunner {
+  constructor(
+    @Inject(HistoryService) private readonly historyService: HistoryService,
+  ) {
+    super();
+  }
+
+  async run(_params: string[], options: Record<string, string>): Promise<void> {
+    const summaries = await this.historyService.list();
+    const limit = options.limit ? Number(options.limit) : undefined;
+    const shown = limit ? summaries.slice(0, limit) : summaries;
+    if (shown.length === 0) {
+      console.log(
+        `No reviews in history (${sanitize(this.historyService.getHistoryDir())}).`,
+      );
+      return;
+    }
+    console.log(
+      '| ID | Date | Type | Status | Target | Reviewers | Decisions |',
+    );
+    console.log('|---|---|---|---|---|---|---|');
+    for (const s of shown) {
+      console.log(
+        `| ${sanitize(s.id)} | ${sanitize(s.createdAt)} | ${s.kind} | ${s.status} | ${sanitize(s.target).replace(/\|/g, '\\|')} | ${s.reviewers.map(sanitize).join(', ')} | ${s.decisionCount} |`,
+      );
+    }
+  }
+
+  @Option({
+    flags: '--limit <n>',
+    description: 'Show only the N most recent reviews',
+  })
+  parseLimit(val: string) {
+    const n = Number(val);
+    if (!Number.isInteger(n) || n <= 0) {
+      throw new Error(
+        `--limit must be a positive integer, got "${sanitize(val)}"`,
+      );
+    }
+    return val;
+  }
+}
+
+@SubCommand({
+  name: 'show',
+  arguments: '<id>',
+  description: 'Show a past review',
+})
+export class HistoryShowCommand extends CommandRunner {
+  constructor(
+    @Inject(HistoryService) private readonly historyService: HistoryService,
+  ) {
+    super();
+  }
+
+  async run(params: string[], options: Record<string, boolean>): Promise<void> {
+    const id = params[0];
+    const record = await this.historyService.get(id);
+    if (!record) {
+      throw new Error(`Review not found in history: "${sanitize(id)}"`);
+    }
+    if (options.json) {
+      console.log(JSON.stringify(record, null, 2));
+      return;
+    }
+    const { request } = record;
+    console.log('\n=== Code Review Council (history) ===\n');
+    console.log(`ID: ${sanitize(record.id)}`);
+    console.log(`Date: ${sanitize(record.createdAt)}`);
+    console.log(`Type: ${request.kind} (mode: ${request.mode})`);
+    if (request.repoPath) console.log(`Repo: ${sanitize(request.repoPath)}`);
+    if (request.baseBranch)
+      console.log(`Base: ${sanitize(request.baseBranch)}`);
+    if (request.filePaths) {
+      console.log(`Files: ${request.filePaths.map(sanitize).join(', ')}`);
+    }
+    if (request.directory) {
+      console.log(`Directory: ${sanitize(request.directory)}`);
+    }
+    if (request.checks.length > 0) {
+      console.log(`Checks: ${request.checks.map(sanitize).join(', ')}`);
+    }
+    console.log(`Status: ${record.result.status}`);
+    printResult(record.result);
+  }
+
+  @Option({
+    flags: '--json',
+    description: 'Print the full stored record as JSON',
+  })
+  parseJson() {
+    return true;
+  }
+}
+
+@SubCommand({
+  name: 'rm',
+  arguments: '<ids...>',
+  description: 'Delete past reviews from history',
+})
+export class HistoryRmCommand extends CommandRunner {
+  constructor(
+    @Inject(HistoryService) private readonly historyService: HistoryService,
+  ) {
+    super();
+  }
+
+  async run(params: string[]): Promise<void> {
+    const missing: string[] = [];
+    for (const id of params) {
+      if (await this.historyService.remove(id)) {
+        console.log(`Deleted ${sanitize(id)}`);
+      } else {
+        missing.push(id);
+      }
+    }
+    if (missing.length > 0) {
+      throw new Error(
+        `Review not found in history: ${missing.map((id) => `"${sanitize(id)}"`).join(', ')}`,
+      );
+    }
+  }
+}
+
+@Command({
+  name: 'history',
+  description: 'Browse and manage past reviews',
+  subCommands: [HistoryListCommand, HistoryShowCommand, HistoryRmCommand],
+})
+export class HistoryCommand extends CommandRunner {
+  constructor(
+    @Inject(HistoryListCommand)
+    private readonly listCommand: HistoryListCommand,
+  ) {
+    super();
+  }
+
+  /** `history` with no subcommand behaves like `history list`. */
+  async run(params: string[], options: Record<string, string>): Promise<void> {
+    await this.listCommand.run(params, options);
+  }
+}
@@ -0,0 +1,292 @@
+import { Command, CommandRunner, Option, SubCommand } from 'nest-commander';
+import { Inject } from '@nestjs/common';
+import { existsSync, statSync } from 'node:fs';
+import { resolve } from 'node:path';
+import {
+  GIT_HOOKS,
+  GitHook,
+  HookChange,
+  HooksService,
+  SKIP_HOOKS_ENV,
+  isGitHook,
+  parsePrePushInput,
+  pushRange,
+} from '../hooks/hooks.service.js';
+import { ReviewService } from '../review/review.service.js';
+import { ConfigService } from '../config/config.service.js';
+import { CouncilConfig } from '../config/config.types.js';
+import { DiffReviewOptions } from '../review/review.types.js';
+import {
+  evaluateGate,
+  isGateEnabled,
+  resolveGatePolicy,
+} from '../review/gate-policy.js';
+import { printGateVerdict, printResult, sanitize } from './result-printer.js';
+import { EXIT_CODES } from '../constants.js';
+
+function parseHookList(raw: string | undefined): GitHook[] {
+  if (!raw) return [...GIT_HOOKS];
+  const hooks = raw
+    .split(',')
+    .map((h) => h.trim())
+    .filter(Boolean);
+  const invalid = hooks.filter((h) => !isGitHook(h));
+  if (invalid.length > 0 || hooks.length === 0) {
+    throw new Error(
+      `Invalid --hook: "${sanitize(raw)}". Valid hooks: ${GIT_HOOKS.join(', ')}`,
+    );
+  }
+  return hooks as GitHook[];
+}
+
+function parseRepoPath(val: string): string {
+  if (!existsSync(val)) {
+    throw new Error(`Repository path not found: "${sanitize(val)}"`);
+  }
+  if (!statSync(val).isDirectory()) {
+    throw new Error(`Repository path is not a directory: "${sanitize(val)}"`);
+  }
+  return val;
+}
+
+function printChanges(changes: HookChange[]): void {
+  for (const c of changes) {
+    const reason = c.reason ? ` (${c.reason})` : '';
+    console.log(`${c.hook}: ${c.action}${reason} — ${sanitize(c.path)}`);
+  }
+}
+
+async function readStdin(): Promise<string> {
+  if (process.stdin.isTTY) return '';
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+@SubCommand({
+  name: 'install',
+  description: 'Install pre-commit / pre-push hooks that review changes',
+})
+export class HooksInstallCommand extends CommandRunner {
+  constructor(
+    @Inject(HooksService) private readonly hooksService: HooksService,
+  ) {
+    super();
+  }
+
+  async run(_params: string[], options: Record<string, string>): Promise<void> {
+    const repoPath = options.repo ?? process.cwd();
+    const hooks = parseHookList(options.hook);
+    if (options.config?.trim().startsWith('{')) {
+      throw new Error(
+        '--config for hooks must be a file path, not inline JSON',
+      );
+    }
+    const changes = await this.hooksService.install(repoPath, {
+      hooks,
+      // Hooks run outside this shell, so pin the exact node binary and CLI entry
+      command: [process.execPath, resolve(process.argv[1])],
+      configPath: options.config ? resolve(options.config) : undefined,
+      force: Boolean(options.force),
+    });
+    printChanges(changes);
+    console.log(
+      `\nSkip a single run with ${SKIP_HOOKS_ENV}=1, remove with \`code-review-council hooks uninstall\`.`,
+    );
+  }
+
+  @Option({
+    flags: '--repo <path>',
+    description: 'Repository path (default: cwd)',
+  })
+  parseRepo(val: string) {
+    return parseRepoPath(val);
+  }
+
+  @Option({
+    flags: '--hook <list>',
+    description: `Comma-separated hooks to install: ${GIT_HOOKS.join(', ')} (default: all)`,
+  })
+  parseHook(val: string) {
+    return val;
+  }
+
+  @Option({
+    flags: '--config <path>',
+    description:
+      'Config file the hooks always use (default: normal config resolution)',
+  })
+  parseConfig(val: string) {
+    return val;
+  }
+
+  @Option({
+    flags: '--force',
+    description:
+      'Back up and replace existing hooks that were not installed by code-review-council',
+  })
+  parseForce() {
+    return true;
+  }
+}
+
+@SubCommand({
+  name: 'uninstall',
+  description: 'Remove hooks installed by code-review-council',
+})
+export class HooksUninstallCommand extends CommandRunner {
+  constructor(
+    @Inject(HooksService) private readonly hooksService: HooksService,
+  ) {
+    super();
+  }
+
+  async run(_params: string[], options: Record<string, string>): Promise<void> {
+    const repoPath = options.repo ?? process.cwd();
+    const changes = await this.hooksService.uninstall(
+      repoPath,
+      parseHookList(options.hook),
+    );
+    printChanges(changes);
+  }
+
+  @Option({
+    flags: '--repo <path>',
+    description: 'Repository path (default: cwd)',
+  })
+  parseRepo(val: string) {
+    return parseRepoPath(val);
+  }
+
+  @Option({
+    flags: '--hook <list>',
+    description: `Comma-separated hooks to remove: ${GIT_HOOKS.join(', ')} (default: all)`,
+  })
+  parseHook(val: string) {
+    return val;
+  }
+}
+
+@SubCommand({
+  name: 'run',
+  arguments: '<hook> [args...]',
+  description: 'Review changes for a git hook (called by installed hooks)',
+})
+export class HooksRunCommand extends CommandRunner {
+  constructor(
+    @Inject(ReviewService) private readonly reviewService: ReviewService,
+    @Inject(ConfigService) private readonly configService: ConfigService,
+  ) {
+    super();
+  }
+
+  async run(params: string[], options: Record<string, string>): Promise<void> {
+    const hook = params[0];
+    if (!isGitHook(hook)) {
+      throw new Error(
+        `Unknown hook: "${sanitize(hook)}". Valid hooks: ${GIT_HOOKS.join(', ')}`,
+      );
+    }
+    if (process.env[SKIP_HOOKS_ENV] === '1') {
+      console.error(`${SKIP_HOOKS_ENV}=1, skipping ${hook} review.`);
+      return;
+    }
+    // Git runs hooks from the repository root, so normal resolution picks up
+    // the repo's review-council.config.json
+    await this.configService.loadConfig(options.config);
+    const config = this.configService.getConfig();
+    const hookConfig = this.withHookReviewers(config);
+    const baseBranch = config.hooks?.baseBranch ?? 'main';
+    const configuredPolicy = resolveGatePolicy(
+      undefined,
+      undefined,
+      config.review,
+    );
+    // A hook that never blocks is pointless; default to high-severity findings
+    const gatePolicy = isGateEnabled(configuredPolicy)
+      ? configuredPolicy
+      : { failOn: 'high' as const };
+
+    const targets = await this.resolveTargets(hook, baseBranch);
+    let blocked = false;
+    for (const target of targets) {
+      const label = target.range ? `range ${target.range}` : 'staged changes';
+      console.error(`\n=== Code Review Council (${hook}: ${label}) ===\n`);
+      let result;
+      try {
+        result = await this.reviewService.reviewDiff(
+          process.cwd(),
+          baseBranch,
+          config.review.defaultChecks,
+          undefined,
+          { config: hookConfig, diff: target },
+        );
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : String(error);
+        if (msg.startsWith('No diff found')) {
+          console.error('Nothing to review.');
+        } else {
+          console.error(`Review failed, not blocking: ${sanitize(msg)}`);
+        }
+        continue;
+      }
+      printResult(result);
+      const outcome = evaluateGate(result, gatePolicy);
+      if (outcome.exitCode === EXIT_CODES.failed) {
+        console.error('\nNo reviewer produced a result, not blocking.');
+        continue;
+      }
+      printGateVerdict(outcome, gatePolicy);
+      if (outcome.exitCode === EXIT_CODES.blocking) blocked = true;
+    }
+    if (blocked) {
+      console.error(
+        `\nBlocked by code-review-council. Fix the findings above, or skip once with ${SKIP_HOOKS_ENV}=1.`,
+      );
+      process.exitCode = EXIT_CODES.blocking;
+    }
+  }
+
+  @Option({
+    flags: '--config <path>',
+    description: 'Config file path',
+  })
+  parseConfig(val: string) {
+    return val;
+  }
+
+  private withHookReviewers(config: CouncilConfig): CouncilConfig {
+    const names = config.hooks?.reviewers;
+    if (!names) return config;
+    return {
+      ...config,
+      reviewers: config.reviewers.filter((r) => names.includes(r.name)),
+    };
+  }
+
+  private async resolveTargets(
+    hook: GitHook,
+    baseBranch: string,
+  ): Promise<DiffReviewOptions[]> {
+    if (hook === 'pre-commit') return [{ staged: true }];
+    const ranges = parsePrePushInput(await readStdin())
+      .map((ref) => pushRange(ref, baseBranch))
+      .filter((range): range is string => range !== null);
+    return ranges.map((range) => ({ range }));
+  }
+}
+
+@Command({
+  name: 'hooks',
+  description: 'Manage git hooks that review changes before commit / push',
+  subCommands: [HooksInstallCommand, HooksUninstallCommand, HooksRunCommand],
+})
+export class HooksCommand extends CommandRunner {
+  /** `hooks` with no subcommand prints its help. */
+  run(): Promise<void> {
+    this.command.outputHelp();
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,269 @@
+import { Command, CommandRunner, Option, SubCommand } from 'nest-commander';
+import { Inject } from '@nestjs/common';
+import { readFile } from 'node:fs/promises';
+import { HistoryService } from '../history/history.service.js';
+import { ReviewResult } from '../review/review.types.js';
+import {
+  DEFAULT_GITHUB_API_URL,
+  GitHubPublisher,
+} from '../publish/github-publisher.js';
+import {
+  DEFAULT_GITLAB_API_URL,
+  GitLabPublisher,
+} from '../publish/gitlab-publisher.js';
+import { PublishOutcome } from '../publish/review-comments.js';
+import { sanitize } from './result-printer.js';
+
+/**
+ * The review to publish: a `--format json` result file, a history record, or
+ * the most recent review in history.
+ */
+export async function loadReviewToPublish(
+  historyService: HistoryService,
+  options: { review?: string; input?: string },
+): Promise<ReviewResult> {
+  if (options.review && options.input) {
+    throw new Error('--review and --input cannot be used together');
+  }
+  if (options.input) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await readFile(options.input, 'utf-8'));
+    } catch (error) {
+      throw new Error(
+        `Cannot read review result from "${sanitize(options.input)}": ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+    const result = parsed as Partial<ReviewResult> | null;
+    if (!result || !Array.isArray(result.individualReviews)) {
+      throw new Error(
+        `"${sanitize(options.input)}" is not a review result (expected the output of --format json)`,
+      );
+    }
+    return result as ReviewResult;
+  }
+  const record = options.review
+    ? await historyService.get(options.review)
+    : await historyService.findLatest(() => true);
+  if (!record) {
+    throw new Error(
+      options.review
+        ? `Review not found in history: "${sanitize(options.review)}"`
+        : 'No reviews in history to publish; run a review first or pass --input',
+    );
+  }
+  return record.result;
+}
+
+function parsePositiveInteger(flag: string, val: string): number {
+  const n = Number(val);
+  if (!Number.isInteger(n) || n <= 0) {
+    throw new Error(
+      `${flag} must be a positive integer, got "${sanitize(val)}"`,
+    );
+  }
+  return n;
+}
+
+function printOutcome(
+  result: ReviewResult,
+  target: string,
+  outcome: PublishOutcome,
+): void {
+  console.log(
+    `${outcome.summary === 'created' ? 'Posted' : 'Updated'} council review of ${sanitize(result.id)} on ${sanitize(target)}`,
+  );
+  console.log(
+    `Inline comments: ${outcome.created} new, ${outcome.updated} updated, ${outcome.resolved} resolved; ${outcome.notInline} decision(s) outside the diff listed in the summary`,
+  );
+  if (outcome.url) console.log(sanitize(outcome.url));
+}
+
+@SubCommand({
+  name: 'github',
+  description:
+    'Post a review as GitHub pull request review comments (token from GITHUB_TOKEN)',
+})
+export class PublishGitHubCommand extends CommandRunner {
+  constructor(
+    @Inject(HistoryService) private readonly historyService: HistoryService,
+  ) {
+    super();
+  }
+
+  async run(
+    _params: string[],
+    options: {
+      pr?: number;
+      repo?: string;
+      apiUrl?: string;
+      review?: string;
+      input?: string;
+    },
+  ): Promise<void> {
+    if (!options.pr) throw new Error('--pr is required');
+    const repo = options.repo ?? process.env.GITHUB_REPOSITORY;
+    if (!repo) {
+      throw new Error('--repo is required (or set GITHUB_REPOSITORY)');
+    }
+    const token = process.env.GITHUB_TOKEN || process.env.GH_TOKEN;
+    if (!token) {
+      throw new Error('GITHUB_TOKEN is not set');
+    }
+    const result = await loadReviewToPublish(this.historyService, options);
+    const publisher = new GitHubPublisher({
+      apiUrl:
+        options.apiUrl ?? process.env.GITHUB_API_URL ?? DEFAULT_GITHUB_API_URL,
+      token,
+      repo,
+      pullNumber: options.pr,
+    });
+    const outcome = await publisher.publish(result);
+    printOutcome(result, `${repo}#${options.pr}`, outcome);
+  }
+
+  @Option({
+    flags: '--pr <number>',
+    description: 'Pull request number',
+  })
+  parsePr(val: string) {
+    return parsePositiveInteger('--pr', val);
+  }
+
+  @Option({
+    flags: '--repo <owner/name>',
+    description: 'Repository (default: GITHUB_REPOSITORY)',
+  })
+  parseRepo(val: string) {
+    return val;
+  }
+
+  @Option({
+    flags: '--api-url <url>',
+    description: `REST API root (default: GITHUB_API_URL or ${DEFAULT_GITHUB_API_URL})`,
+  })
+  parseApiUrl(val: string) {
+    return val;
+  }
+
+  @Option({
+    flags: '--review <id>',
+    description: 'History id of the review to publish (default: latest)',
+  })
+  parseReview(val: string) {
+    return val;
+  }
+
+  @Option({
+    flags: '--input <path>',
+    description: 'Publish a result saved with --format json instead',
+  })
+  parseInput(val: string) {
+    return val;
+  }
+}
+
+@SubCommand({
+  name: 'gitlab',
+  description:
+    'Post a review as GitLab merge request notes and diff discussions (token from GITLAB_TOKEN)',
+})
+export class PublishGitLabCommand extends CommandRunner {
+  constructor(
+    @Inject(HistoryService) private readonly historyService: HistoryService,
+  ) {
+    super();
+  }
+
+  async run(
+    _params: string[],
+    options: {
+      project?: string;
+      mr?: number;
+      apiUrl?: string;
+      review?: string;
+      input?: string;
+    },
+  ): Promise<void> {
+    const projectId = options.project ?? process.env.CI_PROJECT_ID;
+    if (!projectId) {
+      throw new Error('--project is required (or set CI_PROJECT_ID)');
+    }
+    const envIid = process.env.CI_MERGE_REQUEST_IID;
+    const iid =
+      options.mr ??
+      (envIid
+        ? parsePositiveInteger('CI_MERGE_REQUEST_IID', envIid)
+        : undefined);
+    if (!iid) {
+      throw new Error('--mr is required (or set CI_MERGE_REQUEST_IID)');
+    }
+    const token = process.env.GITLAB_TOKEN;
+    if (!token) {
+      throw new Error('GITLAB_TOKEN is not set');
+    }
+    const result = await loadReviewToPublish(this.historyService, options);
+    const publisher = new GitLabPublisher({
+      apiUrl:
+        options.apiUrl ?? process.env.CI_API_V4_URL ?? DEFAULT_GITLAB_API_URL,
+      token,
+      projectId,
+      mergeRequestIid: iid,
+    });
+    const outcome = await publisher.publish(result);
+    printOutcome(result, `${projectId}!${iid}`, outcome);
+  }
+
+  @Option({
+    flags: '--project <id>',
+    description: 'Project id or group/project path (default: CI_PROJECT_ID)',
+  })
+  parseProject(val: string) {
+    return val;
+  }
+
+  @Option({
+    flags: '--mr <iid>',
+    description: 'Merge request iid (default: CI_MERGE_REQUEST_IID)',
+  })
+  parseMr(val: string) {
+    return parsePositiveInteger('--mr', val);
+  }
+
+  @Option({
+    flags: '--api-url <url>',
+    description: `API root (default: CI_API_V4_URL or ${DEFAULT_GITLAB_API_URL})`,
+  })
+  parseApiUrl(val: string) {
+    return val;
+  }
+
+  @Option({
+    flags: '--review <id>',
+    description: 'History id of the review to publish (default: latest)',
+  })
+  parseReview(val: string) {
+    return val;
+  }
+
+  @Option({
+    flags: '--input <path>',
+    description: 'Publish a result saved with --format json instead',
+  })
+  parseInput(val: string) {
+    return val;
+  }
+}
+
+@Command({
+  name: 'publish',
+  description: 'Publish a review result to a code hosting service',
+  subCommands: [PublishGitHubCommand, PublishGitLabCommand],
+})
+export class PublishCommand extends CommandRunner {
+  /** `publish` with no subcommand prints its help. */
+  run(): Promise<void> {
+    this.command.outputHelp();
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,305 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import {
+  emitResult,
+  formatResult,
+  isMachineReadableStdout,
+  resolveOutputFormat,
+} from './result-formatters.js';
+import { ReviewResult } from '../review/review.types.js';
+
+interface SarifLog {
+  version: string;
+  runs: {
+    tool: { driver: { name: string; rules: { id: string }[] } };
+    invocations: { executionSuccessful: boolean }[];
+    results: {
+      locations?: { physicalLocation: { region?: unknown } }[];
+    }[];
+  }[];
+}
+
+function parseSarif(text: string): SarifLog {
+  return JSON.parse(text) as SarifLog;
+}
+
+function makeResult(overrides: Partial<ReviewResult> = {}): ReviewResult {
+  return {
+    id: 'review-1234abcd',
+    status: 'completed',
+    durationMs: 4200,
+    individualReviews: [
+      {
+        reviewer: 'Gemini',
+        review: '{}',
+        status: 'success',
+        durationMs: 1000,
+        findings: [
+          {
+            severity: 'high',
+            category: 'security',
+            file: 'src/db.ts',
+            line: 12,
+            description: 'SQL injection',
+            suggestion: 'Use parameters',
+          },
+        ],
+        notes: ['Add tests'],
+      },
+      {
+        reviewer: 'Codex',
+        review: '[error] Review generation failed for Codex',
+        status: 'error',
+      },
+    ],
+    decision: {
+      reviewer: 'Claude (Decision Maker)',
+      overallAssessment: 'Mostly fine.',
+      decisions: [
+        {
+          severity: 'high',
+          category: 'security',
+          description: 'SQL injection',
+          file: './src/db.ts',
+          line: 12,
+          raisedBy: ['Gemini'],
+          verdict: 'accepted',
+          reasoning: 'User input reaches the query',
+          suggestion: 'Use parameters',
+        },
+        {
+          severity: 'low',
+          category: 'readability',
+          description: 'Rename variable',
+          raisedBy: ['Gemini'],
+          verdict: 'rejected',
+          reasoning: 'Name is fine',
+          suggestion: 'Rename x',
+        },
+      ],
+      additionalFindings: [
+        {
+          severity: 'medium',
+          category: 'performance',
+          description: 'Query runs in a loop <N+1>',
+          file: 'src/list.ts',
+          suggestion: 'Batch the query',
+        },
+      ],
+    },
+    ...overrides,
+  };
+}
+
+describe('resolveOutputFormat', () => {
+  it('should default to text', () => {
+    expect(resolveOutputFormat(undefined, undefined)).toBe('text');
+  });
+
+  it('should accept explicit formats case-insensitively', () => {
+    expect(resolveOutputFormat('SARIF', undefined)).toBe('sarif');
+  });
+
+  it('should reject unknown formats', () => {
+    expect(() => resolveOutputFormat('yaml', undefined)).toThrow(
+      'Invalid format',
+    );
+  });
+
+  it('should infer the format from the output extension', () => {
+    expect(resolveOutputFormat(undefined, 'out/report.sarif')).toBe('sarif');
+    expect(resolveOutputFormat(undefined, 'report.sarif.json')).toBe('sarif');
+    expect(resolveOutputFormat(undefined, 'report.json')).toBe('json');
+    expect(resolveOutputFormat(undefined, 'junit.xml')).toBe('junit');
+    expect(resolveOutputFormat(undefined, 'REPORT.MD')).toBe('markdown');
+    expect(resolveOutputFormat(undefined, 'report')).toBe('text');
+  });
+
+  it('should let an explicit format win over the extension', () => {
+    expect(resolveOutputFormat('json', 'report.xml')).toBe('json');
+  });
+});
+
+describe('isMachineReadableStdout', () => {
+  it('should be true for machine formats without --output', () => {
+    expect(isMachineReadableStdout(['diff', '--format', 'json'])).toBe(true);
+    expect(isMachineReadableStdout(['diff', '--format=sarif'])).toBe(true);
+  });
+
+  it('should be false for text, unknown formats or when writing to a file', () => {
+    expect(isMachineReadableStdout(['diff'])).toBe(false);
+    expect(isMachineReadableStdout(['diff', '--format', 'text'])).toBe(false);
+    expect(isMachineReadableStdout(['diff', '--format', 'yaml'])).toBe(false);
+    expect(
+      isMachineReadableStdout(['diff', '--format', 'json', '--output', 'a']),
+    ).toBe(false);
+  });
+});
+
+describe('formatResult', () => {
+  it('should output the full result as JSON', () => {
+    const result = makeResult();
+    expect(JSON.parse(formatResult(result, 'json'))).toEqual(result);
+  });
+
+  it('should map decisions and additional findings to SARIF results', () => {
+    const sarif = parseSarif(formatResult(makeResult(), 'sarif'));
+    expect(sarif.version).toBe('2.1.0');
+    const run = sarif.runs[0];
+    expect(run.tool.driver.name).toBe('code-review-council');
+    expect(run.tool.driver.rules.map((r) => r.id)).toEqual([
+      'council/performance',
+      'council/security',
+    ]);
+    // Rejected decisions are not reported
+    expect(run.results).toHaveLength(2);
+    expect(run.results[0]).toMatchObject({
+      ruleId: 'council/security',
+      ruleIndex: 1,
+      level: 'error',
+      message: { text: 'SQL injection\n\nSuggestion: Use parameters' },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: 'src/db.ts' },
+            region: { startLine: 12 },
+          },
+        },
+      ],
+      properties: { verdict: 'accepted', raisedBy: ['Gemini'] },
+    });
+    expect(run.results[1]).toMatchObject({
+      ruleId: 'council/performance',
+      ruleIndex: 0,
+      level: 'warning',
+      locations: [
+        { physicalLocation: { artifactLocation: { uri: 'src/list.ts' } } },
+      ],
+      properties: { source: 'additional' },
+    });
+    expect(
+      run.results[1].locations?.[0].physicalLocation.region,
+    ).toBeUndefined();
+  });
+
+  it('should produce an empty SARIF run when there is no decision', () => {
+    const sarif = parseSarif(
+      formatResult(
+        makeResult({ decision: undefined, status: 'failed' }),
+        'sarif',
+      ),
+    );
+    expect(sarif.runs[0].results).toEqual([]);
+    expect(sarif.runs[0].invocations[0].executionSuccessful).toBe(false);
+  });
+
+  it('should not annotate files that were not reviewed', () => {
+    const result = makeResult();
+    result.decision!.additionalFindings[0].anchor = 'unknown-file';
+    const sarif = parseSarif(formatResult(result, 'sarif'));
+    expect(sarif.runs[0].results[1].locations).toBeUndefined();
+
+    const md = formatResult(result, 'markdown');
+    expect(md).toContain('| src/list.ts (not a reviewed file) |');
+  });
+
+  it('should report findings, rejected items and reviewer errors in JUnit', () => {
+    const xml = formatResult(makeResult(), 'junit');
+    expect(xml).toContain('<?xml version="1.0" encoding="UTF-8"?>');
+    expect(xml).toContain(
+      'tests="5" failures="2" errors="1" skipped="1" time="4.200"',
+    );
+    expect(xml).toContain('name="./src/db.ts:12: SQL injection"');
+    expect(xml).toContain('<failure message="SQL injection" type="high">');
+    expect(xml).toContain('Query runs in a loop &lt;N+1&gt;');
+    expect(xml).toContain('<skipped message="Rejected: Name is fine"/>');
+    expect(xml).toContain('<error message="[error] Review generation failed');
+  });
+
+  it('should render reviewer findings and decisions as Markdown', () => {
+    const md = formatResult(makeResult(), 'markdown');
+    expect(md).toContain('# Code Review Report');
+    expect(md).toContain(
+      '| high | security | src/db.ts:12 | SQL injection | Use parameters |',
+    );
+    expect(md).toContain('- Add tests');
+    expect(md).toContain('## Final Decision (by Claude (Decision Maker))');
+    expect(md).toContain('### Additional Findings');
+    expect(md).not.toContain('## Council Debate');
+    expect(md).not.toContain('### Proposed Fixes');
+  });
+
+  it('should render proposed fixes with their decision numbers in Markdown', () => {
+    const result = makeResult();
+    result.decision!.decisions[0].fix = {
+      patch: 'diff --git a/src/db.ts b/src/db.ts\n-old\n+new\n',
+      status: 'valid',
+    };
+    const md = formatResult(result, 'markdown');
+    expect(md).toContain(
+      '### Proposed Fixes\n\n#### #1 SQL injection (applies cleanly)\n\n```diff\ndiff --git a/src/db.ts b/src/db.ts\n-old\n+new\n```',
+    );
+  });
+
+  it('should render the debate transcript before the decision in Markdown', () => {
+    const md = formatResult(
+      {
+        ...makeResult(),
+        debate: [
+          {
+            round: 1,
+            entries: [
+              {
+                reviewer: 'Codex',
+                status: 'success',
+                response: '{}',
+                durationMs: 1500,
+                stances: [
+                  {
+                    reviewer: 'Gemini',
+                    finding: 'SQL injection',
+                    stance: 'agree',
+                    comment: 'id comes from the query string',
+                  },
+                ],
+                findings: [],
+              },
+            ],
+          },
+        ],
+      },
+      'markdown',
+    );
+    expect(md).toContain(
+      '## Council Debate\n\n### Round 1\n\n#### Codex (1.5s)\n\n- AGREE Gemini: "SQL injection" — id comes from the query string',
+    );
+    expect(md.indexOf('## Council Debate')).toBeLessThan(
+      md.indexOf('## Final Decision'),
+    );
+  });
+});
+
+describe('emitResult', () => {
+  let tmpDir: string | undefined;
+
+  afterEach(async () => {
+    if (tmpDir) await rm(tmpDir, { recursive: true, force: true });
+    tmpDir = undefined;
+  });
+
+  it('should write the formatted result to the output file', async () => {
+    tmpDir = await mkdtemp(join(tmpdir(), 'cr-format-'));
+    const outputPath = join(tmpDir, 'report.sarif');
+    await emitResult(makeResult(), 'sarif', outputPath);
+    const written = parseSarif(await readFile(outputPath, 'utf-8'));
+    expect(written.runs[0].results).toHaveLength(2);
+  });
+
+  it('should reject --output with the text format', async () => {
+    await expect(
+      emitResult(makeResult(), 'text', 'report.txt'),
+    ).rejects.toThrow('--output requires a file format');
+  });
+});
@@ -0,0 +1,445 @@
+import { writeFile } from 'node:fs/promises';
+import { extname, resolve } from 'node:path';
+import {
+  ReviewCategory,
+  ReviewDecisionItem,
+  ReviewFinding,
+  ReviewResult,
+} from '../review/review.types.js';
+import { formatFindingLocation } from '../review/review-findings.js';
+import { renderDebateEntryText } from '../review/debate.js';
+import {
+  formatAnchoredLocation,
+  formatVotes,
+  getVerdictIcon,
+  numberedFixes,
+  printResult,
+  sanitize,
+} from './result-printer.js';
+
+export const OUTPUT_FORMATS = [
+  'text',
+  'json',
+  'sarif',
+  'junit',
+  'markdown',
+] as const;
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+const TOOL_NAME = 'code-review-council';
+const TOOL_URI = 'https://github.com/shrek1478/code-review-council';
+
+/** Captured before any redirect so the formatted result always reaches the real stdout. */
+const writeStdout = process.stdout.write.bind(process.stdout);
+
+const EXTENSION_FORMATS: Record<string, OutputFormat> = {
+  '.json': 'json',
+  '.sarif': 'sarif',
+  '.xml': 'junit',
+  '.md': 'markdown',
+  '.txt': 'text',
+};
+
+const CATEGORY_DESCRIPTIONS: Record<ReviewCategory, string> = {
+  security: 'Security vulnerabilities and unsafe patterns',
+  performance: 'Performance problems and inefficient code',
+  readability: 'Readability and maintainability concerns',
+  'code-quality': 'General code quality issues',
+  'best-practices': 'Deviations from language or framework best practices',
+  other: 'Other review findings',
+};
+
+/**
+ * Resolve --format / --output into a concrete format.
+ * Without --format the format is inferred from the --output extension
+ * (e.g. `.sarif`, `.json`, `.xml`, `.md`), falling back to `text`.
+ */
+export function resolveOutputFormat(
+  rawFormat: string | undefined,
+  outputPath: string | undefined,
+): OutputFormat {
+  if (rawFormat) {
+    const format = rawFormat.trim().toLowerCase();
+    if (!(OUTPUT_FORMATS as readonly string[]).includes(format)) {
+      throw new Error(
+        `Invalid format: "${sanitize(rawFormat)}". Valid formats: ${OUTPUT_FORMATS.join(', ')}`,
+      );
+    }
+    return format as OutputFormat;
+  }
+  if (outputPath) {
+    const lower = outputPath.toLowerCase();
+    if (lower.endsWith('.sarif.json')) return 'sarif';
+    const inferred = EXTENSION_FORMATS[extname(lower)];
+    if (inferred) return inferred;
+  }
+  return 'text';
+}
+
+/**
+ * True when argv asks for a machine-readable format on stdout (no --output).
+ * The CLI entry point uses this to move log output to stderr before Nest boots.
+ */
+export function isMachineReadableStdout(argv: string[]): boolean {
+  let format: string | undefined;
+  let output: string | undefined;
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--format') format = argv[i + 1];
+    else if (arg.startsWith('--format=')) format = arg.slice(9);
+    else if (arg === '--output') output = argv[i + 1];
+    else if (arg.startsWith('--output=')) output = arg.slice(9);
+  }
+  if (output) return false;
+  try {
+    return resolveOutputFormat(format, undefined) !== 'text';
+  } catch {
+    return false;
+  }
+}
+
+/** Render a result in the given machine-readable (or markdown) format. */
+export function formatResult(
+  result: ReviewResult,
+  format: Exclude<OutputFormat, 'text'>,
+): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(result, null, 2);
+    case 'sarif':
+      return JSON.stringify(toSarif(result), null, 2);
+    case 'junit':
+      return toJunit(result);
+    case 'markdown':
+      return toMarkdown(result);
+  }
+}
+
+/**
+ * Print or write the result. `text` goes to the console via printResult;
+ * other formats go to --output when given, otherwise to stdout.
+ */
+export async function emitResult(
+  result: ReviewResult,
+  format: OutputFormat,
+  outputPath?: string,
+): Promise<void> {
+  if (format === 'text') {
+    if (outputPath) {
+      throw new Error(
+        '--output requires a file format: use --format json|sarif|junit|markdown',
+      );
+    }
+    printResult(result);
+    return;
+  }
+  const content = formatResult(result, format);
+  if (outputPath) {
+    const target = resolve(outputPath);
+    await writeFile(target, content + '\n', 'utf-8');
+    console.error(`Review result (${format}) written to ${sanitize(target)}`);
+    return;
+  }
+  writeStdout(content + '\n');
+}
+
+type ReportItem = ReviewFinding & {
+  source: 'decision' | 'additional';
+  verdict?: ReviewDecisionItem['verdict'];
+  raisedBy?: string[];
+  reasoning?: string;
+};
+
+/** Decisions the council stands behind: rejected suggestions are not reported. */
+function reportableItems(result: ReviewResult): ReportItem[] {
+  const decision = result.decision;
+  if (!decision) return [];
+  return [
+    ...decision.decisions
+      .filter((d) => d.verdict !== 'rejected')
+      .map((d) => ({ ...d, source: 'decision' as const })),
+    ...decision.additionalFindings.map((f) => ({
+      ...f,
+      source: 'additional' as const,
+    })),
+  ];
+}
+
+const SARIF_LEVELS: Record<ReviewFinding['severity'], string> = {
+  high: 'error',
+  medium: 'warning',
+  low: 'note',
+};
+
+function toSarifUri(file: string): string {
+  return file.replace(/\\/g, '/').replace(/^\.\//, '');
+}
+
+function toSarif(result: ReviewResult): Record<string, unknown> {
+  const items = reportableItems(result);
+  const categories = [...new Set(items.map((i) => i.category))].sort();
+  const rules = categories.map((category) => ({
+    id: `council/${category}`,
+    name: category,
+    shortDescription: { text: CATEGORY_DESCRIPTIONS[category] },
+  }));
+  const results = items.map((item) => {
+    const text = item.suggestion
+      ? `${item.description}\n\nSuggestion: ${item.suggestion}`
+      : item.description;
+    return {
+      ruleId: `council/${item.category}`,
+      ruleIndex: categories.indexOf(item.category),
+      level: SARIF_LEVELS[item.severity],
+      message: { text },
+      // A file that was not reviewed (likely hallucinated) must not be annotated
+      ...(item.file && item.anchor !== 'unknown-file'
+        ? {
+            locations: [
+              {
+                physicalLocation: {
+                  artifactLocation: { uri: toSarifUri(item.file) },
+                  ...(item.line ? { region: { startLine: item.line } } : {}),
+                },
+              },
+            ],
+          }
+        : {}),
+      properties: {
+        severity: item.severity,
+        source: item.source,
+        ...(item.verdict ? { verdict: item.verdict } : {}),
+        ...(item.raisedBy ? { raisedBy: item.raisedBy } : {}),
+        ...(item.reasoning ? { reasoning: item.reasoning } : {}),
+        ...(item.anchor ? { anchor: item.anchor } : {}),
+      },
+    };
+  });
+  return {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: { name: TOOL_NAME, informationUri: TOOL_URI, rules },
+        },
+        automationDetails: { id: result.id },
+        invocations: [{ executionSuccessful: result.status !== 'failed' }],
+        results,
+      },
+    ],
+  };
+}
+
+function escapeXml(text: string): string {
+  return (
+    text
+      // eslint-disable-next-line no-control-regex
+      .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, '')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;')
+  );
+}
+
+function toJunit(result: ReviewResult): string {
+  const items = reportableItems(result);
+  const rejected =
+    result.decision?.decisions.filter((d) => d.verdict === 'rejected') ?? [];
+  const cases: string[] = [];
+  let failures = 0;
+  let errors = 0;
+  let skipped = 0;
+
+  for (const r of result.individualReviews) {
+    const name = escapeXml(`reviewer: ${r.reviewer}`);
+    const time = ((r.durationMs ?? 0) / 1000).toFixed(3);
+    if (r.status === 'error') {
+      errors++;
+      cases.push(
+        `    <testcase classname="${TOOL_NAME}.reviewers" name="${name}" time="${time}">\n      <error message="${escapeXml(r.review)}"/>\n    </testcase>`,
+      );
+    } else {
+      cases.push(
+        `    <testcase classname="${TOOL_NAME}.reviewers" name="${name}" time="${time}"/>`,
+      );
+    }
+  }
+  if (!result.decision) {
+    errors++;
+    cases.push(
+      `    <testcase classname="${TOOL_NAME}.decision" name="decision maker">\n      <error message="No decision was produced (status: ${result.status})"/>\n    </testcase>`,
+    );
+  }
+  for (const item of items) {
+    failures++;
+    const location = formatFindingLocation(item);
+    const name = escapeXml(
+      location ? `${location}: ${item.description}` : item.description,
+    );
+    const body = escapeXml(
+      [
+        `Severity: ${item.severity}`,
+        `Category: ${item.category}`,
+        ...(location ? [`Location: ${location}`] : []),
+        ...(item.raisedBy?.length
+          ? [`Raised by: ${item.raisedBy.join(', ')}`]
+          : []),
+        ...(item.reasoning ? [`Reasoning: ${item.reasoning}`] : []),
+        `Suggestion: ${item.suggestion}`,
+      ].join('\n'),
+    );
+    cases.push(
+      `    <testcase classname="${TOOL_NAME}.${item.category}" name="${name}">\n      <failure message="${escapeXml(item.description)}" type="${item.severity}">${body}</failure>\n    </testcase>`,
+    );
+  }
+  for (const d of rejected) {
+    skipped++;
+    const location = formatFindingLocation(d);
+    const name = escapeXml(
+      location ? `${location}: ${d.description}` : d.description,
+    );
+    cases.push(
+      `    <testcase classname="${TOOL_NAME}.${d.category}" name="${name}">\n      <skipped message="${escapeXml(`Rejected: ${d.reasoning}`)}"/>\n    </testcase>`,
+    );
+  }
+
+  const time = ((result.durationMs ?? 0) / 1000).toFixed(3);
+  const attrs = `name="${TOOL_NAME}" tests="${cases.length}" failures="${failures}" errors="${errors}" skipped="${skipped}" time="${time}"`;
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites ${attrs}>`,
+    `  <testsuite ${attrs} id="${escapeXml(result.id)}">`,
+    ...cases,
+    '  </testsuite>',
+    '</testsuites>',
+  ].join('\n');
+}
+
+/** Escape pipe characters and collapse newlines for markdown table cells. */
+function mdCell(text: string): string {
+  return text.replace(/[\r\n]+/g, ' ').replace(/\|/g, '\\|');
+}
+
+function toMarkdown(result: ReviewResult): string {
+  const lines: string[] = ['# Code Review Report', ''];
+  lines.push(`**ID:** ${result.id}  `);
+  lines.push(`**Status:** ${result.status}  `);
+  if (result.durationMs != null) {
+    lines.push(`**Duration:** ${(result.durationMs / 1000).toFixed(1)}s  `);
+  }
+  lines.push('', '## Individual Reviews', '');
+  for (const r of result.individualReviews) {
+    const timing =
+      r.durationMs != null ? ` (${(r.durationMs / 1000).toFixed(1)}s)` : '';
+    lines.push(`### ${r.reviewer}${timing}`, '');
+    if (!r.findings) {
+      lines.push(r.review, '');
+      continue;
+    }
+    if (r.findings.length === 0) {
+      lines.push('No issues found.', '');
+    } else {
+      lines.push(
+        '| Severity | Category | File | Description | Suggestion |',
+        '|---|---|---|---|---|',
+      );
+      for (const f of r.findings) {
+        lines.push(
+          `| ${f.severity} | ${f.category} | ${mdCell(formatAnchoredLocation(f))} | ${mdCell(f.description)} | ${mdCell(f.suggestion)} |`,
+        );
+      }
+      lines.push('');
+    }
+    if (r.notes && r.notes.length > 0) {
+      lines.push('**Notes:**', '', ...r.notes.map((n) => `- ${n}`), '');
+    }
+  }
+  if (result.debate && result.debate.length > 0) {
+    lines.push('## Council Debate', '');
+    for (const round of result.debate) {
+      lines.push(`### Round ${round.round}`, '');
+      for (const e of round.entries) {
+        const timing =
+          e.durationMs != null ? ` (${(e.durationMs / 1000).toFixed(1)}s)` : '';
+        lines.push(`#### ${e.reviewer}${timing}`, '');
+        lines.push(
+          e.status === 'error' ? e.response : renderDebateEntryText(e),
+          '',
+        );
+      }
+    }
+  }
+  const d = result.decision;
+  if (d) {
+    lines.push(
+      `## Final Decision (by ${d.reviewer})`,
+      '',
+      d.overallAssessment,
+      '',
+    );
+    if (d.decisions.length > 0) {
+      const withVotes = d.decisions.some((item) => item.votes?.length);
+      lines.push(
+        '### Decisions',
+        '',
+        `| | Severity | Category | Description | File | Reasoning | Action | Raised by |${withVotes ? ' Votes |' : ''}`,
+        `|---|---|---|---|---|---|---|---|${withVotes ? '---|' : ''}`,
+      );
+      for (const item of d.decisions) {
+        const votes = withVotes ? ` ${mdCell(formatVotes(item))} |` : '';
+        lines.push(
+          `| ${getVerdictIcon(item.verdict)} | ${item.severity} | ${item.category} | ${mdCell(item.description)} | ${mdCell(formatAnchoredLocation(item))} | ${mdCell(item.reasoning)} | ${mdCell(item.suggestion)} | ${mdCell(item.raisedBy?.join(', ') ?? '')} |${votes}`,
+        );
+      }
+      lines.push('');
+    }
+    if (d.additionalFindings.length > 0) {
+      lines.push(
+        '### Additional Findings',
+        '',
+        '| Severity | Category | Description | File | Suggestion |',
+        '|---|---|---|---|---|',
+      );
+      for (const f of d.additionalFindings) {
+        lines.push(
+          `| ${f.severity} | ${f.category} | ${mdCell(f.description)} | ${mdCell(formatAnchoredLocation(f))} | ${mdCell(f.suggestion)} |`,
+        );
+      }
+      lines.push('');
+    }
+    const fixes = numberedFixes(d.decisions);
+    if (fixes.length > 0) {
+      lines.push('### Proposed Fixes', '');
+      for (const { number, item } of fixes) {
+        const status =
+          item.fix.status === 'valid' ? 'applies cleanly' : 'does not apply';
+        lines.push(
+          `#### #${number} ${mdCell(item.description)} (${status})`,
+          '',
+          '```diff',
+          item.fix.patch.trimEnd(),
+          '```',
+          '',
+        );
+      }
+    }
+  }
+  if (result.carriedFindings && result.carriedFindings.length > 0) {
+    lines.push(
+      `## Carried Forward (since ${result.incremental?.sinceReviewId ?? 'previous review'})`,
+      '',
+      '| Status | Severity | Category | File | Description | Suggestion |',
+      '|---|---|---|---|---|---|',
+    );
+    for (const f of result.carriedFindings) {
+      lines.push(
+        `| ${f.status} | ${f.severity} | ${f.category} | ${mdCell(formatFindingLocation(f))} | ${mdCell(f.description)} | ${mdCell(f.suggestion)} |`,
+      );
+    }
+    lines.push('');
+  }
+  return lines.join('\n');
+}
@@ -2,7 +2,22 @@ import {
   ReviewResult,
   ReviewDecision,
   ReviewDecisionItem,
+  IndividualReview,
+  FindingAnchor,
+  FindingFix,
+  TokenUsage,
 } from '../review/review.types.js';
+import { formatFindingLocation } from '../review/review-findings.js';
+import { renderDebateEntryText } from '../review/debate.js';
+import { sumUsage } from '../review/usage.js';
+import { ReviewPlan } from '../review/review-budget.js';
+import { CouncilConfig } from '../config/config.types.js';
+import {
+  GateOutcome,
+  GatePolicy,
+  isGateEnabled,
+} from '../review/gate-policy.js';
+import { EXIT_CODES } from '../constants.js';
 
 // CSI sequences: ESC [ ... final_byte
 // eslint-disable-next-line no-control-regex
@@ -45,27 +60,39 @@ function tableCell(text: string): string {
   return sanitizeLine(text).replace(/\|/g, '\\|');
 }
 
+/** `Claude: accepted, Gemini: rejected` for decisions from a decision-maker panel. */
+export function formatVotes(item: ReviewDecisionItem): string {
+  return (item.votes ?? []).map((v) => `${v.judge}: ${v.verdict}`).join(', ');
+}
+
+/** `file:line`, flagged when the file was not among the reviewed files (likely hallucinated). */
+export function formatAnchoredLocation(finding: {
+  file?: string;
+  line?: number;
+  anchor?: FindingAnchor;
+}): string {
+  const location = formatFindingLocation(finding);
+  return finding.anchor === 'unknown-file'
+    ? `${location} (not a reviewed file)`
+    : location;
+}
+
 function printDecisionsTable(decisions: ReviewDecisionItem[]): void {
+  const withVotes = decisions.some((d) => d.votes?.length);
   console.log('\nDecisions:\n');
   console.log(
-    '| | Severity | Category | Description | File | Reasoning | Action | Raised by |',
-  );
-  console.log(
-    '|---|---|---|---|---|---|---|---|',
+    `| | Severity | Category | Description | File | Reasoning | Action | Raised by |${withVotes ? ' Votes |' : ''}`,
   );
+  console.log(`|---|---|---|---|---|---|---|---|${withVotes ? '---|' : ''}`);
   for (const d of decisions) {
     const icon = getVerdictIcon(d.verdict);
-    const file = d.file
-      ? d.line
-        ? `${tableCell(d.file)}:${d.line}`
-        : tableCell(d.file)
-      : '';
+    const file = tableCell(formatAnchoredLocation(d));
     const raisedBy =
       d.raisedBy?.length > 0
         ? d.raisedBy.map((r) => tableCell(r)).join(', ')
         : '';
     console.log(
-      `| ${icon} | ${tableCell(d.severity)} | ${tableCell(d.category)} | ${tableCell(d.description)} | ${file} | ${tableCell(d.reasoning)} | ${tableCell(d.suggestion)} | ${raisedBy} |`,
+      `| ${icon} | ${tableCell(d.severity)} | ${tableCell(d.category)} | ${tableCell(d.description)} | ${file} | ${tableCell(d.reasoning)} | ${tableCell(d.suggestion)} | ${raisedBy} |${withVotes ? ` ${tableCell(formatVotes(d))} |` : ''}`,
     );
   }
 }
@@ -77,16 +104,67 @@ function printAdditionalFindingsTable(
   console.log('| Severity | Category | Description | File | Action |');
   console.log('|---|---|---|---|---|');
   for (const f of findings) {
-    const file = f.file ? tableCell(f.file) : '';
+    const file = tableCell(formatAnchoredLocation(f));
     console.log(
       `| ${tableCell(f.severity)} | ${tableCell(f.category)} | ${tableCell(f.description)} | ${file} | ${tableCell(f.suggestion)} |`,
     );
   }
 }
 
+function printReviewFindings(review: IndividualReview): void {
+  const findings = review.findings ?? [];
+  if (findings.length === 0) {
+    console.log('No issues found.');
+  } else {
+    console.log('| Severity | Category | File | Description | Suggestion |');
+    console.log('|---|---|---|---|---|');
+    for (const f of findings) {
+      console.log(
+        `| ${tableCell(f.severity)} | ${tableCell(f.category)} | ${tableCell(formatAnchoredLocation(f))} | ${tableCell(f.description)} | ${tableCell(f.suggestion)} |`,
+      );
+    }
+  }
+  if (review.notes && review.notes.length > 0) {
+    console.log('\nNotes:');
+    for (const n of review.notes) {
+      console.log(`- ${sanitizeIndented(n, '  ')}`);
+    }
+  }
+}
+
+/** Decisions with a proposed patch, with their 1-based number as used by `apply --finding`. */
+export function numberedFixes(
+  decisions: ReviewDecisionItem[],
+): { number: number; item: ReviewDecisionItem & { fix: FindingFix } }[] {
+  return decisions.flatMap((item, i) =>
+    item.fix ? [{ number: i + 1, item: { ...item, fix: item.fix } }] : [],
+  );
+}
+
+function printFixes(reviewId: string, decisions: ReviewDecisionItem[]): void {
+  const fixes = numberedFixes(decisions);
+  if (fixes.length === 0) return;
+  console.log(
+    `\nProposed Fixes (apply with: code-review-council apply ${sanitizeLine(reviewId)} --finding <n>):\n`,
+  );
+  for (const { number, item } of fixes) {
+    const status =
+      item.fix.status === 'valid'
+        ? '\u2705'
+        : `\u26A0\uFE0F does not apply: ${sanitizeLine(item.fix.error ?? 'git apply --check failed')}`;
+    console.log(
+      `#${number} ${status} ${sanitizeLine(formatFindingLocation(item))} — ${sanitizeLine(item.description)}`,
+    );
+  }
+}
+
+function cachedTag(result: { cached?: boolean }): string {
+  return result.cached ? ' (cached)' : '';
+}
+
 function printDecision(decision: ReviewDecision): void {
   console.log(
-    `\n=== Final Decision (by ${sanitizeLine(decision.reviewer)}) ===\n`,
+    `\n=== Final Decision (by ${sanitizeLine(decision.reviewer)})${cachedTag(decision)} ===\n`,
   );
   console.log(sanitize(decision.overallAssessment));
   if (decision.decisions.length > 0) {
@@ -97,6 +175,116 @@ function printDecision(decision: ReviewDecision): void {
   }
 }
 
+function printCarriedFindings(result: ReviewResult): void {
+  const findings = result.carriedFindings ?? [];
+  if (findings.length === 0) return;
+  const since = result.incremental
+    ? ` since ${sanitizeLine(result.incremental.sinceReviewId)}`
+    : '';
+  console.log(`\n=== Carried Forward${since} ===\n`);
+  console.log(
+    '| Status | Severity | Category | File | Description | Suggestion |',
+  );
+  console.log('|---|---|---|---|---|---|');
+  for (const f of findings) {
+    const status =
+      f.status === 'needs-recheck' ? '🔁 needs re-check' : 'unchanged';
+    console.log(
+      `| ${status} | ${tableCell(f.severity)} | ${tableCell(f.category)} | ${tableCell(formatFindingLocation(f))} | ${tableCell(f.description)} | ${tableCell(f.suggestion)} |`,
+    );
+  }
+}
+
+function printDebate(result: ReviewResult): void {
+  const rounds = result.debate ?? [];
+  if (rounds.length === 0) return;
+  console.log('\n=== Council Debate ===');
+  for (const round of rounds) {
+    console.log(`\n--- Round ${round.round} ---`);
+    for (const e of round.entries) {
+      const timing =
+        e.durationMs != null ? ` (${formatDuration(e.durationMs)})` : '';
+      console.log(`\n[${sanitizeLine(e.reviewer)}${timing}${cachedTag(e)}]`);
+      console.log(
+        sanitize(e.status === 'error' ? e.response : renderDebateEntryText(e)),
+      );
+    }
+  }
+  console.log();
+}
+
+function usageRow(label: string, usage: TokenUsage): string {
+  const cost = usage.cost !== undefined ? `$${usage.cost.toFixed(4)}` : '-';
+  return `| ${tableCell(label)} | ${usage.inputTokens.toLocaleString('en-US')} | ${usage.outputTokens.toLocaleString('en-US')} | ${cost} |`;
+}
+
+function printUsage(result: ReviewResult): void {
+  const total = result.usage;
+  if (!total) return;
+  console.log('\n=== Token Usage ===\n');
+  console.log('| | Input tokens | Output tokens | Est. cost |');
+  console.log('|---|---|---|---|');
+  for (const r of result.individualReviews) {
+    if (r.usage) console.log(usageRow(r.reviewer, r.usage));
+  }
+  const debate = sumUsage(
+    (result.debate ?? []).flatMap((round) => round.entries.map((e) => e.usage)),
+  );
+  if (debate) console.log(usageRow('Debate', debate));
+  if (result.decision?.usage) {
+    console.log(usageRow(result.decision.reviewer, result.decision.usage));
+  }
+  console.log(usageRow('Total', total));
+  if (total.unpricedModels?.length) {
+    console.log(
+      `\nNo price in "pricing" for: ${total.unpricedModels.map(sanitizeLine).join(', ')} (not included in the cost)`,
+    );
+  }
+}
+
+function printDownscaled(notes: string[] | undefined): void {
+  if (!notes?.length) return;
+  console.log('\n=== Downscaled to fit review.budget ===\n');
+  for (const note of notes) console.log(`- ${sanitizeLine(note)}`);
+}
+
+/** Print a --dry-run plan: what the review would send and its estimated size. */
+export function printPlan(plan: ReviewPlan): void {
+  const { estimate } = plan;
+  console.log('\n=== Review Plan (dry run) ===\n');
+  console.log(`Mode: ${plan.mode}`);
+  console.log(
+    `Files: ${plan.files} in ${plan.batches} batch(es), ${plan.inputChars.toLocaleString('en-US')} chars`,
+  );
+  console.log(`Reviewers: ${plan.reviewers.map(sanitizeLine).join(', ')}`);
+  console.log(
+    `Decision maker: ${plan.decisionMakers.map(sanitizeLine).join(', ')}`,
+  );
+  console.log(`Prompts: ${plan.prompts}`);
+  console.log(
+    `Estimated tokens: ~${estimate.inputTokens.toLocaleString('en-US')} in, ~${estimate.outputTokens.toLocaleString('en-US')} out`,
+  );
+  if (estimate.cost !== undefined) {
+    console.log(`Estimated cost: ~$${estimate.cost.toFixed(4)}`);
+  }
+  if (estimate.unpricedModels?.length) {
+    console.log(
+      `No price in "pricing" for: ${estimate.unpricedModels.map(sanitizeLine).join(', ')} (not included in the cost)`,
+    );
+  }
+  if (plan.mode === 'explore') {
+    console.log('Files the agents read themselves are not included.');
+  }
+  printDownscaled(plan.downscaled);
+  if (plan.overBudget?.length) {
+    console.log('\n=== Over budget: the review would be refused ===\n');
+    for (const reason of plan.overBudget) {
+      console.log(`- ${sanitizeLine(reason)}`);
+    }
+  }
+  console.log('\nDry run: no agent was contacted.');
+}
+
 function formatDuration(ms: number): string {
   const seconds = Math.floor(ms / 1000);
   const minutes = Math.floor(seconds / 60);
@@ -112,14 +300,25 @@ export function printResult(result: ReviewResult): void {
   for (const r of result.individualReviews) {
     const timing =
       r.durationMs != null ? ` (${formatDuration(r.durationMs)})` : '';
-    console.log(`\n--- ${sanitizeLine(r.reviewer)}${timing} ---`);
-    console.log(sanitize(r.review));
+    console.log(
+      `\n--- ${sanitizeLine(r.reviewer)}${timing}${cachedTag(r)} ---`,
+    );
+    if (r.findings) {
+      printReviewFindings(r);
+    } else {
+      console.log(sanitize(r.review));
+    }
     console.log();
   }
+  printDebate(result);
 
   if (result.decision) {
     printDecision(result.decision);
+    printFixes(result.id, result.decision.decisions);
   }
+  printCarriedFindings(result);
+  printUsage(result);
+  printDownscaled(result.downscaled);
 
   if (result.durationMs != null) {
     console.log(
@@ -128,6 +327,59 @@ export function printResult(result: ReviewResult): void {
   }
 }
 
+function describeGatePolicy(policy: GatePolicy): string {
+  const parts: string[] = [];
+  if (policy.failOn) parts.push(`severity >= ${policy.failOn}`);
+  if (policy.failOnCategories) {
+    parts.push(`category in ${policy.failOnCategories.join(', ')}`);
+  }
+  return parts.join(' and ');
+}
+
+/** Print which findings (if any) match the gate policy, to stderr. */
+export function printGateVerdict(
+  outcome: GateOutcome,
+  policy: GatePolicy,
+): void {
+  if (outcome.blocking.length > 0) {
+    console.error(
+      `\nGate failed: ${outcome.blocking.length} finding(s) match ${describeGatePolicy(policy)}:`,
+    );
+    for (const item of outcome.blocking) {
+      const location = formatFindingLocation(item);
+      console.error(
+        `  - [${item.severity}/${item.category}] ${location ? `${sanitizeLine(location)}: ` : ''}${sanitizeLine(item.description)}`,
+      );
+    }
+  } else if (isGateEnabled(policy)) {
+    console.error(
+      `\nGate passed: no findings match ${describeGatePolicy(policy)}.`,
+    );
+  }
+}
+
+/** Print the gate verdict and exit code to stderr so it never mixes with a machine-readable stdout. */
+export function printGateSummary(
+  outcome: GateOutcome,
+  policy: GatePolicy,
+): void {
+  if (outcome.exitCode === EXIT_CODES.failed) {
+    console.error(
+      `\nReview failed: no reviewer produced a result (exit code ${EXIT_CODES.failed}).`,
+    );
+    return;
+  }
+  printGateVerdict(outcome, policy);
+  if (outcome.exitCode === EXIT_CODES.blocking) {
+    console.error(`Exit code ${EXIT_CODES.blocking}: blocking findings.`);
+  }
+  if (outcome.exitCode === EXIT_CODES.partial) {
+    console.error(
+      `Result is partial: some reviewers or the decision maker failed (exit code ${EXIT_CODES.partial}).`,
+    );
+  }
+}
+
 export function parseChecksOption(
   raw: string | undefined,
   validChecks: Set<string>,
@@ -155,3 +407,39 @@ export function parseChecksOption(
   }
   return parsed;
 }
+
+/** Config with the response cache turned off by `--no-cache`, or undefined to use the loaded config. */
+export function noCacheOverride(
+  config: CouncilConfig,
+  options: Record<string, unknown>,
+): CouncilConfig | undefined {
+  if (options.cache !== false) return undefined;
+  return { ...config, cache: { ...config.cache, enabled: false } };
+}
+
+/**
+ * Run a review that Ctrl-C cancels: the first SIGINT aborts `signal` so the
+ * agents are stopped, a second one quits at once. Resolves to undefined, with
+ * exit code 130, when the review was cancelled.
+ */
+export async function runCancellable<T>(
+  review: (signal: AbortSignal) => Promise<T>,
+): Promise<T | undefined> {
+  const controller = new AbortController();
+  const onSigint = () => {
+    if (controller.signal.aborted) process.exit(EXIT_CODES.cancelled);
+    console.error('\nCancelling review... (press Ctrl-C again to quit now)');
+    controller.abort();
+  };
+  process.on('SIGINT', onSigint);
+  try {
+    return await review(controller.signal);
+  } catch (error) {
+    if (!controller.signal.aborted) throw error;
+    console.error('Review cancelled.');
+    process.exitCode = EXIT_CODES.cancelled;
+    return undefined;
+  } finally {
+    process.off('SIGINT', onSigint);
+  }
+}
@@ -89,6 +89,39 @@ describe('ConfigService', () => {
     review: { defaultChecks: ['code-quality'], language: 'en' },
   });
 
+  describe('validate()', () => {
+    it('should accept a valid config without loading it', () => {
+      service.validate(JSON.parse(VALID_JSON_CONFIG), 'test');
+      expect(() => service.getConfig()).toThrow('Config not loaded');
+    });
+
+    it('should reject an invalid config with the source in the message', () => {
+      expect(() =>
+        service.validate({ reviewers: [{ name: 'Test' }] }, 'web UI'),
+      ).toThrow('Invalid config (web UI)');
+      expect(() => service.validate([], 'web UI')).toThrow(
+        'expected a JSON object',
+      );
+    });
+
+    it('should not modify the validated object', () => {
+      const config = {
+        ...(JSON.parse(VALID_JSON_CONFIG) as Record<string, unknown>),
+        review: {
+          defaultChecks: ['code-quality'],
+          language: 'en',
+          allowLocalExploration: true,
+        },
+      };
+      service.validate(config, 'test');
+      expect(config.review).toEqual({
+        defaultChecks: ['code-quality'],
+        language: 'en',
+        allowLocalExploration: true,
+      });
+    });
+  });
+
   describe('CONFIG_JSON env var', () => {
     it('should load config from CONFIG_JSON env var', async () => {
       process.env.CONFIG_JSON = VALID_JSON_CONFIG;
@@ -395,7 +428,7 @@ describe('ConfigService', () => {
         review: { defaultChecks: ['code-quality'], language: 'en' },
       });
       await expect(service.loadConfig()).rejects.toThrow(
-        'protocol" must be "acp" or "copilot"',
+        'protocol" must be "acp", "copilot" or "http"',
       );
     });
 
@@ -456,6 +489,361 @@ describe('ConfigService', () => {
       expect(config.review.sensitivePatterns).toHaveLength(2);
     });
 
+    it('should accept failOn and failOnCategories', async () => {
+      process.env.CONFIG_JSON = JSON.stringify({
+        reviewers: [{ name: 'Test', cliPath: 'echo', cliArgs: [] }],
+        decisionMaker: { name: 'DM', cliPath: 'echo', cliArgs: [] },
+        review: {
+          defaultChecks: ['code-quality'],
+          language: 'en',
+          failOn: 'high',
+          failOnCategories: ['security', 'performance'],
+        },
+      });
+      const config = await service.loadConfig();
+      expect(config.review.failOn).toBe('high');
+      expect(config.review.failOnCategories).toEqual([
+        'security',
+        'performance',
+      ]);
+    });
+
+    it('should reject invalid failOn and failOnCategories', async () => {
+      const base = {
+        reviewers: [{ name: 'Test', cliPath: 'echo', cliArgs: [] }],
+        decisionMaker: { name: 'DM', cliPath: 'echo', cliArgs: [] },
+      };
+      process.env.CONFIG_JSON = JSON.stringify({
+        ...base,
+        review: {
+          defaultChecks: ['code-quality'],
+          language: 'en',
+          failOn: 'critical',
+        },
+      });
+      await expect(service.loadConfig()).rejects.toThrow('"review.failOn"');
+      process.env.CONFIG_JSON = JSON.stringify({
+        ...base,
+        review: {
+          defaultChecks: ['code-quality'],
+          language: 'en',
+          failOnCategories: ['style'],
+        },
+      });
+      await expect(service.loadConfig()).rejects.toThrow(
+        '"review.failOnCategories"',
+      );
+    });
+
+    it('should validate debateRounds', async () => {
+      const withRounds = (debateRounds: unknown) =>
+        JSON.stringify({
+          reviewers: [{ name: 'Test', cliPath: 'echo', cliArgs: [] }],
+          decisionMaker: { name: 'DM', cliPath: 'echo', cliArgs: [] },
+          review: {
+            defaultChecks: ['code-quality'],
+            language: 'en',
+            debateRounds,
+          },
+        });
+      process.env.CONFIG_JSON = withRounds(2);
+      expect((await service.loadConfig()).review.debateRounds).toBe(2);
+      for (const invalid of [4, -1, 1.5, '1']) {
+        process.env.CONFIG_JSON = withRounds(invalid);
+        await expect(service.loadConfig()).rejects.toThrow(
+          '"review.debateRounds" must be an integer from 0 to 3',
+        );
+      }
+    });
+
+    it('should default decisionMaker to the first of decisionMakers', async () => {
+      process.env.CONFIG_JSON = JSON.stringify({
+        reviewers: [{ name: 'Test', cliPath: 'echo', cliArgs: [] }],
+        decisionMakers: [
+          { name: 'Claude', cliPath: 'echo', cliArgs: [] },
+          { name: 'Gemini', cliPath: 'echo', cliArgs: [] },
+        ],
+        decisionAggregation: { severity: 'median' },
+        review: { defaultChecks: ['code-quality'], language: 'en' },
+      });
+      const config = await service.loadConfig();
+      expect(config.decisionMaker.name).toBe('Claude');
+      expect(config.decisionMakers).toHaveLength(2);
+      expect(config.decisionAggregation?.severity).toBe('median');
+    });
+
+    it('should validate decisionMakers and decisionAggregation', async () => {
+      const withPanel = (extra: Record<string, unknown>) =>
+        JSON.stringify({
+          reviewers: [{ name: 'Test', cliPath: 'echo', cliArgs: [] }],
+          review: { defaultChecks: ['code-quality'], language: 'en' },
+          ...extra,
+        });
+      process.env.CONFIG_JSON = withPanel({ decisionMakers: [] });
+      await expect(service.loadConfig()).rejects.toThrow(
+        '"decisionMakers" must be an array of 1-5 decision makers',
+      );
+      process.env.CONFIG_JSON = withPanel({
+        decisionMakers: [
+          { name: 'Claude', cliPath: 'echo', cliArgs: [] },
+          { name: 'Claude', cliPath: 'echo', cliArgs: [] },
+        ],
+      });
+      await expect(service.loadConfig()).rejects.toThrow(
+        'duplicate decision maker name "Claude"',
+      );
+      process.env.CONFIG_JSON = withPanel({
+        decisionMaker: { name: 'DM', cliPath: 'echo', cliArgs: [] },
+        decisionAggregation: { severity: 'mean' },
+      });
+      await expect(service.loadConfig()).rejects.toThrow(
+        '"decisionAggregation.severity" must be one of max, median',
+      );
+    });
+
+    it('should accept http reviewers without cliPath', async () => {
+      process.env.TEST_LLM_KEY = 'sk-test';
+      try {
+        process.env.CONFIG_JSON = JSON.stringify({
+          reviewers: [
+            {
+              name: 'Local',
+              protocol: 'http',
+              baseUrl: 'http://localhost:11434/v1',
+              model: 'qwen2.5-coder:7b',
+            },
+            {
+              name: 'Hosted',
+              protocol: 'http',
+              baseUrl: 'https://api.example.com/v1',
+              model: 'gpt-4o-mini',
+              apiKeyEnv: 'TEST_LLM_KEY',
+            },
+          ],
+          decisionMaker: { name: 'DM', cliPath: 'echo', cliArgs: [] },
+          review: { defaultChecks: ['code-quality'], language: 'en' },
+        });
+        const config = await service.loadConfig();
+        expect(config.reviewers[0]).toMatchObject({
+          protocol: 'http',
+          cliPath: '',
+          cliArgs: [],
+        });
+        expect(config.reviewers[1].apiKeyEnv).toBe('TEST_LLM_KEY');
+      } finally {
+        delete process.env.TEST_LLM_KEY;
+      }
+    });
+
+    it('should reject invalid http reviewer settings', async () => {
+      const withReviewer = (reviewer: Record<string, unknown>) => {
+        process.env.CONFIG_JSON = JSON.stringify({
+          reviewers: [{ name: 'Http', protocol: 'http', ...reviewer }],
+          decisionMaker: { name: 'DM', cliPath: 'echo', cliArgs: [] },
+          review: { defaultChecks: ['code-quality'], language: 'en' },
+        });
+      };
+      withReviewer({ model: 'm' });
+      await expect(service.loadConfig()).rejects.toThrow(
+        '"reviewers[0].baseUrl"',
+      );
+      withReviewer({ baseUrl: 'ftp://host/v1', model: 'm' });
+      await expect(service.loadConfig()).rejects.toThrow('http or https');
+      withReviewer({ baseUrl: 'https://user:pw@host/v1', model: 'm' });
+      await expect(service.loadConfig()).rejects.toThrow('credentials');
+      withReviewer({ baseUrl: 'http://localhost:8080/v1' });
+      await expect(service.loadConfig()).rejects.toThrow(
+        '"reviewers[0].model"',
+      );
+      withReviewer({
+        baseUrl: 'http://localhost:8080/v1',
+        model: 'm',
+        apiKey: 'sk-inline',
+      });
+      await expect(service.loadConfig()).rejects.toThrow('apiKeyEnv');
+      withReviewer({
+        baseUrl: 'http://localhost:8080/v1',
+        model: 'm',
+        apiKeyEnv: 'CRC_TEST_MISSING_KEY',
+      });
+      await expect(service.loadConfig()).rejects.toThrow('is not set');
+    });
+
+    it('should reject baseUrl on non-http reviewers', async () => {
+      process.env.CONFIG_JSON = JSON.stringify({
+        reviewers: [
+          {
+            name: 'Cli',
+            cliPath: 'gemini',
+            cliArgs: [],
+            baseUrl: 'http://localhost/v1',
+          },
+        ],
+        decisionMaker: { name: 'DM', cliPath: 'echo', cliArgs: [] },
+        review: { defaultChecks: ['code-quality'], language: 'en' },
+      });
+      await expect(service.loadConfig()).rejects.toThrow('"protocol": "http"');
+    });
+
+    it('should validate reviewer persona, checks and extraInstructions', async () => {
+      const withReviewer = (extra: Record<string, unknown>) => {
+        process.env.CONFIG_JSON = JSON.stringify({
+          reviewers: [{ name: 'Test', cliPath: 'echo', cliArgs: [], ...extra }],
+          decisionMaker: { name: 'DM', cliPath: 'echo', cliArgs: [] },
+          review: { defaultChecks: ['code-quality'], language: 'en' },
+        });
+      };
+      withReviewer({
+        persona: 'performance specialist',
+        checks: ['performance'],
+        extraInstructions: 'Watch for N+1 queries.',
+      });
+      const config = await service.loadConfig();
+      expect(config.reviewers[0]).toMatchObject({
+        persona: 'performance specialist',
+        checks: ['performance'],
+      });
+      withReviewer({ persona: 'line one\nline two' });
+      await expect(service.loadConfig()).rejects.toThrow(
+        '"reviewers[0].persona"',
+      );
+      withReviewer({ checks: [] });
+      await expect(service.loadConfig()).rejects.toThrow(
+        '"reviewers[0].checks"',
+      );
+      withReviewer({ extraInstructions: 'x'.repeat(5000) });
+      await expect(service.loadConfig()).rejects.toThrow(
+        '"reviewers[0].extraInstructions"',
+      );
+    });
+
+    it('should validate hooks settings against configured reviewers', async () => {
+      const base = {
+        reviewers: [
+          { name: 'Fast', cliPath: 'echo', cliArgs: [] },
+          { name: 'Slow', cliPath: 'echo', cliArgs: [] },
+        ],
+        decisionMaker: { name: 'DM', cliPath: 'echo', cliArgs: [] },
+        review: { defaultChecks: ['code-quality'], language: 'en' },
+      };
+      process.env.CONFIG_JSON = JSON.stringify({
+        ...base,
+        hooks: { reviewers: ['Fast'], baseBranch: 'develop' },
+      });
+      const config = await service.loadConfig();
+      expect(config.hooks).toEqual({
+        reviewers: ['Fast'],
+        baseBranch: 'develop',
+      });
+      process.env.CONFIG_JSON = JSON.stringify({
+        ...base,
+        hooks: { reviewers: ['Missing'] },
+      });
+      await expect(service.loadConfig()).rejects.toThrow(
+        'unknown reviewer(s): Missing',
+      );
+      process.env.CONFIG_JSON = JSON.stringify({
+        ...base,
+        hooks: { baseBranch: '' },
+      });
+      await expect(service.loadConfig()).rejects.toThrow('"hooks.baseBranch"');
+    });
+
+    it('should validate fix settings', async () => {
+      const base = {
+        reviewers: [{ name: 'Gemini', cliPath: 'echo', cliArgs: [] }],
+        decisionMaker: { name: 'DM', cliPath: 'echo', cliArgs: [] },
+        review: { defaultChecks: ['code-quality'], language: 'en' },
+      };
+      const agent = { name: 'Fixer', cliPath: 'echo', cliArgs: [] };
+      process.env.CONFIG_JSON = JSON.stringify({
+        ...base,
+        fix: { enabled: true, agent },
+      });
+      const config = await service.loadConfig();
+      expect(config.fix).toEqual({ enabled: true, agent });
+      process.env.CONFIG_JSON = JSON.stringify({
+        ...base,
+        fix: { enabled: 'yes' },
+      });
+      await expect(service.loadConfig()).rejects.toThrow('"fix.enabled"');
+      process.env.CONFIG_JSON = JSON.stringify({
+        ...base,
+        fix: { agent: { name: 'Fixer' } },
+      });
+      await expect(service.loadConfig()).rejects.toThrow('fix.agent');
+    });
+
+    it('should validate the pricing table', async () => {
+      const base = {
+        reviewers: [{ name: 'Gemini', cliPath: 'echo', cliArgs: [] }],
+        decisionMaker: { name: 'DM', cliPath: 'echo', cliArgs: [] },
+        review: { defaultChecks: ['code-quality'], language: 'en' },
+      };
+      const pricing = {
+        'gpt-4.1': { inputPerMillion: 2, outputPerMillion: 8 },
+        'local-llama': { inputPerMillion: 0, outputPerMillion: 0 },
+      };
+      process.env.CONFIG_JSON = JSON.stringify({ ...base, pricing });
+      const config = await service.loadConfig();
+      expect(config.pricing).toEqual(pricing);
+      process.env.CONFIG_JSON = JSON.stringify({ ...base, pricing: [] });
+      await expect(service.loadConfig()).rejects.toThrow('"pricing"');
+      process.env.CONFIG_JSON = JSON.stringify({
+        ...base,
+        pricing: { 'gpt-4.1': { inputPerMillion: -1, outputPerMillion: 8 } },
+      });
+      await expect(service.loadConfig()).rejects.toThrow('"pricing.gpt-4.1"');
+    });
+
+    it('should validate the review budget', async () => {
+      const review = { defaultChecks: ['code-quality'], language: 'en' };
+      const withBudget = (budget: unknown) =>
+        JSON.stringify({
+          reviewers: [{ name: 'Gemini', cliPath: 'echo', cliArgs: [] }],
+          decisionMaker: { name: 'DM', cliPath: 'echo', cliArgs: [] },
+          review: { ...review, budget },
+        });
+      const budget = {
+        maxInputChars: 200_000,
+        maxEstimatedTokens: 500_000,
+        maxCost: 1.5,
+        onExceed: 'downscale',
+      };
+      process.env.CONFIG_JSON = withBudget(budget);
+      const config = await service.loadConfig();
+      expect(config.review.budget).toEqual(budget);
+      process.env.CONFIG_JSON = withBudget({ maxInputChars: 1.5 });
+      await expect(service.loadConfig()).rejects.toThrow(
+        '"review.budget.maxInputChars"',
+      );
+      process.env.CONFIG_JSON = withBudget({ maxCost: 0 });
+      await expect(service.loadConfig()).rejects.toThrow(
+        '"review.budget.maxCost"',
+      );
+      process.env.CONFIG_JSON = withBudget({ onExceed: 'skip' });
+      await expect(service.loadConfig()).rejects.toThrow(
+        '"review.budget.onExceed"',
+      );
+    });
+
+    it('should validate the response cache settings', async () => {
+      const withCache = (cache: unknown) =>
+        JSON.stringify({
+          reviewers: [{ name: 'Gemini', cliPath: 'echo', cliArgs: [] }],
+          decisionMaker: { name: 'DM', cliPath: 'echo', cliArgs: [] },
+          review: { defaultChecks: ['code-quality'], language: 'en' },
+          cache,
+        });
+      process.env.CONFIG_JSON = withCache({ enabled: true, ttlHours: 0.5 });
+      const config = await service.loadConfig();
+      expect(config.cache).toEqual({ enabled: true, ttlHours: 0.5 });
+      process.env.CONFIG_JSON = withCache({ enabled: 'no' });
+      await expect(service.loadConfig()).rejects.toThrow('"cache.enabled"');
+      process.env.CONFIG_JSON = withCache({ ttlHours: -1 });
+      await expect(service.loadConfig()).rejects.toThrow('"cache.ttlHours"');
+    });
+
     it('should accept valid timeoutMs and maxRetries', async () => {
       const dir = await mkdtemp(join(tmpdir(), 'crc-test-'));
       const tmpPath = join(dir, 'config.json');
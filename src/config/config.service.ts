@@ -4,6 +4,10 @@ import { dirname, resolve, join } from 'node:path';
 import { fileURLToPath } from 'node:url';
 import { homedir } from 'node:os';
 import { CouncilConfig } from './config.types.js';
+import { VALID_CATEGORIES } from '../review/review-findings.js';
+import { GATE_SEVERITIES, isGateSeverity } from '../review/gate-policy.js';
+import { SEVERITY_AGGREGATIONS } from '../review/decision-aggregation.js';
+import { MAX_DEBATE_ROUNDS, MAX_DECISION_MAKERS } from '../constants.js';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const PROJECT_ROOT = resolve(__dirname, '..', '..');
@@ -128,6 +132,7 @@ export class ConfigService {
 
   private static readonly SAFE_LANGUAGE = /^[a-zA-Z-]{2,10}$/;
   private static readonly SAFE_MODEL = /^[A-Za-z0-9._:\/-]{1,100}$/;
+  private static readonly ENV_VAR_NAME = /^[A-Za-z_][A-Za-z0-9_]{0,99}$/;
 
   private applyEnvOverrides(config: CouncilConfig): void {
     const model = process.env.DECISION_MAKER_MODEL;
@@ -208,6 +213,17 @@ export class ConfigService {
     return this.config;
   }
 
+  /**
+   * Run the full validation on a config object without loading it, e.g.
+   * before saving it. Validation normalizes fields, so a copy is checked.
+   */
+  validate(config: unknown, source: string): void {
+    if (!config || typeof config !== 'object' || Array.isArray(config)) {
+      throw new Error(`Invalid config (${source}): expected a JSON object`);
+    }
+    this.validateConfig(structuredClone(config) as Record<string, any>, source);
+  }
+
   private validateConfig(config: Record<string, any>, filePath: string): void {
     if (!Array.isArray(config.reviewers) || config.reviewers.length === 0) {
       throw new Error(
@@ -224,6 +240,10 @@ export class ConfigService {
       }
       if (r.name) reviewerNames.add(r.name);
     }
+    if (config.decisionMakers !== undefined) {
+      this.validateDecisionMakers(config, filePath);
+      config.decisionMaker ??= config.decisionMakers[0];
+    }
     if (!config.decisionMaker) {
       throw new Error(
         `Invalid config (${filePath}): "decisionMaker" is required`,
@@ -234,8 +254,228 @@ export class ConfigService {
       'decisionMaker',
       filePath,
     );
+    this.validateDecisionAggregation(config, filePath);
     this.validateReviewSettings(config, filePath);
+    this.validateBudget(config, filePath);
     this.validateSensitivePatterns(config, filePath);
+    this.validateHooksSettings(config, filePath, reviewerNames);
+    this.validateFixSettings(config, filePath);
+    this.validateCacheSettings(config, filePath);
+    this.validatePricing(config, filePath);
+  }
+
+  private validateDecisionMakers(
+    config: Record<string, any>,
+    filePath: string,
+  ): void {
+    if (
+      !Array.isArray(config.decisionMakers) ||
+      config.decisionMakers.length === 0 ||
+      config.decisionMakers.length > MAX_DECISION_MAKERS
+    ) {
+      throw new Error(
+        `Invalid config (${filePath}): "decisionMakers" must be an array of 1-${MAX_DECISION_MAKERS} decision makers`,
+      );
+    }
+    const names = new Set<string>();
+    for (const [i, dm] of config.decisionMakers.entries()) {
+      this.validateReviewerConfig(dm, `decisionMakers[${i}]`, filePath);
+      if (names.has(dm.name)) {
+        throw new Error(
+          `Invalid config (${filePath}): duplicate decision maker name "${dm.name}"`,
+        );
+      }
+      names.add(dm.name);
+    }
+  }
+
+  private validateDecisionAggregation(
+    config: Record<string, any>,
+    filePath: string,
+  ): void {
+    const aggregation = config.decisionAggregation;
+    if (aggregation === undefined) return;
+    if (
+      typeof aggregation !== 'object' ||
+      aggregation === null ||
+      Array.isArray(aggregation)
+    ) {
+      throw new Error(
+        `Invalid config (${filePath}): "decisionAggregation" must be an object`,
+      );
+    }
+    if (
+      aggregation.severity !== undefined &&
+      !SEVERITY_AGGREGATIONS.includes(aggregation.severity)
+    ) {
+      throw new Error(
+        `Invalid config (${filePath}): "decisionAggregation.severity" must be one of ${SEVERITY_AGGREGATIONS.join(', ')}`,
+      );
+    }
+  }
+
+  private validateHooksSettings(
+    config: Record<string, any>,
+    filePath: string,
+    reviewerNames: Set<string>,
+  ): void {
+    if (config.hooks === undefined) return;
+    if (
+      !config.hooks ||
+      typeof config.hooks !== 'object' ||
+      Array.isArray(config.hooks)
+    ) {
+      throw new Error(
+        `Invalid config (${filePath}): "hooks" must be an object`,
+      );
+    }
+    const { reviewers, baseBranch } = config.hooks;
+    if (reviewers !== undefined) {
+      if (
+        !Array.isArray(reviewers) ||
+        reviewers.length === 0 ||
+        !reviewers.every((n: unknown) => typeof n === 'string')
+      ) {
+        throw new Error(
+          `Invalid config (${filePath}): "hooks.reviewers" must be a non-empty array of reviewer names`,
+        );
+      }
+      const unknown = reviewers.filter((n: string) => !reviewerNames.has(n));
+      if (unknown.length > 0) {
+        throw new Error(
+          `Invalid config (${filePath}): "hooks.reviewers" contains unknown reviewer(s): ${unknown.join(', ')}`,
+        );
+      }
+    }
+    if (
+      baseBranch !== undefined &&
+      (typeof baseBranch !== 'string' || baseBranch.trim() === '')
+    ) {
+      throw new Error(
+        `Invalid config (${filePath}): "hooks.baseBranch" must be a non-empty string`,
+      );
+    }
+  }
+
+  private validateFixSettings(
+    config: Record<string, any>,
+    filePath: string,
+  ): void {
+    if (config.fix === undefined) return;
+    if (
+      !config.fix ||
+      typeof config.fix !== 'object' ||
+      Array.isArray(config.fix)
+    ) {
+      throw new Error(`Invalid config (${filePath}): "fix" must be an object`);
+    }
+    const { enabled, agent } = config.fix;
+    if (enabled !== undefined && typeof enabled !== 'boolean') {
+      throw new Error(
+        `Invalid config (${filePath}): "fix.enabled" must be a boolean`,
+      );
+    }
+    if (agent !== undefined) {
+      this.validateReviewerConfig(agent, 'fix.agent', filePath);
+    }
+  }
+
+  private validateCacheSettings(
+    config: Record<string, any>,
+    filePath: string,
+  ): void {
+    const cache: unknown = config.cache;
+    if (cache === undefined) return;
+    if (!cache || typeof cache !== 'object' || Array.isArray(cache)) {
+      throw new Error(
+        `Invalid config (${filePath}): "cache" must be an object`,
+      );
+    }
+    const { enabled, ttlHours } = cache as Record<string, unknown>;
+    if (enabled !== undefined && typeof enabled !== 'boolean') {
+      throw new Error(
+        `Invalid config (${filePath}): "cache.enabled" must be a boolean`,
+      );
+    }
+    if (
+      ttlHours !== undefined &&
+      (typeof ttlHours !== 'number' ||
+        !Number.isFinite(ttlHours) ||
+        ttlHours <= 0)
+    ) {
+      throw new Error(
+        `Invalid config (${filePath}): "cache.ttlHours" must be a positive number`,
+      );
+    }
+  }
+
+  private validateBudget(config: Record<string, any>, filePath: string): void {
+    const review = config.review as Record<string, unknown>;
+    const budget = review.budget;
+    if (budget === undefined) return;
+    if (!budget || typeof budget !== 'object' || Array.isArray(budget)) {
+      throw new Error(
+        `Invalid config (${filePath}): "review.budget" must be an object`,
+      );
+    }
+    const limits = budget as Record<string, unknown>;
+    for (const field of ['maxInputChars', 'maxEstimatedTokens'] as const) {
+      const value = limits[field];
+      if (
+        value !== undefined &&
+        (!Number.isInteger(value) || (value as number) <= 0)
+      ) {
+        throw new Error(
+          `Invalid config (${filePath}): "review.budget.${field}" must be a positive integer`,
+        );
+      }
+    }
+    const { maxCost, onExceed } = limits;
+    if (
+      maxCost !== undefined &&
+      (typeof maxCost !== 'number' || !Number.isFinite(maxCost) || maxCost <= 0)
+    ) {
+      throw new Error(
+        `Invalid config (${filePath}): "review.budget.maxCost" must be a positive number`,
+      );
+    }
+    if (
+      onExceed !== undefined &&
+      onExceed !== 'refuse' &&
+      onExceed !== 'downscale'
+    ) {
+      throw new Error(
+        `Invalid config (${filePath}): "review.budget.onExceed" must be "refuse" or "downscale"`,
+      );
+    }
+  }
+
+  private validatePricing(config: Record<string, any>, filePath: string): void {
+    const pricing: unknown = config.pricing;
+    if (pricing === undefined) return;
+    if (!pricing || typeof pricing !== 'object' || Array.isArray(pricing)) {
+      throw new Error(
+        `Invalid config (${filePath}): "pricing" must be an object keyed by model name`,
+      );
+    }
+    for (const [model, price] of Object.entries(
+      pricing as Record<string, unknown>,
+    )) {
+      const valid =
+        price &&
+        typeof price === 'object' &&
+        ['inputPerMillion', 'outputPerMillion'].every((key) => {
+          const value = (price as Record<string, unknown>)[key];
+          return (
+            typeof value === 'number' && Number.isFinite(value) && value >= 0
+          );
+        });
+      if (!valid) {
+        throw new Error(
+          `Invalid config (${filePath}): "pricing.${model}" must have non-negative numbers "inputPerMillion" and "outputPerMillion"`,
+        );
+      }
+    }
   }
 
   private validateReviewSettings(
@@ -324,6 +564,36 @@ export class ConfigService {
         );
       }
     }
+    if (
+      config.review.debateRounds !== undefined &&
+      (!Number.isInteger(config.review.debateRounds) ||
+        config.review.debateRounds < 0 ||
+        config.review.debateRounds > MAX_DEBATE_ROUNDS)
+    ) {
+      throw new Error(
+        `Invalid config (${filePath}): "review.debateRounds" must be an integer from 0 to ${MAX_DEBATE_ROUNDS}`,
+      );
+    }
+    if (
+      config.review.failOn !== undefined &&
+      !isGateSeverity(config.review.failOn)
+    ) {
+      throw new Error(
+        `Invalid config (${filePath}): "review.failOn" must be one of ${GATE_SEVERITIES.join(', ')}`,
+      );
+    }
+    if (config.review.failOnCategories !== undefined) {
+      if (
+        !Array.isArray(config.review.failOnCategories) ||
+        !config.review.failOnCategories.every(
+          (c: unknown) => typeof c === 'string' && VALID_CATEGORIES.has(c),
+        )
+      ) {
+        throw new Error(
+          `Invalid config (${filePath}): "review.failOnCategories" must be an array of: ${[...VALID_CATEGORIES].join(', ')}`,
+        );
+      }
+    }
   }
 
   private validateSensitivePatterns(
@@ -404,29 +674,42 @@ export class ConfigService {
         `Invalid config (${filePath}): "${path}.name" must be 1-50 chars of letters, digits, spaces, underscores, dots, or hyphens`,
       );
     }
-    if (!r.cliPath || typeof r.cliPath !== 'string') {
-      throw new Error(
-        `Invalid config (${filePath}): "${path}.cliPath" is required`,
-      );
-    }
-    if (!Array.isArray(r.cliArgs)) {
-      throw new Error(
-        `Invalid config (${filePath}): "${path}.cliArgs" must be an array`,
-      );
-    }
-    if (!r.cliArgs.every((a: unknown) => typeof a === 'string')) {
-      throw new Error(
-        `Invalid config (${filePath}): "${path}.cliArgs" elements must be strings`,
-      );
-    }
-    this.validateCliArgs(r.cliArgs, path, filePath);
-    this.validateCliPath(r, path, filePath);
     if (r.protocol !== undefined) {
-      if (r.protocol !== 'acp' && r.protocol !== 'copilot') {
+      if (
+        r.protocol !== 'acp' &&
+        r.protocol !== 'copilot' &&
+        r.protocol !== 'http'
+      ) {
+        throw new Error(
+          `Invalid config (${filePath}): "${path}.protocol" must be "acp", "copilot" or "http" if provided`,
+        );
+      }
+    }
+    if (r.protocol === 'http') {
+      this.validateHttpReviewer(r, path, filePath);
+    } else {
+      if (r.baseUrl !== undefined || r.apiKeyEnv !== undefined) {
+        throw new Error(
+          `Invalid config (${filePath}): "${path}.baseUrl" / "${path}.apiKeyEnv" require "protocol": "http"`,
+        );
+      }
+      if (!r.cliPath || typeof r.cliPath !== 'string') {
+        throw new Error(
+          `Invalid config (${filePath}): "${path}.cliPath" is required`,
+        );
+      }
+      if (!Array.isArray(r.cliArgs)) {
+        throw new Error(
+          `Invalid config (${filePath}): "${path}.cliArgs" must be an array`,
+        );
+      }
+      if (!r.cliArgs.every((a: unknown) => typeof a === 'string')) {
         throw new Error(
-          `Invalid config (${filePath}): "${path}.protocol" must be "acp" or "copilot" if provided`,
+          `Invalid config (${filePath}): "${path}.cliArgs" elements must be strings`,
         );
       }
+      this.validateCliArgs(r.cliArgs, path, filePath);
+      this.validateCliPath(r, path, filePath);
     }
     if (r.model !== undefined) {
       if (
@@ -463,6 +746,122 @@ export class ConfigService {
         );
       }
     }
+    this.validateReviewerFocus(r, path, filePath);
+  }
+
+  private validateReviewerFocus(
+    r: Record<string, any>,
+    path: string,
+    filePath: string,
+  ): void {
+    const MAX_PERSONA_LENGTH = 200;
+    const MAX_EXTRA_INSTRUCTIONS_LENGTH = 4096;
+    // eslint-disable-next-line no-control-regex
+    const CONTROL_CHAR_REGEX = /[\x00-\x1f\x7f]/;
+    if (r.persona !== undefined) {
+      if (
+        typeof r.persona !== 'string' ||
+        r.persona.trim() === '' ||
+        r.persona.length > MAX_PERSONA_LENGTH ||
+        CONTROL_CHAR_REGEX.test(r.persona)
+      ) {
+        throw new Error(
+          `Invalid config (${filePath}): "${path}.persona" must be a single-line string of 1-${MAX_PERSONA_LENGTH} characters`,
+        );
+      }
+    }
+    if (r.checks !== undefined) {
+      if (
+        !Array.isArray(r.checks) ||
+        r.checks.length === 0 ||
+        !r.checks.every(
+          (c: unknown) => typeof c === 'string' && c.trim() !== '',
+        )
+      ) {
+        throw new Error(
+          `Invalid config (${filePath}): "${path}.checks" must be a non-empty array of non-empty strings`,
+        );
+      }
+    }
+    if (r.extraInstructions !== undefined) {
+      if (
+        typeof r.extraInstructions !== 'string' ||
+        r.extraInstructions.length > MAX_EXTRA_INSTRUCTIONS_LENGTH
+      ) {
+        throw new Error(
+          `Invalid config (${filePath}): "${path}.extraInstructions" must be a string of at most ${MAX_EXTRA_INSTRUCTIONS_LENGTH} characters`,
+        );
+      }
+    }
+  }
+
+  /**
+   * `http` reviewers call an OpenAI-compatible endpoint instead of spawning a CLI:
+   * `baseUrl` and `model` are required, the API key is read from the env var named
+   * by `apiKeyEnv` (optional for local servers), and `cliPath` / `cliArgs` are ignored.
+   */
+  private validateHttpReviewer(
+    r: Record<string, any>,
+    path: string,
+    filePath: string,
+  ): void {
+    if (r.apiKey !== undefined) {
+      throw new Error(
+        `Invalid config (${filePath}): "${path}.apiKey" is not supported; put the key in an environment variable and set "${path}.apiKeyEnv"`,
+      );
+    }
+    if (!r.baseUrl || typeof r.baseUrl !== 'string') {
+      throw new Error(
+        `Invalid config (${filePath}): "${path}.baseUrl" is required for "protocol": "http"`,
+      );
+    }
+    let url: URL;
+    try {
+      url = new URL(r.baseUrl.trim());
+    } catch {
+      throw new Error(
+        `Invalid config (${filePath}): "${path}.baseUrl" must be a valid URL`,
+      );
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      throw new Error(
+        `Invalid config (${filePath}): "${path}.baseUrl" must use http or https`,
+      );
+    }
+    if (url.username || url.password) {
+      throw new Error(
+        `Invalid config (${filePath}): "${path}.baseUrl" must not contain credentials; use "${path}.apiKeyEnv"`,
+      );
+    }
+    if (url.search || url.hash) {
+      throw new Error(
+        `Invalid config (${filePath}): "${path}.baseUrl" must not contain a query string or fragment`,
+      );
+    }
+    r.baseUrl = r.baseUrl.trim();
+    if (r.model === undefined) {
+      throw new Error(
+        `Invalid config (${filePath}): "${path}.model" is required for "protocol": "http"`,
+      );
+    }
+    if (r.apiKeyEnv !== undefined) {
+      if (
+        typeof r.apiKeyEnv !== 'string' ||
+        !ConfigService.ENV_VAR_NAME.test(r.apiKeyEnv)
+      ) {
+        throw new Error(
+          `Invalid config (${filePath}): "${path}.apiKeyEnv" must be an environment variable name`,
+        );
+      }
+      if (!process.env[r.apiKeyEnv]) {
+        throw new Error(
+          `Invalid config (${filePath}): environment variable ${r.apiKeyEnv} ("${path}.apiKeyEnv") is not set`,
+        );
+      }
+    }
+    // Keep the CLI fields well-typed for code that lists reviewers
+    r.cliPath = '';
+    r.cliArgs = [];
   }
 
   private validateCliArgs(
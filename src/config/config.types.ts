@@ -1,12 +1,23 @@
 export interface ReviewerConfig {
   name: string;
+  /** CLI command for `acp` / `copilot` reviewers; unused (empty) for `http`. */
   cliPath: string;
   cliArgs: string[];
-  protocol?: 'acp' | 'copilot';
+  protocol?: 'acp' | 'copilot' | 'http';
+  /** OpenAI-compatible API root for `http` reviewers, e.g. `http://localhost:11434/v1`. */
+  baseUrl?: string;
+  /** Environment variable holding the API key for `http` reviewers (keys are never stored in config). */
+  apiKeyEnv?: string;
   model?: string;
   timeoutMs?: number;
   maxRetries?: number;
   streaming?: boolean;
+  /** Role this reviewer plays in the council, e.g. "security auditor". Also shown to the decision maker. */
+  persona?: string;
+  /** Checks this reviewer focuses on; replaces the request / `review.defaultChecks` checks for this reviewer only. */
+  checks?: string[];
+  /** Instructions appended to this reviewer's prompt only (after any request-wide extra instructions). */
+  extraInstructions?: string;
 }
 
 export interface ReviewConfig {
@@ -20,10 +31,75 @@ export interface ReviewConfig {
   sensitivePatterns?: string[];
   /** Glob patterns for files to exclude from codebase/file reviews (e.g. test files). */
   excludePatterns?: string[];
+  /** Rounds in which reviewers respond to each other's findings before the decision maker rules (0 = off, default). */
+  debateRounds?: number;
+  /** Minimum severity that fails CLI reviews with exit code 2 ("none" disables). Overridden by --fail-on. */
+  failOn?: 'high' | 'medium' | 'low' | 'none';
+  /** Categories that fail CLI reviews with exit code 2. Overridden by --fail-on-category. */
+  failOnCategories?: string[];
+  /** Limits checked against an estimate before any agent is contacted. */
+  budget?: BudgetConfig;
+}
+
+/** Review budget; every limit is optional. See review/review-budget.ts for the estimate. */
+export interface BudgetConfig {
+  /** Maximum characters of code sent for review (all batches). */
+  maxInputChars?: number;
+  /** Maximum estimated tokens (input + output) of all prompts of the review. */
+  maxEstimatedTokens?: number;
+  /** Maximum estimated cost in USD, from the `pricing` table. */
+  maxCost?: number;
+  /** Over budget: refuse the review (default) or drop reviewers, then batches, until it fits. */
+  onExceed?: 'refuse' | 'downscale';
+}
+
+/** Settings for the git hooks installed by `hooks install`. */
+export interface HooksConfig {
+  /** Names of `reviewers` to run from hooks (a fast subset); defaults to all reviewers. */
+  reviewers?: string[];
+  /** Base branch for pre-push reviews of branches the remote does not have yet (default: "main"). */
+  baseBranch?: string;
+}
+
+/** How rulings are merged when several `decisionMakers` judge the same review. */
+export interface DecisionAggregationConfig {
+  /** Severity of a merged item: the most severe vote (default) or the (upper) median. Verdicts are always a majority vote. */
+  severity?: 'max' | 'median';
+}
+
+/** Optional phase after the decision that asks an agent for patches fixing accepted findings. */
+export interface FixConfig {
+  /** Run the fix phase (default false). */
+  enabled?: boolean;
+  /** Agent that writes the patches; defaults to the decision maker. */
+  agent?: ReviewerConfig;
+}
+
+/** On-disk cache of agent responses to prompts that embed all their input (see acp/response-cache.service.ts). */
+export interface CacheConfig {
+  /** Serve repeated prompts from the cache (default true). The CLI's --no-cache turns it off for one run. */
+  enabled?: boolean;
+  /** Age in hours after which a cached response is no longer used (default 24). */
+  ttlHours?: number;
+}
+
+/** Price of a model in USD per million tokens, used to estimate review cost. */
+export interface ModelPricing {
+  inputPerMillion: number;
+  outputPerMillion: number;
 }
 
 export interface CouncilConfig {
   reviewers: ReviewerConfig[];
+  /** The decision maker. When `decisionMakers` is set, the panel decides instead and this defaults to its first judge. */
   decisionMaker: ReviewerConfig;
+  /** Several decision makers that judge independently; their rulings are merged by `decisionAggregation`. */
+  decisionMakers?: ReviewerConfig[];
+  decisionAggregation?: DecisionAggregationConfig;
   review: ReviewConfig;
+  hooks?: HooksConfig;
+  fix?: FixConfig;
+  cache?: CacheConfig;
+  /** Prices keyed by the model name agents report in their usage (e.g. "gpt-4.1"). */
+  pricing?: Record<string, ModelPricing>;
 }
@@ -8,6 +8,15 @@ export const MAX_REVIEWER_CONCURRENCY = 5;
 /** Maximum number of batches processed concurrently in multi-batch review. */
 export const BATCH_CONCURRENCY = 2;
 
+/**
+ * Default cap on CLI agent processes running at once across all reviews of a
+ * process (one review's peak: every concurrent batch's reviewers plus the
+ * decision maker). Override with the REVIEW_COUNCIL_MAX_AGENTS environment
+ * variable; `createClient` waits for a free slot beyond it.
+ */
+export const MAX_AGENT_PROCESSES =
+  BATCH_CONCURRENCY * MAX_REVIEWER_CONCURRENCY + 1;
+
 /** Maximum number of file paths to include in exploration mode prompt. */
 export const MAX_EXPLORATION_FILE_PATHS = 1000;
 
@@ -16,7 +25,7 @@ export const MAX_FILE_LIST_CHARS = 80_000;
 
 /**
  * Valid check categories for --checks CLI option (user-facing input categories).
- * Note: decision-maker.service.ts has its own VALID_CATEGORIES which includes 'other'
+ * Note: review/review-findings.ts has its own VALID_CATEGORIES which includes 'other'
  * as an AI output classification category — the two sets serve different purposes.
  */
 export const VALID_CHECK_CATEGORIES = new Set([
@@ -27,9 +36,57 @@ export const VALID_CHECK_CATEGORIES = new Set([
   'best-practices',
 ]);
 
+/** Default for `review.maxCodeLength`: code characters embedded in decision maker / debate prompts. */
+export const DEFAULT_MAX_CODE_LENGTH = 60_000;
+
+/** Default for `review.maxReviewsLength`: reviewer output characters embedded in decision maker / debate prompts. */
+export const DEFAULT_MAX_REVIEWS_LENGTH = 30_000;
+
+/** Upper bound for `review.debateRounds`; each round costs one prompt per reviewer. */
+export const MAX_DEBATE_ROUNDS = 3;
+
+/** Maximum number of `decisionMakers`; all judges run concurrently. */
+export const MAX_DECISION_MAKERS = 5;
+
 /** Maximum characters per batch for codebase review (--batch-size upper bound). */
 export const MAX_BATCH_SIZE = 500_000;
 
+/** Rough characters per token used by review budget estimates. */
+export const ESTIMATED_CHARS_PER_TOKEN = 4;
+
+/** Estimated characters of instructions in every prompt, on top of the code and reviews it embeds. */
+export const ESTIMATED_PROMPT_OVERHEAD_CHARS = 4_000;
+
+/** Estimated output tokens of every prompt (a review, synthesis, debate turn or decision). */
+export const ESTIMATED_OUTPUT_TOKENS = 2_000;
+
 /** Regex to match control characters (NUL–US + DEL). Used to sanitize user-facing strings. */
 // eslint-disable-next-line no-control-regex
 export const CONTROL_CHARS_REGEX = /[\x00-\x1f\x7f]/g;
+
+/**
+ * Directory (relative to the working directory) for local council data such as review history,
+ * the response cache and checkpoints of interrupted reviews.
+ * Override with the REVIEW_COUNCIL_DATA_DIR environment variable.
+ */
+export const REVIEW_COUNCIL_DIR = '.review-council';
+
+/** Default for `cache.ttlHours`: age after which a cached agent response is no longer used. */
+export const DEFAULT_CACHE_TTL_HOURS = 24;
+
+/**
+ * CLI exit codes for review commands (see review/gate-policy.ts).
+ * When several apply, the first listed wins: failed > blocking > partial.
+ */
+export const EXIT_CODES = {
+  /** Review completed and no finding matched the gate policy. */
+  ok: 0,
+  /** Review could not run (invalid input, config error, or every reviewer failed). */
+  failed: 1,
+  /** Review completed and at least one finding matched the gate policy. */
+  blocking: 2,
+  /** Some reviewers or the decision maker failed; the result is incomplete. */
+  partial: 3,
+  /** The review was cancelled with Ctrl-C (128 + SIGINT). */
+  cancelled: 130,
+} as const;
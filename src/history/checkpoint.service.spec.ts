@@ -0,0 +1,118 @@
+import { Test } from '@nestjs/testing';
+import { ConsoleLogger } from '@nestjs/common';
+import { CheckpointService } from './checkpoint.service.js';
+import { ReviewCheckpoint } from './history.types.js';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+function makeCheckpoint(
+  id: string,
+  updatedAt: string,
+  overrides: Partial<ReviewCheckpoint> = {},
+): ReviewCheckpoint {
+  return {
+    id,
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt,
+    request: {
+      kind: 'codebase',
+      mode: 'batch',
+      checks: ['security'],
+      directory: '/repo/src',
+    },
+    config: {
+      reviewers: [{ name: 'Gemini', cliPath: 'gemini', cliArgs: [] }],
+      decisionMaker: { name: 'Claude', cliPath: 'claude', cliArgs: [] },
+      review: { defaultChecks: ['security'], language: 'en' },
+    },
+    totalBatches: 3,
+    batches: [
+      {
+        index: 0,
+        hash: 'abc',
+        reviews: [{ reviewer: 'Gemini', review: 'LGTM', status: 'success' }],
+      },
+    ],
+    syntheses: [],
+    ...overrides,
+  };
+}
+
+describe('CheckpointService', () => {
+  let service: CheckpointService;
+  let tmpDir: string;
+  let originalDataDir: string | undefined;
+
+  beforeEach(async () => {
+    tmpDir = await mkdtemp(join(tmpdir(), 'cr-checkpoint-'));
+    originalDataDir = process.env.REVIEW_COUNCIL_DATA_DIR;
+    process.env.REVIEW_COUNCIL_DATA_DIR = tmpDir;
+    const module = await Test.createTestingModule({
+      providers: [
+        CheckpointService,
+        { provide: ConsoleLogger, useValue: new ConsoleLogger() },
+      ],
+    }).compile();
+    service = module.get(CheckpointService);
+  });
+
+  afterEach(async () => {
+    if (originalDataDir === undefined) {
+      delete process.env.REVIEW_COUNCIL_DATA_DIR;
+    } else {
+      process.env.REVIEW_COUNCIL_DATA_DIR = originalDataDir;
+    }
+    await rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should save and read back a checkpoint', async () => {
+    const checkpoint = makeCheckpoint(
+      'review-aaaa1111',
+      '2025-01-01T01:00:00.000Z',
+    );
+    const filePath = await service.save(checkpoint);
+    expect(filePath).toBe(join(tmpDir, 'checkpoints', 'review-aaaa1111.json'));
+    expect(await service.get('review-aaaa1111')).toEqual(checkpoint);
+    expect(await service.get('review-missing')).toBeNull();
+  });
+
+  it('should list resumable reviews, most recently updated first', async () => {
+    await service.save(
+      makeCheckpoint('review-old', '2025-01-01T01:00:00.000Z'),
+    );
+    await service.save(
+      makeCheckpoint('review-new', '2025-01-02T01:00:00.000Z'),
+    );
+    await writeFile(join(tmpDir, 'checkpoints', 'review-bad.json'), '{');
+
+    expect(await service.list()).toEqual([
+      {
+        id: 'review-new',
+        createdAt: '2025-01-01T00:00:00.000Z',
+        updatedAt: '2025-01-02T01:00:00.000Z',
+        target: '/repo/src',
+        reviewers: ['Gemini'],
+        totalBatches: 3,
+        completedBatches: 1,
+      },
+      expect.objectContaining({ id: 'review-old' }),
+    ]);
+  });
+
+  it('should remove a checkpoint', async () => {
+    await service.save(
+      makeCheckpoint('review-aaaa1111', '2025-01-01T01:00:00.000Z'),
+    );
+    expect(await service.remove('review-aaaa1111')).toBe(true);
+    expect(await service.remove('review-aaaa1111')).toBe(false);
+    expect(await service.list()).toEqual([]);
+  });
+
+  it('should reject ids that could escape the checkpoint directory', async () => {
+    await expect(service.get('../config')).rejects.toThrow(
+      'Invalid review id: "../config"',
+    );
+  });
+});
@@ -0,0 +1,128 @@
+import { Injectable, ConsoleLogger, Inject } from '@nestjs/common';
+import {
+  mkdir,
+  readdir,
+  readFile,
+  rename,
+  rm,
+  writeFile,
+} from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import { REVIEW_COUNCIL_DIR } from '../constants.js';
+import { sanitizeErrorMessage } from '../review/retry-utils.js';
+import { isValidReviewId } from './history.service.js';
+import { ReviewCheckpoint, ReviewCheckpointSummary } from './history.types.js';
+
+/** Checkpoints of interrupted codebase reviews, one JSON file per review id. */
+@Injectable()
+export class CheckpointService {
+  constructor(@Inject(ConsoleLogger) private readonly logger: ConsoleLogger) {
+    this.logger.setContext(CheckpointService.name);
+  }
+
+  /** Resolved per call so REVIEW_COUNCIL_DATA_DIR / cwd changes are honoured. */
+  getCheckpointDir(): string {
+    const base = process.env.REVIEW_COUNCIL_DATA_DIR?.trim();
+    return resolve(
+      base || resolve(process.cwd(), REVIEW_COUNCIL_DIR),
+      'checkpoints',
+    );
+  }
+
+  async save(checkpoint: ReviewCheckpoint): Promise<string> {
+    const filePath = this.checkpointPath(checkpoint.id);
+    await mkdir(this.getCheckpointDir(), { recursive: true });
+    // Write to a temp file first so a crash mid-write keeps the previous checkpoint
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+    await writeFile(tmpPath, JSON.stringify(checkpoint), 'utf-8');
+    await rename(tmpPath, filePath);
+    return filePath;
+  }
+
+  /** Returns null when no checkpoint exists for the id. */
+  async get(id: string): Promise<ReviewCheckpoint | null> {
+    const filePath = this.checkpointPath(id);
+    let content: string;
+    try {
+      content = await readFile(filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch (error) {
+      const msg = error instanceof SyntaxError ? error.message : String(error);
+      throw new Error(`Failed to parse checkpoint "${id}": ${msg}`);
+    }
+    const checkpoint = parsed as Partial<ReviewCheckpoint> | null;
+    if (
+      !checkpoint ||
+      typeof checkpoint !== 'object' ||
+      !Array.isArray(checkpoint.batches) ||
+      !Array.isArray(checkpoint.syntheses) ||
+      typeof checkpoint.request !== 'object' ||
+      typeof checkpoint.config !== 'object'
+    ) {
+      throw new Error(`Invalid checkpoint "${id}"`);
+    }
+    return checkpoint as ReviewCheckpoint;
+  }
+
+  /** Resumable reviews, most recently updated first; unreadable files are skipped with a warning. */
+  async list(): Promise<ReviewCheckpointSummary[]> {
+    let names: string[];
+    try {
+      names = await readdir(this.getCheckpointDir());
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+    const summaries: ReviewCheckpointSummary[] = [];
+    for (const name of names) {
+      if (!name.endsWith('.json')) continue;
+      const id = name.slice(0, -'.json'.length);
+      if (!isValidReviewId(id)) continue;
+      try {
+        const checkpoint = await this.get(id);
+        if (checkpoint) summaries.push(this.toSummary(checkpoint));
+      } catch (error) {
+        this.logger.warn(
+          `Skipping unreadable checkpoint ${id}: ${sanitizeErrorMessage(error)}`,
+        );
+      }
+    }
+    return summaries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  /** Returns false when no checkpoint exists for the id. */
+  async remove(id: string): Promise<boolean> {
+    try {
+      await rm(this.checkpointPath(id));
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false;
+      throw error;
+    }
+  }
+
+  private checkpointPath(id: string): string {
+    if (!isValidReviewId(id)) {
+      throw new Error(`Invalid review id: "${id}"`);
+    }
+    return join(this.getCheckpointDir(), `${id}.json`);
+  }
+
+  private toSummary(checkpoint: ReviewCheckpoint): ReviewCheckpointSummary {
+    return {
+      id: checkpoint.id,
+      createdAt: checkpoint.createdAt,
+      updatedAt: checkpoint.updatedAt,
+      target: checkpoint.request.directory ?? '.',
+      reviewers: checkpoint.config.reviewers.map((r) => r.name),
+      totalBatches: checkpoint.totalBatches,
+      completedBatches: checkpoint.batches.length,
+    };
+  }
+}
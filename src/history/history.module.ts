@@ -0,0 +1,13 @@
+import { Module, ConsoleLogger, Scope } from '@nestjs/common';
+import { HistoryService } from './history.service.js';
+import { CheckpointService } from './checkpoint.service.js';
+
+@Module({
+  providers: [
+    { provide: ConsoleLogger, useClass: ConsoleLogger, scope: Scope.TRANSIENT },
+    HistoryService,
+    CheckpointService,
+  ],
+  exports: [HistoryService, CheckpointService],
+})
+export class HistoryModule {}
@@ -0,0 +1,165 @@
+import { Test } from '@nestjs/testing';
+import { ConsoleLogger } from '@nestjs/common';
+import { HistoryService } from './history.service.js';
+import { ReviewHistoryRecord } from './history.types.js';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readdir, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+function makeRecord(
+  id: string,
+  createdAt: string,
+  overrides: Partial<ReviewHistoryRecord> = {},
+): ReviewHistoryRecord {
+  return {
+    id,
+    createdAt,
+    request: {
+      kind: 'diff',
+      mode: 'inline',
+      checks: ['security'],
+      repoPath: '/repo',
+      baseBranch: 'main',
+    },
+    config: {
+      reviewers: [{ name: 'Gemini', cliPath: 'gemini', cliArgs: [] }],
+      decisionMaker: { name: 'Claude', cliPath: 'claude', cliArgs: [] },
+      review: { defaultChecks: ['security'], language: 'en' },
+    },
+    result: {
+      id,
+      status: 'completed',
+      individualReviews: [
+        { reviewer: 'Gemini', review: 'LGTM', status: 'success' },
+      ],
+      decision: {
+        reviewer: 'Claude (Decision Maker)',
+        overallAssessment: 'Fine',
+        decisions: [],
+        additionalFindings: [],
+      },
+      durationMs: 1200,
+    },
+    ...overrides,
+  };
+}
+
+describe('HistoryService', () => {
+  let service: HistoryService;
+  let tmpDir: string;
+  let originalDataDir: string | undefined;
+
+  beforeEach(async () => {
+    tmpDir = await mkdtemp(join(tmpdir(), 'cr-history-'));
+    originalDataDir = process.env.REVIEW_COUNCIL_DATA_DIR;
+    process.env.REVIEW_COUNCIL_DATA_DIR = tmpDir;
+    const module = await Test.createTestingModule({
+      providers: [
+        HistoryService,
+        { provide: ConsoleLogger, useValue: new ConsoleLogger() },
+      ],
+    }).compile();
+    service = module.get(HistoryService);
+  });
+
+  afterEach(async () => {
+    if (originalDataDir === undefined) {
+      delete process.env.REVIEW_COUNCIL_DATA_DIR;
+    } else {
+      process.env.REVIEW_COUNCIL_DATA_DIR = originalDataDir;
+    }
+    await rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should save and read back a record', async () => {
+    const record = makeRecord('review-aaaa1111', '2025-01-01T00:00:00.000Z');
+    const filePath = await service.save(record);
+    expect(filePath).toBe(join(tmpDir, 'history', 'review-aaaa1111.json'));
+    expect(await service.get('review-aaaa1111')).toEqual(record);
+  });
+
+  it('should not leave temp files behind after saving', async () => {
+    await service.save(
+      makeRecord('review-aaaa1111', '2025-01-01T00:00:00.000Z'),
+    );
+    expect(await readdir(join(tmpDir, 'history'))).toEqual([
+      'review-aaaa1111.json',
+    ]);
+  });
+
+  it('should list summaries newest first', async () => {
+    await service.save(
+      makeRecord('review-aaaa1111', '2025-01-01T00:00:00.000Z'),
+    );
+    await service.save(
+      makeRecord('review-bbbb2222', '2025-02-01T00:00:00.000Z', {
+        request: {
+          kind: 'file',
+          mode: 'batch',
+          checks: [],
+          filePaths: ['a.ts', 'b.ts', 'c.ts', 'd.ts'],
+        },
+      }),
+    );
+    const list = await service.list();
+    expect(list.map((s) => s.id)).toEqual([
+      'review-bbbb2222',
+      'review-aaaa1111',
+    ]);
+    expect(list[0]).toMatchObject({
+      kind: 'file',
+      target: 'a.ts, b.ts, c.ts (+1 more)',
+      status: 'completed',
+      reviewers: ['Gemini'],
+      decisionCount: 0,
+      durationMs: 1200,
+    });
+    expect(list[1].target).toBe('/repo (base: main)');
+  });
+
+  it('should return an empty list when no history exists', async () => {
+    expect(await service.list()).toEqual([]);
+  });
+
+  it('should skip corrupted records when listing', async () => {
+    await service.save(
+      makeRecord('review-aaaa1111', '2025-01-01T00:00:00.000Z'),
+    );
+    await writeFile(join(tmpDir, 'history', 'review-broken.json'), '{oops');
+    const list = await service.list();
+    expect(list.map((s) => s.id)).toEqual(['review-aaaa1111']);
+  });
+
+  it('should find the newest record matching a predicate', async () => {
+    await service.save(
+      makeRecord('review-aaaa1111', '2025-01-01T00:00:00.000Z'),
+    );
+    await service.save(
+      makeRecord('review-bbbb2222', '2025-02-01T00:00:00.000Z'),
+    );
+    const latest = await service.findLatest((r) => r.request.kind === 'diff');
+    expect(latest?.id).toBe('review-bbbb2222');
+    expect(
+      await service.findLatest((r) => r.request.kind === 'codebase'),
+    ).toBeNull();
+  });
+
+  it('should return null for an unknown id', async () => {
+    expect(await service.get('review-missing')).toBeNull();
+  });
+
+  it('should remove a record', async () => {
+    await service.save(
+      makeRecord('review-aaaa1111', '2025-01-01T00:00:00.000Z'),
+    );
+    expect(await service.remove('review-aaaa1111')).toBe(true);
+    expect(await service.get('review-aaaa1111')).toBeNull();
+    expect(await service.remove('review-aaaa1111')).toBe(false);
+  });
+
+  it('should reject ids that could escape the history directory', async () => {
+    await expect(service.get('../config')).rejects.toThrow('Invalid review id');
+    await expect(service.remove('a/b')).rejects.toThrow('Invalid review id');
+  });
+});
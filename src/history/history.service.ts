@@ -0,0 +1,179 @@
+import { Injectable, ConsoleLogger, Inject } from '@nestjs/common';
+import {
+  mkdir,
+  readdir,
+  readFile,
+  rename,
+  rm,
+  writeFile,
+} from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import { REVIEW_COUNCIL_DIR } from '../constants.js';
+import { sanitizeErrorMessage } from '../review/retry-utils.js';
+import {
+  ReviewHistoryRecord,
+  ReviewHistoryRequest,
+  ReviewHistorySummary,
+} from './history.types.js';
+
+/** Review ids are generated as `review-<hex>`; anything else could escape the history directory. */
+const HISTORY_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]{0,127}$/;
+
+export function isValidReviewId(id: string): boolean {
+  return HISTORY_ID_PATTERN.test(id);
+}
+
+@Injectable()
+export class HistoryService {
+  constructor(@Inject(ConsoleLogger) private readonly logger: ConsoleLogger) {
+    this.logger.setContext(HistoryService.name);
+  }
+
+  /** Resolved per call so REVIEW_COUNCIL_DATA_DIR / cwd changes are honoured. */
+  getHistoryDir(): string {
+    const base = process.env.REVIEW_COUNCIL_DATA_DIR?.trim();
+    return resolve(
+      base || resolve(process.cwd(), REVIEW_COUNCIL_DIR),
+      'history',
+    );
+  }
+
+  async save(record: ReviewHistoryRecord): Promise<string> {
+    const filePath = this.recordPath(record.id);
+    const dir = this.getHistoryDir();
+    await mkdir(dir, { recursive: true });
+    // Write to a temp file first so a crash never leaves a truncated record behind
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+    await writeFile(tmpPath, JSON.stringify(record, null, 2), 'utf-8');
+    await rename(tmpPath, filePath);
+    return filePath;
+  }
+
+  async list(): Promise<ReviewHistorySummary[]> {
+    const records = await this.readAll();
+    return records.map((record) => this.toSummary(record));
+  }
+
+  /** Newest record matching the predicate, or null. */
+  async findLatest(
+    predicate: (record: ReviewHistoryRecord) => boolean,
+  ): Promise<ReviewHistoryRecord | null> {
+    const records = await this.readAll();
+    return records.find(predicate) ?? null;
+  }
+
+  /** Returns null when no record exists for the id. */
+  async get(id: string): Promise<ReviewHistoryRecord | null> {
+    return this.readRecord(id);
+  }
+
+  /** Returns false when no record exists for the id. */
+  async remove(id: string): Promise<boolean> {
+    const filePath = this.recordPath(id);
+    try {
+      await rm(filePath);
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false;
+      throw error;
+    }
+  }
+
+  /** All readable records, newest first; corrupted files are skipped with a warning. */
+  private async readAll(): Promise<ReviewHistoryRecord[]> {
+    let names: string[];
+    try {
+      names = await readdir(this.getHistoryDir());
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+    const records: ReviewHistoryRecord[] = [];
+    for (const name of names) {
+      if (!name.endsWith('.json')) continue;
+      const id = name.slice(0, -'.json'.length);
+      if (!isValidReviewId(id)) continue;
+      try {
+        const record = await this.readRecord(id);
+        if (record) records.push(record);
+      } catch (error) {
+        this.logger.warn(
+          `Skipping unreadable history record ${id}: ${sanitizeErrorMessage(error)}`,
+        );
+      }
+    }
+    return records.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  private async readRecord(id: string): Promise<ReviewHistoryRecord | null> {
+    const filePath = this.recordPath(id);
+    let content: string;
+    try {
+      content = await readFile(filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch (error) {
+      const msg = error instanceof SyntaxError ? error.message : String(error);
+      throw new Error(`Failed to parse history record "${id}": ${msg}`);
+    }
+    if (
+      !parsed ||
+      typeof parsed !== 'object' ||
+      typeof (parsed as ReviewHistoryRecord).result !== 'object'
+    ) {
+      throw new Error(`Invalid history record "${id}": missing result`);
+    }
+    return parsed as ReviewHistoryRecord;
+  }
+
+  private recordPath(id: string): string {
+    if (!isValidReviewId(id)) {
+      throw new Error(`Invalid review id: "${id}"`);
+    }
+    return join(this.getHistoryDir(), `${id}.json`);
+  }
+
+  private toSummary(record: ReviewHistoryRecord): ReviewHistorySummary {
+    const { request, result } = record;
+    return {
+      id: record.id,
+      createdAt: record.createdAt,
+      kind: request.kind,
+      target: this.describeTarget(request),
+      status: result.status,
+      reviewers: (result.individualReviews ?? []).map((r) => r.reviewer),
+      decisionCount: result.decision?.decisions?.length ?? 0,
+      durationMs: result.durationMs,
+    };
+  }
+
+  private describeDiffTarget(request: ReviewHistoryRequest): string {
+    if (request.range) return `range: ${request.range}`;
+    if (request.commit) return `commit: ${request.commit}`;
+    if (request.staged) return 'staged';
+    if (request.workingTree) return 'working tree';
+    return `base: ${request.baseBranch ?? 'main'}`;
+  }
+
+  private describeTarget(request: ReviewHistoryRequest): string {
+    switch (request.kind) {
+      case 'diff':
+        return `${request.repoPath ?? '.'} (${this.describeDiffTarget(request)})`;
+      case 'file': {
+        const files = request.filePaths ?? [];
+        return files.length > 3
+          ? `${files.slice(0, 3).join(', ')} (+${files.length - 3} more)`
+          : files.join(', ');
+      }
+      case 'codebase':
+        return request.directory ?? '.';
+      default:
+        return '';
+    }
+  }
+}
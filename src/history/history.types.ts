@@ -0,0 +1,88 @@
+import { CouncilConfig } from '../config/config.types.js';
+import { IndividualReview, ReviewResult } from '../review/review.types.js';
+
+export type ReviewKind = 'diff' | 'file' | 'codebase';
+
+/** Parameters a review was started with, kept so past runs can be inspected or repeated. */
+export interface ReviewHistoryRequest {
+  kind: ReviewKind;
+  mode: 'inline' | 'batch' | 'explore';
+  checks: string[];
+  extraInstructions?: string;
+  /** diff */
+  repoPath?: string;
+  baseBranch?: string;
+  /** diff: branch state at review time, used to find the starting point of `--incremental` runs */
+  branch?: string;
+  headSha?: string;
+  mergeBase?: string;
+  incremental?: boolean;
+  /** diff: explicit target instead of base-vs-HEAD */
+  range?: string;
+  commit?: string;
+  staged?: boolean;
+  workingTree?: boolean;
+  /** file */
+  filePaths?: string[];
+  /** codebase */
+  directory?: string;
+  extensions?: string[];
+  maxBatchSize?: number;
+}
+
+export interface ReviewHistoryRecord {
+  id: string;
+  createdAt: string;
+  request: ReviewHistoryRequest;
+  /** Effective config at the time of the review (override or loaded config). */
+  config: CouncilConfig;
+  result: ReviewResult;
+}
+
+/** Lightweight listing entry; avoids sending full review text when browsing history. */
+export interface ReviewHistorySummary {
+  id: string;
+  createdAt: string;
+  kind: ReviewKind;
+  target: string;
+  status: ReviewResult['status'];
+  reviewers: string[];
+  decisionCount: number;
+  durationMs?: number;
+}
+
+/** Reviews of one finished batch of a checkpointed codebase review. */
+export interface CheckpointBatch {
+  index: number;
+  /** Hash of the batch's file paths and contents; a changed batch is reviewed again. */
+  hash: string;
+  reviews: IndividualReview[];
+}
+
+/**
+ * Progress of a batch-mode codebase review, saved after every batch and
+ * synthesis so that an interrupted run can be resumed (`codebase --resume`).
+ */
+export interface ReviewCheckpoint {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  request: ReviewHistoryRequest;
+  /** Config the review started with; a resumed run keeps its reviewers. */
+  config: CouncilConfig;
+  totalBatches: number;
+  batches: CheckpointBatch[];
+  /** Per-reviewer merged reviews, valid only while no batch is reviewed again. */
+  syntheses: IndividualReview[];
+}
+
+/** Listing entry of an interrupted review that can be resumed. */
+export interface ReviewCheckpointSummary {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  target: string;
+  reviewers: string[];
+  totalBatches: number;
+  completedBatches: number;
+}
@@ -0,0 +1,11 @@
+import { Module, ConsoleLogger, Scope } from '@nestjs/common';
+import { HooksService } from './hooks.service.js';
+
+@Module({
+  providers: [
+    { provide: ConsoleLogger, useClass: ConsoleLogger, scope: Scope.TRANSIENT },
+    HooksService,
+  ],
+  exports: [HooksService],
+})
+export class HooksModule {}
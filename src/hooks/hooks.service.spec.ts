@@ -0,0 +1,180 @@
+import { Test } from '@nestjs/testing';
+import { ConsoleLogger } from '@nestjs/common';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  mkdtemp,
+  readFile,
+  rm,
+  stat,
+  writeFile,
+  mkdir,
+} from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { simpleGit } from 'simple-git';
+import {
+  HOOK_BACKUP_SUFFIX,
+  HOOK_MARKER,
+  HooksService,
+  SKIP_HOOKS_ENV,
+  buildHookScript,
+  parsePrePushInput,
+  pushRange,
+} from './hooks.service.js';
+
+const COMMAND = ['/usr/bin/node', '/opt/council/dist/cli.js'];
+
+describe('buildHookScript', () => {
+  it('should exec the hooks run command with quoted arguments', () => {
+    const script = buildHookScript('pre-push', COMMAND, "/tmp/it's.json");
+    expect(script.startsWith('#!/bin/sh\n')).toBe(true);
+    expect(script).toContain(HOOK_MARKER);
+    expect(script).toContain(
+      `if [ "$${SKIP_HOOKS_ENV}" = "1" ]; then exit 0; fi`,
+    );
+    expect(script).toContain(
+      `exec '/usr/bin/node' '/opt/council/dist/cli.js' 'hooks' 'run' 'pre-push' '--config' '/tmp/it'\\''s.json' "$@"`,
+    );
+  });
+});
+
+describe('pre-push input', () => {
+  const sha = (c: string) => c.repeat(40);
+
+  it('should parse ref lines and ignore blanks', () => {
+    const refs = parsePrePushInput(
+      `refs/heads/feat ${sha('a')} refs/heads/feat ${sha('b')}\n\n`,
+    );
+    expect(refs).toEqual([
+      {
+        localRef: 'refs/heads/feat',
+        localSha: sha('a'),
+        remoteRef: 'refs/heads/feat',
+        remoteSha: sha('b'),
+      },
+    ]);
+  });
+
+  it('should map refs to review ranges', () => {
+    const ref = {
+      localRef: 'refs/heads/feat',
+      localSha: sha('a'),
+      remoteRef: 'refs/heads/feat',
+      remoteSha: sha('b'),
+    };
+    expect(pushRange(ref, 'main')).toBe(`${sha('b')}..${sha('a')}`);
+    expect(pushRange({ ...ref, remoteSha: sha('0') }, 'main')).toBe(
+      `main...${sha('a')}`,
+    );
+    expect(pushRange({ ...ref, localSha: sha('0') }, 'main')).toBeNull();
+  });
+});
+
+describe('HooksService', () => {
+  let service: HooksService;
+  let tmpDir: string;
+  let gitHome: string;
+
+  beforeEach(async () => {
+    // Keep the developer's or CI's git config (e.g. a global core.hooksPath) out of the test repos
+    gitHome = await mkdtemp(join(tmpdir(), 'hooks-home-'));
+    vi.stubEnv('GIT_CONFIG_NOSYSTEM', '1');
+    vi.stubEnv('HOME', gitHome);
+    vi.stubEnv('XDG_CONFIG_HOME', gitHome);
+    vi.stubEnv('GIT_CONFIG_GLOBAL', undefined);
+    vi.stubEnv('GIT_CONFIG_PARAMETERS', undefined);
+    vi.stubEnv('GIT_CONFIG_COUNT', undefined);
+    const module = await Test.createTestingModule({
+      providers: [
+        HooksService,
+        { provide: ConsoleLogger, useValue: new ConsoleLogger() },
+      ],
+    }).compile();
+    service = module.get(HooksService);
+    tmpDir = await mkdtemp(join(tmpdir(), 'hooks-test-'));
+    await simpleGit(tmpDir).init();
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await rm(tmpDir, { recursive: true, force: true });
+    await rm(gitHome, { recursive: true, force: true });
+  });
+
+  it('should install executable hooks and update them in place', async () => {
+    const changes = await service.install(tmpDir, {
+      hooks: ['pre-commit', 'pre-push'],
+      command: COMMAND,
+    });
+    expect(changes.map((c) => c.action)).toEqual(['installed', 'installed']);
+    const hookPath = join(tmpDir, '.git', 'hooks', 'pre-commit');
+    expect(await readFile(hookPath, 'utf-8')).toContain(HOOK_MARKER);
+    expect((await stat(hookPath)).mode & 0o111).not.toBe(0);
+
+    const again = await service.install(tmpDir, {
+      hooks: ['pre-commit'],
+      command: COMMAND,
+    });
+    expect(again[0].action).toBe('updated');
+  });
+
+  it('should honor core.hooksPath', async () => {
+    await simpleGit(tmpDir).addConfig('core.hooksPath', '.githooks');
+    const [change] = await service.install(tmpDir, {
+      hooks: ['pre-commit'],
+      command: COMMAND,
+    });
+    expect(change.path).toBe(join(tmpDir, '.githooks', 'pre-commit'));
+    expect(existsSync(change.path)).toBe(true);
+  });
+
+  it('should refuse to overwrite foreign hooks without force', async () => {
+    const hooksDir = join(tmpDir, '.git', 'hooks');
+    await mkdir(hooksDir, { recursive: true });
+    await writeFile(join(hooksDir, 'pre-push'), '#!/bin/sh\necho mine\n');
+
+    await expect(
+      service.install(tmpDir, {
+        hooks: ['pre-commit', 'pre-push'],
+        command: COMMAND,
+      }),
+    ).rejects.toThrow('--force');
+    // Nothing is written when any hook conflicts
+    expect(existsSync(join(hooksDir, 'pre-commit'))).toBe(false);
+  });
+
+  it('should back up foreign hooks on force and restore them on uninstall', async () => {
+    const hookPath = join(tmpDir, '.git', 'hooks', 'pre-push');
+    await mkdir(join(tmpDir, '.git', 'hooks'), { recursive: true });
+    await writeFile(hookPath, '#!/bin/sh\necho mine\n');
+
+    const [installed] = await service.install(tmpDir, {
+      hooks: ['pre-push'],
+      command: COMMAND,
+      force: true,
+    });
+    expect(installed.action).toBe('replaced');
+    expect(await readFile(hookPath + HOOK_BACKUP_SUFFIX, 'utf-8')).toContain(
+      'echo mine',
+    );
+
+    const [removed] = await service.uninstall(tmpDir, ['pre-push']);
+    expect(removed.action).toBe('restored');
+    expect(await readFile(hookPath, 'utf-8')).toContain('echo mine');
+    expect(existsSync(hookPath + HOOK_BACKUP_SUFFIX)).toBe(false);
+  });
+
+  it('should only uninstall hooks it installed', async () => {
+    await service.install(tmpDir, { hooks: ['pre-commit'], command: COMMAND });
+    await writeFile(
+      join(tmpDir, '.git', 'hooks', 'pre-push'),
+      '#!/bin/sh\necho mine\n',
+    );
+
+    const changes = await service.uninstall(tmpDir, ['pre-commit', 'pre-push']);
+    expect(changes.map((c) => c.action)).toEqual(['removed', 'skipped']);
+    expect(existsSync(join(tmpDir, '.git', 'hooks', 'pre-commit'))).toBe(false);
+    expect(existsSync(join(tmpDir, '.git', 'hooks', 'pre-push'))).toBe(true);
+  });
+});
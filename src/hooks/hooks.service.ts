@@ -0,0 +1,230 @@
+import { Injectable, ConsoleLogger, Inject } from '@nestjs/common';
+import { simpleGit } from 'simple-git';
+import {
+  access,
+  chmod,
+  mkdir,
+  readFile,
+  rename,
+  rm,
+  writeFile,
+} from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+
+export const GIT_HOOKS = ['pre-commit', 'pre-push'] as const;
+export type GitHook = (typeof GIT_HOOKS)[number];
+
+/** Identifies hooks written by `hooks install`; files without it are never modified unless forced. */
+export const HOOK_MARKER = '# code-review-council managed hook';
+/** Set to "1" to skip council hooks for a single commit/push. */
+export const SKIP_HOOKS_ENV = 'REVIEW_COUNCIL_SKIP_HOOKS';
+/** Suffix for a pre-existing hook moved aside by `hooks install --force`; restored on uninstall. */
+export const HOOK_BACKUP_SUFFIX = '.council-backup';
+
+const ZERO_SHA = /^0+$/;
+
+export interface HookInstallOptions {
+  hooks: readonly GitHook[];
+  /** argv that starts this CLI, e.g. [node, /path/to/cli.js]. */
+  command: string[];
+  /** Config file baked into the hook as --config; omitted to use normal config resolution. */
+  configPath?: string;
+  /** Back up and replace hooks that were not installed by the council. */
+  force?: boolean;
+}
+
+export interface HookChange {
+  hook: GitHook;
+  path: string;
+  action:
+    | 'installed'
+    | 'updated'
+    | 'replaced'
+    | 'removed'
+    | 'restored'
+    | 'skipped';
+  reason?: string;
+}
+
+/** One line of pre-push stdin: `<local ref> <local sha> <remote ref> <remote sha>`. */
+export interface PushRef {
+  localRef: string;
+  localSha: string;
+  remoteRef: string;
+  remoteSha: string;
+}
+
+export function isGitHook(value: string): value is GitHook {
+  return (GIT_HOOKS as readonly string[]).includes(value);
+}
+
+export function shellQuote(arg: string): string {
+  return `'${arg.replace(/'/g, `'\\''`)}'`;
+}
+
+export function buildHookScript(
+  hook: GitHook,
+  command: string[],
+  configPath?: string,
+): string {
+  const args = [...command, 'hooks', 'run', hook];
+  if (configPath) args.push('--config', configPath);
+  return [
+    '#!/bin/sh',
+    HOOK_MARKER,
+    '# Remove with `code-review-council hooks uninstall`.',
+    `# Skip once with ${SKIP_HOOKS_ENV}=1 git ${hook === 'pre-commit' ? 'commit' : 'push'} ...`,
+    `if [ "$${SKIP_HOOKS_ENV}" = "1" ]; then exit 0; fi`,
+    `exec ${args.map(shellQuote).join(' ')} "$@"`,
+    '',
+  ].join('\n');
+}
+
+export function parsePrePushInput(input: string): PushRef[] {
+  return input
+    .split('\n')
+    .map((line) => line.trim().split(/\s+/))
+    .filter((parts) => parts.length === 4)
+    .map(([localRef, localSha, remoteRef, remoteSha]) => ({
+      localRef,
+      localSha,
+      remoteRef,
+      remoteSha,
+    }));
+}
+
+/**
+ * Commit range a pushed ref introduces; null for branch deletions.
+ * New remote branches are diffed from their merge-base with `baseBranch`.
+ */
+export function pushRange(ref: PushRef, baseBranch: string): string | null {
+  if (ZERO_SHA.test(ref.localSha)) return null;
+  if (ZERO_SHA.test(ref.remoteSha)) return `${baseBranch}...${ref.localSha}`;
+  return `${ref.remoteSha}..${ref.localSha}`;
+}
+
+@Injectable()
+export class HooksService {
+  constructor(@Inject(ConsoleLogger) private readonly logger: ConsoleLogger) {
+    this.logger.setContext(HooksService.name);
+  }
+
+  /** `.git/hooks`, or `core.hooksPath` when configured (git resolves both, including worktrees). */
+  async resolveHooksDir(repoPath: string): Promise<string> {
+    const raw = await simpleGit(repoPath).raw([
+      'rev-parse',
+      '--git-path',
+      'hooks',
+    ]);
+    return resolve(repoPath, raw.trim());
+  }
+
+  async install(
+    repoPath: string,
+    options: HookInstallOptions,
+  ): Promise<HookChange[]> {
+    const dir = await this.resolveHooksDir(repoPath);
+    // Check every hook before writing so a conflict never leaves a partial install
+    const plans: { hook: GitHook; path: string; existing: string | null }[] =
+      [];
+    for (const hook of options.hooks) {
+      const path = join(dir, hook);
+      const existing = await this.readIfExists(path);
+      if (existing !== null && !existing.includes(HOOK_MARKER)) {
+        if (!options.force) {
+          throw new Error(
+            `${path} already exists and was not installed by code-review-council. ` +
+              'Use --force to back it up and replace it.',
+          );
+        }
+        if (await this.exists(path + HOOK_BACKUP_SUFFIX)) {
+          throw new Error(
+            `Cannot back up ${path}: ${path}${HOOK_BACKUP_SUFFIX} already exists`,
+          );
+        }
+      }
+      plans.push({ hook, path, existing });
+    }
+
+    await mkdir(dir, { recursive: true });
+    const changes: HookChange[] = [];
+    for (const { hook, path, existing } of plans) {
+      let action: HookChange['action'] = 'installed';
+      if (existing !== null) {
+        if (existing.includes(HOOK_MARKER)) {
+          action = 'updated';
+        } else {
+          await rename(path, path + HOOK_BACKUP_SUFFIX);
+          action = 'replaced';
+        }
+      }
+      await writeFile(
+        path,
+        buildHookScript(hook, options.command, options.configPath),
+        'utf-8',
+      );
+      // writeFile's mode only applies to new files
+      await chmod(path, 0o755);
+      this.logger.log(`${action} ${hook} hook: ${path}`);
+      changes.push({ hook, path, action });
+    }
+    return changes;
+  }
+
+  async uninstall(
+    repoPath: string,
+    hooks: readonly GitHook[],
+  ): Promise<HookChange[]> {
+    const dir = await this.resolveHooksDir(repoPath);
+    const changes: HookChange[] = [];
+    for (const hook of hooks) {
+      const path = join(dir, hook);
+      const existing = await this.readIfExists(path);
+      if (existing === null) {
+        changes.push({
+          hook,
+          path,
+          action: 'skipped',
+          reason: 'not installed',
+        });
+        continue;
+      }
+      if (!existing.includes(HOOK_MARKER)) {
+        changes.push({
+          hook,
+          path,
+          action: 'skipped',
+          reason: 'not installed by code-review-council',
+        });
+        continue;
+      }
+      await rm(path);
+      const backup = path + HOOK_BACKUP_SUFFIX;
+      if (await this.exists(backup)) {
+        await rename(backup, path);
+        changes.push({ hook, path, action: 'restored' });
+      } else {
+        changes.push({ hook, path, action: 'removed' });
+      }
+    }
+    return changes;
+  }
+
+  private async readIfExists(path: string): Promise<string | null> {
+    try {
+      return await readFile(path, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  private async exists(path: string): Promise<boolean> {
+    try {
+      await access(path);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,255 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  createServer,
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+} from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { GitHubPublisher } from './github-publisher.js';
+import { ReviewDecisionItem, ReviewResult } from '../review/review.types.js';
+
+interface MockComment {
+  id: number;
+  body: string;
+  path: string;
+  line: number | null;
+}
+
+/** In-memory GitHub pull request with the REST endpoints the publisher uses. */
+class MockGitHub {
+  reviews: { id: number; body: string; html_url: string }[] = [];
+  comments: MockComment[] = [];
+  requests: string[] = [];
+  authorization?: string;
+  private nextId = 1;
+
+  handle(
+    req: IncomingMessage,
+    body: Record<string, unknown>,
+    res: ServerResponse,
+  ): void {
+    const { pathname, searchParams } = new URL(req.url!, 'http://localhost');
+    const route = `${req.method} ${pathname.replace('/repos/acme/shop', '')}`;
+    this.requests.push(route);
+    this.authorization = req.headers.authorization;
+    const json = (status: number, data: unknown) => {
+      res.statusCode = status;
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify(data));
+    };
+    let match: RegExpExecArray | null;
+    if (route === 'GET /pulls/7') {
+      return json(200, { head: { sha: 'abc123' }, html_url: 'pr-url' });
+    }
+    if (route === 'GET /pulls/7/files') {
+      // Two pages, linked like GitHub does
+      if (searchParams.get('page') !== '2') {
+        res.setHeader(
+          'Link',
+          `<http://${req.headers.host}/repos/acme/shop/pulls/7/files?per_page=100&page=2>; rel="next"`,
+        );
+        return json(200, [
+          { filename: 'src/db.ts', patch: '@@ -10,3 +10,4 @@\n a\n+b\n c\n d' },
+        ]);
+      }
+      return json(200, [{ filename: 'logo.png' }]);
+    }
+    if (route === 'GET /pulls/7/reviews') return json(200, this.reviews);
+    if (route === 'GET /pulls/7/comments') return json(200, this.comments);
+    if (route === 'POST /pulls/7/reviews') {
+      const review = {
+        id: this.nextId++,
+        body: body.body as string,
+        html_url: 'review-url',
+      };
+      this.reviews.push(review);
+      for (const c of body.comments as Record<string, unknown>[]) {
+        this.addComment(c);
+      }
+      return json(200, review);
+    }
+    if ((match = /^PUT \/pulls\/7\/reviews\/(\d+)$/.exec(route))) {
+      const review = this.reviews.find((r) => r.id === Number(match![1]))!;
+      review.body = body.body as string;
+      return json(200, review);
+    }
+    if (route === 'POST /pulls/7/comments') {
+      expect(body.commit_id).toBe('abc123');
+      return json(201, this.addComment(body));
+    }
+    if ((match = /^(PATCH|DELETE) \/pulls\/comments\/(\d+)$/.exec(route))) {
+      const id = Number(match[2]);
+      if (match[1] === 'DELETE') {
+        this.comments = this.comments.filter((c) => c.id !== id);
+        res.statusCode = 204;
+        return void res.end();
+      }
+      const comment = this.comments.find((c) => c.id === id)!;
+      comment.body = body.body as string;
+      return json(200, comment);
+    }
+    json(404, { message: 'Not Found' });
+  }
+
+  private addComment(c: Record<string, unknown>): MockComment {
+    expect(c.side).toBe('RIGHT');
+    const comment = {
+      id: this.nextId++,
+      body: c.body as string,
+      path: c.path as string,
+      line: c.line as number,
+    };
+    this.comments.push(comment);
+    return comment;
+  }
+}
+
+const injection: ReviewDecisionItem = {
+  severity: 'high',
+  category: 'security',
+  description: 'SQL injection',
+  file: './src/db.ts',
+  line: 11,
+  raisedBy: ['Gemini', 'Codex'],
+  verdict: 'accepted',
+  reasoning: 'User input reaches the query',
+  suggestion: 'Use parameters',
+};
+
+function makeResult(decisions: ReviewDecisionItem[]): ReviewResult {
+  return {
+    id: 'review-1234abcd',
+    status: 'completed',
+    individualReviews: [
+      { reviewer: 'Gemini', review: '{}', status: 'success' },
+      { reviewer: 'Codex', review: '{}', status: 'success' },
+    ],
+    decision: {
+      reviewer: 'Claude (Decision Maker)',
+      overallAssessment: 'One real problem.',
+      decisions,
+      additionalFindings: [],
+    },
+  };
+}
+
+describe('GitHubPublisher', () => {
+  let server: Server;
+  let github: MockGitHub;
+  let publisher: GitHubPublisher;
+  let apiUrl: string;
+
+  beforeEach(async () => {
+    github = new MockGitHub();
+    server = createServer((req, res) => {
+      let raw = '';
+      req.on('data', (c: Buffer) => (raw += c.toString()));
+      req.on('end', () => {
+        const body = (raw ? JSON.parse(raw) : {}) as Record<string, unknown>;
+        github.handle(req, body, res);
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    apiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+    publisher = new GitHubPublisher({
+      apiUrl,
+      token: 'secret',
+      repo: 'acme/shop',
+      pullNumber: 7,
+    });
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should post a review with inline comments only on diff lines', async () => {
+    const outcome = await publisher.publish(
+      makeResult([
+        injection,
+        { ...injection, description: 'Unused import', line: 3 },
+        { ...injection, description: 'Fine as is', verdict: 'rejected' },
+      ]),
+    );
+
+    expect(outcome).toEqual({
+      summary: 'created',
+      url: 'review-url',
+      created: 1,
+      updated: 0,
+      resolved: 0,
+      notInline: 1,
+    });
+    expect(github.authorization).toBe('Bearer secret');
+    expect(github.reviews).toHaveLength(1);
+    const summary = github.reviews[0].body;
+    expect(summary).toContain('One real problem.');
+    expect(summary).toContain(
+      '**Decisions:** 2 accepted, 0 modified, 1 rejected',
+    );
+    expect(summary).toContain('| ./src/db.ts:3 | Unused import |');
+    expect(summary).not.toContain('Fine as is');
+    expect(github.comments).toMatchObject([{ path: 'src/db.ts', line: 11 }]);
+    expect(github.comments[0].body).toContain(
+      '**[high][security]** SQL injection',
+    );
+  });
+
+  it('should update the comments of a previous run instead of duplicating them', async () => {
+    await publisher.publish(makeResult([injection]));
+    const outcome = await publisher.publish(
+      makeResult([{ ...injection, suggestion: 'Use a prepared statement' }]),
+    );
+
+    expect(outcome).toMatchObject({
+      summary: 'updated',
+      created: 0,
+      updated: 1,
+    });
+    expect(github.reviews).toHaveLength(1);
+    expect(github.comments).toHaveLength(1);
+    expect(github.comments[0].body).toContain('Use a prepared statement');
+    expect(github.requests).toContain('PUT /pulls/7/reviews/1');
+  });
+
+  it('should resolve comments no longer reported and add new ones', async () => {
+    await publisher.publish(makeResult([injection]));
+    const outcome = await publisher.publish(
+      makeResult([{ ...injection, description: 'Query is not closed' }]),
+    );
+
+    expect(outcome).toMatchObject({ created: 1, updated: 0, resolved: 1 });
+    expect(github.reviews).toHaveLength(1);
+    expect(github.comments).toHaveLength(2);
+    expect(github.comments[0].body).toContain('**Resolved**');
+    expect(github.comments[1].body).toContain('Query is not closed');
+
+    // Resolved comments are left alone on later runs
+    const again = await publisher.publish(
+      makeResult([{ ...injection, description: 'Query is not closed' }]),
+    );
+    expect(again).toMatchObject({ created: 0, updated: 0, resolved: 0 });
+  });
+
+  it('should report GitHub API errors', async () => {
+    const other = new GitHubPublisher({
+      apiUrl,
+      token: 'secret',
+      repo: 'acme/unknown',
+      pullNumber: 7,
+    });
+    await expect(other.publish(makeResult([injection]))).rejects.toThrow(
+      'GitHub API GET /repos/acme/unknown/pulls/7 failed: HTTP 404',
+    );
+  });
+
+  it('should reject malformed repositories', () => {
+    expect(
+      () => new GitHubPublisher({ token: 't', repo: 'shop', pullNumber: 1 }),
+    ).toThrow('GitHub repository must be "owner/name"');
+  });
+});
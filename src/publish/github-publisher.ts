@@ -0,0 +1,200 @@
+import { ReviewResult } from '../review/review.types.js';
+import { parseNewSideLines } from '../review/diff-utils.js';
+import {
+  PublishOutcome,
+  SUMMARY_MARKER,
+  buildPublishPlan,
+  parseFindingKey,
+  renderResolvedComment,
+} from './review-comments.js';
+import { RestClient } from './rest-client.js';
+
+export const DEFAULT_GITHUB_API_URL = 'https://api.github.com';
+
+export interface GitHubPublisherOptions {
+  /** REST API root; `https://<host>/api/v3` for GitHub Enterprise Server. */
+  apiUrl?: string;
+  token: string;
+  /** `owner/name` */
+  repo: string;
+  pullNumber: number;
+}
+
+interface PullRequest {
+  head: { sha: string };
+  html_url?: string;
+}
+
+interface PullRequestFile {
+  filename: string;
+  patch?: string;
+}
+
+interface PullRequestReview {
+  id: number;
+  body: string | null;
+  html_url?: string;
+}
+
+interface ReviewComment {
+  id: number;
+  body: string;
+  path: string;
+  /** null when the comment is outdated (its line is no longer in the diff). */
+  line: number | null;
+}
+
+/**
+ * Publishes a review result as a GitHub pull request review: the overall
+ * assessment as the review body and accepted / modified decisions as inline
+ * comments. Comments from an earlier run on the same PR carry hidden markers
+ * and are updated instead of posted again.
+ */
+export class GitHubPublisher {
+  private readonly client: RestClient;
+  private readonly owner: string;
+  private readonly name: string;
+
+  constructor(private readonly options: GitHubPublisherOptions) {
+    const [owner, name, ...rest] = options.repo.split('/');
+    if (!owner || !name || rest.length > 0) {
+      throw new Error(
+        `GitHub repository must be "owner/name", got "${options.repo}"`,
+      );
+    }
+    if (!Number.isInteger(options.pullNumber) || options.pullNumber <= 0) {
+      throw new Error(
+        `Pull request number must be a positive integer, got ${options.pullNumber}`,
+      );
+    }
+    this.owner = encodeURIComponent(owner);
+    this.name = encodeURIComponent(name);
+    this.client = new RestClient(
+      'GitHub',
+      options.apiUrl ?? DEFAULT_GITHUB_API_URL,
+      {
+        Accept: 'application/vnd.github+json',
+        Authorization: `Bearer ${options.token}`,
+        'User-Agent': 'code-review-council',
+        'X-GitHub-Api-Version': '2022-11-28',
+      },
+    );
+  }
+
+  private get pullPath(): string {
+    return `/repos/${this.owner}/${this.name}/pulls/${this.options.pullNumber}`;
+  }
+
+  async publish(result: ReviewResult): Promise<PublishOutcome> {
+    const pull = await this.client.request<PullRequest>('GET', this.pullPath);
+    const diffLines = await this.fetchDiffLines();
+    const plan = buildPublishPlan(
+      result,
+      (file, line) => diffLines.get(file)?.has(line) ?? false,
+    );
+
+    const [reviews, existing] = await Promise.all([
+      this.client.paginate<PullRequestReview>(`${this.pullPath}/reviews`),
+      this.client.paginate<ReviewComment>(`${this.pullPath}/comments`),
+    ]);
+    const previous = new Map<string, ReviewComment>();
+    for (const comment of existing) {
+      const marker = parseFindingKey(comment.body);
+      if (marker && !previous.has(marker.key)) {
+        previous.set(marker.key, comment);
+      }
+    }
+
+    const outcome: PublishOutcome = {
+      summary: 'created',
+      created: 0,
+      updated: 0,
+      resolved: 0,
+      notInline: plan.notInline,
+    };
+    const fresh: typeof plan.comments = [];
+    for (const comment of plan.comments) {
+      const old = previous.get(comment.key);
+      previous.delete(comment.key);
+      if (old && old.path === comment.file && old.line === comment.line) {
+        if (old.body !== comment.body) {
+          await this.updateComment(old.id, comment.body);
+          outcome.updated++;
+        }
+        continue;
+      }
+      // A comment cannot be moved; replace the one left on the old line
+      if (old) await this.client.request('DELETE', this.commentPath(old.id));
+      fresh.push(comment);
+    }
+    for (const [key, stale] of previous) {
+      if (parseFindingKey(stale.body)?.resolved) continue;
+      await this.updateComment(
+        stale.id,
+        renderResolvedComment(key, stale.body),
+      );
+      outcome.resolved++;
+    }
+
+    const summaryReview = reviews.find((r) => r.body?.includes(SUMMARY_MARKER));
+    const commitId = pull.head.sha;
+    if (summaryReview) {
+      const updated = await this.client.request<PullRequestReview>(
+        'PUT',
+        `${this.pullPath}/reviews/${summaryReview.id}`,
+        { body: plan.summary },
+      );
+      outcome.summary = 'updated';
+      outcome.url = updated.html_url ?? summaryReview.html_url;
+      for (const comment of fresh) {
+        await this.client.request('POST', `${this.pullPath}/comments`, {
+          body: comment.body,
+          commit_id: commitId,
+          path: comment.file,
+          line: comment.line,
+          side: 'RIGHT',
+        });
+      }
+    } else {
+      const created = await this.client.request<PullRequestReview>(
+        'POST',
+        `${this.pullPath}/reviews`,
+        {
+          commit_id: commitId,
+          event: 'COMMENT',
+          body: plan.summary,
+          comments: fresh.map((c) => ({
+            path: c.file,
+            line: c.line,
+            side: 'RIGHT',
+            body: c.body,
+          })),
+        },
+      );
+      outcome.url = created.html_url;
+    }
+    outcome.created = fresh.length;
+    outcome.url ??= pull.html_url;
+    return outcome;
+  }
+
+  private commentPath(id: number): string {
+    return `/repos/${this.owner}/${this.name}/pulls/comments/${id}`;
+  }
+
+  private async updateComment(id: number, body: string): Promise<void> {
+    await this.client.request('PATCH', this.commentPath(id), { body });
+  }
+
+  /** Right-side lines of the PR diff, the only lines GitHub accepts inline comments on. */
+  private async fetchDiffLines(): Promise<Map<string, Map<number, string>>> {
+    const files = await this.client.paginate<PullRequestFile>(
+      `${this.pullPath}/files`,
+    );
+    const diff = files
+      .filter((f) => f.patch)
+      .map((f) => `diff --git a/${f.filename} b/${f.filename}\n${f.patch}`)
+      .join('\n');
+    return parseNewSideLines(diff);
+  }
+}
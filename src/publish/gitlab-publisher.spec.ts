@@ -0,0 +1,256 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  createServer,
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+} from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { GitLabPublisher } from './gitlab-publisher.js';
+import { ReviewDecisionItem, ReviewResult } from '../review/review.types.js';
+
+interface MockNote {
+  id: number;
+  body: string;
+  position?: Record<string, unknown>;
+}
+
+interface MockDiscussion {
+  id: string;
+  resolved: boolean;
+  notes: MockNote[];
+}
+
+/** In-memory GitLab merge request with the REST endpoints the publisher uses. */
+class MockGitLab {
+  notes: MockNote[] = [];
+  discussions: MockDiscussion[] = [];
+  token?: string;
+  private nextId = 1;
+
+  handle(
+    req: IncomingMessage,
+    body: Record<string, unknown>,
+    res: ServerResponse,
+  ): void {
+    const { pathname } = new URL(req.url!, 'http://localhost');
+    const route = `${req.method} ${pathname.replace('/api/v4/projects/acme%2Fshop/merge_requests/3', '')}`;
+    this.token = req.headers['private-token'] as string;
+    const json = (status: number, data: unknown) => {
+      res.statusCode = status;
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify(data));
+    };
+    let match: RegExpExecArray | null;
+    if (route === 'GET ') {
+      return json(200, {
+        web_url: 'mr-url',
+        diff_refs: { base_sha: 'b1', start_sha: 's1', head_sha: 'h1' },
+      });
+    }
+    if (route === 'GET /diffs') {
+      return json(200, [
+        {
+          old_path: 'src/db.ts',
+          new_path: 'src/db.ts',
+          diff: '@@ -10,3 +10,4 @@\n a\n+b\n c\n d',
+        },
+        {
+          old_path: 'src/old.ts',
+          new_path: 'src/gone.ts',
+          diff: '@@ -1 +0,0 @@\n-x',
+          deleted_file: true,
+        },
+      ]);
+    }
+    if (route === 'GET /notes') return json(200, this.notes);
+    if (route === 'GET /discussions') return json(200, this.discussions);
+    if (route === 'POST /notes') {
+      const note = { id: this.nextId++, body: body.body as string };
+      this.notes.push(note);
+      return json(201, note);
+    }
+    if ((match = /^PUT \/notes\/(\d+)$/.exec(route))) {
+      const note = this.notes.find((n) => n.id === Number(match![1]))!;
+      note.body = body.body as string;
+      return json(200, note);
+    }
+    if (route === 'POST /discussions') {
+      const discussion = {
+        id: `d${this.nextId++}`,
+        resolved: false,
+        notes: [
+          {
+            id: this.nextId++,
+            body: body.body as string,
+            position: body.position as Record<string, unknown>,
+          },
+        ],
+      };
+      this.discussions.push(discussion);
+      return json(201, discussion);
+    }
+    if ((match = /^PUT \/discussions\/(\w+)$/.exec(route))) {
+      const discussion = this.discussions.find((d) => d.id === match![1])!;
+      discussion.resolved = body.resolved as boolean;
+      return json(200, discussion);
+    }
+    if (
+      (match = /^(PUT|DELETE) \/discussions\/(\w+)\/notes\/(\d+)$/.exec(route))
+    ) {
+      const discussion = this.discussions.find((d) => d.id === match![2])!;
+      if (match[1] === 'DELETE') {
+        this.discussions = this.discussions.filter((d) => d !== discussion);
+        res.statusCode = 204;
+        return void res.end();
+      }
+      discussion.notes[0].body = body.body as string;
+      return json(200, discussion.notes[0]);
+    }
+    json(404, { message: '404 Not found' });
+  }
+}
+
+const injection: ReviewDecisionItem = {
+  severity: 'high',
+  category: 'security',
+  description: 'SQL injection',
+  file: 'src/db.ts',
+  line: 11,
+  raisedBy: ['Gemini'],
+  verdict: 'modified',
+  reasoning: 'Only reachable by admins',
+  suggestion: 'Use parameters',
+};
+
+function makeResult(decisions: ReviewDecisionItem[]): ReviewResult {
+  return {
+    id: 'review-1234abcd',
+    status: 'completed',
+    individualReviews: [
+      { reviewer: 'Gemini', review: '{}', status: 'success' },
+    ],
+    decision: {
+      reviewer: 'Claude (Decision Maker)',
+      overallAssessment: 'Needs one fix.',
+      decisions,
+      additionalFindings: [],
+    },
+  };
+}
+
+describe('GitLabPublisher', () => {
+  let server: Server;
+  let gitlab: MockGitLab;
+  let publisher: GitLabPublisher;
+
+  beforeEach(async () => {
+    gitlab = new MockGitLab();
+    server = createServer((req, res) => {
+      let raw = '';
+      req.on('data', (c: Buffer) => (raw += c.toString()));
+      req.on('end', () => {
+        const body = (raw ? JSON.parse(raw) : {}) as Record<string, unknown>;
+        gitlab.handle(req, body, res);
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    publisher = new GitLabPublisher({
+      apiUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/v4`,
+      token: 'glpat-secret',
+      projectId: 'acme/shop',
+      mergeRequestIid: 3,
+    });
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should post a note and diff discussions positioned on the MR diff', async () => {
+    const outcome = await publisher.publish(
+      makeResult([
+        injection,
+        { ...injection, description: 'Context line issue', line: 12 },
+        { ...injection, description: 'Outside the diff', line: 40 },
+      ]),
+    );
+
+    expect(outcome).toEqual({
+      summary: 'created',
+      url: 'mr-url#note_5',
+      created: 2,
+      updated: 0,
+      resolved: 0,
+      notInline: 1,
+    });
+    expect(gitlab.token).toBe('glpat-secret');
+    expect(gitlab.notes[0].body).toContain('Needs one fix.');
+    expect(gitlab.notes[0].body).toContain(
+      '| src/db.ts:40 | Outside the diff |',
+    );
+    // Added line: new_line only; context line: old_line as well
+    expect(gitlab.discussions.map((d) => d.notes[0].position)).toEqual([
+      {
+        position_type: 'text',
+        base_sha: 'b1',
+        start_sha: 's1',
+        head_sha: 'h1',
+        old_path: 'src/db.ts',
+        new_path: 'src/db.ts',
+        new_line: 11,
+      },
+      expect.objectContaining({ new_line: 12, old_line: 11 }),
+    ]);
+  });
+
+  it('should update the previous run and resolve findings no longer reported', async () => {
+    await publisher.publish(
+      makeResult([
+        injection,
+        { ...injection, description: 'Context line issue', line: 12 },
+      ]),
+    );
+    const outcome = await publisher.publish(
+      makeResult([{ ...injection, suggestion: 'Use a query builder' }]),
+    );
+
+    expect(outcome).toMatchObject({
+      summary: 'updated',
+      created: 0,
+      updated: 1,
+      resolved: 1,
+    });
+    expect(gitlab.notes).toHaveLength(1);
+    expect(gitlab.discussions).toHaveLength(2);
+    expect(gitlab.discussions[0].notes[0].body).toContain(
+      'Use a query builder',
+    );
+    expect(gitlab.discussions[1].resolved).toBe(true);
+    expect(gitlab.discussions[1].notes[0].body).toContain('**Resolved**');
+
+    // Reported again: the resolved discussion is reopened
+    await publisher.publish(
+      makeResult([
+        { ...injection, description: 'Context line issue', line: 12 },
+      ]),
+    );
+    expect(gitlab.discussions[1].resolved).toBe(false);
+    expect(gitlab.discussions[1].notes[0].body).not.toContain('**Resolved**');
+  });
+
+  it('should report GitLab API errors', async () => {
+    const other = new GitLabPublisher({
+      apiUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/v4`,
+      token: 'glpat-secret',
+      projectId: '42',
+      mergeRequestIid: 3,
+    });
+    await expect(other.publish(makeResult([injection]))).rejects.toThrow(
+      'GitLab API GET /projects/42/merge_requests/3 failed: HTTP 404',
+    );
+  });
+});
@@ -0,0 +1,233 @@
+import { ReviewResult } from '../review/review.types.js';
+import { parseNewSideOrigins } from '../review/diff-utils.js';
+import {
+  InlineFinding,
+  PublishOutcome,
+  SUMMARY_MARKER,
+  buildPublishPlan,
+  parseFindingKey,
+  renderResolvedComment,
+} from './review-comments.js';
+import { RestClient } from './rest-client.js';
+
+export const DEFAULT_GITLAB_API_URL = 'https://gitlab.com/api/v4';
+
+export interface GitLabPublisherOptions {
+  /** API root including `/api/v4`, e.g. GitLab CI's `CI_API_V4_URL`. */
+  apiUrl?: string;
+  token: string;
+  /** Numeric project id or `group/project` path. */
+  projectId: string;
+  mergeRequestIid: number;
+}
+
+interface MergeRequest {
+  web_url: string;
+  diff_refs: { base_sha: string; start_sha: string; head_sha: string };
+}
+
+interface MergeRequestDiff {
+  old_path: string;
+  new_path: string;
+  diff: string;
+  deleted_file?: boolean;
+}
+
+interface Note {
+  id: number;
+  body: string;
+  system?: boolean;
+  position?: { new_path?: string; new_line?: number | null };
+}
+
+interface Discussion {
+  id: string;
+  notes: Note[];
+}
+
+/** A council comment from an earlier run: the first note of its discussion. */
+interface PreviousComment {
+  discussionId: string;
+  note: Note;
+}
+
+/**
+ * Publishes a review result to a GitLab merge request: the overall assessment
+ * as a note and accepted / modified decisions as diff discussions positioned
+ * on the merge request diff. Notes from an earlier run carry hidden markers
+ * and are updated instead of posted again; discussions whose finding is no
+ * longer reported are resolved.
+ */
+export class GitLabPublisher {
+  private readonly client: RestClient;
+
+  constructor(private readonly options: GitLabPublisherOptions) {
+    if (!options.projectId.trim()) {
+      throw new Error('GitLab project id must not be empty');
+    }
+    if (
+      !Number.isInteger(options.mergeRequestIid) ||
+      options.mergeRequestIid <= 0
+    ) {
+      throw new Error(
+        `Merge request iid must be a positive integer, got ${options.mergeRequestIid}`,
+      );
+    }
+    this.client = new RestClient(
+      'GitLab',
+      options.apiUrl ?? DEFAULT_GITLAB_API_URL,
+      {
+        Accept: 'application/json',
+        'PRIVATE-TOKEN': options.token,
+      },
+    );
+  }
+
+  private get mergeRequestPath(): string {
+    return `/projects/${encodeURIComponent(this.options.projectId)}/merge_requests/${this.options.mergeRequestIid}`;
+  }
+
+  async publish(result: ReviewResult): Promise<PublishOutcome> {
+    const mr = await this.client.request<MergeRequest>(
+      'GET',
+      this.mergeRequestPath,
+    );
+    const diffs = await this.client.paginate<MergeRequestDiff>(
+      `${this.mergeRequestPath}/diffs`,
+    );
+    const oldPaths = new Map(
+      diffs.map((d) => [d.new_path, d.old_path] as const),
+    );
+    const origins = parseNewSideOrigins(
+      diffs
+        .filter((d) => !d.deleted_file && d.diff)
+        .map((d) => `diff --git a/${d.old_path} b/${d.new_path}\n${d.diff}`)
+        .join('\n'),
+    );
+    const plan = buildPublishPlan(
+      result,
+      (file, line) => origins.get(file)?.has(line) ?? false,
+    );
+
+    const [notes, discussions] = await Promise.all([
+      this.client.paginate<Note>(`${this.mergeRequestPath}/notes`),
+      this.client.paginate<Discussion>(`${this.mergeRequestPath}/discussions`),
+    ]);
+    const previous = new Map<string, PreviousComment>();
+    for (const discussion of discussions) {
+      const note = discussion.notes[0];
+      const marker = note && parseFindingKey(note.body);
+      if (marker && !previous.has(marker.key)) {
+        previous.set(marker.key, { discussionId: discussion.id, note });
+      }
+    }
+
+    const outcome: PublishOutcome = {
+      summary: 'created',
+      created: 0,
+      updated: 0,
+      resolved: 0,
+      notInline: plan.notInline,
+    };
+    for (const comment of plan.comments) {
+      const old = previous.get(comment.key);
+      previous.delete(comment.key);
+      const position = old?.note.position;
+      if (
+        old &&
+        position?.new_path === comment.file &&
+        position.new_line === comment.line
+      ) {
+        if (old.note.body !== comment.body) {
+          await this.updateNote(old, comment.body);
+          if (parseFindingKey(old.note.body)?.resolved) {
+            await this.resolveDiscussion(old.discussionId, false);
+          }
+          outcome.updated++;
+        }
+        continue;
+      }
+      // A discussion cannot be moved; replace the one left on the old line
+      if (old) {
+        await this.client.request(
+          'DELETE',
+          `${this.mergeRequestPath}/discussions/${old.discussionId}/notes/${old.note.id}`,
+        );
+      }
+      await this.createDiscussion(comment, mr, oldPaths, origins);
+      outcome.created++;
+    }
+    for (const [key, stale] of previous) {
+      if (parseFindingKey(stale.note.body)?.resolved) continue;
+      await this.updateNote(stale, renderResolvedComment(key, stale.note.body));
+      await this.resolveDiscussion(stale.discussionId, true);
+      outcome.resolved++;
+    }
+
+    const summaryNote = notes.find(
+      (n) => !n.system && n.body.includes(SUMMARY_MARKER),
+    );
+    const note = summaryNote
+      ? await this.client.request<Note>(
+          'PUT',
+          `${this.mergeRequestPath}/notes/${summaryNote.id}`,
+          { body: plan.summary },
+        )
+      : await this.client.request<Note>(
+          'POST',
+          `${this.mergeRequestPath}/notes`,
+          { body: plan.summary },
+        );
+    outcome.summary = summaryNote ? 'updated' : 'created';
+    outcome.url = `${mr.web_url}#note_${note.id}`;
+    return outcome;
+  }
+
+  /**
+   * Diff discussion on the new side of the merge request diff. GitLab
+   * requires the old line as well when the line is unchanged context.
+   */
+  private async createDiscussion(
+    comment: InlineFinding,
+    mr: MergeRequest,
+    oldPaths: Map<string, string>,
+    origins: Map<string, Map<number, number | null>>,
+  ): Promise<void> {
+    const oldLine = origins.get(comment.file)?.get(comment.line) ?? null;
+    await this.client.request('POST', `${this.mergeRequestPath}/discussions`, {
+      body: comment.body,
+      position: {
+        position_type: 'text',
+        base_sha: mr.diff_refs.base_sha,
+        start_sha: mr.diff_refs.start_sha,
+        head_sha: mr.diff_refs.head_sha,
+        old_path: oldPaths.get(comment.file) ?? comment.file,
+        new_path: comment.file,
+        new_line: comment.line,
+        ...(oldLine !== null ? { old_line: oldLine } : {}),
+      },
+    });
+  }
+
+  private async updateNote(
+    comment: PreviousComment,
+    body: string,
+  ): Promise<void> {
+    await this.client.request(
+      'PUT',
+      `${this.mergeRequestPath}/discussions/${comment.discussionId}/notes/${comment.note.id}`,
+      { body },
+    );
+  }
+
+  private async resolveDiscussion(
+    discussionId: string,
+    resolved: boolean,
+  ): Promise<void> {
+    await this.client.request(
+      'PUT',
+      `${this.mergeRequestPath}/discussions/${discussionId}`,
+      { resolved },
+    );
+  }
+}
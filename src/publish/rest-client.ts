@@ -0,0 +1,68 @@
+const MAX_ERROR_BODY_LENGTH = 300;
+const PAGE_SIZE = 100;
+
+function parseNextLink(link: string | null): string | null {
+  if (!link) return null;
+  const match = /<([^>]+)>;\s*rel="next"/.exec(link);
+  return match ? match[1] : null;
+}
+
+/**
+ * Minimal JSON client for the code hosting REST APIs the publishers talk to.
+ * Both GitHub and GitLab paginate with `per_page` and a `Link: rel="next"` header.
+ */
+export class RestClient {
+  private readonly apiUrl: string;
+
+  constructor(
+    /** Service name used in error messages, e.g. `GitHub`. */
+    private readonly service: string,
+    apiUrl: string,
+    private readonly headers: Record<string, string>,
+  ) {
+    this.apiUrl = apiUrl.replace(/\/+$/, '');
+  }
+
+  async request<T = unknown>(
+    method: string,
+    path: string,
+    body?: unknown,
+  ): Promise<T> {
+    const res = await this.fetch(method, `${this.apiUrl}${path}`, body);
+    if (res.status === 204) return undefined as T;
+    return (await res.json()) as T;
+  }
+
+  async paginate<T>(path: string): Promise<T[]> {
+    const items: T[] = [];
+    let url: string | null = `${this.apiUrl}${path}?per_page=${PAGE_SIZE}`;
+    while (url) {
+      const res = await this.fetch('GET', url);
+      items.push(...((await res.json()) as T[]));
+      url = parseNextLink(res.headers.get('link'));
+    }
+    return items;
+  }
+
+  private async fetch(
+    method: string,
+    url: string,
+    body?: unknown,
+  ): Promise<Response> {
+    const res = await fetch(url, {
+      method,
+      headers: {
+        ...this.headers,
+        ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+    if (!res.ok) {
+      const text = (await res.text()).slice(0, MAX_ERROR_BODY_LENGTH);
+      throw new Error(
+        `${this.service} API ${method} ${url.replace(this.apiUrl, '')} failed: HTTP ${res.status} ${res.statusText}${text ? `: ${text}` : ''}`,
+      );
+    }
+    return res;
+  }
+}
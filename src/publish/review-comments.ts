@@ -0,0 +1,206 @@
+import { createHash } from 'node:crypto';
+import {
+  AdditionalFinding,
+  ReviewDecisionItem,
+  ReviewResult,
+} from '../review/review.types.js';
+import { formatFindingLocation } from '../review/review-findings.js';
+
+/** Marks the summary posted by `publish`; found again on the next run to update it in place. */
+export const SUMMARY_MARKER = '<!-- code-review-council:summary -->';
+
+const FINDING_MARKER_PATTERN =
+  /<!-- code-review-council:finding:([0-9a-f]+)( resolved)? -->/;
+
+/** A decision to post as an inline comment, identified across runs by `key`. */
+export interface InlineFinding {
+  key: string;
+  file: string;
+  line: number;
+  body: string;
+}
+
+/** What a publisher posts: one summary plus inline comments on diff lines. */
+export interface PublishPlan {
+  summary: string;
+  comments: InlineFinding[];
+  /** Accepted / modified decisions listed in the summary instead of inline. */
+  notInline: number;
+}
+
+/** What a publish run did; comment counts are inline comments only. */
+export interface PublishOutcome {
+  summary: 'created' | 'updated';
+  url?: string;
+  created: number;
+  updated: number;
+  resolved: number;
+  /** Accepted / modified decisions listed in the summary because their line is not in the diff. */
+  notInline: number;
+}
+
+/** Decides whether `file:line` can carry an inline comment (is part of the PR diff). */
+export type CommentableLine = (file: string, line: number) => boolean;
+
+function findingMarker(key: string, resolved = false): string {
+  return `<!-- code-review-council:finding:${key}${resolved ? ' resolved' : ''} -->`;
+}
+
+/** Model text must not be able to forge or close the hidden markers. */
+function escapeText(text: string): string {
+  return text.replace(/<!--/g, '&lt;!--').replace(/-->/g, '--&gt;');
+}
+
+function tableCell(text: string): string {
+  return escapeText(text)
+    .replace(/[\r\n]+/g, ' ')
+    .replace(/\|/g, '\\|');
+}
+
+function normalizeFile(file: string): string {
+  return file.trim().replace(/\\/g, '/').replace(/^\.\//, '');
+}
+
+/**
+ * Stable identity of a decision across runs of the same PR: its file,
+ * category and description. The line is left out so a finding that moved
+ * with the code still updates its earlier comment.
+ */
+export function findingKey(item: {
+  file?: string;
+  category: string;
+  description: string;
+}): string {
+  const text = item.description.toLowerCase().replace(/\s+/g, ' ').trim();
+  return createHash('sha256')
+    .update(`${normalizeFile(item.file ?? '')}\n${item.category}\n${text}`)
+    .digest('hex')
+    .slice(0, 16);
+}
+
+/** The finding key of a comment posted by `publish`, or null for other comments. */
+export function parseFindingKey(
+  body: string,
+): { key: string; resolved: boolean } | null {
+  const match = FINDING_MARKER_PATTERN.exec(body);
+  return match ? { key: match[1], resolved: Boolean(match[2]) } : null;
+}
+
+export function renderFindingComment(item: ReviewDecisionItem): string {
+  const lines = [
+    findingMarker(findingKey(item)),
+    `**[${item.severity}][${item.category}]** ${escapeText(item.description)}`,
+  ];
+  if (item.suggestion) {
+    lines.push('', `**Suggestion:** ${escapeText(item.suggestion)}`);
+  }
+  const raisedBy =
+    item.raisedBy.length > 0 ? ` · raised by ${item.raisedBy.join(', ')}` : '';
+  lines.push(
+    '',
+    `<sub>Council verdict: ${item.verdict}${raisedBy}</sub>`,
+    '',
+    `> ${escapeText(item.reasoning).replace(/\n/g, '\n> ')}`,
+  );
+  return lines.join('\n');
+}
+
+/** Replacement body for a comment whose finding the latest run no longer reports. */
+export function renderResolvedComment(key: string, previous: string): string {
+  const content = previous.replace(FINDING_MARKER_PATTERN, '').trim();
+  return [
+    findingMarker(key, true),
+    '**Resolved** — not reported by the latest council review.',
+    '',
+    '<details><summary>Previous comment</summary>',
+    '',
+    content,
+    '',
+    '</details>',
+  ].join('\n');
+}
+
+function renderOtherFindings(
+  items: (ReviewDecisionItem | AdditionalFinding)[],
+): string[] {
+  if (items.length === 0) return [];
+  const rows = items.map((f) => {
+    const location = formatFindingLocation(f);
+    const flagged =
+      f.anchor === 'unknown-file'
+        ? `${location} (not a reviewed file)`
+        : location;
+    const source = 'verdict' in f ? f.verdict : 'additional';
+    return `| ${tableCell(f.severity)} | ${tableCell(f.category)} | ${tableCell(flagged)} | ${tableCell(f.description)} | ${tableCell(f.suggestion)} | ${source} |`;
+  });
+  return [
+    '',
+    '### Findings without an inline comment',
+    '',
+    '| Severity | Category | File | Description | Suggestion | Source |',
+    '|---|---|---|---|---|---|',
+    ...rows,
+  ];
+}
+
+/**
+ * Turn a review result into a summary plus inline comments. Accepted and
+ * modified decisions on commentable lines become inline comments; the rest
+ * of them and the decision maker's additional findings are listed in the
+ * summary. Rejected decisions are only counted.
+ */
+export function buildPublishPlan(
+  result: ReviewResult,
+  commentable: CommentableLine,
+): PublishPlan {
+  const { decision } = result;
+  if (!decision) {
+    throw new Error(
+      `Review ${result.id} has no decision to publish (status: ${result.status})`,
+    );
+  }
+  const comments: InlineFinding[] = [];
+  const others: (ReviewDecisionItem | AdditionalFinding)[] = [];
+  const seen = new Set<string>();
+  for (const item of decision.decisions) {
+    if (item.verdict === 'rejected') continue;
+    const key = findingKey(item);
+    if (
+      item.file &&
+      item.line &&
+      item.anchor !== 'unknown-file' &&
+      !seen.has(key) &&
+      commentable(normalizeFile(item.file), item.line)
+    ) {
+      seen.add(key);
+      comments.push({
+        key,
+        file: normalizeFile(item.file),
+        line: item.line,
+        body: renderFindingComment(item),
+      });
+    } else {
+      others.push(item);
+    }
+  }
+  const notInline = others.length;
+  others.push(...decision.additionalFindings);
+
+  const count = (verdict: ReviewDecisionItem['verdict']) =>
+    decision.decisions.filter((d) => d.verdict === verdict).length;
+  const reviewers = result.individualReviews
+    .filter((r) => r.status !== 'error')
+    .map((r) => r.reviewer);
+  const summary = [
+    SUMMARY_MARKER,
+    '## Code Review Council',
+    '',
+    escapeText(decision.overallAssessment),
+    '',
+    `**Decisions:** ${count('accepted')} accepted, ${count('modified')} modified, ${count('rejected')} rejected · **Reviewers:** ${reviewers.join(', ') || 'none'} · **Decided by:** ${decision.reviewer}`,
+    ...renderOtherFindings(others),
+    '',
+    `<sub>${result.id}</sub>`,
+  ].join('\n');
+  return { summary, comments, notInline };
+}
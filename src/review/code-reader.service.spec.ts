@@ -59,6 +59,109 @@ describe('CodeReaderService', () => {
         'Invalid base branch name',
       );
     });
+
+    it('should only diff changes since the given commit', async () => {
+      const git = simpleGit(tmpDir);
+      const { headSha } = await service.getBranchState(tmpDir, 'HEAD');
+      await writeFile(join(tmpDir, 'first.txt'), 'first change\n');
+      await git.add('first.txt');
+      await git.commit('first');
+      const since = (await git.revparse(['HEAD'])).trim();
+      await writeFile(join(tmpDir, 'second.txt'), 'second change\n');
+      await git.add('second.txt');
+      await git.commit('second');
+
+      const full = await service.readGitDiff(tmpDir, headSha);
+      expect(full).toContain('first change');
+      const diff = await service.readGitDiff(tmpDir, 'HEAD', { since });
+      expect(diff).toContain('second change');
+      expect(diff).not.toContain('first change');
+      await expect(
+        service.readGitDiff(tmpDir, 'HEAD', { since: 'HEAD~1' }),
+      ).rejects.toThrow('Invalid commit SHA');
+    });
+
+    describe('explicit diff targets', () => {
+      let git: ReturnType<typeof simpleGit>;
+      let rootSha: string;
+
+      beforeEach(async () => {
+        git = simpleGit(tmpDir);
+        rootSha = (await git.revparse(['HEAD'])).trim();
+        await writeFile(join(tmpDir, 'a.txt'), 'commit a\n');
+        await git.add('a.txt');
+        await git.commit('add a');
+        await writeFile(join(tmpDir, 'b.txt'), 'commit b\n');
+        await git.add('b.txt');
+        await git.commit('add b');
+        await writeFile(join(tmpDir, 'staged.txt'), 'staged only\n');
+        await git.add('staged.txt');
+        await writeFile(join(tmpDir, 'initial.txt'), 'unstaged edit\n');
+      });
+
+      it('should diff a commit range', async () => {
+        const diff = await service.readGitDiff(tmpDir, 'main', {
+          range: 'HEAD~1..HEAD',
+        });
+        expect(diff).toContain('commit b');
+        expect(diff).not.toContain('commit a');
+        expect(diff).not.toContain('staged only');
+      });
+
+      it('should diff a single commit, including the root commit', async () => {
+        const diff = await service.readGitDiff(tmpDir, 'main', {
+          commit: 'HEAD~1',
+        });
+        expect(diff).toContain('commit a');
+        expect(diff).not.toContain('commit b');
+        const root = await service.readGitDiff(tmpDir, 'main', {
+          commit: rootSha,
+        });
+        expect(root).toContain('+initial');
+      });
+
+      it('should diff staged and unstaged changes separately', async () => {
+        const staged = await service.readGitDiff(tmpDir, 'main', {
+          staged: true,
+        });
+        expect(staged).toContain('staged only');
+        expect(staged).not.toContain('unstaged edit');
+        const unstaged = await service.readGitDiff(tmpDir, 'main', {
+          workingTree: true,
+        });
+        expect(unstaged).toContain('unstaged edit');
+        expect(unstaged).not.toContain('staged only');
+      });
+
+      it('should reject invalid refs and combined targets', async () => {
+        await expect(
+          service.readGitDiff(tmpDir, 'main', { range: 'HEAD' }),
+        ).rejects.toThrow('Invalid range');
+        await expect(
+          service.readGitDiff(tmpDir, 'main', { range: '--output=x..HEAD' }),
+        ).rejects.toThrow('Invalid range start');
+        await expect(
+          service.readGitDiff(tmpDir, 'main', { commit: 'HEAD;rm' }),
+        ).rejects.toThrow('Invalid commit');
+        await expect(
+          service.readGitDiff(tmpDir, 'main', { commit: 'nope' }),
+        ).rejects.toThrow('Unknown commit');
+        await expect(
+          service.readGitDiff(tmpDir, 'main', { staged: true, commit: 'HEAD' }),
+        ).rejects.toThrow('Only one diff target');
+      });
+    });
+
+    it('should report branch state and ancestry', async () => {
+      const git = simpleGit(tmpDir);
+      await git.checkoutLocalBranch('feature/x');
+      const state = await service.getBranchState(tmpDir, 'HEAD');
+      expect(state.branch).toBe('feature/x');
+      expect(state.headSha).toMatch(/^[0-9a-f]{40}$/);
+      expect(state.mergeBase).toBe(state.headSha);
+      expect(await service.isAncestorOfHead(tmpDir, state.headSha)).toBe(true);
+      expect(await service.isAncestorOfHead(tmpDir, 'deadbeef')).toBe(false);
+    });
   });
 
   it('should read file contents', async () => {
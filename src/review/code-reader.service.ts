@@ -11,6 +11,41 @@ export interface FileContent {
   content: string;
 }
 
+/**
+ * Alternatives to the default base-vs-HEAD diff; at most one may be set.
+ * Without any, the diff runs from the merge-base with the base branch and
+ * falls back to staged changes.
+ */
+export interface GitDiffOptions {
+  /** Only diff changes made after this commit (incremental review), including uncommitted ones. */
+  since?: string;
+  /** `A..B` or `A...B`. */
+  range?: string;
+  /** A single commit against its parent. */
+  commit?: string;
+  /** Staged changes only (what is about to be committed). */
+  staged?: boolean;
+  /** Unstaged working tree changes only. */
+  workingTree?: boolean;
+}
+
+const DIFF_TARGET_KEYS = [
+  'since',
+  'range',
+  'commit',
+  'staged',
+  'workingTree',
+] as const;
+
+/** Where the reviewed branch stands; persisted with diff reviews so later runs can diff incrementally. */
+export interface GitBranchState {
+  /** undefined on a detached HEAD. */
+  branch?: string;
+  headSha: string;
+  /** undefined when the base branch has no common ancestor with HEAD. */
+  mergeBase?: string;
+}
+
 export interface CodebaseOptions {
   extensions?: string[];
   maxBatchSize?: number;
@@ -96,6 +131,12 @@ const MAX_TOTAL_SIZE = 200 * 1_048_576; // 200MB cumulative limit
 /** Maximum diff output size in characters (git diff returns text). */
 const MAX_DIFF_SIZE = 5 * 1_048_576; // 5MB diff size limit
 const BRANCH_PATTERN = /^[A-Za-z0-9._\-/]+$/;
+const COMMIT_SHA_PATTERN = /^[0-9a-f]{7,40}$/i;
+/** Branch-like ref with optional ancestry suffixes (e.g. `v1.2.0`, `HEAD~3`, `main^`). */
+const REF_PATTERN = /^[A-Za-z0-9._\-/]+(?:[~^]\d*)*$/;
+const RANGE_PATTERN = /^(.+?)(\.\.\.?)(.+)$/;
+/** git's well-known empty tree object; the "parent" of a root commit. */
+const EMPTY_TREE_SHA = '4b825dc642cb6eb9a060e54bf8d69288fbee4904';
 const CONCURRENCY = 16;
 /** When changed files exceed this threshold, avoid expanding file list in git diff args (ARG_MAX risk). */
 const MAX_DIFF_FILE_ARGS = 100;
@@ -166,27 +207,30 @@ export class CodeReaderService {
   async readGitDiff(
     repoPath: string,
     baseBranch: string = 'main',
+    options: GitDiffOptions = {},
   ): Promise<string> {
-    if (
-      !BRANCH_PATTERN.test(baseBranch) ||
-      baseBranch.startsWith('-') ||
-      baseBranch.includes('..')
-    ) {
-      throw new Error(`Invalid base branch name: "${baseBranch}"`);
-    }
-    this.logger.log(`Reading git diff: ${repoPath} (base: ${baseBranch})`);
+    this.assertValidBranch(baseBranch);
     const git = simpleGit(repoPath);
 
-    // Use merge-base for more accurate diff (only changes introduced on this branch)
-    let mergeBase: string;
-    try {
-      const raw = await git.raw(['merge-base', baseBranch, 'HEAD']);
-      mergeBase = raw.trim();
-    } catch {
-      // Fallback to baseBranch directly (e.g. shallow clone or no common ancestor)
-      mergeBase = baseBranch;
+    const target = await this.resolveDiffTarget(git, options);
+    if (target) {
+      this.logger.log(`Reading git diff: ${repoPath} (${target.label})`);
+      // Explicit targets never fall back to the staged diff
+      const changedFiles = await this.getFilteredDiffFiles(git, target.args);
+      if (changedFiles.length === 0) {
+        throw new Error(`No diff found (${target.label})`);
+      }
+      return this.truncateDiff(
+        await this.chunkedDiff(git, target.args, changedFiles),
+      );
     }
 
+    this.logger.log(`Reading git diff: ${repoPath} (base: ${baseBranch})`);
+    // Use merge-base for more accurate diff (only changes introduced on this branch);
+    // fall back to baseBranch directly (e.g. shallow clone or no common ancestor)
+    const mergeBase =
+      (await this.resolveMergeBase(git, baseBranch)) ?? baseBranch;
+
     // Get changed file list and filter out sensitive files
     const changedFiles = await this.getFilteredDiffFiles(git, [mergeBase]);
     if (changedFiles.length === 0) {
@@ -204,6 +248,126 @@ export class CodeReaderService {
     );
   }
 
+  async getBranchState(
+    repoPath: string,
+    baseBranch: string = 'main',
+  ): Promise<GitBranchState> {
+    this.assertValidBranch(baseBranch);
+    const git = simpleGit(repoPath);
+    const headSha = (await git.revparse(['HEAD'])).trim();
+    const branch = (await git.revparse(['--abbrev-ref', 'HEAD'])).trim();
+    return {
+      branch: branch === 'HEAD' ? undefined : branch,
+      headSha,
+      mergeBase: await this.resolveMergeBase(git, baseBranch),
+    };
+  }
+
+  /** False when `sha` is unknown or no longer in HEAD's history (e.g. after a rebase). */
+  async isAncestorOfHead(repoPath: string, sha: string): Promise<boolean> {
+    this.assertValidSha(sha);
+    try {
+      await simpleGit(repoPath).raw([
+        'merge-base',
+        '--is-ancestor',
+        sha,
+        'HEAD',
+      ]);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private assertValidBranch(baseBranch: string): void {
+    if (
+      !BRANCH_PATTERN.test(baseBranch) ||
+      baseBranch.startsWith('-') ||
+      baseBranch.includes('..')
+    ) {
+      throw new Error(`Invalid base branch name: "${baseBranch}"`);
+    }
+  }
+
+  private assertValidRef(ref: string, label: string): void {
+    if (!REF_PATTERN.test(ref) || ref.startsWith('-') || ref.includes('..')) {
+      throw new Error(`Invalid ${label}: "${ref}"`);
+    }
+  }
+
+  private async resolveDiffTarget(
+    git: ReturnType<typeof simpleGit>,
+    options: GitDiffOptions,
+  ): Promise<{ args: string[]; label: string } | undefined> {
+    const selected = DIFF_TARGET_KEYS.filter(
+      (key) => options[key] !== undefined && options[key] !== false,
+    );
+    if (selected.length > 1) {
+      throw new Error(
+        `Only one diff target can be used at a time, got: ${selected.join(', ')}`,
+      );
+    }
+    if (options.since !== undefined) {
+      this.assertValidSha(options.since);
+      // `git diff <sha>` also covers staged and unstaged changes
+      return { args: [options.since], label: `since ${options.since}` };
+    }
+    if (options.range !== undefined) {
+      const match = RANGE_PATTERN.exec(options.range);
+      if (!match) {
+        throw new Error(
+          `Invalid range: "${options.range}". Expected A..B or A...B`,
+        );
+      }
+      this.assertValidRef(match[1], 'range start');
+      this.assertValidRef(match[3], 'range end');
+      return { args: [options.range], label: `range ${options.range}` };
+    }
+    if (options.commit !== undefined) {
+      this.assertValidRef(options.commit, 'commit');
+      let sha: string;
+      try {
+        sha = (
+          await git.revparse(['--verify', `${options.commit}^{commit}`])
+        ).trim();
+      } catch {
+        throw new Error(`Unknown commit: "${options.commit}"`);
+      }
+      let parent: string;
+      try {
+        parent = (await git.revparse(['--verify', `${sha}^`])).trim();
+      } catch {
+        parent = EMPTY_TREE_SHA;
+      }
+      return { args: [parent, sha], label: `commit ${options.commit}` };
+    }
+    if (options.staged) {
+      return { args: ['--staged'], label: 'staged changes' };
+    }
+    if (options.workingTree) {
+      return { args: [], label: 'unstaged changes' };
+    }
+    return undefined;
+  }
+
+  private assertValidSha(sha: string): void {
+    if (!COMMIT_SHA_PATTERN.test(sha)) {
+      throw new Error(`Invalid commit SHA: "${sha}"`);
+    }
+  }
+
+  private async resolveMergeBase(
+    git: ReturnType<typeof simpleGit>,
+    baseBranch: string,
+  ): Promise<string | undefined> {
+    try {
+      const raw = await git.raw(['merge-base', baseBranch, 'HEAD']);
+      return raw.trim() || undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
   private async getFilteredDiffFiles(
     git: ReturnType<typeof simpleGit>,
     diffArgs: string[],
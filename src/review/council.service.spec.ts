@@ -1,7 +1,7 @@
 import { Test } from '@nestjs/testing';
 import { ConsoleLogger } from '@nestjs/common';
 import { CouncilService } from './council.service.js';
-import { AcpService } from '../acp/acp.service.js';
+import { AcpService, SendPromptOptions } from '../acp/acp.service.js';
 import { ConfigService } from '../config/config.service.js';
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 
@@ -12,6 +12,7 @@ describe('CouncilService', () => {
       .fn()
       .mockResolvedValue({ name: 'MockReviewer', client: {} }),
     sendPrompt: vi.fn().mockResolvedValue('No issues found.'),
+    getCachedResponse: vi.fn().mockResolvedValue(null),
     stopClient: vi.fn().mockResolvedValue(undefined),
     stopAll: vi.fn().mockResolvedValue(undefined),
   };
@@ -75,6 +76,88 @@ describe('CouncilService', () => {
     expect(reviews[1].review).toContain('Review generation failed');
   });
 
+  it('should record token usage per reviewer, failed attempts included', async () => {
+    mockConfigService.getConfig.mockReturnValue({
+      reviewers: [
+        { name: 'Codex', cliPath: 'codex-acp', cliArgs: [], maxRetries: 1 },
+      ],
+      review: { defaultChecks: ['code-quality'], language: 'zh-tw' },
+      pricing: { 'gpt-5': { inputPerMillion: 1, outputPerMillion: 10 } },
+    });
+    mockAcpService.sendPrompt
+      .mockImplementationOnce((_h, _p, _t, options: SendPromptOptions) => {
+        options.onUsage?.({
+          model: 'gpt-5',
+          inputTokens: 1000,
+          outputTokens: 0,
+        });
+        return Promise.reject(new Error('timeout'));
+      })
+      .mockImplementationOnce((_h, _p, _t, options: SendPromptOptions) => {
+        options.onUsage?.({
+          model: 'gpt-5',
+          inputTokens: 1000,
+          outputTokens: 100,
+        });
+        return Promise.resolve('No issues found.');
+      });
+
+    const [review] = await service.dispatchReviews({
+      code: 'const x = 1;',
+      checks: ['code-quality'],
+    });
+
+    expect(review.status).toBe('success');
+    expect(review.usage).toEqual({
+      inputTokens: 2000,
+      outputTokens: 100,
+      cost: 0.003,
+    });
+  });
+
+  it('should serve cached reviews without spawning an agent', async () => {
+    mockAcpService.getCachedResponse.mockImplementationOnce(
+      (_c, _p, options: SendPromptOptions) => {
+        options.onCacheHit?.();
+        return Promise.resolve('No issues found.');
+      },
+    );
+
+    const reviews = await service.dispatchReviews({
+      code: 'const x = 1;',
+      checks: ['code-quality'],
+    });
+
+    expect(reviews[0].cached).toBe(true);
+    expect(reviews[1].cached).toBeUndefined();
+    expect(mockAcpService.createClient).toHaveBeenCalledTimes(1);
+    expect(mockAcpService.createClient.mock.calls[0][0]).toMatchObject({
+      name: 'Claude',
+    });
+    expect(mockAcpService.sendPrompt).toHaveBeenCalledTimes(1);
+    expect(mockAcpService.getCachedResponse.mock.calls[0][2]).toMatchObject({
+      cache: { ttlMs: 24 * 3_600_000 },
+    });
+  });
+
+  it('should not use the response cache when cache.enabled is false', async () => {
+    mockConfigService.getConfig.mockReturnValue({
+      reviewers: [{ name: 'Gemini', cliPath: 'gemini', cliArgs: [] }],
+      review: { defaultChecks: ['code-quality'], language: 'zh-tw' },
+      cache: { enabled: false },
+    });
+
+    await service.dispatchReviews({
+      code: 'const x = 1;',
+      checks: ['code-quality'],
+    });
+
+    const options = mockAcpService.sendPrompt.mock
+      .calls[0][3] as SendPromptOptions;
+    expect(options.cache).toBeUndefined();
+    expect(options.onCacheHit).toBeUndefined();
+  });
+
   it('should retry on timeout error and succeed on second attempt', async () => {
     mockConfigService.getConfig.mockReturnValue({
       reviewers: [
@@ -398,6 +481,48 @@ describe('CouncilService', () => {
     expect(longestRun).toBe(4096);
   });
 
+  it('should compose per-reviewer prompts from persona, checks and extraInstructions', async () => {
+    mockConfigService.getConfig.mockReturnValue({
+      reviewers: [
+        {
+          name: 'Security',
+          cliPath: 'gemini',
+          cliArgs: [],
+          persona: 'security auditor',
+          checks: ['security'],
+          extraInstructions: 'Pay attention to auth flows.',
+        },
+        { name: 'Generalist', cliPath: 'codex-acp', cliArgs: [] },
+      ],
+      review: { defaultChecks: ['code-quality'], language: 'zh-tw' },
+    });
+
+    const reviews = await service.dispatchReviews({
+      code: 'const x = 1;',
+      checks: ['performance', 'readability'],
+      extraInstructions: 'Focus on the new API.',
+    });
+
+    const prompts = mockAcpService.sendPrompt.mock.calls.map(
+      (call) => call[1] as string,
+    );
+    expect(prompts[0]).toContain(
+      'Your role in this review council: security auditor.',
+    );
+    expect(prompts[0]).toContain('Check for: security');
+    expect(prompts[0]).toContain(
+      'Focus on the new API. Pay attention to auth flows.',
+    );
+    expect(prompts[1]).not.toContain('Your role in this review council');
+    expect(prompts[1]).toContain('Check for: performance, readability');
+    expect(prompts[1]).not.toContain('auth flows');
+    expect(reviews[0]).toMatchObject({
+      persona: 'security auditor',
+      checks: ['security'],
+    });
+    expect(reviews[1].persona).toBeUndefined();
+  });
+
   it('should stop clients for failed reviewers', async () => {
     mockAcpService.createClient
       .mockResolvedValueOnce({ name: 'Gemini', client: {} })
@@ -414,4 +539,171 @@ describe('CouncilService', () => {
     expect(reviews[1].review).toContain('Review generation failed');
     expect(mockAcpService.createClient).toHaveBeenCalledTimes(2);
   });
+
+  it('should reject and stop every client when the review is cancelled', async () => {
+    const controller = new AbortController();
+    mockAcpService.sendPrompt.mockImplementation(
+      (_h, _p, _t, options: SendPromptOptions) => {
+        expect(options.signal).toBe(controller.signal);
+        controller.abort();
+        return Promise.reject(new Error('Request aborted: review cancelled'));
+      },
+    );
+    const onReviewerDone = vi.fn();
+
+    await expect(
+      service.dispatchReviews(
+        { code: 'const x = 1;', checks: ['code-quality'] },
+        undefined,
+        onReviewerDone,
+        undefined,
+        undefined,
+        controller.signal,
+      ),
+    ).rejects.toThrow('Review cancelled');
+    expect(onReviewerDone).not.toHaveBeenCalled();
+    await vi.waitFor(() =>
+      expect(mockAcpService.stopClient).toHaveBeenCalledTimes(2),
+    );
+  });
+
+  describe('debate', () => {
+    const reviews = [
+      {
+        reviewer: 'Gemini',
+        review: '{}',
+        status: 'success' as const,
+        findings: [
+          {
+            severity: 'high' as const,
+            category: 'security' as const,
+            description: 'SQL injection in query()',
+            suggestion: 'Use parameters',
+          },
+        ],
+      },
+      {
+        reviewer: 'Claude',
+        review: 'Looks fine overall',
+        status: 'success' as const,
+      },
+    ];
+    const withRounds = (debateRounds: number) =>
+      mockConfigService.getConfig.mockReturnValue({
+        reviewers: [
+          { name: 'Gemini', cliPath: 'gemini', cliArgs: [] },
+          { name: 'Claude', cliPath: 'claude-code-acp', cliArgs: [] },
+        ],
+        review: {
+          defaultChecks: ['code-quality'],
+          language: 'zh-tw',
+          debateRounds,
+        },
+      });
+
+    it('should skip the debate when disabled or with fewer than two reviewers', async () => {
+      expect(await service.debate({ code: 'x', checks: [] }, reviews)).toEqual(
+        [],
+      );
+      withRounds(2);
+      expect(
+        await service.debate({ code: 'x', checks: [] }, [
+          reviews[0],
+          { ...reviews[1], status: 'error' },
+        ]),
+      ).toEqual([]);
+      expect(mockAcpService.sendPrompt).not.toHaveBeenCalled();
+    });
+
+    it('should run each round with the other reviews and the prior transcript', async () => {
+      withRounds(2);
+      mockAcpService.sendPrompt.mockImplementation(
+        (_handle: unknown, prompt: string) =>
+          Promise.resolve(
+            prompt.startsWith('You are Claude')
+              ? JSON.stringify({
+                  responses: [
+                    {
+                      reviewer: 'Gemini',
+                      finding: 'SQL injection in query()',
+                      stance: 'dispute',
+                      comment: 'query() only takes constants',
+                    },
+                  ],
+                  findings: [],
+                })
+              : 'I stand by my findings.',
+          ),
+      );
+      const deltas: string[] = [];
+      const activity: string[] = [];
+      const done: string[] = [];
+
+      const rounds = await service.debate(
+        { code: 'const q = sql + id;', checks: [] },
+        reviews,
+        (reviewer, delta) => deltas.push(`${reviewer}:${delta}`),
+        (reviewer, status) => done.push(`${reviewer}:${status}`),
+        (reviewer, toolName) => activity.push(`${reviewer}:${toolName}`),
+      );
+
+      expect(rounds.map((r) => r.round)).toEqual([1, 2]);
+      expect(rounds[0].entries).toEqual([
+        expect.objectContaining({
+          reviewer: 'Gemini',
+          status: 'success',
+          response: 'I stand by my findings.',
+        }),
+        expect.objectContaining({
+          reviewer: 'Claude',
+          status: 'success',
+          stances: [expect.objectContaining({ stance: 'dispute' })],
+          findings: [],
+        }),
+      ]);
+      expect(rounds[0].entries[0].stances).toBeUndefined();
+
+      const prompts = mockAcpService.sendPrompt.mock.calls.map(
+        (c) => c[1] as string,
+      );
+      expect(prompts).toHaveLength(4);
+      const geminiRound1 = prompts.find((p) => p.startsWith('You are Gemini'))!;
+      expect(geminiRound1).toContain('debate round 1 of 2');
+      expect(geminiRound1).toContain('=== Claude ===\nLooks fine overall');
+      expect(geminiRound1).toContain('const q = sql + id;');
+      expect(geminiRound1).not.toContain('Discussion so far');
+      const geminiRound2 = prompts
+        .filter((p) => p.startsWith('You are Gemini'))
+        .at(-1)!;
+      expect(geminiRound2).toContain('Discussion so far');
+      expect(geminiRound2).toContain(
+        '- DISPUTE Gemini: "SQL injection in query()" — query() only takes constants',
+      );
+
+      expect(activity).toContain('Gemini:Debate round 2/2');
+      expect(deltas).toContain('Claude:\n\n--- Debate round 1/2 ---\n\n');
+      expect(done).toEqual([
+        'Gemini:done',
+        'Claude:done',
+        'Gemini:done',
+        'Claude:done',
+      ]);
+    });
+
+    it('should record failed turns and stop when a whole round fails', async () => {
+      withRounds(3);
+      mockAcpService.sendPrompt.mockRejectedValue(new Error('timeout'));
+
+      const rounds = await service.debate({ checks: [] }, reviews);
+
+      expect(rounds).toHaveLength(1);
+      expect(rounds[0].entries.map((e) => e.status)).toEqual([
+        'error',
+        'error',
+      ]);
+      expect(mockAcpService.stopClient).toHaveBeenCalledTimes(2);
+      const prompt = mockAcpService.sendPrompt.mock.calls[0][1] as string;
+      expect(prompt).toContain('The code is not repeated here');
+    });
+  });
 });
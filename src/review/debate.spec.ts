@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseDebateResponse,
+  renderDebateEntryText,
+  renderDebateTranscript,
+} from './debate.js';
+
+describe('parseDebateResponse', () => {
+  it('should parse stances and new findings', () => {
+    const parsed = parseDebateResponse(
+      '```json\n' +
+        JSON.stringify({
+          responses: [
+            {
+              reviewer: 'Gemini',
+              finding: 'SQL injection in query()',
+              stance: 'Agree',
+              comment: 'The input is concatenated on line 12.',
+            },
+            { reviewer: 'Codex', finding: 'Rename x', stance: 'meh' },
+          ],
+          findings: [
+            {
+              severity: 'high',
+              category: 'security',
+              file: 'src/db.ts:40',
+              description: 'Same pattern in update()',
+              suggestion: 'Use parameters',
+            },
+          ],
+        }) +
+        '\n```',
+    );
+    expect(parsed).toEqual({
+      stances: [
+        {
+          reviewer: 'Gemini',
+          finding: 'SQL injection in query()',
+          stance: 'agree',
+          comment: 'The input is concatenated on line 12.',
+        },
+      ],
+      findings: [
+        {
+          severity: 'high',
+          category: 'security',
+          file: 'src/db.ts',
+          line: 40,
+          description: 'Same pattern in update()',
+          suggestion: 'Use parameters',
+        },
+      ],
+    });
+  });
+
+  it('should return null for prose or unrelated JSON', () => {
+    expect(parseDebateResponse('I agree with everyone.')).toBeNull();
+    expect(parseDebateResponse('{"summary": "ok"}')).toBeNull();
+  });
+});
+
+describe('renderDebateTranscript', () => {
+  it('should render successful turns and fall back to raw text', () => {
+    const text = renderDebateTranscript([
+      {
+        round: 1,
+        entries: [
+          {
+            reviewer: 'Gemini',
+            status: 'success',
+            response: '{}',
+            stances: [
+              {
+                reviewer: 'Codex',
+                finding: 'Missing null check',
+                stance: 'dispute',
+                comment: 'Guarded by the caller.',
+              },
+            ],
+            findings: [],
+          },
+          { reviewer: 'Codex', status: 'success', response: 'raw reply' },
+          { reviewer: 'Claude', status: 'error', response: '[error]' },
+        ],
+      },
+    ]);
+    expect(text).toBe(
+      '=== Debate round 1 ===\n' +
+        '--- Gemini ---\n' +
+        '- DISPUTE Codex: "Missing null check" — Guarded by the caller.\n\n' +
+        '--- Codex ---\nraw reply',
+    );
+  });
+
+  it('should note turns without comments', () => {
+    expect(
+      renderDebateEntryText({
+        reviewer: 'Gemini',
+        status: 'success',
+        response: '{"responses": []}',
+        stances: [],
+        findings: [],
+      }),
+    ).toBe('No further comments.');
+  });
+});
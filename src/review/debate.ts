@@ -0,0 +1,92 @@
+import {
+  DebateEntry,
+  DebateRound,
+  DebateStance,
+  ReviewFinding,
+} from './review.types.js';
+import { parseJsonObject } from './json-utils.js';
+import { formatFindingLocation, toFinding } from './review-findings.js';
+
+export interface ParsedDebateResponse {
+  stances: DebateStance[];
+  findings: ReviewFinding[];
+}
+
+const VALID_STANCES = new Set(['agree', 'dispute']);
+
+function toStance(raw: unknown): DebateStance | null {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null;
+  const s = raw as Record<string, unknown>;
+  const stance = typeof s.stance === 'string' ? s.stance.toLowerCase() : '';
+  if (
+    typeof s.reviewer !== 'string' ||
+    typeof s.finding !== 'string' ||
+    !VALID_STANCES.has(stance)
+  ) {
+    return null;
+  }
+  return {
+    reviewer: s.reviewer.trim(),
+    finding: s.finding.trim(),
+    stance: stance as DebateStance['stance'],
+    comment: typeof s.comment === 'string' ? s.comment.trim() : '',
+  };
+}
+
+/**
+ * Parse a debate turn: `{"responses": [{reviewer, finding, stance, comment}], "findings": [...]}`.
+ * Returns null when the response holds no JSON object with either list.
+ */
+export function parseDebateResponse(text: string): ParsedDebateResponse | null {
+  const parsed = parseJsonObject(text);
+  if (!parsed) return null;
+  const rawStances = Array.isArray(parsed.responses) ? parsed.responses : null;
+  const rawFindings = Array.isArray(parsed.findings) ? parsed.findings : null;
+  if (!rawStances && !rawFindings) return null;
+  return {
+    stances: (rawStances ?? [])
+      .map(toStance)
+      .filter((s): s is DebateStance => s !== null),
+    findings: (rawFindings ?? [])
+      .map(toFinding)
+      .filter((f): f is ReviewFinding => f !== null),
+  };
+}
+
+/**
+ * Compact plain-text rendering of one debate turn for downstream prompts.
+ * Uses the structured stances when available, otherwise the raw response.
+ */
+export function renderDebateEntryText(entry: DebateEntry): string {
+  if (!entry.stances && !entry.findings) return entry.response;
+  const lines = (entry.stances ?? []).map(
+    (s) =>
+      `- ${s.stance.toUpperCase()} ${s.reviewer}: "${s.finding}"${s.comment ? ` — ${s.comment}` : ''}`,
+  );
+  const findings = entry.findings ?? [];
+  if (findings.length > 0) {
+    lines.push('New findings:');
+    for (const f of findings) {
+      const location = formatFindingLocation(f);
+      const where = location ? ` ${location}` : '';
+      const suggestion = f.suggestion ? ` → ${f.suggestion}` : '';
+      lines.push(
+        `- [${f.severity}][${f.category}]${where} — ${f.description}${suggestion}`,
+      );
+    }
+  }
+  if (lines.length === 0) lines.push('No further comments.');
+  return lines.join('\n');
+}
+
+/** Full transcript of the successful turns, round by round. */
+export function renderDebateTranscript(rounds: DebateRound[]): string {
+  return rounds
+    .map((round) => {
+      const turns = round.entries
+        .filter((e) => e.status === 'success')
+        .map((e) => `--- ${e.reviewer} ---\n${renderDebateEntryText(e)}`);
+      return `=== Debate round ${round.round} ===\n${turns.join('\n\n')}`;
+    })
+    .join('\n\n');
+}
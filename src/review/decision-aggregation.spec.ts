@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import { aggregateDecisions } from './decision-aggregation.js';
+import { ReviewDecision, ReviewDecisionItem } from './review.types.js';
+
+function item(overrides: Partial<ReviewDecisionItem>): ReviewDecisionItem {
+  return {
+    severity: 'medium',
+    category: 'security',
+    description: 'SQL query built by string concatenation',
+    file: 'src/db.ts',
+    line: 12,
+    raisedBy: ['Gemini'],
+    verdict: 'accepted',
+    reasoning: 'Injection risk',
+    suggestion: 'Use parameters',
+    ...overrides,
+  };
+}
+
+function ruling(
+  judge: string,
+  decisions: ReviewDecisionItem[],
+  extra: Partial<ReviewDecision> = {},
+) {
+  return {
+    judge,
+    decision: {
+      reviewer: `${judge} (Decision Maker)`,
+      overallAssessment: `${judge} assessment`,
+      decisions,
+      additionalFindings: [],
+      ...extra,
+    },
+  };
+}
+
+describe('aggregateDecisions', () => {
+  it('should take the majority verdict and keep every vote', () => {
+    const decision = aggregateDecisions([
+      ruling('Claude', [item({ verdict: 'accepted' })]),
+      ruling('Gemini', [
+        item({ verdict: 'rejected', line: 13, reasoning: 'Input is trusted' }),
+      ]),
+      ruling('Codex', [
+        item({
+          verdict: 'accepted',
+          description: 'SQL query is built by concatenating strings',
+          raisedBy: ['Codex'],
+        }),
+      ]),
+    ]);
+    expect(decision.reviewer).toBe('Claude, Gemini, Codex (Decision Makers)');
+    expect(decision.judges).toEqual(['Claude', 'Gemini', 'Codex']);
+    expect(decision.decisions).toHaveLength(1);
+    const [merged] = decision.decisions;
+    expect(merged.verdict).toBe('accepted');
+    expect(merged.reasoning).toBe('Injection risk');
+    expect(merged.raisedBy).toEqual(['Gemini', 'Codex']);
+    expect(merged.votes).toEqual([
+      {
+        judge: 'Claude',
+        verdict: 'accepted',
+        severity: 'medium',
+        reasoning: 'Injection risk',
+      },
+      {
+        judge: 'Gemini',
+        verdict: 'rejected',
+        severity: 'medium',
+        reasoning: 'Input is trusted',
+      },
+      {
+        judge: 'Codex',
+        verdict: 'accepted',
+        severity: 'medium',
+        reasoning: 'Injection risk',
+      },
+    ]);
+  });
+
+  it('should resolve a tie to modified', () => {
+    const decision = aggregateDecisions([
+      ruling('Claude', [item({ verdict: 'accepted' })]),
+      ruling('Gemini', [item({ verdict: 'rejected' })]),
+    ]);
+    expect(decision.decisions[0].verdict).toBe('modified');
+  });
+
+  it('should aggregate severity by max or upper median', () => {
+    const rulings = [
+      ruling('A', [item({ severity: 'low' })]),
+      ruling('B', [item({ severity: 'low' })]),
+      ruling('C', [item({ severity: 'high' })]),
+    ];
+    expect(aggregateDecisions(rulings).decisions[0].severity).toBe('high');
+    expect(aggregateDecisions(rulings, 'median').decisions[0].severity).toBe(
+      'low',
+    );
+  });
+
+  it('should keep unrelated items apart and sort by severity', () => {
+    const decision = aggregateDecisions([
+      ruling('Claude', [
+        item({ severity: 'low', description: 'Rename variable x', line: 3 }),
+        item({}),
+      ]),
+      ruling('Gemini', [item({ file: 'src/api.ts' })]),
+    ]);
+    expect(decision.decisions.map((d) => [d.file, d.votes?.length])).toEqual([
+      ['src/db.ts', 1],
+      ['src/api.ts', 1],
+      ['src/db.ts', 1],
+    ]);
+    expect(decision.decisions[2].severity).toBe('low');
+  });
+
+  it('should union additional findings and skip unparsable rulings', () => {
+    const finding = {
+      severity: 'low' as const,
+      category: 'other' as const,
+      description: 'Missing error handling in async function',
+      suggestion: 'Add try-catch',
+    };
+    const decision = aggregateDecisions([
+      ruling('Claude', [], { additionalFindings: [finding] }),
+      ruling('Gemini', [], {
+        additionalFindings: [{ ...finding, severity: 'medium' }],
+      }),
+      ruling('Codex', [item({})], {
+        overallAssessment: '[PARSE_FAILED] oops',
+        parseFailed: true,
+      }),
+    ]);
+    expect(decision.decisions).toEqual([]);
+    expect(decision.additionalFindings).toEqual([
+      { ...finding, severity: 'medium' },
+    ]);
+    expect(decision.parseFailed).toBeUndefined();
+  });
+
+  it('should mark the decision unparsed when no judge was parsable', () => {
+    const decision = aggregateDecisions([
+      ruling('Claude', [], { parseFailed: true }),
+      ruling('Gemini', [], { parseFailed: true }),
+    ]);
+    expect(decision.parseFailed).toBe(true);
+  });
+});
@@ -0,0 +1,122 @@
+import {
+  AdditionalFinding,
+  JudgeVote,
+  ReviewDecision,
+  ReviewDecisionItem,
+} from './review.types.js';
+import { groupAcrossSources, sameIssue } from './finding-clusters.js';
+
+export const SEVERITY_AGGREGATIONS = ['max', 'median'] as const;
+export type SeverityAggregation = (typeof SEVERITY_AGGREGATIONS)[number];
+
+/** One decision maker's ruling, as input to `aggregateDecisions`. */
+export interface JudgeRuling {
+  judge: string;
+  decision: ReviewDecision;
+}
+
+const SEVERITY_RANK: Record<ReviewDecisionItem['severity'], number> = {
+  low: 0,
+  medium: 1,
+  high: 2,
+};
+const SEVERITIES: ReviewDecisionItem['severity'][] = ['low', 'medium', 'high'];
+
+function aggregateSeverity(
+  severities: ReviewDecisionItem['severity'][],
+  strategy: SeverityAggregation,
+): ReviewDecisionItem['severity'] {
+  const ranks = severities.map((s) => SEVERITY_RANK[s]).sort((a, b) => a - b);
+  if (strategy === 'max') return SEVERITIES[ranks[ranks.length - 1]];
+  // Upper median: with an even number of votes, lean towards the more severe
+  return SEVERITIES[ranks[Math.floor(ranks.length / 2)]];
+}
+
+/** Most common verdict; ties resolve to `modified`. */
+function majorityVerdict(votes: JudgeVote[]): ReviewDecisionItem['verdict'] {
+  const counts = new Map<ReviewDecisionItem['verdict'], number>();
+  for (const v of votes)
+    counts.set(v.verdict, (counts.get(v.verdict) ?? 0) + 1);
+  const top = Math.max(...counts.values());
+  const leaders = [...counts.entries()].filter(([, n]) => n === top);
+  return leaders.length === 1 ? leaders[0][0] : 'modified';
+}
+
+/**
+ * Merge several decision makers' rulings into one decision: items that describe
+ * the same issue (same file, nearby line or similar description) are grouped,
+ * the verdict is the majority vote of the judges that ruled on it, severity is
+ * the max or median of their severities, and each judge's vote is kept on the
+ * item. Additional findings are the deduplicated union.
+ */
+export function aggregateDecisions(
+  rulings: JudgeRuling[],
+  strategy: SeverityAggregation = 'max',
+): ReviewDecision {
+  const judges = rulings.map((r) => r.judge);
+  const usable = rulings.filter((r) => !r.decision.parseFailed);
+
+  const itemGroups = groupAcrossSources<ReviewDecisionItem>(
+    usable.flatMap((r) =>
+      r.decision.decisions.map((item) => ({ source: r.judge, item })),
+    ),
+    sameIssue,
+  );
+  const decisions = itemGroups.map((group): ReviewDecisionItem => {
+    const votes: JudgeVote[] = group.map(({ source, item }) => ({
+      judge: source,
+      verdict: item.verdict,
+      severity: item.severity,
+      reasoning: item.reasoning,
+    }));
+    const verdict = majorityVerdict(votes);
+    // Keep the wording of a judge that reached the final verdict
+    const representative = (
+      group.find((e) => e.item.verdict === verdict) ?? group[0]
+    ).item;
+    const located = group.find((e) => e.item.file)?.item;
+    return {
+      ...representative,
+      file: representative.file ?? located?.file,
+      line:
+        representative.line ??
+        group.find((e) => e.item.line !== undefined)?.item.line,
+      severity: aggregateSeverity(
+        votes.map((v) => v.severity),
+        strategy,
+      ),
+      raisedBy: [...new Set(group.flatMap((e) => e.item.raisedBy))],
+      verdict,
+      votes,
+    };
+  });
+  decisions.sort(
+    (a, b) =>
+      SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity] ||
+      (b.votes?.length ?? 0) - (a.votes?.length ?? 0),
+  );
+
+  const additionalFindings = groupAcrossSources<AdditionalFinding>(
+    usable.flatMap((r) =>
+      r.decision.additionalFindings.map((item) => ({ source: r.judge, item })),
+    ),
+    sameIssue,
+  ).map((group) => ({
+    ...group[0].item,
+    severity: aggregateSeverity(
+      group.map((e) => e.item.severity),
+      strategy,
+    ),
+  }));
+
+  return {
+    reviewer: `${judges.join(', ')} (Decision Makers)`,
+    overallAssessment: rulings
+      .map((r) => `[${r.judge}] ${r.decision.overallAssessment}`)
+      .join('\n\n'),
+    decisions,
+    additionalFindings,
+    judges,
+    ...(usable.length === 0 ? { parseFailed: true } : {}),
+  };
+}
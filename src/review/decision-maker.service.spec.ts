@@ -1,7 +1,7 @@
 import { Test } from '@nestjs/testing';
 import { ConsoleLogger } from '@nestjs/common';
 import { DecisionMakerService } from './decision-maker.service.js';
-import { AcpService } from '../acp/acp.service.js';
+import { AcpService, SendPromptOptions } from '../acp/acp.service.js';
 import { ConfigService } from '../config/config.service.js';
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 
@@ -35,6 +35,7 @@ describe('DecisionMakerService', () => {
         ],
       }),
     ),
+    getCachedResponse: vi.fn().mockResolvedValue(null),
     stopClient: vi.fn().mockResolvedValue(undefined),
     stopAll: vi.fn().mockResolvedValue(undefined),
   };
@@ -109,6 +110,289 @@ describe('DecisionMakerService', () => {
     expect(sentPrompt).toContain('=== Codex ===');
   });
 
+  it('should serve a cached ruling without spawning an agent', async () => {
+    mockAcpService.getCachedResponse.mockResolvedValueOnce(
+      JSON.stringify({ overallAssessment: 'Cached ruling', decisions: [] }),
+    );
+
+    const decision = await service.decide('const x = 1;', [
+      { reviewer: 'Gemini', review: 'Looks fine.', status: 'success' as const },
+    ]);
+
+    expect(decision.overallAssessment).toBe('Cached ruling');
+    expect(decision.cached).toBe(true);
+    expect(mockAcpService.createClient).not.toHaveBeenCalled();
+    expect(mockAcpService.sendPrompt).not.toHaveBeenCalled();
+  });
+
+  it('should tell the decision maker each reviewer persona and focus', async () => {
+    await service.decide('const x = 1;', [
+      {
+        reviewer: 'Gemini',
+        persona: 'security auditor',
+        checks: ['security'],
+        review: 'No injection risks.',
+        status: 'success' as const,
+      },
+      {
+        reviewer: 'Codex',
+        review: 'Looks fine.',
+        status: 'success' as const,
+      },
+    ]);
+
+    const sentPrompt = mockAcpService.sendPrompt.mock.calls[0][1];
+    expect(sentPrompt).toContain(
+      '=== Gemini (persona: security auditor; focus: security) ===',
+    );
+    expect(sentPrompt).toContain('=== Codex ===');
+  });
+
+  it('should send duplicate findings once with who raised them', async () => {
+    const finding = {
+      severity: 'high' as const,
+      category: 'security' as const,
+      file: 'src/db.ts',
+      line: 12,
+      description: 'SQL query built by string concatenation',
+      suggestion: 'Use parameters',
+    };
+    await service.decide('const x = 1;', [
+      {
+        reviewer: 'Gemini',
+        review: '{}',
+        status: 'success' as const,
+        findings: [finding],
+        notes: ['Tests are missing'],
+      },
+      {
+        reviewer: 'Codex',
+        review: '{}',
+        status: 'success' as const,
+        findings: [{ ...finding, line: 13 }],
+      },
+      {
+        reviewer: 'Claude',
+        review: 'Free-form review text',
+        status: 'success' as const,
+      },
+    ]);
+
+    const sentPrompt = mockAcpService.sendPrompt.mock.calls[0][1];
+    expect(sentPrompt).toContain(
+      '=== Deduplicated findings (1 issues from 2 findings by 2 reviewers;',
+    );
+    expect(sentPrompt).toContain(
+      '1. [high][security] src/db.ts:12 — SQL query built by string concatenation → Use parameters (raised by 2/2: Gemini, Codex)',
+    );
+    expect(sentPrompt).toContain(
+      '=== Gemini ===\nReported 1 finding (merged into the deduplicated findings above).\n\nNotes:\n- Tests are missing',
+    );
+    expect(sentPrompt).toContain('=== Claude ===\nFree-form review text');
+  });
+
+  it('should include the debate transcript only when there was a debate', async () => {
+    const reviews = [
+      {
+        reviewer: 'Gemini',
+        review: 'Possible race.',
+        status: 'success' as const,
+      },
+    ];
+    await service.decide('const x = 1;', reviews);
+    expect(mockAcpService.sendPrompt.mock.calls[0][1]).not.toContain(
+      '## Council debate',
+    );
+
+    await service.decide(
+      'const x = 1;',
+      reviews,
+      'inline',
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      [
+        {
+          round: 1,
+          entries: [
+            {
+              reviewer: 'Codex',
+              status: 'success',
+              response: 'The lock already covers it.',
+            },
+          ],
+        },
+      ],
+    );
+    const sentPrompt = mockAcpService.sendPrompt.mock.calls[1][1];
+    expect(sentPrompt).toContain('## Council debate (1 round):');
+    expect(sentPrompt).toContain(
+      '=== Debate round 1 ===\n--- Codex ---\nThe lock already covers it.',
+    );
+  });
+
+  it('should let a panel of decision makers vote', async () => {
+    const judge = (name: string) => ({ name, cliPath: 'echo', cliArgs: [] });
+    const ruling = (verdict: string) =>
+      JSON.stringify({
+        overallAssessment: `Ruled ${verdict}`,
+        decisions: [
+          {
+            severity: 'medium',
+            category: 'readability',
+            description: 'Variable naming could be improved',
+            raisedBy: ['Gemini'],
+            verdict,
+            reasoning: `Ruled ${verdict}`,
+            suggestion: 'Use descriptive names',
+          },
+        ],
+        additionalFindings: [],
+      });
+    mockAcpService.sendPrompt
+      .mockResolvedValueOnce(ruling('accepted'))
+      .mockResolvedValueOnce(ruling('rejected'))
+      .mockResolvedValueOnce(ruling('accepted'));
+    const onDelta = vi.fn();
+    const onStart = vi.fn();
+
+    const decision = await service.decide(
+      'const x = 1;',
+      [{ reviewer: 'Gemini', review: 'Rename x.', status: 'success' as const }],
+      'inline',
+      undefined,
+      {
+        decisionMaker: judge('A'),
+        decisionMakers: [judge('A'), judge('B'), judge('C')],
+        reviewers: [],
+        review: { defaultChecks: [], language: 'en' },
+      },
+      onDelta,
+      onStart,
+    );
+
+    expect(mockAcpService.sendPrompt).toHaveBeenCalledTimes(3);
+    expect(onStart.mock.calls).toEqual([['A'], ['B'], ['C']]);
+    expect(decision.judges).toEqual(['A', 'B', 'C']);
+    expect(decision.decisions).toHaveLength(1);
+    expect(decision.decisions[0].verdict).toBe('accepted');
+    expect(decision.decisions[0].votes?.map((v) => v.verdict)).toEqual([
+      'accepted',
+      'rejected',
+      'accepted',
+    ]);
+
+    const { onDelta: forward } = mockAcpService.sendPrompt.mock.calls[1][3] as {
+      onDelta: (content: string) => void;
+    };
+    forward('chunk');
+    expect(onDelta).toHaveBeenCalledWith('chunk', 'B');
+  });
+
+  it('should ignore a failed panel member', async () => {
+    mockAcpService.sendPrompt.mockRejectedValueOnce(new Error('crashed'));
+    const decision = await service.decide(
+      'const x = 1;',
+      [{ reviewer: 'Gemini', review: 'Rename x.', status: 'success' as const }],
+      'inline',
+      undefined,
+      {
+        decisionMaker: { name: 'A', cliPath: 'echo', cliArgs: [] },
+        decisionMakers: [
+          { name: 'A', cliPath: 'echo', cliArgs: [] },
+          { name: 'B', cliPath: 'echo', cliArgs: [] },
+        ],
+        reviewers: [],
+        review: { defaultChecks: [], language: 'en' },
+      },
+    );
+    expect(decision.judges).toEqual(['B']);
+    expect(decision.decisions[0].votes).toHaveLength(1);
+  });
+
+  it('should not rule with the rest of the panel once cancelled', async () => {
+    const controller = new AbortController();
+    mockAcpService.sendPrompt.mockImplementationOnce(() => {
+      controller.abort();
+      return Promise.reject(new Error('Review cancelled'));
+    });
+    await expect(
+      service.decide(
+        'const x = 1;',
+        [
+          {
+            reviewer: 'Gemini',
+            review: 'Rename x.',
+            status: 'success' as const,
+          },
+        ],
+        'inline',
+        undefined,
+        {
+          decisionMaker: { name: 'A', cliPath: 'echo', cliArgs: [] },
+          decisionMakers: [
+            { name: 'A', cliPath: 'echo', cliArgs: [] },
+            { name: 'B', cliPath: 'echo', cliArgs: [] },
+          ],
+          reviewers: [],
+          review: { defaultChecks: [], language: 'en' },
+        },
+        undefined,
+        undefined,
+        [],
+        controller.signal,
+      ),
+    ).rejects.toThrow('Review cancelled');
+    const [, , , options] = mockAcpService.sendPrompt.mock.calls[1] as [
+      unknown,
+      unknown,
+      unknown,
+      SendPromptOptions,
+    ];
+    expect(options.signal).toBe(controller.signal);
+  });
+
+  it('should report the usage of every judge, failed ones included', async () => {
+    const ruling = JSON.stringify({
+      overallAssessment: 'Fine.',
+      decisions: [],
+      additionalFindings: [],
+    });
+    mockAcpService.sendPrompt
+      .mockImplementationOnce((_h, _p, _t, options: SendPromptOptions) => {
+        options.onUsage?.({ model: 'm1', inputTokens: 100, outputTokens: 0 });
+        return Promise.reject(new Error('crashed'));
+      })
+      .mockImplementationOnce((_h, _p, _t, options: SendPromptOptions) => {
+        options.onUsage?.({ model: 'm1', inputTokens: 200, outputTokens: 50 });
+        options.onUsage?.({ model: 'm2', inputTokens: 10, outputTokens: 1 });
+        return Promise.resolve(ruling);
+      });
+    const decision = await service.decide(
+      'const x = 1;',
+      [{ reviewer: 'Gemini', review: 'Rename x.', status: 'success' as const }],
+      'inline',
+      undefined,
+      {
+        decisionMaker: { name: 'A', cliPath: 'echo', cliArgs: [] },
+        decisionMakers: [
+          { name: 'A', cliPath: 'echo', cliArgs: [] },
+          { name: 'B', cliPath: 'echo', cliArgs: [] },
+        ],
+        reviewers: [],
+        review: { defaultChecks: [], language: 'en' },
+        pricing: { m1: { inputPerMillion: 10, outputPerMillion: 20 } },
+      },
+    );
+    expect(decision.usage).toEqual({
+      inputTokens: 310,
+      outputTokens: 51,
+      cost: 0.004,
+      unpricedModels: ['m2'],
+    });
+  });
+
   it('should handle non-JSON response gracefully', async () => {
     mockAcpService.sendPrompt.mockResolvedValue(
       'This is just plain text, not JSON.',
@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import {
+  mapOldLine,
+  parseDiffFiles,
+  parseNewSideLines,
+  parseNewSideOrigins,
+} from './diff-utils.js';
+
+const DIFF = [
+  'diff --git a/src/app.ts b/src/app.ts',
+  'index 1111111..2222222 100644',
+  '--- a/src/app.ts',
+  '+++ b/src/app.ts',
+  '@@ -10,3 +10,5 @@ export class App {',
+  ' context',
+  '+added',
+  '+added',
+  '@@ -40 +42,0 @@',
+  '-removed',
+  'diff --git a/src/new.ts b/src/new.ts',
+  'new file mode 100644',
+  '--- /dev/null',
+  '+++ b/src/new.ts',
+  '@@ -0,0 +1,2 @@',
+  '+a',
+  '+b',
+  'diff --git a/src/gone.ts b/src/gone.ts',
+  'deleted file mode 100644',
+  '--- a/src/gone.ts',
+  '+++ /dev/null',
+  '@@ -1 +0,0 @@',
+  '-x',
+  'diff --git a/src/old-name.ts b/src/new-name.ts',
+  'similarity index 100%',
+  'rename from src/old-name.ts',
+  'rename to src/new-name.ts',
+].join('\n');
+
+describe('parseDiffFiles', () => {
+  it('should parse files and hunk ranges', () => {
+    expect(parseDiffFiles(DIFF)).toEqual([
+      {
+        oldPath: 'src/app.ts',
+        newPath: 'src/app.ts',
+        hunks: [
+          { oldStart: 10, oldLines: 3, newStart: 10, newLines: 5 },
+          { oldStart: 40, oldLines: 1, newStart: 42, newLines: 0 },
+        ],
+      },
+      {
+        oldPath: null,
+        newPath: 'src/new.ts',
+        hunks: [{ oldStart: 0, oldLines: 0, newStart: 1, newLines: 2 }],
+      },
+      {
+        oldPath: 'src/gone.ts',
+        newPath: null,
+        hunks: [{ oldStart: 1, oldLines: 1, newStart: 0, newLines: 0 }],
+      },
+      { oldPath: 'src/old-name.ts', newPath: 'src/new-name.ts', hunks: [] },
+    ]);
+  });
+
+  it('should return no files for an empty diff', () => {
+    expect(parseDiffFiles('')).toEqual([]);
+  });
+});
+
+describe('parseNewSideLines', () => {
+  it('should number added and context lines on the new side', () => {
+    const lines = parseNewSideLines(DIFF);
+    expect([...lines.keys()]).toEqual(['src/app.ts', 'src/new.ts']);
+    expect([...(lines.get('src/app.ts') ?? [])]).toEqual([
+      [10, 'context'],
+      [11, 'added'],
+      [12, 'added'],
+    ]);
+    expect([...(lines.get('src/new.ts') ?? [])]).toEqual([
+      [1, 'a'],
+      [2, 'b'],
+    ]);
+  });
+});
+
+describe('mapOldLine', () => {
+  const hunks = parseDiffFiles(DIFF)[0].hunks;
+
+  it('should keep lines before the first hunk', () => {
+    expect(mapOldLine(hunks, 5)).toEqual({ line: 5, touched: false });
+  });
+
+  it('should mark lines inside a hunk as touched', () => {
+    expect(mapOldLine(hunks, 11)).toEqual({ line: 10, touched: true });
+    expect(mapOldLine(hunks, 40)).toEqual({ line: 42, touched: true });
+  });
+
+  it('should shift lines after a hunk by the lines it added', () => {
+    expect(mapOldLine(hunks, 20)).toEqual({ line: 22, touched: false });
+    expect(mapOldLine(hunks, 50)).toEqual({ line: 51, touched: false });
+  });
+
+  it('should not treat the anchor line of a pure insertion as touched', () => {
+    const insertion = [{ oldStart: 5, oldLines: 0, newStart: 6, newLines: 2 }];
+    expect(mapOldLine(insertion, 5)).toEqual({ line: 5, touched: false });
+    expect(mapOldLine(insertion, 6)).toEqual({ line: 8, touched: false });
+  });
+});
+
+describe('parseNewSideOrigins', () => {
+  it('should pair context lines with their old line and mark added lines', () => {
+    const origins = parseNewSideOrigins(
+      [
+        'diff --git a/src/app.ts b/src/app.ts',
+        '@@ -10,4 +10,4 @@',
+        ' keep',
+        '-old',
+        '+new',
+        ' keep',
+        ' keep',
+      ].join('\n'),
+    );
+    expect([...(origins.get('src/app.ts') ?? [])]).toEqual([
+      [10, 10],
+      [11, null],
+      [12, 12],
+      [13, 13],
+    ]);
+  });
+});
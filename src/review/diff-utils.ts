@@ -0,0 +1,167 @@
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+}
+
+export interface DiffFile {
+  /** null for files added by the diff. */
+  oldPath: string | null;
+  /** null for files deleted by the diff. */
+  newPath: string | null;
+  hunks: DiffHunk[];
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+const DIFF_HEADER = /^diff --git a\/(.+) b\/(.+)$/;
+
+function stripPathPrefix(raw: string, prefix: 'a/' | 'b/'): string | null {
+  const path = raw.replace(/\t.*$/, '');
+  if (path === '/dev/null') return null;
+  return path.startsWith(prefix) ? path.slice(prefix.length) : path;
+}
+
+/**
+ * Parse a unified `git diff` into per-file hunk ranges.
+ * Only headers are read; hunk bodies are skipped, so truncated diffs are tolerated.
+ */
+export function parseDiffFiles(diff: string): DiffFile[] {
+  const files: DiffFile[] = [];
+  let current: DiffFile | null = null;
+  for (const line of diff.split('\n')) {
+    const header = DIFF_HEADER.exec(line);
+    if (header) {
+      current = { oldPath: header[1], newPath: header[2], hunks: [] };
+      files.push(current);
+      continue;
+    }
+    if (!current) continue;
+    if (line.startsWith('--- ')) {
+      current.oldPath = stripPathPrefix(line.slice(4), 'a/');
+    } else if (line.startsWith('+++ ')) {
+      current.newPath = stripPathPrefix(line.slice(4), 'b/');
+    } else if (line.startsWith('rename from ')) {
+      current.oldPath = line.slice('rename from '.length);
+    } else if (line.startsWith('rename to ')) {
+      current.newPath = line.slice('rename to '.length);
+    } else if (line.startsWith('new file mode')) {
+      current.oldPath = null;
+    } else if (line.startsWith('deleted file mode')) {
+      current.newPath = null;
+    } else {
+      const hunk = HUNK_HEADER.exec(line);
+      if (hunk) {
+        current.hunks.push({
+          oldStart: Number(hunk[1]),
+          oldLines: hunk[2] === undefined ? 1 : Number(hunk[2]),
+          newStart: Number(hunk[3]),
+          newLines: hunk[4] === undefined ? 1 : Number(hunk[4]),
+        });
+      }
+    }
+  }
+  return files;
+}
+
+/**
+ * Map a line number on the old side of a diff to the new side.
+ * `touched` is true when the line itself was modified or removed.
+ */
+export function mapOldLine(
+  hunks: DiffHunk[],
+  line: number,
+): { line: number; touched: boolean } {
+  let offset = 0;
+  for (const hunk of hunks) {
+    const oldEnd = hunk.oldStart + hunk.oldLines - 1;
+    // Pure insertions (oldLines = 0) add lines after oldStart without touching it
+    if (hunk.oldLines > 0 && line >= hunk.oldStart && line <= oldEnd) {
+      return { line: Math.max(1, hunk.newStart), touched: true };
+    }
+    const insertedBefore =
+      hunk.oldLines === 0 ? line > hunk.oldStart : line > oldEnd;
+    if (!insertedBefore) break;
+    offset += hunk.newLines - hunk.oldLines;
+  }
+  return { line: line + offset, touched: false };
+}
+
+/**
+ * Walk the hunks of a unified diff, visiting every added and context line
+ * with its new-side number and, for context lines, its old-side number.
+ * Deleted files are skipped; truncated diffs are tolerated.
+ */
+function walkNewSide(
+  diff: string,
+  visit: (
+    path: string,
+    newLine: number,
+    oldLine: number | null,
+    text: string,
+  ) => void,
+): void {
+  let inHunk = false;
+  let newPath: string | null = null;
+  let nextNew = 0;
+  let nextOld = 0;
+  for (const line of diff.split('\n')) {
+    const header = DIFF_HEADER.exec(line);
+    if (header) {
+      newPath = header[2];
+      inHunk = false;
+      continue;
+    }
+    const hunk = HUNK_HEADER.exec(line);
+    if (hunk) {
+      inHunk = newPath !== null;
+      nextOld = Number(hunk[1]);
+      nextNew = Number(hunk[3]);
+      continue;
+    }
+    if (!inHunk || newPath === null) {
+      if (line.startsWith('+++ '))
+        newPath = stripPathPrefix(line.slice(4), 'b/');
+      continue;
+    }
+    if (line.startsWith('+')) {
+      visit(newPath, nextNew++, null, line.slice(1));
+    } else if (line.startsWith(' ')) {
+      visit(newPath, nextNew++, nextOld++, line.slice(1));
+    } else if (line.startsWith('-')) {
+      nextOld++;
+    }
+  }
+}
+
+/**
+ * New-side text of each file's hunks, keyed by new path: added and context
+ * lines by line number. Deleted files are left out; truncated diffs are tolerated.
+ */
+export function parseNewSideLines(
+  diff: string,
+): Map<string, Map<number, string>> {
+  const files = new Map<string, Map<number, string>>();
+  walkNewSide(diff, (path, newLine, _oldLine, text) => {
+    const lines = files.get(path) ?? new Map<number, string>();
+    files.set(path, lines);
+    lines.set(newLine, text);
+  });
+  return files;
+}
+
+/**
+ * Old-side line of each added or context line, keyed by new path and new
+ * line: the old line number for context lines, null for added lines.
+ */
+export function parseNewSideOrigins(
+  diff: string,
+): Map<string, Map<number, number | null>> {
+  const files = new Map<string, Map<number, number | null>>();
+  walkNewSide(diff, (path, newLine, oldLine) => {
+    const lines = files.get(path) ?? new Map<number, number | null>();
+    files.set(path, lines);
+    lines.set(newLine, oldLine);
+  });
+  return files;
+}
@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest';
+import {
+  anchorFinding,
+  anchorReviewResult,
+  reviewedFilesFromContent,
+  reviewedFilesFromDiff,
+} from './finding-anchors.js';
+import { ReviewFinding, ReviewResult } from './review.types.js';
+
+const FILES = reviewedFilesFromContent([
+  {
+    path: 'src/db.ts',
+    content: [
+      "import { pool } from './pool';",
+      '',
+      'export function find(id: string) {',
+      '  return pool.query(`SELECT * FROM users WHERE id = ${id}`);',
+      '}',
+    ].join('\n'),
+  },
+  { path: 'src/util/db.ts', content: 'export const x = 1;' },
+  { path: 'src/api.ts', content: 'export {};' },
+]);
+
+function finding(overrides: Partial<ReviewFinding>): ReviewFinding {
+  return {
+    severity: 'high',
+    category: 'security',
+    description: 'Query built with `SELECT * FROM users WHERE id`',
+    file: 'src/db.ts',
+    suggestion: 'Use parameters',
+    ...overrides,
+  };
+}
+
+describe('anchorFinding', () => {
+  it('should verify a line that holds the quoted code', () => {
+    expect(anchorFinding(finding({ line: 4 }), FILES)).toEqual(
+      finding({ line: 4, anchor: 'verified' }),
+    );
+  });
+
+  it('should move or fill in the line from the quoted code', () => {
+    expect(anchorFinding(finding({ line: 2 }), FILES)).toEqual(
+      finding({ line: 4, anchor: 'corrected' }),
+    );
+    expect(anchorFinding(finding({}), FILES)).toEqual(
+      finding({ line: 4, anchor: 'corrected' }),
+    );
+  });
+
+  it('should resolve a partial path only when it is unambiguous', () => {
+    expect(
+      anchorFinding(finding({ file: 'api.ts', description: 'x' }), FILES),
+    ).toEqual(
+      finding({ file: 'src/api.ts', description: 'x', anchor: 'corrected' }),
+    );
+    expect(anchorFinding(finding({ file: 'db.ts' }), FILES)).toEqual(
+      finding({ file: 'db.ts' }),
+    );
+  });
+
+  it('should drop a line past the end of the file', () => {
+    expect(
+      anchorFinding(finding({ line: 99, description: 'No quote' }), FILES),
+    ).toEqual(finding({ description: 'No quote', anchor: 'corrected' }));
+  });
+
+  it('should flag files that were not reviewed and leave unlocated findings alone', () => {
+    expect(
+      anchorFinding(finding({ file: 'src/auth.ts', line: 3 }), FILES),
+    ).toEqual(
+      finding({ file: 'src/auth.ts', line: 3, anchor: 'unknown-file' }),
+    );
+    expect(anchorFinding(finding({ file: undefined }), FILES)).toEqual(
+      finding({ file: undefined }),
+    );
+  });
+
+  it('should keep out-of-hunk lines of a diff but relocate quoted code', () => {
+    const reviewed = reviewedFilesFromDiff(
+      [
+        'diff --git a/src/app.ts b/src/app.ts',
+        '--- a/src/app.ts',
+        '+++ b/src/app.ts',
+        '@@ -10,2 +10,3 @@',
+        ' const a = 1;',
+        '+const token = process.env.TOKEN;',
+        ' const b = 2;',
+      ].join('\n'),
+    );
+    expect(
+      anchorFinding(finding({ file: 'src/app.ts', line: 200 }), reviewed),
+    ).toEqual(finding({ file: 'src/app.ts', line: 200 }));
+    expect(
+      anchorFinding(
+        finding({
+          file: 'src/app.ts',
+          line: 1,
+          description: 'Secret read from `process.env.TOKEN`',
+        }),
+        reviewed,
+      ),
+    ).toEqual(
+      finding({
+        file: 'src/app.ts',
+        line: 11,
+        description: 'Secret read from `process.env.TOKEN`',
+        anchor: 'corrected',
+      }),
+    );
+  });
+});
+
+describe('anchorReviewResult', () => {
+  it('should anchor reviewer findings and decisions and count the outcomes', () => {
+    const result: ReviewResult = {
+      id: 'review-1',
+      status: 'completed',
+      individualReviews: [
+        {
+          reviewer: 'Gemini',
+          review: '{}',
+          status: 'success',
+          findings: [finding({ line: 4 })],
+        },
+      ],
+      decision: {
+        reviewer: 'Claude (Decision Maker)',
+        overallAssessment: 'ok',
+        decisions: [
+          {
+            ...finding({ file: 'src/ghost.ts' }),
+            raisedBy: ['Gemini'],
+            verdict: 'accepted',
+            reasoning: 'r',
+          },
+        ],
+        additionalFindings: [finding({ line: 1 })],
+      },
+    };
+    expect(anchorReviewResult(result, FILES)).toEqual({
+      verified: 1,
+      corrected: 1,
+      unknownFile: 1,
+    });
+    expect(result.decision?.decisions[0].anchor).toBe('unknown-file');
+    expect(result.decision?.additionalFindings[0].line).toBe(4);
+  });
+});
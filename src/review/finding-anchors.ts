@@ -0,0 +1,173 @@
+import { FindingAnchor, ReviewResult } from './review.types.js';
+import { parseDiffFiles, parseNewSideLines } from './diff-utils.js';
+
+/** A file the reviewers saw, with the lines they saw when known. */
+export interface ReviewedFile {
+  path: string;
+  /** Line text by line number; undefined when only the path was reviewed (explore mode). */
+  lines?: Map<number, string>;
+  /** True when `lines` is the whole file, so a line past its end cannot exist. */
+  complete?: boolean;
+}
+
+export interface AnchorStats {
+  verified: number;
+  corrected: number;
+  unknownFile: number;
+}
+
+interface Locatable {
+  file?: string;
+  line?: number;
+  description: string;
+  anchor?: FindingAnchor;
+}
+
+/** Quoted code shorter than this is too generic to locate a line. */
+const MIN_SNIPPET_LENGTH = 4;
+
+/** Reviewed files of a diff review: every path in the diff, with the new side of its hunks. */
+export function reviewedFilesFromDiff(diff: string): ReviewedFile[] {
+  const lines = parseNewSideLines(diff);
+  const paths = new Set<string>();
+  for (const file of parseDiffFiles(diff)) {
+    const path = file.newPath ?? file.oldPath;
+    if (path) paths.add(path);
+  }
+  return [...paths].map((path) => ({ path, lines: lines.get(path) }));
+}
+
+/** Reviewed files with their full content (inline / batch modes), or paths only. */
+export function reviewedFilesFromContent(
+  files: { path: string; content?: string }[],
+): ReviewedFile[] {
+  return files.map((f) => {
+    if (f.content === undefined) return { path: f.path };
+    const lines = new Map<number, string>();
+    f.content.split('\n').forEach((text, i) => lines.set(i + 1, text));
+    return { path: f.path, lines, complete: true };
+  });
+}
+
+function normalizePath(file: string): string {
+  return file
+    .trim()
+    .replace(/\\/g, '/')
+    .replace(/^\.\//, '')
+    .replace(/^[ab]\//, '');
+}
+
+/**
+ * Reviewed files a model-typed path may refer to: an exact match, or else the
+ * reviewed paths that end with it (`db.ts` for `src/db.ts`) or that it ends
+ * with (an absolute path for a relative one).
+ */
+function resolveFile(file: string, reviewed: ReviewedFile[]): ReviewedFile[] {
+  const wanted = normalizePath(file);
+  const exact = reviewed.find((r) => normalizePath(r.path) === wanted);
+  if (exact) return [exact];
+  return reviewed.filter((r) => {
+    const path = normalizePath(r.path);
+    return path.endsWith(`/${wanted}`) || wanted.endsWith(`/${path}`);
+  });
+}
+
+/** `inline code` spans quoted in a finding's description. */
+function quotedSnippets(text: string): string[] {
+  return [...text.matchAll(/`([^`\n]+)`/g)]
+    .map((m) => m[1].trim())
+    .filter((s) => s.length >= MIN_SNIPPET_LENGTH);
+}
+
+/** Lines containing any quoted snippet; the first snippet that matches wins. */
+function snippetLines(
+  description: string,
+  lines: Map<number, string>,
+): number[] {
+  for (const snippet of quotedSnippets(description)) {
+    const matches = [...lines]
+      .filter(([, text]) => text.includes(snippet))
+      .map(([n]) => n);
+    if (matches.length > 0) return matches;
+  }
+  return [];
+}
+
+/**
+ * Check one finding's location against the reviewed files and fix it up where
+ * the evidence allows. Returns the anchored copy; the input is not modified.
+ */
+export function anchorFinding<T extends Locatable>(
+  finding: T,
+  reviewed: ReviewedFile[],
+): T {
+  if (!finding.file) return finding;
+  const candidates = resolveFile(finding.file, reviewed);
+  if (candidates.length === 0) return { ...finding, anchor: 'unknown-file' };
+  // Ambiguous short path: the file exists, but which one is unknown
+  if (candidates.length > 1) return finding;
+  const [file] = candidates;
+
+  const reported = finding.line;
+  let line = reported;
+  let corrected = file.path !== finding.file;
+  let verified = false;
+  if (file.lines) {
+    const matches = snippetLines(finding.description, file.lines);
+    if (reported !== undefined && matches.includes(reported)) {
+      verified = true;
+    } else if (reported !== undefined && matches.length > 0) {
+      // Closest occurrence of the quoted code to where the model pointed
+      line = matches.reduce((best, n) =>
+        Math.abs(n - reported) < Math.abs(best - reported) ? n : best,
+      );
+      corrected = true;
+    } else if (reported === undefined && matches.length === 1) {
+      line = matches[0];
+      corrected = true;
+    } else if (
+      reported !== undefined &&
+      file.complete &&
+      !file.lines.has(reported)
+    ) {
+      // Past the end of the file
+      line = undefined;
+      corrected = true;
+    }
+  }
+
+  const anchored: T = { ...finding, file: file.path, line };
+  if (line === undefined) delete anchored.line;
+  if (corrected) anchored.anchor = 'corrected';
+  else if (verified) anchored.anchor = 'verified';
+  return anchored;
+}
+
+/**
+ * Anchor every finding of a review — reviewer findings, decisions and the
+ * decision maker's own findings — against the reviewed files, in place.
+ */
+export function anchorReviewResult(
+  result: ReviewResult,
+  reviewed: ReviewedFile[],
+): AnchorStats {
+  const stats: AnchorStats = { verified: 0, corrected: 0, unknownFile: 0 };
+  const anchorAll = <T extends Locatable>(items: T[]): T[] =>
+    items.map((item) => {
+      const anchored = anchorFinding(item, reviewed);
+      if (anchored.anchor === 'verified') stats.verified++;
+      else if (anchored.anchor === 'corrected') stats.corrected++;
+      else if (anchored.anchor === 'unknown-file') stats.unknownFile++;
+      return anchored;
+    });
+  for (const review of result.individualReviews) {
+    if (review.findings) review.findings = anchorAll(review.findings);
+  }
+  if (result.decision) {
+    result.decision.decisions = anchorAll(result.decision.decisions);
+    result.decision.additionalFindings = anchorAll(
+      result.decision.additionalFindings,
+    );
+  }
+  return stats;
+}
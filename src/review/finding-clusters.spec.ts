@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import {
+  clusterFindings,
+  renderFindingClusters,
+  textSimilarity,
+} from './finding-clusters.js';
+import { IndividualReview, ReviewFinding } from './review.types.js';
+
+function review(reviewer: string, findings: ReviewFinding[]): IndividualReview {
+  return { reviewer, review: '{}', status: 'success', findings };
+}
+
+const injection: ReviewFinding = {
+  severity: 'medium',
+  category: 'security',
+  file: 'src/db.ts',
+  line: 12,
+  description: 'SQL query built by string concatenation',
+  suggestion: 'Use parameters',
+};
+
+describe('textSimilarity', () => {
+  it('should ignore case, whitespace and punctuation', () => {
+    expect(textSimilarity('Missing null check!', 'missing  null check')).toBe(
+      1,
+    );
+    expect(textSimilarity('缺少錯誤處理', '缺少錯誤處理。')).toBe(1);
+    expect(textSimilarity('Rename variable', 'SQL injection')).toBeLessThan(
+      0.2,
+    );
+  });
+});
+
+describe('clusterFindings', () => {
+  it('should merge the same issue across reviewers and keep the most severe wording', () => {
+    const clusters = clusterFindings([
+      review('Gemini', [injection]),
+      review('Codex', [
+        {
+          ...injection,
+          severity: 'high',
+          line: 14,
+          description: 'Query concatenates user input (SQL injection)',
+        },
+      ]),
+      review('Claude', [
+        {
+          ...injection,
+          file: './src/db.ts',
+          line: undefined,
+          description: 'SQL query is built by string concatenation',
+        },
+      ]),
+    ]);
+    expect(clusters).toEqual([
+      {
+        ...injection,
+        severity: 'high',
+        line: 14,
+        description: 'Query concatenates user input (SQL injection)',
+        raisedBy: ['Gemini', 'Codex', 'Claude'],
+      },
+    ]);
+  });
+
+  it('should keep one reviewer’s distinct issues and other files apart', () => {
+    const clusters = clusterFindings([
+      review('Gemini', [
+        injection,
+        { ...injection, line: 13, description: 'Connection is never closed' },
+      ]),
+      review('Codex', [{ ...injection, file: 'src/api.ts' }]),
+      review('Claude', [
+        { ...injection, severity: 'low', description: 'Rename variable q' },
+        injection,
+      ]),
+    ]);
+    expect(clusters.map((c) => [c.file, c.description, c.raisedBy])).toEqual([
+      ['src/db.ts', injection.description, ['Gemini', 'Claude']],
+      ['src/db.ts', 'Connection is never closed', ['Gemini']],
+      ['src/api.ts', injection.description, ['Codex']],
+      ['src/db.ts', 'Rename variable q', ['Claude']],
+    ]);
+  });
+});
+
+describe('renderFindingClusters', () => {
+  it('should report how many reviewers raised each issue', () => {
+    expect(
+      renderFindingClusters(
+        [{ ...injection, raisedBy: ['Gemini', 'Claude'] }],
+        3,
+      ),
+    ).toBe(
+      '1. [medium][security] src/db.ts:12 — SQL query built by string concatenation → Use parameters (raised by 2/3: Gemini, Claude)',
+    );
+  });
+});
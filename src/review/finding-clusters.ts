@@ -0,0 +1,140 @@
+import { IndividualReview, ReviewFinding } from './review.types.js';
+import { formatFindingLocation } from './review-findings.js';
+
+/** Findings from several reviewers that describe the same issue. */
+export interface FindingCluster extends ReviewFinding {
+  /** Reviewers that reported the issue, in review order; its length is the agreement signal. */
+  raisedBy: string[];
+}
+
+const SEVERITY_RANK: Record<ReviewFinding['severity'], number> = {
+  low: 0,
+  medium: 1,
+  high: 2,
+};
+
+/** Items on the same file within this many lines are treated as the same issue. */
+const LINE_PROXIMITY = 3;
+/** Minimum bigram similarity for two descriptions to count as the same issue. */
+const SIMILARITY_THRESHOLD = 0.5;
+
+/**
+ * Character bigrams of the lowercased text without whitespace and punctuation;
+ * works for CJK text, which has no word boundaries.
+ */
+function bigrams(text: string): Set<string> {
+  const normalized = text.toLowerCase().replace(/[\s\p{P}\p{S}]+/gu, '');
+  const result = new Set<string>();
+  for (let i = 0; i < normalized.length - 1; i++) {
+    result.add(normalized.slice(i, i + 2));
+  }
+  return result;
+}
+
+export function textSimilarity(a: string, b: string): number {
+  const x = bigrams(a);
+  const y = bigrams(b);
+  if (x.size === 0 || y.size === 0) return a.trim() === b.trim() ? 1 : 0;
+  let shared = 0;
+  for (const g of x) if (y.has(g)) shared++;
+  return shared / (x.size + y.size - shared);
+}
+
+function normalizeFile(file?: string): string {
+  return (file ?? '').trim().replace(/^\.\//, '').toLowerCase();
+}
+
+/**
+ * Whether two items describe the same issue: same file, and either nearby lines
+ * with loosely similar descriptions or closely similar descriptions.
+ */
+export function sameIssue(
+  a: { file?: string; line?: number; description: string },
+  b: { file?: string; line?: number; description: string },
+): boolean {
+  if (normalizeFile(a.file) !== normalizeFile(b.file)) return false;
+  const similarity = textSimilarity(a.description, b.description);
+  if (
+    a.file &&
+    a.line !== undefined &&
+    b.line !== undefined &&
+    Math.abs(a.line - b.line) <= LINE_PROXIMITY &&
+    similarity >= SIMILARITY_THRESHOLD / 2
+  ) {
+    return true;
+  }
+  return similarity >= SIMILARITY_THRESHOLD;
+}
+
+/**
+ * Group items from several sources (reviewers, judges); each group holds at
+ * most one item per source, so one source's distinct issues stay apart.
+ */
+export function groupAcrossSources<T extends { description: string }>(
+  items: { source: string; item: T }[],
+  matches: (a: T, b: T) => boolean,
+): { source: string; item: T }[][] {
+  const groups: { source: string; item: T }[][] = [];
+  for (const entry of items) {
+    const group = groups.find(
+      (g) =>
+        !g.some((e) => e.source === entry.source) &&
+        matches(g[0].item, entry.item),
+    );
+    if (group) group.push(entry);
+    else groups.push([entry]);
+  }
+  return groups;
+}
+
+/**
+ * Merge the structured findings of all reviewers into clusters of the same
+ * issue. The most severe member is the representative; clusters are sorted by
+ * severity, then by how many reviewers raised them.
+ */
+export function clusterFindings(reviews: IndividualReview[]): FindingCluster[] {
+  const groups = groupAcrossSources<ReviewFinding>(
+    reviews.flatMap((r) =>
+      (r.findings ?? []).map((item) => ({ source: r.reviewer, item })),
+    ),
+    sameIssue,
+  );
+  const clusters = groups.map((group): FindingCluster => {
+    const representative = group.reduce((best, e) =>
+      SEVERITY_RANK[e.item.severity] > SEVERITY_RANK[best.item.severity]
+        ? e
+        : best,
+    ).item;
+    const file =
+      representative.file ?? group.find((e) => e.item.file)?.item.file;
+    const line =
+      representative.line ??
+      group.find((e) => e.item.line !== undefined)?.item.line;
+    return {
+      ...representative,
+      ...(file ? { file } : {}),
+      ...(line ? { line } : {}),
+      raisedBy: group.map((e) => e.source),
+    };
+  });
+  return clusters.sort(
+    (a, b) =>
+      SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity] ||
+      b.raisedBy.length - a.raisedBy.length,
+  );
+}
+
+/** One line per cluster, with `(raised by k/N: ...)` as the agreement signal. */
+export function renderFindingClusters(
+  clusters: FindingCluster[],
+  reviewerCount: number,
+): string {
+  return clusters
+    .map((c, i) => {
+      const location = formatFindingLocation(c);
+      const where = location ? ` ${location}` : '';
+      const suggestion = c.suggestion ? ` → ${c.suggestion}` : '';
+      return `${i + 1}. [${c.severity}][${c.category}]${where} — ${c.description}${suggestion} (raised by ${c.raisedBy.length}/${reviewerCount}: ${c.raisedBy.join(', ')})`;
+    })
+    .join('\n');
+}
@@ -0,0 +1,200 @@
+import { Test } from '@nestjs/testing';
+import { ConsoleLogger } from '@nestjs/common';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { simpleGit } from 'simple-git';
+import { FixService } from './fix.service.js';
+import { AcpService } from '../acp/acp.service.js';
+import { ConfigService } from '../config/config.service.js';
+import { CodeReaderService } from './code-reader.service.js';
+import { ReviewDecisionItem, ReviewResult } from './review.types.js';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+const GOOD_PATCH = [
+  'diff --git a/src/app.ts b/src/app.ts',
+  '--- a/src/app.ts',
+  '+++ b/src/app.ts',
+  '@@ -1,2 +1,2 @@',
+  '-const total = price * qty',
+  '+const total = price * qty;',
+  ' export { total };',
+].join('\n');
+
+const BAD_PATCH = GOOD_PATCH.replace('price * qty', 'price + qty');
+
+function decision(overrides: Partial<ReviewDecisionItem>): ReviewDecisionItem {
+  return {
+    severity: 'low',
+    category: 'readability',
+    description: 'Missing semicolon',
+    file: 'app.ts',
+    line: 1,
+    raisedBy: ['Gemini'],
+    verdict: 'accepted',
+    reasoning: 'Consistent style',
+    suggestion: 'Add a semicolon',
+    ...overrides,
+  };
+}
+
+function makeResult(decisions: ReviewDecisionItem[]): ReviewResult {
+  return {
+    id: 'review-1',
+    status: 'completed',
+    individualReviews: [],
+    decision: {
+      reviewer: 'Claude (Decision Maker)',
+      overallAssessment: '',
+      decisions,
+      additionalFindings: [],
+    },
+  };
+}
+
+describe('FixService', () => {
+  let service: FixService;
+  let repo: string;
+  const mockAcpService = {
+    createClient: vi.fn().mockResolvedValue({ name: 'Fixer', client: {} }),
+    sendPrompt: vi.fn(),
+    stopClient: vi.fn().mockResolvedValue(undefined),
+  };
+  const mockConfigService = {
+    getConfig: vi.fn(),
+  };
+  const mockCodeReader = {
+    isSensitiveFile: vi.fn((path: string) => path.endsWith('.env')),
+  };
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    repo = await mkdtemp(join(tmpdir(), 'cr-fix-'));
+    const git = simpleGit(repo);
+    await git.init();
+    await git.addConfig('user.email', 'test@test.com');
+    await git.addConfig('user.name', 'Test');
+    await writeFile(join(repo, 'README.md'), '# app\n');
+    await git.add('README.md');
+    await git.commit('initial commit');
+    await mkdir(join(repo, 'src'));
+    await writeFile(
+      join(repo, 'src', 'app.ts'),
+      'const total = price * qty\nexport { total };\n',
+    );
+
+    mockAcpService.createClient.mockResolvedValue({
+      name: 'Fixer',
+      client: {},
+    });
+    mockAcpService.stopClient.mockResolvedValue(undefined);
+    mockConfigService.getConfig.mockReturnValue({
+      decisionMaker: { name: 'Claude', cliPath: 'claude', cliArgs: [] },
+      review: {},
+      fix: {
+        enabled: true,
+        agent: { name: 'Fixer', cliPath: 'fixer', cliArgs: [] },
+      },
+    });
+    const module = await Test.createTestingModule({
+      providers: [
+        FixService,
+        { provide: ConsoleLogger, useValue: new ConsoleLogger() },
+        { provide: AcpService, useValue: mockAcpService },
+        { provide: ConfigService, useValue: mockConfigService },
+        { provide: CodeReaderService, useValue: mockCodeReader },
+      ],
+    }).compile();
+    service = module.get(FixService);
+  });
+
+  afterEach(async () => {
+    await rm(repo, { recursive: true, force: true });
+  });
+
+  it('should attach checked patches to the decisions they fix', async () => {
+    mockAcpService.sendPrompt.mockResolvedValue(
+      JSON.stringify({
+        fixes: [
+          { finding: 1, patch: GOOD_PATCH },
+          { finding: 3, patch: `\`\`\`diff\n${BAD_PATCH}\n\`\`\`` },
+        ],
+      }),
+    );
+    const result = makeResult([
+      decision({}),
+      decision({ verdict: 'rejected' }),
+      decision({ description: 'Wrong operator' }),
+      decision({ file: '.env' }),
+    ]);
+
+    await service.attachFixes(result, { dir: join(repo, 'src') });
+
+    const [first, rejected, third, sensitive] = result.decision!.decisions;
+    expect(first.fix).toEqual({ patch: `${GOOD_PATCH}\n`, status: 'valid' });
+    expect(third.fix).toMatchObject({
+      patch: `${BAD_PATCH}\n`,
+      status: 'invalid',
+    });
+    expect(third.fix?.error).toContain('patch does not apply');
+    expect(rejected.fix).toBeUndefined();
+    expect(sensitive.fix).toBeUndefined();
+
+    // Created without a cwd so the agent cannot work in the reviewed tree
+    expect(mockAcpService.createClient.mock.calls[0][0]).toMatchObject({
+      name: 'Fixer',
+    });
+    expect(mockAcpService.createClient.mock.calls[0][1]).toBeUndefined();
+    const prompt = mockAcpService.sendPrompt.mock.calls[0][1] as string;
+    expect(prompt).toContain(
+      'Do NOT use any tools. Do NOT read or modify files on the filesystem.',
+    );
+    expect(prompt).toContain(
+      '#1 [low][readability] src/app.ts:1 — Missing semicolon',
+    );
+    expect(prompt).toContain(
+      '#3 [low][readability] src/app.ts:1 — Wrong operator',
+    );
+    expect(prompt).not.toContain('#2 ');
+    expect(prompt).toContain('const total = price * qty');
+    expect(mockAcpService.stopClient).toHaveBeenCalledTimes(1);
+    // The reviewed tree is left untouched
+    expect(await readFile(join(repo, 'src', 'app.ts'), 'utf-8')).toBe(
+      'const total = price * qty\nexport { total };\n',
+    );
+  });
+
+  it('should treat diff finding paths as relative to the repository root', async () => {
+    mockAcpService.sendPrompt.mockResolvedValue(
+      JSON.stringify({ fixes: [{ finding: 1, patch: GOOD_PATCH }] }),
+    );
+    const result = makeResult([decision({ file: 'src/app.ts' })]);
+
+    await service.attachFixes(result, { dir: repo, rootRelative: true });
+
+    expect(result.decision!.decisions[0].fix?.status).toBe('valid');
+  });
+
+  it('should do nothing unless the fix phase is enabled', async () => {
+    mockConfigService.getConfig.mockReturnValue({
+      decisionMaker: { name: 'Claude', cliPath: 'claude', cliArgs: [] },
+      review: {},
+    });
+    const result = makeResult([decision({})]);
+
+    await service.attachFixes(result, { dir: join(repo, 'src') });
+
+    expect(mockAcpService.createClient).not.toHaveBeenCalled();
+    expect(result.decision!.decisions[0].fix).toBeUndefined();
+  });
+
+  it('should not fail the review when the fix agent fails', async () => {
+    mockAcpService.sendPrompt.mockRejectedValue(new Error('agent crashed'));
+    const result = makeResult([decision({})]);
+
+    await expect(
+      service.attachFixes(result, { dir: join(repo, 'src') }),
+    ).resolves.toBeUndefined();
+    expect(result.decision!.decisions[0].fix).toBeUndefined();
+  });
+});
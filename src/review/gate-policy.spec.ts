@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateGate, resolveGatePolicy } from './gate-policy.js';
+import { ReviewResult } from './review.types.js';
+import { EXIT_CODES } from '../constants.js';
+
+function makeResult(overrides: Partial<ReviewResult> = {}): ReviewResult {
+  return {
+    id: 'review-1234abcd',
+    status: 'completed',
+    individualReviews: [
+      { reviewer: 'Gemini', review: 'LGTM', status: 'success' },
+    ],
+    decision: {
+      reviewer: 'Claude (Decision Maker)',
+      overallAssessment: 'Mostly fine.',
+      decisions: [
+        {
+          severity: 'high',
+          category: 'security',
+          description: 'SQL injection',
+          raisedBy: ['Gemini'],
+          verdict: 'rejected',
+          reasoning: 'Input is a constant',
+          suggestion: 'Use parameters',
+        },
+        {
+          severity: 'medium',
+          category: 'performance',
+          description: 'N+1 query',
+          raisedBy: ['Gemini'],
+          verdict: 'modified',
+          reasoning: 'Only on large lists',
+          suggestion: 'Batch the query',
+        },
+      ],
+      additionalFindings: [
+        {
+          severity: 'low',
+          category: 'security',
+          description: 'Verbose error message',
+          suggestion: 'Hide stack traces',
+        },
+      ],
+    },
+    ...overrides,
+  };
+}
+
+describe('resolveGatePolicy', () => {
+  it('should be disabled when neither CLI nor config sets a policy', () => {
+    expect(resolveGatePolicy(undefined, undefined, {})).toEqual({
+      failOn: undefined,
+      failOnCategories: undefined,
+    });
+  });
+
+  it('should let CLI options override config', () => {
+    expect(
+      resolveGatePolicy('HIGH', 'security, other', {
+        failOn: 'low',
+        failOnCategories: ['performance'],
+      }),
+    ).toEqual({ failOn: 'high', failOnCategories: ['security', 'other'] });
+  });
+
+  it('should fall back to config and treat "none" as no severity gate', () => {
+    expect(
+      resolveGatePolicy(undefined, undefined, {
+        failOn: 'none',
+        failOnCategories: ['security'],
+      }),
+    ).toEqual({ failOn: undefined, failOnCategories: ['security'] });
+    expect(
+      resolveGatePolicy('none', undefined, { failOn: 'medium' }).failOn,
+    ).toBeUndefined();
+  });
+
+  it('should reject unknown severities and categories', () => {
+    expect(() => resolveGatePolicy('critical', undefined, {})).toThrow(
+      'Invalid --fail-on',
+    );
+    expect(() => resolveGatePolicy(undefined, 'security,style', {})).toThrow(
+      'Invalid --fail-on-category: style',
+    );
+  });
+});
+
+describe('evaluateGate', () => {
+  it('should never block without a policy', () => {
+    expect(evaluateGate(makeResult(), {})).toEqual({
+      exitCode: EXIT_CODES.ok,
+      blocking: [],
+    });
+  });
+
+  it('should ignore rejected decisions', () => {
+    const outcome = evaluateGate(makeResult(), { failOn: 'high' });
+    expect(outcome.exitCode).toBe(EXIT_CODES.ok);
+  });
+
+  it('should block on modified decisions and additional findings at or above the threshold', () => {
+    const outcome = evaluateGate(makeResult(), { failOn: 'low' });
+    expect(outcome.exitCode).toBe(EXIT_CODES.blocking);
+    expect(outcome.blocking.map((i) => [i.description, i.source])).toEqual([
+      ['N+1 query', 'decision'],
+      ['Verbose error message', 'additional'],
+    ]);
+  });
+
+  it('should require both severity and category when both are set', () => {
+    const outcome = evaluateGate(makeResult(), {
+      failOn: 'medium',
+      failOnCategories: ['security'],
+    });
+    expect(outcome.exitCode).toBe(EXIT_CODES.ok);
+    const categoryOnly = evaluateGate(makeResult(), {
+      failOnCategories: ['security'],
+    });
+    expect(categoryOnly.blocking.map((i) => i.description)).toEqual([
+      'Verbose error message',
+    ]);
+  });
+
+  it('should include findings carried forward by incremental reviews', () => {
+    const outcome = evaluateGate(
+      makeResult({
+        carriedFindings: [
+          {
+            severity: 'high',
+            category: 'security',
+            description: 'Hardcoded token',
+            suggestion: 'Use a secret store',
+            fromReviewId: 'review-prior111',
+            status: 'unchanged',
+          },
+        ],
+      }),
+      { failOn: 'high' },
+    );
+    expect(outcome.blocking.map((i) => i.source)).toEqual(['carried']);
+  });
+
+  it('should report failed reviews ahead of blocking issues', () => {
+    const outcome = evaluateGate(makeResult({ status: 'failed' }), {
+      failOn: 'low',
+    });
+    expect(outcome.exitCode).toBe(EXIT_CODES.failed);
+  });
+
+  it('should report partial results only when nothing blocks', () => {
+    const partial = makeResult({ status: 'partial' });
+    expect(evaluateGate(partial, { failOn: 'high' }).exitCode).toBe(
+      EXIT_CODES.partial,
+    );
+    expect(evaluateGate(partial, { failOn: 'medium' }).exitCode).toBe(
+      EXIT_CODES.blocking,
+    );
+  });
+});
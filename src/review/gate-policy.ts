@@ -0,0 +1,150 @@
+import { EXIT_CODES } from '../constants.js';
+import { ReviewConfig } from '../config/config.types.js';
+import { VALID_CATEGORIES } from './review-findings.js';
+import {
+  AdditionalFinding,
+  CarriedFinding,
+  ReviewCategory,
+  ReviewDecisionItem,
+  ReviewFinding,
+  ReviewResult,
+} from './review.types.js';
+
+export const GATE_SEVERITIES = ['high', 'medium', 'low', 'none'] as const;
+export type GateSeverity = (typeof GATE_SEVERITIES)[number];
+
+/**
+ * Which final findings should fail a CI run.
+ * When both fields are set, a finding blocks only if it meets the severity
+ * threshold AND belongs to one of the categories.
+ */
+export interface GatePolicy {
+  failOn?: ReviewFinding['severity'];
+  failOnCategories?: ReviewCategory[];
+}
+
+export type GateItem =
+  | (ReviewDecisionItem & { source: 'decision' })
+  | (AdditionalFinding & { source: 'additional' })
+  | (CarriedFinding & { source: 'carried' });
+
+export interface GateOutcome {
+  exitCode: number;
+  blocking: GateItem[];
+}
+
+const SEVERITY_RANK: Record<ReviewFinding['severity'], number> = {
+  low: 0,
+  medium: 1,
+  high: 2,
+};
+
+export function isGateSeverity(value: unknown): value is GateSeverity {
+  return (
+    typeof value === 'string' &&
+    (GATE_SEVERITIES as readonly string[]).includes(value)
+  );
+}
+
+/**
+ * Build the gate policy from --fail-on / --fail-on-category, falling back to
+ * `review.failOn` / `review.failOnCategories` in config. CLI values override
+ * config; `--fail-on none` disables the severity gate.
+ */
+export function resolveGatePolicy(
+  failOnOption: string | undefined,
+  categoriesOption: string | undefined,
+  reviewConfig: Pick<ReviewConfig, 'failOn' | 'failOnCategories'>,
+): GatePolicy {
+  const rawFailOn = failOnOption?.trim().toLowerCase() ?? reviewConfig.failOn;
+  if (rawFailOn !== undefined && !isGateSeverity(rawFailOn)) {
+    throw new Error(
+      `Invalid --fail-on: "${rawFailOn}". Valid values: ${GATE_SEVERITIES.join(', ')}`,
+    );
+  }
+  const categories =
+    categoriesOption !== undefined
+      ? categoriesOption
+          .split(',')
+          .map((c) => c.trim().toLowerCase())
+          .filter(Boolean)
+      : reviewConfig.failOnCategories;
+  const invalid = categories?.filter((c) => !VALID_CATEGORIES.has(c)) ?? [];
+  if (invalid.length > 0) {
+    throw new Error(
+      `Invalid --fail-on-category: ${invalid.join(', ')}. Valid categories: ${[...VALID_CATEGORIES].join(', ')}`,
+    );
+  }
+  return {
+    failOn: rawFailOn && rawFailOn !== 'none' ? rawFailOn : undefined,
+    failOnCategories:
+      categories && categories.length > 0
+        ? (categories as ReviewCategory[])
+        : undefined,
+  };
+}
+
+export function isGateEnabled(policy: GatePolicy): boolean {
+  return policy.failOn !== undefined || policy.failOnCategories !== undefined;
+}
+
+function matchesPolicy(
+  item: { severity: ReviewFinding['severity']; category: ReviewCategory },
+  policy: GatePolicy,
+): boolean {
+  if (!isGateEnabled(policy)) return false;
+  if (
+    policy.failOn &&
+    SEVERITY_RANK[item.severity] < SEVERITY_RANK[policy.failOn]
+  ) {
+    return false;
+  }
+  if (
+    policy.failOnCategories &&
+    !policy.failOnCategories.includes(item.category)
+  ) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Evaluate the final decision against the gate policy.
+ * Accepted/modified decisions, additional findings and findings carried
+ * forward by an incremental review are checked; rejected decisions never
+ * block. Exit code precedence: failed > blocking > partial.
+ */
+export function evaluateGate(
+  result: ReviewResult,
+  policy: GatePolicy,
+): GateOutcome {
+  const decision = result.decision;
+  const candidates: GateItem[] = [
+    ...(decision
+      ? [
+          ...decision.decisions
+            .filter((d) => d.verdict !== 'rejected')
+            .map((d) => ({ ...d, source: 'decision' as const })),
+          ...decision.additionalFindings.map((f) => ({
+            ...f,
+            source: 'additional' as const,
+          })),
+        ]
+      : []),
+    ...(result.carriedFindings ?? []).map((f) => ({
+      ...f,
+      source: 'carried' as const,
+    })),
+  ];
+  const blocking = candidates.filter((item) => matchesPolicy(item, policy));
+
+  let exitCode: number = EXIT_CODES.ok;
+  if (result.status === 'failed') {
+    exitCode = EXIT_CODES.failed;
+  } else if (blocking.length > 0) {
+    exitCode = EXIT_CODES.blocking;
+  } else if (result.status === 'partial') {
+    exitCode = EXIT_CODES.partial;
+  }
+  return { exitCode, blocking };
+}
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import {
+  carryForwardFindings,
+  collectPriorFindings,
+} from './incremental-review.js';
+import { CarriedFinding, ReviewResult } from './review.types.js';
+
+function finding(overrides: Partial<CarriedFinding> = {}): CarriedFinding {
+  return {
+    severity: 'medium',
+    category: 'code-quality',
+    description: 'Issue',
+    suggestion: 'Fix it',
+    fromReviewId: 'review-prior111',
+    status: 'unchanged',
+    ...overrides,
+  };
+}
+
+const DIFF = [
+  'diff --git a/src/app.ts b/src/app.ts',
+  '--- a/src/app.ts',
+  '+++ b/src/app.ts',
+  '@@ -10,2 +10,4 @@',
+  'diff --git a/src/gone.ts b/src/gone.ts',
+  'deleted file mode 100644',
+  '--- a/src/gone.ts',
+  '+++ /dev/null',
+  '@@ -1,3 +0,0 @@',
+  'diff --git a/src/old.ts b/src/new.ts',
+  'rename from src/old.ts',
+  'rename to src/new.ts',
+].join('\n');
+
+describe('collectPriorFindings', () => {
+  it('should collect accepted items, additional findings and earlier carried findings', () => {
+    const result: ReviewResult = {
+      id: 'review-prior111',
+      status: 'completed',
+      individualReviews: [],
+      decision: {
+        reviewer: 'DM',
+        overallAssessment: '',
+        decisions: [
+          {
+            severity: 'high',
+            category: 'security',
+            description: 'Kept',
+            file: 'src/app.ts',
+            line: 3,
+            raisedBy: ['Gemini'],
+            verdict: 'modified',
+            reasoning: '',
+            suggestion: 'Fix',
+          },
+          {
+            severity: 'low',
+            category: 'readability',
+            description: 'Dropped',
+            raisedBy: ['Gemini'],
+            verdict: 'rejected',
+            reasoning: '',
+            suggestion: '',
+          },
+        ],
+        additionalFindings: [
+          {
+            severity: 'low',
+            category: 'other',
+            description: 'Extra',
+            suggestion: 'Tidy',
+          },
+        ],
+      },
+      carriedFindings: [finding({ fromReviewId: 'review-older00' })],
+    };
+    const prior = collectPriorFindings(result);
+    expect(prior.map((f) => [f.description, f.fromReviewId])).toEqual([
+      ['Issue', 'review-older00'],
+      ['Kept', 'review-prior111'],
+      ['Extra', 'review-prior111'],
+    ]);
+    expect(prior[1]).toMatchObject({ file: 'src/app.ts', line: 3 });
+  });
+});
+
+describe('carryForwardFindings', () => {
+  it('should keep findings in files the diff did not touch', () => {
+    const f = finding({ file: 'src/other.ts', line: 4 });
+    expect(carryForwardFindings([f], DIFF)).toEqual([f]);
+  });
+
+  it('should shift untouched lines and flag touched ones', () => {
+    const carried = carryForwardFindings(
+      [
+        finding({ file: './src/app.ts', line: 30 }),
+        finding({ file: 'src/app.ts', line: 11 }),
+      ],
+      DIFF,
+    );
+    expect(carried.map((f) => [f.line, f.status])).toEqual([
+      [32, 'unchanged'],
+      [10, 'needs-recheck'],
+    ]);
+  });
+
+  it('should flag findings without a line when their file changed', () => {
+    const [carried] = carryForwardFindings(
+      [finding({ file: 'src/app.ts' })],
+      DIFF,
+    );
+    expect(carried.status).toBe('needs-recheck');
+  });
+
+  it('should drop findings in deleted files and follow renames', () => {
+    const carried = carryForwardFindings(
+      [
+        finding({ file: 'src/gone.ts', line: 2 }),
+        finding({ file: 'src/old.ts' }),
+      ],
+      DIFF,
+    );
+    expect(carried).toEqual([finding({ file: 'src/new.ts' })]);
+  });
+
+  it('should keep earlier needs-recheck status', () => {
+    const f = finding({ file: 'src/app.ts', line: 1, status: 'needs-recheck' });
+    expect(carryForwardFindings([f], DIFF)[0].status).toBe('needs-recheck');
+  });
+});
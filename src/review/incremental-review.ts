@@ -0,0 +1,86 @@
+import { CarriedFinding, ReviewResult } from './review.types.js';
+import { DiffFile, mapOldLine, parseDiffFiles } from './diff-utils.js';
+
+function normalizePath(file: string): string {
+  return file.replace(/\\/g, '/').replace(/^\.\//, '');
+}
+
+/**
+ * Findings a previous review stands behind: accepted/modified decisions,
+ * additional findings, and whatever it carried forward itself.
+ */
+export function collectPriorFindings(result: ReviewResult): CarriedFinding[] {
+  const fromReviewId = result.id;
+  const decision = result.decision;
+  const own: CarriedFinding[] = decision
+    ? [
+        ...decision.decisions
+          .filter((d) => d.verdict !== 'rejected')
+          .map((d) => ({
+            severity: d.severity,
+            category: d.category,
+            description: d.description,
+            file: d.file,
+            line: d.line,
+            suggestion: d.suggestion,
+            fromReviewId,
+            status: 'unchanged' as const,
+          })),
+        ...decision.additionalFindings.map((f) => ({
+          severity: f.severity,
+          category: f.category,
+          description: f.description,
+          file: f.file,
+          line: f.line,
+          suggestion: f.suggestion,
+          fromReviewId,
+          status: 'unchanged' as const,
+        })),
+      ]
+    : [];
+  return [...(result.carriedFindings ?? []), ...own];
+}
+
+/**
+ * Re-anchor prior findings against the diff since the previous review.
+ * Findings in untouched code keep their status (line numbers are shifted);
+ * findings whose lines — or file, when no line is known — changed become
+ * `needs-recheck`; findings in deleted files are dropped.
+ */
+export function carryForwardFindings(
+  prior: CarriedFinding[],
+  diff: string,
+): CarriedFinding[] {
+  const byOldPath = new Map<string, DiffFile>();
+  for (const file of parseDiffFiles(diff)) {
+    if (file.oldPath) byOldPath.set(file.oldPath, file);
+  }
+  const carried: CarriedFinding[] = [];
+  for (const finding of prior) {
+    const changed = finding.file
+      ? byOldPath.get(normalizePath(finding.file))
+      : undefined;
+    if (!changed) {
+      carried.push(finding);
+      continue;
+    }
+    if (changed.newPath === null) continue;
+    const file =
+      changed.newPath !== changed.oldPath ? changed.newPath : finding.file;
+    if (finding.line === undefined) {
+      // A pure rename has no hunks and leaves the finding's code as it was
+      const status =
+        changed.hunks.length > 0 ? 'needs-recheck' : finding.status;
+      carried.push({ ...finding, file, status });
+      continue;
+    }
+    const mapped = mapOldLine(changed.hunks, finding.line);
+    carried.push({
+      ...finding,
+      file,
+      line: mapped.line,
+      status: mapped.touched ? 'needs-recheck' : finding.status,
+    });
+  }
+  return carried;
+}
@@ -0,0 +1,222 @@
+/**
+ * Tolerant JSON extraction for LLM responses. Models frequently wrap JSON in
+ * markdown fences, surround it with prose, add comments or trailing commas, or
+ * emit raw newlines inside string values; these helpers try each repair in turn.
+ */
+
+/** Parse the first JSON object found in `response`, or null if no strategy succeeds. */
+export function parseJsonObject(
+  response: string,
+): Record<string, unknown> | null {
+  for (const candidate of buildParseCandidates(response)) {
+    try {
+      const parsed: unknown = JSON.parse(candidate);
+      if (
+        typeof parsed !== 'object' ||
+        parsed === null ||
+        Array.isArray(parsed)
+      ) {
+        continue;
+      }
+      return parsed as Record<string, unknown>;
+    } catch {
+      continue;
+    }
+  }
+  return null;
+}
+
+/** Generate candidate JSON strings from the raw response, ordered by parsing strategy. */
+export function buildParseCandidates(response: string): string[] {
+  const candidates: string[] = [];
+  // Strategy 1: direct parse
+  const trimmed = response.trim();
+  candidates.push(trimmed);
+  // Strategy 2: strip markdown fences (skip if identical to Strategy 1)
+  const stripped = response
+    .replace(/```json\s*/g, '')
+    .replace(/```\s*/g, '')
+    .trim();
+  if (stripped !== trimmed) {
+    candidates.push(stripped);
+  }
+  // Strategy 3: balanced JSON extraction
+  const jsonStr = extractBalancedJson(stripped);
+  if (jsonStr) {
+    candidates.push(jsonStr);
+    // Strategy 3b: strip JS-style comments and trailing commas
+    const stripped3b = stripJsonArtifacts(jsonStr);
+    candidates.push(stripped3b);
+    // Strategy 3c: escape unescaped control characters inside string values
+    candidates.push(sanitizeJsonControlChars(jsonStr));
+    candidates.push(sanitizeJsonControlChars(stripped3b));
+  }
+  return candidates;
+}
+
+/**
+ * Escape unescaped control characters (newlines, tabs, etc.) inside JSON string values.
+ * Some LLMs emit raw newlines within string values, which is invalid per JSON spec.
+ */
+export function sanitizeJsonControlChars(text: string): string {
+  let result = '';
+  let inString = false;
+  let escape = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (escape) {
+      escape = false;
+      result += ch;
+      continue;
+    }
+    if (inString) {
+      if (ch === '\\') {
+        escape = true;
+        result += ch;
+        continue;
+      }
+      if (ch === '"') {
+        inString = false;
+        result += ch;
+        continue;
+      }
+      const code = ch.charCodeAt(0);
+      if (code === 0x0a) {
+        result += '\\n';
+        continue;
+      }
+      if (code === 0x0d) {
+        result += '\\r';
+        continue;
+      }
+      if (code === 0x09) {
+        result += '\\t';
+        continue;
+      }
+      if (code < 0x20) {
+        result += `\\u${code.toString(16).padStart(4, '0')}`;
+        continue;
+      }
+      result += ch;
+      continue;
+    }
+    if (ch === '"') {
+      inString = true;
+    }
+    result += ch;
+  }
+  return result;
+}
+
+/**
+ * Extract a balanced JSON object from text by tracking brace depth.
+ *
+ * State machine:
+ *   outside-string: track { (depth++) and } (depth--); " → enter string
+ *   inside-string:  \ → enter escape; " → exit string; other chars ignored
+ *   escape:         consume one char unconditionally → back to inside-string
+ *
+ * Returns the first balanced {...} substring, or null if none found.
+ */
+export function extractBalancedJson(text: string): string | null {
+  let searchFrom = 0;
+  while (searchFrom < text.length) {
+    const start = text.indexOf('{', searchFrom);
+    if (start === -1) return null;
+    let depth = 0;
+    let inString = false;
+    let escape = false;
+    for (let i = start; i < text.length; i++) {
+      const ch = text[i];
+      if (escape) {
+        escape = false;
+        continue;
+      }
+      if (inString) {
+        if (ch === '\\') {
+          escape = true;
+          continue;
+        }
+        if (ch === '"') {
+          inString = false;
+        }
+        continue;
+      }
+      // Outside string
+      if (ch === '"') {
+        inString = true;
+        continue;
+      }
+      if (ch === '{') depth++;
+      else if (ch === '}') {
+        depth--;
+        if (depth === 0) {
+          return text.slice(start, i + 1);
+        }
+      }
+    }
+    // Unbalanced from this '{'; try next occurrence
+    searchFrom = start + 1;
+  }
+  return null;
+}
+
+export function stripJsonArtifacts(text: string): string {
+  // Remove single-line comments (// ...) outside of strings
+  // Remove multi-line comments (/* ... */) outside of strings
+  // Remove trailing commas before } or ] (integrated into char loop to avoid
+  // corrupting string content that happens to contain ", }" or ", ]" patterns)
+  // Note: escape handling mirrors extractBalancedJson for consistency.
+  let result = '';
+  let inString = false;
+  let escape = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (escape) {
+      escape = false;
+      result += ch;
+      continue;
+    }
+    if (inString) {
+      if (ch === '\\') {
+        escape = true;
+        result += ch;
+        continue;
+      }
+      if (ch === '"') {
+        inString = false;
+      }
+      result += ch;
+      continue;
+    }
+    // Outside string
+    if (ch === '"') {
+      inString = true;
+      result += ch;
+      continue;
+    }
+    // Single-line comment
+    if (ch === '/' && text[i + 1] === '/') {
+      const eol = text.indexOf('\n', i);
+      i = eol === -1 ? text.length - 1 : eol - 1;
+      continue;
+    }
+    // Multi-line comment
+    if (ch === '/' && text[i + 1] === '*') {
+      const end = text.indexOf('*/', i + 2);
+      i = end === -1 ? text.length - 1 : end + 1;
+      continue;
+    }
+    // Trailing comma removal: when we see } or ], backtrack to remove last comma
+    if (ch === '}' || ch === ']') {
+      // Find last non-whitespace char in result; if it's a comma, remove it
+      let trimIdx = result.length - 1;
+      while (trimIdx >= 0 && /\s/.test(result[trimIdx])) trimIdx--;
+      if (trimIdx >= 0 && result[trimIdx] === ',') {
+        result = result.slice(0, trimIdx) + result.slice(trimIdx + 1);
+      }
+    }
+    result += ch;
+  }
+  return result;
+}
@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { simpleGit } from 'simple-git';
+import {
+  applyPatches,
+  checkPatches,
+  normalizePatch,
+} from './patch-validator.js';
+
+const FIX_GREETING = [
+  'diff --git a/app.ts b/app.ts',
+  '--- a/app.ts',
+  '+++ b/app.ts',
+  '@@ -1,3 +1,3 @@',
+  ' const a = 1;',
+  "-const greeting = 'helo';",
+  "+const greeting = 'hello';",
+  ' const b = 2;',
+  '',
+].join('\n');
+
+const FIX_NOTES = [
+  'diff --git a/notes.txt b/notes.txt',
+  '--- a/notes.txt',
+  '+++ b/notes.txt',
+  '@@ -1 +1 @@',
+  '-todo',
+  '+done',
+  '',
+].join('\n');
+
+describe('normalizePatch', () => {
+  it('should strip fences and prose and end with a newline', () => {
+    expect(
+      normalizePatch(
+        `Here is the fix:\n\`\`\`diff\n${FIX_NOTES.trimEnd()}\n\`\`\``,
+      ),
+    ).toBe(FIX_NOTES);
+    expect(normalizePatch(FIX_NOTES.trimEnd())).toBe(FIX_NOTES);
+  });
+});
+
+describe('patch validation', () => {
+  let repo: string;
+
+  beforeEach(async () => {
+    repo = await mkdtemp(join(tmpdir(), 'cr-patch-'));
+    const git = simpleGit(repo);
+    await git.init();
+    await git.addConfig('user.email', 'test@test.com');
+    await git.addConfig('user.name', 'Test');
+    await writeFile(
+      join(repo, 'app.ts'),
+      "const a = 1;\nconst greeting = 'hi';\nconst b = 2;\n",
+    );
+    await git.add('app.ts');
+    await git.commit('initial commit');
+    // Reviewed state: an uncommitted edit and an untracked file
+    await writeFile(
+      join(repo, 'app.ts'),
+      "const a = 1;\nconst greeting = 'helo';\nconst b = 2;\n",
+    );
+    await writeFile(join(repo, 'notes.txt'), 'todo\n');
+  });
+
+  afterEach(async () => {
+    await rm(repo, { recursive: true, force: true });
+  });
+
+  it('should check patches against the working tree without touching it', async () => {
+    const checks = await checkPatches(repo, [
+      FIX_GREETING,
+      FIX_NOTES,
+      FIX_NOTES.replace('-todo', '-something else'),
+    ]);
+    expect(checks.map((c) => c.ok)).toEqual([true, true, false]);
+    expect(checks[2].error).toContain('patch does not apply');
+
+    expect(await readFile(join(repo, 'app.ts'), 'utf-8')).toContain("'helo'");
+    const worktrees = await simpleGit(repo).raw(['worktree', 'list']);
+    expect(worktrees.trim().split('\n')).toHaveLength(1);
+  });
+
+  it('should apply all patches or none', async () => {
+    await expect(
+      applyPatches(repo, [FIX_GREETING, FIX_NOTES.replace('-todo', '-nope')]),
+    ).rejects.toThrow();
+    expect(await readFile(join(repo, 'app.ts'), 'utf-8')).toContain("'helo'");
+
+    await applyPatches(repo, [FIX_GREETING, FIX_NOTES]);
+    expect(await readFile(join(repo, 'app.ts'), 'utf-8')).toContain("'hello'");
+    expect(await readFile(join(repo, 'notes.txt'), 'utf-8')).toBe('done\n');
+  });
+});
@@ -0,0 +1,117 @@
+import { simpleGit } from 'simple-git';
+import { copyFile, mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { sanitizeErrorMessage } from './retry-utils.js';
+
+export interface PatchCheck {
+  ok: boolean;
+  /** `git apply --check` output when the patch does not apply. */
+  error?: string;
+}
+
+/**
+ * Strip Markdown fences and surrounding prose the model may have wrapped a
+ * patch in, and make sure it ends with a newline (`git apply` rejects a
+ * truncated last line).
+ */
+export function normalizePatch(patch: string): string {
+  const fenced = /```(?:diff|patch)?[^\n]*\n([\s\S]*?)```/.exec(patch);
+  let text = (fenced ? fenced[1] : patch).replace(/\r\n/g, '\n');
+  const start = text.search(/^(?:diff --git |--- )/m);
+  if (start > 0) text = text.slice(start);
+  return text.endsWith('\n') ? text : `${text}\n`;
+}
+
+async function writePatchFiles(
+  dir: string,
+  patches: string[],
+): Promise<string[]> {
+  const paths: string[] = [];
+  for (const [i, patch] of patches.entries()) {
+    const path = join(dir, `fix-${i + 1}.patch`);
+    await writeFile(path, normalizePatch(patch), 'utf-8');
+    paths.push(path);
+  }
+  return paths;
+}
+
+/**
+ * Check each patch with `git apply --check` in a temporary worktree that
+ * mirrors the repository's working tree: HEAD plus uncommitted changes to
+ * tracked files plus untracked (non-ignored) files. The repository itself is
+ * never modified. Patches are checked independently of each other.
+ */
+export async function checkPatches(
+  repoRoot: string,
+  patches: string[],
+): Promise<PatchCheck[]> {
+  if (patches.length === 0) return [];
+  const git = simpleGit(repoRoot);
+  const tmp = await mkdtemp(join(tmpdir(), 'council-fix-'));
+  const worktree = join(tmp, 'tree');
+  let added = false;
+  try {
+    await git.raw(['worktree', 'add', '--detach', worktree, 'HEAD']);
+    added = true;
+    const wt = simpleGit(worktree);
+
+    const uncommitted = await git.raw(['diff', 'HEAD', '--binary']);
+    if (uncommitted.trim()) {
+      const statePatch = join(tmp, 'working-tree.patch');
+      await writeFile(statePatch, uncommitted, 'utf-8');
+      await wt.raw(['apply', '--whitespace=nowarn', statePatch]);
+    }
+    const untracked = await git.raw([
+      'ls-files',
+      '--others',
+      '--exclude-standard',
+      '-z',
+    ]);
+    for (const file of untracked.split('\0').filter(Boolean)) {
+      await mkdir(dirname(join(worktree, file)), { recursive: true });
+      await copyFile(join(repoRoot, file), join(worktree, file));
+    }
+
+    const files = await writePatchFiles(tmp, patches);
+    const checks: PatchCheck[] = [];
+    for (const file of files) {
+      try {
+        await wt.raw(['apply', '--check', file]);
+        checks.push({ ok: true });
+      } catch (error) {
+        checks.push({ ok: false, error: sanitizeErrorMessage(error).trim() });
+      }
+    }
+    return checks;
+  } finally {
+    if (added) {
+      await git
+        .raw(['worktree', 'remove', '--force', worktree])
+        .catch(() => git.raw(['worktree', 'prune']));
+    }
+    await rm(tmp, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Apply patches to the working tree of the repository containing `dir` from
+ * its root. They are concatenated into a single patch because `git apply` is
+ * only atomic within one input, so either all of them apply or none does.
+ */
+export async function applyPatches(
+  dir: string,
+  patches: string[],
+): Promise<void> {
+  if (patches.length === 0) return;
+  const repoRoot = (await simpleGit(dir).revparse(['--show-toplevel'])).trim();
+  const tmp = await mkdtemp(join(tmpdir(), 'council-apply-'));
+  try {
+    const [file] = await writePatchFiles(tmp, [
+      patches.map(normalizePatch).join(''),
+    ]);
+    await simpleGit(repoRoot).raw(['apply', file]);
+  } finally {
+    await rm(tmp, { recursive: true, force: true });
+  }
+}
@@ -79,6 +79,19 @@ describe('isRetryable', () => {
     expect(isRetryable(new Error('ECONNRESET in message'))).toBe(true);
   });
 
+  it('should retry transient HTTP reviewer errors', () => {
+    expect(isRetryable(new Error('fetch failed'))).toBe(true);
+    expect(
+      isRetryable(new Error('HTTP 429 Too Many Requests from http://x')),
+    ).toBe(true);
+    expect(
+      isRetryable(new Error('HTTP 503 Service Unavailable from http://x')),
+    ).toBe(true);
+    expect(isRetryable(new Error('HTTP 401 Unauthorized from http://x'))).toBe(
+      false,
+    );
+  });
+
   it('should return false for non-retryable message patterns', () => {
     expect(isRetryable(new Error('invalid token provided'))).toBe(false);
     expect(isRetryable(new Error('unauthorized access'))).toBe(false);
@@ -191,4 +204,27 @@ describe('retryWithBackoff', () => {
     ).rejects.toThrow('timeout');
     expect(fn).toHaveBeenCalledTimes(1);
   });
+
+  it('should stop waiting and retrying once cancelled', async () => {
+    const controller = new AbortController();
+    const fn = vi.fn().mockImplementation(() => {
+      setTimeout(() => controller.abort(), 10);
+      return Promise.reject(new Error('timeout'));
+    });
+    const onRetry = vi.fn().mockResolvedValue(undefined);
+    const logger = { warn: vi.fn() };
+    const startMs = Date.now();
+    await expect(
+      retryWithBackoff(fn, {
+        maxRetries: 3,
+        label: 'test',
+        logger,
+        onRetry,
+        signal: controller.signal,
+      }),
+    ).rejects.toThrow('Review cancelled');
+    expect(Date.now() - startMs).toBeLessThan(1000);
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(onRetry).not.toHaveBeenCalled();
+  });
 });
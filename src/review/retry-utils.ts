@@ -3,6 +3,8 @@ export interface RetryOptions {
   label: string;
   logger: { warn(message: string): void };
   onRetry?: () => Promise<void>;
+  /** Stop retrying (and waiting) once the review is cancelled. */
+  signal?: AbortSignal;
 }
 
 const NON_RETRYABLE_CODES = new Set([
@@ -31,6 +33,11 @@ const RETRYABLE_PATTERNS = [
   'econnreset',
   'econnrefused',
   'socket hang up',
+  // HTTP reviewers (fetch / OpenAI-compatible endpoints)
+  'fetch failed',
+  'too many requests',
+  'bad gateway',
+  'service unavailable',
 ];
 
 /** Mask potential tokens/secrets in error messages. */
@@ -54,6 +61,30 @@ export function sanitizeErrorMessage(error: unknown): string {
     );
 }
 
+/** The error a review rejects with once its AbortSignal has fired. */
+export function cancelledError(): Error {
+  return new Error('Review cancelled');
+}
+
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) throw cancelledError();
+}
+
+/** Resolve after `ms`, or as soon as `signal` fires. */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
 export function isRetryable(error: unknown): boolean {
   if (!(error instanceof Error)) return false;
   // Prefer structured error code if available
@@ -72,11 +103,12 @@ export async function retryWithBackoff<T>(
   fn: () => Promise<T>,
   options: RetryOptions,
 ): Promise<T> {
-  const { maxRetries, label, logger, onRetry } = options;
+  const { maxRetries, label, logger, onRetry, signal } = options;
   for (let attempt = 0; attempt <= maxRetries; attempt++) {
     try {
       return await fn();
     } catch (error) {
+      throwIfCancelled(signal);
       if (attempt < maxRetries && isRetryable(error)) {
         // Add jitter (0.75x–1.25x) to avoid synchronized retry storms across reviewers
         const delay = Math.round(
@@ -85,7 +117,8 @@ export async function retryWithBackoff<T>(
         logger.warn(
           `${label} attempt ${attempt + 1} failed, retrying in ${delay}ms...`,
         );
-        await new Promise((r) => setTimeout(r, delay));
+        await sleep(delay, signal);
+        throwIfCancelled(signal);
         if (onRetry) {
           try {
             await onRetry();
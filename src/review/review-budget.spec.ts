@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest';
+import {
+  contentScope,
+  diffScope,
+  estimateReview,
+  pathScope,
+  planReview,
+  ReviewScope,
+} from './review-budget.js';
+import { BudgetConfig, CouncilConfig } from '../config/config.types.js';
+
+function makeConfig(
+  budget?: BudgetConfig,
+  overrides: Partial<CouncilConfig> = {},
+): CouncilConfig {
+  const agent = (name: string, model: string) => ({
+    name,
+    cliPath: name.toLowerCase(),
+    cliArgs: [],
+    model,
+  });
+  return {
+    reviewers: [
+      agent('Gemini', 'gemini-2.5-pro'),
+      agent('Codex', 'gpt-4.1'),
+      agent('Local', 'llama3'),
+    ],
+    decisionMaker: agent('Claude', 'gpt-4.1'),
+    review: { defaultChecks: [], language: 'en', budget },
+    pricing: {
+      'gemini-2.5-pro': { inputPerMillion: 1, outputPerMillion: 10 },
+      'gpt-4.1': { inputPerMillion: 2, outputPerMillion: 8 },
+    },
+    ...overrides,
+  };
+}
+
+/** Three batches of 40k chars (10 files each). */
+const batchedScope: ReviewScope = {
+  mode: 'batch',
+  batches: [1, 2, 3].map(() => ({ chars: 40_000, files: 10 })),
+};
+
+describe('review scopes', () => {
+  it('should count the files of a diff', () => {
+    const diff = 'diff --git a/a.ts b/a.ts\n+x\ndiff --git a/b.ts b/b.ts\n+y\n';
+    expect(diffScope(diff)).toEqual({
+      mode: 'inline',
+      batches: [{ chars: diff.length, files: 2 }],
+    });
+  });
+
+  it('should send file content in one piece inline and per batch otherwise', () => {
+    const batches = [
+      [{ path: 'a.ts', content: 'abc' }],
+      [
+        { path: 'b.ts', content: 'de' },
+        { path: 'c.ts', content: 'f' },
+      ],
+    ];
+    expect(contentScope('inline', batches).batches).toEqual([
+      { chars: 6, files: 3 },
+    ]);
+    expect(contentScope('batch', batches).batches).toEqual([
+      { chars: 3, files: 1 },
+      { chars: 3, files: 2 },
+    ]);
+  });
+
+  it('should size explore reviews by their file list', () => {
+    expect(pathScope(['src/a.ts', 'src/b.ts'])).toEqual({
+      mode: 'explore',
+      batches: [{ chars: 17, files: 2 }],
+    });
+  });
+});
+
+describe('estimateReview', () => {
+  it('should count reviews, syntheses, debate turns and decisions', () => {
+    const config = makeConfig(undefined, {
+      review: { defaultChecks: [], language: 'en', debateRounds: 1 },
+    });
+    const plan = estimateReview(config, batchedScope);
+    // 3 reviewers × (3 batches + synthesis + 1 debate turn) + 1 decision
+    expect(plan.prompts).toBe(16);
+    expect(plan).toMatchObject({
+      mode: 'batch',
+      reviewers: ['Gemini', 'Codex', 'Local'],
+      decisionMakers: ['Claude'],
+      files: 30,
+      batches: 3,
+      inputChars: 120_000,
+    });
+    expect(plan.estimate.outputTokens).toBe(16 * 2_000);
+    expect(plan.estimate.cost).toBeGreaterThan(0);
+    expect(plan.estimate.unpricedModels).toEqual(['llama3']);
+  });
+
+  it('should skip the debate with a single reviewer', () => {
+    const config = makeConfig(undefined, {
+      review: { defaultChecks: [], language: 'en', debateRounds: 2 },
+    });
+    config.reviewers = config.reviewers.slice(0, 1);
+    const plan = estimateReview(config, diffScope('diff --git a/a b/a\n'));
+    expect(plan.prompts).toBe(2);
+  });
+});
+
+describe('planReview', () => {
+  it('should only estimate without a budget', () => {
+    const plan = planReview(makeConfig(), batchedScope);
+    expect(plan.overBudget).toBeUndefined();
+    expect(plan.downscaled).toBeUndefined();
+  });
+
+  it('should list the limits a refused review exceeds', () => {
+    const plan = planReview(
+      makeConfig({ maxInputChars: 100_000, maxEstimatedTokens: 1_000 }),
+      batchedScope,
+    );
+    expect(plan.overBudget).toEqual([
+      '120000 chars of code exceed review.budget.maxInputChars (100000)',
+      expect.stringContaining('review.budget.maxEstimatedTokens (1000)'),
+    ]);
+    expect(plan.downscaled).toBeUndefined();
+    expect(plan.reviewers).toHaveLength(3);
+  });
+
+  it('should drop reviewers before batches when tokens are over budget', () => {
+    const full = estimateReview(makeConfig(), batchedScope);
+    const budget: BudgetConfig = {
+      maxEstimatedTokens:
+        full.estimate.inputTokens + full.estimate.outputTokens - 1,
+      onExceed: 'downscale',
+    };
+    const plan = planReview(makeConfig(budget), batchedScope);
+    expect(plan.overBudget).toBeUndefined();
+    expect(plan.reviewers).toEqual(['Gemini', 'Codex']);
+    expect(plan.batches).toBe(3);
+    expect(plan.downscaled).toEqual(['Dropped reviewer "Local"']);
+  });
+
+  it('should drop batches, not reviewers, when only the code is too large', () => {
+    const plan = planReview(
+      makeConfig({ maxInputChars: 90_000, onExceed: 'downscale' }),
+      batchedScope,
+    );
+    expect(plan.overBudget).toBeUndefined();
+    expect(plan.reviewers).toHaveLength(3);
+    expect(plan.batches).toBe(2);
+    expect(plan.downscaled).toEqual([
+      'Reviewing the first 2 of 3 batches (20 of 30 files)',
+    ]);
+  });
+
+  it('should report what is still over budget after downscaling', () => {
+    const plan = planReview(
+      makeConfig({ maxCost: 0.0001, onExceed: 'downscale' }),
+      batchedScope,
+    );
+    expect(plan.reviewers).toEqual(['Gemini']);
+    expect(plan.batches).toBe(1);
+    expect(plan.downscaled).toHaveLength(3);
+    expect(plan.overBudget).toEqual([
+      expect.stringContaining('exceeds review.budget.maxCost ($0.0001)'),
+    ]);
+  });
+});
@@ -0,0 +1,254 @@
+import {
+  BudgetConfig,
+  CouncilConfig,
+  ReviewerConfig,
+} from '../config/config.types.js';
+import {
+  DEFAULT_MAX_CODE_LENGTH,
+  DEFAULT_MAX_REVIEWS_LENGTH,
+  ESTIMATED_CHARS_PER_TOKEN,
+  ESTIMATED_OUTPUT_TOKENS,
+  ESTIMATED_PROMPT_OVERHEAD_CHARS,
+} from '../constants.js';
+import { FileContent } from './code-reader.service.js';
+import { TokenUsage } from './review.types.js';
+import { addUsage } from './usage.js';
+
+/** Code sent to every reviewer in one prompt. */
+export interface ScopeBatch {
+  /** Characters of code (of the file list in explore mode). */
+  chars: number;
+  files: number;
+}
+
+/** What a review would send to reviewers, known before any agent is contacted. */
+export interface ReviewScope {
+  mode: 'inline' | 'batch' | 'explore';
+  batches: ScopeBatch[];
+}
+
+/** Estimate of a review, checked against `review.budget` and printed by --dry-run. */
+export interface ReviewPlan {
+  mode: 'inline' | 'batch' | 'explore';
+  reviewers: string[];
+  decisionMakers: string[];
+  files: number;
+  /** Batches to review; every reviewer gets one prompt per batch. */
+  batches: number;
+  /** Characters of code sent for review (of the file list in explore mode). */
+  inputChars: number;
+  /** Prompts of all agents: reviews, syntheses, debate turns and decisions. */
+  prompts: number;
+  /** Estimated tokens, and cost for models in `pricing`. */
+  estimate: TokenUsage;
+  /** How the review was downscaled to fit the budget. */
+  downscaled?: string[];
+  /** Budget limits the review still exceeds; such a review is refused. */
+  overBudget?: string[];
+}
+
+interface BudgetViolation {
+  limit: 'maxInputChars' | 'maxEstimatedTokens' | 'maxCost';
+  message: string;
+}
+
+/** Characters per file line of the file summary sent to the decision maker after batches. */
+const FILE_SUMMARY_LINE_CHARS = 60;
+
+function estimateTokens(chars: number): number {
+  return Math.ceil(chars / ESTIMATED_CHARS_PER_TOKEN);
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+/** A diff is always sent in one piece, whatever the mode. */
+export function diffScope(diff: string): ReviewScope {
+  const files = diff.match(/^diff --git /gm)?.length ?? 0;
+  return { mode: 'inline', batches: [{ chars: diff.length, files }] };
+}
+
+/** Files whose content is sent: all in one prompt (inline) or one prompt per batch. */
+export function contentScope(
+  mode: 'inline' | 'batch',
+  batches: FileContent[][],
+): ReviewScope {
+  const toBatch = (files: FileContent[]): ScopeBatch => ({
+    chars: sum(files.map((f) => f.content.length)),
+    files: files.length,
+  });
+  return {
+    mode,
+    batches:
+      mode === 'inline' ? [toBatch(batches.flat())] : batches.map(toBatch),
+  };
+}
+
+/** Explore mode sends only file paths; agents read the files themselves. */
+export function pathScope(paths: string[]): ReviewScope {
+  return {
+    mode: 'explore',
+    batches: [{ chars: paths.join('\n').length, files: paths.length }],
+  };
+}
+
+/**
+ * Rough estimate of every prompt a review sends, mirroring the review flow:
+ * one review per reviewer and batch, a synthesis per reviewer when batched,
+ * `review.debateRounds` debate turns, and one decision per decision maker.
+ * Every prompt is assumed to produce ESTIMATED_OUTPUT_TOKENS. Files agents
+ * read themselves (explore mode) and the fix phase are not included.
+ */
+export function estimateReview(
+  config: CouncilConfig,
+  scope: ReviewScope,
+): ReviewPlan {
+  const { reviewers, review, pricing } = config;
+  const judges = config.decisionMakers?.length
+    ? config.decisionMakers
+    : [config.decisionMaker];
+  const inputChars = sum(scope.batches.map((b) => b.chars));
+  const files = sum(scope.batches.map((b) => b.files));
+  const maxCodeLength = review.maxCodeLength ?? DEFAULT_MAX_CODE_LENGTH;
+  const maxReviewsLength =
+    review.maxReviewsLength ?? DEFAULT_MAX_REVIEWS_LENGTH;
+  const reviewChars = ESTIMATED_OUTPUT_TOKENS * ESTIMATED_CHARS_PER_TOKEN;
+  const allReviewsChars = Math.min(
+    reviewers.length * reviewChars,
+    maxReviewsLength,
+  );
+  const batched = scope.batches.length > 1;
+  // Debate and decision prompts embed the code only when it was sent in one piece
+  const sharedCode =
+    scope.mode !== 'explore' && !batched
+      ? Math.min(inputChars, maxCodeLength)
+      : 0;
+  const decisionCode =
+    scope.mode === 'explore'
+      ? inputChars
+      : batched
+        ? files * FILE_SUMMARY_LINE_CHARS
+        : sharedCode;
+  const debateRounds = reviewers.length > 1 ? (review.debateRounds ?? 0) : 0;
+
+  let estimate: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+  let prompts = 0;
+  const prompt = (agent: ReviewerConfig, chars: number): void => {
+    prompts++;
+    estimate = addUsage(
+      estimate,
+      {
+        model: agent.model,
+        inputTokens: estimateTokens(ESTIMATED_PROMPT_OVERHEAD_CHARS + chars),
+        outputTokens: ESTIMATED_OUTPUT_TOKENS,
+      },
+      pricing,
+    );
+  };
+  for (const reviewer of reviewers) {
+    for (const batch of scope.batches) prompt(reviewer, batch.chars);
+    if (batched) {
+      prompt(
+        reviewer,
+        Math.min(scope.batches.length * reviewChars, maxReviewsLength),
+      );
+    }
+    for (let round = 0; round < debateRounds; round++) {
+      prompt(reviewer, sharedCode + allReviewsChars);
+    }
+  }
+  for (const judge of judges) prompt(judge, decisionCode + allReviewsChars);
+
+  return {
+    mode: scope.mode,
+    reviewers: reviewers.map((r) => r.name),
+    decisionMakers: judges.map((j) => j.name),
+    files,
+    batches: scope.batches.length,
+    inputChars,
+    prompts,
+    estimate,
+  };
+}
+
+function budgetViolations(
+  plan: ReviewPlan,
+  budget: BudgetConfig,
+): BudgetViolation[] {
+  const violations: BudgetViolation[] = [];
+  if (
+    budget.maxInputChars !== undefined &&
+    plan.inputChars > budget.maxInputChars
+  ) {
+    violations.push({
+      limit: 'maxInputChars',
+      message: `${plan.inputChars} chars of code exceed review.budget.maxInputChars (${budget.maxInputChars})`,
+    });
+  }
+  const tokens = plan.estimate.inputTokens + plan.estimate.outputTokens;
+  if (
+    budget.maxEstimatedTokens !== undefined &&
+    tokens > budget.maxEstimatedTokens
+  ) {
+    violations.push({
+      limit: 'maxEstimatedTokens',
+      message: `~${tokens} estimated tokens exceed review.budget.maxEstimatedTokens (${budget.maxEstimatedTokens})`,
+    });
+  }
+  const cost = plan.estimate.cost ?? 0;
+  if (budget.maxCost !== undefined && cost > budget.maxCost) {
+    violations.push({
+      limit: 'maxCost',
+      message: `~$${cost.toFixed(2)} estimated cost exceeds review.budget.maxCost ($${budget.maxCost})`,
+    });
+  }
+  return violations;
+}
+
+/**
+ * Estimate the review and check it against `review.budget`. With
+ * `onExceed: "downscale"`, reviewers are dropped from the end of the list
+ * (keeping one) while tokens or cost are over budget, then batches from the
+ * end while any limit is exceeded. Limits still exceeded are listed in
+ * `overBudget`.
+ */
+export function planReview(
+  config: CouncilConfig,
+  scope: ReviewScope,
+): ReviewPlan {
+  const budget = config.review.budget;
+  let plan = estimateReview(config, scope);
+  if (!budget) return plan;
+  let violations = budgetViolations(plan, budget);
+
+  if (violations.length > 0 && budget.onExceed === 'downscale') {
+    const downscaled: string[] = [];
+    let reviewers = config.reviewers;
+    let batches = scope.batches;
+    while (violations.length > 0) {
+      const overTokens = violations.some((v) => v.limit !== 'maxInputChars');
+      if (overTokens && reviewers.length > 1) {
+        downscaled.push(`Dropped reviewer "${reviewers.at(-1)!.name}"`);
+        reviewers = reviewers.slice(0, -1);
+      } else if (batches.length > 1) {
+        batches = batches.slice(0, -1);
+      } else {
+        break;
+      }
+      plan = estimateReview({ ...config, reviewers }, { ...scope, batches });
+      violations = budgetViolations(plan, budget);
+    }
+    if (batches.length < scope.batches.length) {
+      const files = sum(scope.batches.map((b) => b.files));
+      downscaled.push(
+        `Reviewing the first ${batches.length} of ${scope.batches.length} batches (${plan.files} of ${files} files)`,
+      );
+    }
+    if (downscaled.length > 0) plan.downscaled = downscaled;
+  }
+  if (violations.length > 0) {
+    plan.overBudget = violations.map((v) => v.message);
+  }
+  return plan;
+}
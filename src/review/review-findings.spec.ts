@@ -0,0 +1,230 @@
+import { describe, it, expect } from 'vitest';
+import {
+  mergeBatchFindings,
+  parseReviewFindings,
+  renderReviewText,
+  splitFileLocation,
+} from './review-findings.js';
+
+describe('parseReviewFindings', () => {
+  it('should parse the JSON findings format', () => {
+    const text = JSON.stringify({
+      findings: [
+        {
+          severity: 'low',
+          category: 'readability',
+          file: 'src/a.ts',
+          line: 3,
+          description: 'Unclear name',
+          suggestion: 'Rename',
+        },
+        {
+          severity: 'high',
+          category: 'security',
+          file: 'src/b.ts',
+          line: null,
+          description: 'SQL injection',
+          suggestion: 'Use parameters',
+        },
+      ],
+      notes: ['Consider adding tests'],
+    });
+    const result = parseReviewFindings(text);
+    expect(result).not.toBeNull();
+    expect(result!.findings.map((f) => f.severity)).toEqual(['high', 'low']);
+    expect(result!.findings[0]).toEqual({
+      severity: 'high',
+      category: 'security',
+      file: 'src/b.ts',
+      description: 'SQL injection',
+      suggestion: 'Use parameters',
+    });
+    expect(result!.findings[1].line).toBe(3);
+    expect(result!.notes).toEqual(['Consider adding tests']);
+  });
+
+  it('should parse JSON wrapped in markdown fences with surrounding prose', () => {
+    const text =
+      'Here is my review:\n```json\n{"findings": [{"severity": "medium", "category": "performance", "description": "N+1 query", "suggestion": "Batch it"}], "notes": []}\n```';
+    const result = parseReviewFindings(text);
+    expect(result!.findings).toHaveLength(1);
+    expect(result!.findings[0].category).toBe('performance');
+  });
+
+  it('should normalize unknown severity and category values', () => {
+    const text = JSON.stringify({
+      findings: [
+        {
+          severity: 'HIGH',
+          category: 'style',
+          description: 'x',
+          suggestion: 'y',
+        },
+        { severity: 'urgent', category: 'Security', description: 'z' },
+      ],
+    });
+    const result = parseReviewFindings(text);
+    expect(result!.findings[0]).toMatchObject({
+      severity: 'high',
+      category: 'other',
+    });
+    expect(result!.findings[1]).toMatchObject({
+      severity: 'medium',
+      category: 'security',
+      suggestion: '',
+    });
+  });
+
+  it('should drop findings without a description', () => {
+    const text = JSON.stringify({
+      findings: [{ severity: 'high' }, { description: 'kept' }],
+    });
+    const result = parseReviewFindings(text);
+    expect(result!.findings).toHaveLength(1);
+    expect(result!.findings[0].description).toBe('kept');
+  });
+
+  it('should split file:line when the model puts the line in the file field', () => {
+    const text = JSON.stringify({
+      findings: [{ file: '`src/a.ts:42`', description: 'x', suggestion: '' }],
+    });
+    const result = parseReviewFindings(text);
+    expect(result!.findings[0]).toMatchObject({ file: 'src/a.ts', line: 42 });
+  });
+
+  it('should fall back to the legacy Markdown table format', () => {
+    const text = [
+      '## 問題清單',
+      '',
+      '| Severity | Category | File / Location | Description | Suggested Fix |',
+      '|---|---|---|---|---|',
+      '| 🟢 Low | readability | `src/a.ts:10` | Long function | Split it |',
+      '| 🔴 High | security | `src/b.ts` | Uses eval \\| Function | Remove it |',
+      '',
+      '## 補充建議',
+      '',
+      '- Add more tests',
+      '- Enable strict mode',
+    ].join('\n');
+    const result = parseReviewFindings(text);
+    expect(result!.findings).toEqual([
+      {
+        severity: 'high',
+        category: 'security',
+        description: 'Uses eval | Function',
+        file: 'src/b.ts',
+        suggestion: 'Remove it',
+      },
+      {
+        severity: 'low',
+        category: 'readability',
+        description: 'Long function',
+        file: 'src/a.ts',
+        line: 10,
+        suggestion: 'Split it',
+      },
+    ]);
+    expect(result!.notes).toEqual(['Add more tests', 'Enable strict mode']);
+  });
+
+  it('should return empty findings for a Markdown "No issues found" response', () => {
+    const result = parseReviewFindings('## 問題清單\n\nNo issues found\n');
+    expect(result).toEqual({ findings: [], notes: [] });
+  });
+
+  it('should return null for unstructured text', () => {
+    expect(parseReviewFindings('The code looks mostly fine to me.')).toBeNull();
+  });
+});
+
+describe('splitFileLocation', () => {
+  it('should return empty for placeholder values', () => {
+    expect(splitFileLocation('-')).toEqual({});
+    expect(splitFileLocation('N/A')).toEqual({});
+  });
+
+  it('should keep the start line of a line range', () => {
+    expect(splitFileLocation('src/a.ts:10-20')).toEqual({
+      file: 'src/a.ts',
+      line: 10,
+    });
+  });
+});
+
+describe('renderReviewText', () => {
+  it('should return raw text when findings are absent', () => {
+    expect(
+      renderReviewText({ reviewer: 'A', review: 'raw', status: 'success' }),
+    ).toBe('raw');
+  });
+
+  it('should render findings and notes compactly', () => {
+    const text = renderReviewText({
+      reviewer: 'A',
+      review: '{}',
+      status: 'success',
+      findings: [
+        {
+          severity: 'high',
+          category: 'security',
+          file: 'src/a.ts',
+          line: 5,
+          description: 'Injection',
+          suggestion: 'Escape input',
+        },
+      ],
+      notes: ['Looks good otherwise'],
+    });
+    expect(text).toBe(
+      '1. [high][security] src/a.ts:5 — Injection → Escape input\n\nNotes:\n- Looks good otherwise',
+    );
+  });
+
+  it('should say no issues found for an empty findings list', () => {
+    expect(
+      renderReviewText({
+        reviewer: 'A',
+        review: '{}',
+        status: 'success',
+        findings: [],
+      }),
+    ).toBe('No issues found.');
+  });
+});
+
+describe('mergeBatchFindings', () => {
+  const finding = {
+    severity: 'high' as const,
+    category: 'security' as const,
+    description: 'Injection',
+    suggestion: 'Escape input',
+  };
+
+  it('should merge parsed batches and keep the raw text of the rest as notes', () => {
+    expect(
+      mergeBatchFindings([
+        {
+          reviewer: 'A',
+          review: '{}',
+          status: 'success',
+          findings: [finding],
+          notes: ['Tidy'],
+        },
+        { reviewer: 'A', review: 'free-form review', status: 'success' },
+        { reviewer: 'A', review: 'timeout', status: 'error' },
+      ]),
+    ).toEqual({
+      findings: [finding],
+      notes: ['Tidy', 'Batch 2 (unparsed): free-form review'],
+    });
+  });
+
+  it('should leave findings undefined when no batch was parsed', () => {
+    expect(
+      mergeBatchFindings([
+        { reviewer: 'A', review: 'free-form review', status: 'success' },
+        { reviewer: 'A', review: 'timeout', status: 'error' },
+      ]),
+    ).toEqual({});
+  });
+});
@@ -0,0 +1,258 @@
+import {
+  IndividualReview,
+  ReviewCategory,
+  ReviewFinding,
+} from './review.types.js';
+import { parseJsonObject } from './json-utils.js';
+
+export const VALID_SEVERITIES = new Set(['high', 'medium', 'low']);
+export const VALID_CATEGORIES = new Set([
+  'security',
+  'performance',
+  'readability',
+  'code-quality',
+  'best-practices',
+  'other',
+]);
+
+export interface ParsedReview {
+  findings: ReviewFinding[];
+  notes: string[];
+}
+
+const SEVERITY_ORDER: Record<ReviewFinding['severity'], number> = {
+  high: 0,
+  medium: 1,
+  low: 2,
+};
+
+/** Reviewer-facing severity labels (emoji, English, zh-tw) mapped to canonical values. */
+const SEVERITY_ALIASES: [RegExp, ReviewFinding['severity']][] = [
+  [/🔴|\bhigh\b|\bcritical\b|高/i, 'high'],
+  [/🟡|\bmedium\b|\bmoderate\b|中/i, 'medium'],
+  [/🟢|\blow\b|\bminor\b|低/i, 'low'],
+];
+
+const NO_ISSUES_REGEX =
+  /no issues found|未發現(任何)?問題|沒有發現(任何)?問題/i;
+
+export function normalizeSeverity(value: unknown): ReviewFinding['severity'] {
+  return VALID_SEVERITIES.has(String(value))
+    ? (value as ReviewFinding['severity'])
+    : 'medium';
+}
+
+export function normalizeCategory(value: unknown): ReviewCategory {
+  return typeof value === 'string' && VALID_CATEGORIES.has(value)
+    ? (value as ReviewCategory)
+    : 'other';
+}
+
+function normalizeLine(value: unknown): number | undefined {
+  if (typeof value === 'number') {
+    return Number.isInteger(value) && value > 0 ? value : undefined;
+  }
+  if (typeof value === 'string' && /^\d+$/.test(value.trim())) {
+    const n = Number(value.trim());
+    return n > 0 ? n : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Clean up a model-typed file location: strip `code` backticks and split a
+ * trailing `:line` (or `:line-line`) suffix into its own field.
+ */
+export function splitFileLocation(raw: string): {
+  file?: string;
+  line?: number;
+} {
+  const cleaned = raw.replace(/`/g, '').trim();
+  if (!cleaned || cleaned === '-' || /^n\/?a$/i.test(cleaned)) return {};
+  const match = /^(.+?):(\d+)(?:[-–]\d+)?$/.exec(cleaned);
+  if (match) {
+    return { file: match[1].trim(), line: normalizeLine(match[2]) };
+  }
+  return { file: cleaned };
+}
+
+/** Normalize one model-produced finding object; null when it has no description. */
+export function toFinding(raw: unknown): ReviewFinding | null {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null;
+  const f = raw as Record<string, unknown>;
+  if (typeof f.description !== 'string' || f.description.trim() === '') {
+    return null;
+  }
+  const location = typeof f.file === 'string' ? splitFileLocation(f.file) : {};
+  const line = normalizeLine(f.line) ?? location.line;
+  return {
+    severity: normalizeSeverity(
+      typeof f.severity === 'string' ? f.severity.toLowerCase() : f.severity,
+    ),
+    category: normalizeCategory(
+      typeof f.category === 'string' ? f.category.toLowerCase() : f.category,
+    ),
+    description: f.description.trim(),
+    ...(location.file ? { file: location.file } : {}),
+    ...(line ? { line } : {}),
+    suggestion: typeof f.suggestion === 'string' ? f.suggestion.trim() : '',
+  };
+}
+
+function fromJson(parsed: Record<string, unknown>): ParsedReview | null {
+  const rawFindings = Array.isArray(parsed.findings)
+    ? parsed.findings
+    : Array.isArray(parsed.issues)
+      ? parsed.issues
+      : null;
+  if (!rawFindings) return null;
+  const findings = rawFindings
+    .map(toFinding)
+    .filter((f): f is ReviewFinding => f !== null);
+  const notes = Array.isArray(parsed.notes)
+    ? parsed.notes
+        .filter((n): n is string => typeof n === 'string')
+        .map((n) => n.trim())
+        .filter(Boolean)
+    : [];
+  return { findings, notes };
+}
+
+function splitTableRow(line: string): string[] {
+  const trimmed = line.trim().replace(/^\|/, '').replace(/\|$/, '');
+  // Split on pipes that are not escaped as \|
+  return trimmed.split(/(?<!\\)\|/).map((c) => c.replace(/\\\|/g, '|').trim());
+}
+
+function severityFromLabel(label: string): ReviewFinding['severity'] | null {
+  for (const [pattern, severity] of SEVERITY_ALIASES) {
+    if (pattern.test(label)) return severity;
+  }
+  return null;
+}
+
+/**
+ * Fallback for reviewers that ignore the JSON instruction and answer with the
+ * legacy Markdown table (| Severity | Category | File / Location | Description | Suggested Fix |).
+ */
+function fromMarkdown(text: string): ParsedReview | null {
+  const lines = text.split('\n');
+  const findings: ReviewFinding[] = [];
+  let foundTable = false;
+  for (let i = 0; i < lines.length - 1; i++) {
+    if (!lines[i].trim().startsWith('|')) continue;
+    const header = splitTableRow(lines[i]).map((h) => h.toLowerCase());
+    const severityCol = header.findIndex((h) => h.includes('severity'));
+    if (severityCol === -1 || !/^\s*\|?\s*:?-{3,}/.test(lines[i + 1])) {
+      continue;
+    }
+    foundTable = true;
+    const col = (...names: string[]) =>
+      header.findIndex((h) => names.some((n) => h.includes(n)));
+    const categoryCol = col('category');
+    const fileCol = col('file', 'location');
+    const descriptionCol = col('description', 'issue');
+    const suggestionCol = col('suggest', 'fix', 'action');
+    let j = i + 2;
+    for (; j < lines.length && lines[j].trim().startsWith('|'); j++) {
+      const cells = splitTableRow(lines[j]);
+      const cell = (idx: number) => (idx >= 0 ? (cells[idx] ?? '') : '');
+      const severity = severityFromLabel(cell(severityCol));
+      const description = cell(descriptionCol);
+      if (!severity || !description) continue;
+      const location = splitFileLocation(cell(fileCol));
+      findings.push({
+        severity,
+        category: normalizeCategory(cell(categoryCol).toLowerCase()),
+        description,
+        ...location,
+        suggestion: cell(suggestionCol),
+      });
+    }
+    i = j - 1;
+  }
+  if (!foundTable && !NO_ISSUES_REGEX.test(text)) return null;
+  return { findings, notes: extractMarkdownNotes(lines) };
+}
+
+/** Collect bullet items below the "補充建議" (or "Notes") heading. */
+function extractMarkdownNotes(lines: string[]): string[] {
+  const notes: string[] = [];
+  let inNotes = false;
+  for (const line of lines) {
+    if (/^#{1,6}\s/.test(line)) {
+      inNotes = /補充建議|notes|suggestions/i.test(line);
+      continue;
+    }
+    if (!inNotes) continue;
+    const bullet = /^\s*(?:[-*+]|\d+\.)\s+(.+)$/.exec(line);
+    if (bullet) notes.push(bullet[1].trim());
+  }
+  return notes;
+}
+
+/**
+ * Turn a reviewer's raw response into structured findings.
+ * Tries the JSON object format first (with the same tolerance strategies the
+ * decision maker uses), then the legacy Markdown table. Returns null when
+ * neither yields anything, in which case callers keep the raw text only.
+ */
+export function parseReviewFindings(text: string): ParsedReview | null {
+  const json = parseJsonObject(text);
+  const parsed = (json && fromJson(json)) ?? fromMarkdown(text);
+  if (!parsed) return null;
+  parsed.findings.sort(
+    (a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity],
+  );
+  return parsed;
+}
+
+/**
+ * Findings and notes of a reviewer's batches merged into one review. Batches
+ * that could not be parsed keep their raw text as a note, so nothing they
+ * said is lost; failed batches are left out. Empty when no batch was parsed,
+ * which leaves the raw text as the only record.
+ */
+export function mergeBatchFindings(
+  batches: IndividualReview[],
+): Partial<ParsedReview> {
+  const succeeded = batches
+    .map((review, i) => ({ review, batch: i + 1 }))
+    .filter(({ review }) => review.status !== 'error');
+  if (!succeeded.some(({ review }) => review.findings)) return {};
+  return {
+    findings: succeeded.flatMap(({ review }) => review.findings ?? []),
+    notes: succeeded.flatMap(({ review, batch }) =>
+      review.findings
+        ? (review.notes ?? [])
+        : [`Batch ${batch} (unparsed): ${review.review}`],
+    ),
+  };
+}
+
+export function formatFindingLocation(finding: {
+  file?: string;
+  line?: number;
+}): string {
+  if (!finding.file) return '';
+  return finding.line ? `${finding.file}:${finding.line}` : finding.file;
+}
+
+/**
+ * Compact plain-text rendering of a review for downstream prompts. Uses the
+ * structured findings when available, otherwise the raw reviewer text.
+ */
+export function renderReviewText(review: IndividualReview): string {
+  if (!review.findings) return review.review;
+  const lines = review.findings.map((f, i) => {
+    const location = formatFindingLocation(f);
+    const where = location ? ` ${location}` : '';
+    const suggestion = f.suggestion ? ` → ${f.suggestion}` : '';
+    return `${i + 1}. [${f.severity}][${f.category}]${where} — ${f.description}${suggestion}`;
+  });
+  if (lines.length === 0) lines.push('No issues found.');
+  if (review.notes && review.notes.length > 0) {
+    lines.push('', 'Notes:', ...review.notes.map((n) => `- ${n}`));
+  }
+  return lines.join('\n');
+}
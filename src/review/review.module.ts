@@ -1,16 +1,20 @@
 import { Module, ConsoleLogger, Scope } from '@nestjs/common';
+import { HistoryModule } from '../history/history.module.js';
 import { ReviewService } from './review.service.js';
 import { CodeReaderService } from './code-reader.service.js';
 import { CouncilService } from './council.service.js';
 import { DecisionMakerService } from './decision-maker.service.js';
+import { FixService } from './fix.service.js';
 
 @Module({
+  imports: [HistoryModule],
   providers: [
     { provide: ConsoleLogger, useClass: ConsoleLogger, scope: Scope.TRANSIENT },
     ReviewService,
     CodeReaderService,
     CouncilService,
     DecisionMakerService,
+    FixService,
   ],
   exports: [ReviewService],
 })
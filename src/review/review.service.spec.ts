@@ -4,7 +4,14 @@ import { ReviewService } from './review.service.js';
 import { CodeReaderService } from './code-reader.service.js';
 import { CouncilService } from './council.service.js';
 import { DecisionMakerService } from './decision-maker.service.js';
+import { FixService } from './fix.service.js';
 import { ConfigService } from '../config/config.service.js';
+import { HistoryService } from '../history/history.service.js';
+import { CheckpointService } from '../history/checkpoint.service.js';
+import {
+  ReviewCheckpoint,
+  ReviewHistoryRecord,
+} from '../history/history.types.js';
 import { resolve } from 'node:path';
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 
@@ -25,12 +32,19 @@ describe('ReviewService', () => {
     createBatches: vi.fn((items: any[]) => [items]),
     listCodebaseFiles: vi.fn().mockResolvedValue(['src/app.ts', 'src/main.ts']),
     isSensitiveFile: vi.fn().mockReturnValue(false),
+    getBranchState: vi.fn().mockResolvedValue({
+      branch: 'feature/login',
+      headSha: 'bbbb2222',
+      mergeBase: 'aaaa1111',
+    }),
+    isAncestorOfHead: vi.fn().mockResolvedValue(true),
   };
   const mockCouncil = {
     dispatchReviews: vi.fn().mockResolvedValue([
       { reviewer: 'Gemini', review: 'Looks good', status: 'success' },
       { reviewer: 'Codex', review: 'LGTM', status: 'success' },
     ]),
+    debate: vi.fn().mockResolvedValue([]),
   };
   const mockDecisionMaker = {
     decide: vi.fn().mockResolvedValue({
@@ -46,8 +60,35 @@ describe('ReviewService', () => {
     }),
   };
 
+  const mockHistory = {
+    save: vi.fn().mockResolvedValue('/tmp/history/review.json'),
+    findLatest: vi.fn().mockResolvedValue(null),
+  };
+
+  const mockFix = {
+    attachFixes: vi.fn().mockResolvedValue(undefined),
+  };
+
+  const mockCheckpoints = {
+    get: vi.fn().mockResolvedValue(null),
+    save: vi.fn().mockResolvedValue('/tmp/checkpoints/review.json'),
+    remove: vi.fn().mockResolvedValue(true),
+  };
+
   beforeEach(async () => {
     vi.clearAllMocks();
+    mockHistory.save.mockResolvedValue('/tmp/history/review.json');
+    mockHistory.findLatest.mockResolvedValue(null);
+    mockFix.attachFixes.mockResolvedValue(undefined);
+    mockCheckpoints.get.mockResolvedValue(null);
+    mockCheckpoints.save.mockResolvedValue('/tmp/checkpoints/review.json');
+    mockCheckpoints.remove.mockResolvedValue(true);
+    mockCodeReader.getBranchState.mockResolvedValue({
+      branch: 'feature/login',
+      headSha: 'bbbb2222',
+      mergeBase: 'aaaa1111',
+    });
+    mockCodeReader.isAncestorOfHead.mockResolvedValue(true);
     mockCodeReader.readGitDiff.mockResolvedValue('diff --git a/test.ts');
     mockCodeReader.readFiles.mockResolvedValue([
       { path: 'test.ts', content: 'const x = 1;' },
@@ -67,6 +108,7 @@ describe('ReviewService', () => {
       { reviewer: 'Gemini', review: 'Looks good', status: 'success' },
       { reviewer: 'Codex', review: 'LGTM', status: 'success' },
     ]);
+    mockCouncil.debate.mockResolvedValue([]);
     mockDecisionMaker.decide.mockResolvedValue({
       reviewer: 'Claude (Decision Maker)',
       overallAssessment: 'Code is clean.',
@@ -84,11 +126,197 @@ describe('ReviewService', () => {
         { provide: CouncilService, useValue: mockCouncil },
         { provide: DecisionMakerService, useValue: mockDecisionMaker },
         { provide: ConfigService, useValue: mockConfigService },
+        { provide: HistoryService, useValue: mockHistory },
+        { provide: FixService, useValue: mockFix },
+        { provide: CheckpointService, useValue: mockCheckpoints },
       ],
     }).compile();
     service = module.get(ReviewService);
   });
 
+  it('should save the finished diff review to history', async () => {
+    const result = await service.reviewDiff('/tmp/repo', 'develop', [
+      'security',
+    ]);
+    expect(mockHistory.save).toHaveBeenCalledTimes(1);
+    const [record] = mockHistory.save.mock.calls[0] as [ReviewHistoryRecord];
+    expect(record.id).toBe(result.id);
+    expect(record.result).toBe(result);
+    expect(record.config).toEqual({ review: { mode: 'inline' } });
+    expect(record.request).toEqual({
+      kind: 'diff',
+      mode: 'inline',
+      checks: ['security'],
+      extraInstructions: undefined,
+      repoPath: '/tmp/repo',
+      baseBranch: 'develop',
+      branch: 'feature/login',
+      headSha: 'bbbb2222',
+      mergeBase: 'aaaa1111',
+    });
+  });
+
+  it('should run the fix phase on the decision before saving', async () => {
+    const result = await service.reviewDiff('/tmp/repo', 'main');
+    expect(mockFix.attachFixes).toHaveBeenCalledWith(
+      result,
+      { dir: '/tmp/repo', rootRelative: true },
+      undefined,
+      undefined,
+    );
+    expect(mockFix.attachFixes.mock.invocationCallOrder[0]).toBeLessThan(
+      mockHistory.save.mock.invocationCallOrder[0],
+    );
+  });
+
+  it('should total the token usage of the review, fix phase included', async () => {
+    mockCouncil.dispatchReviews.mockResolvedValue([
+      {
+        reviewer: 'Gemini',
+        review: 'Looks good',
+        status: 'success',
+        usage: { inputTokens: 100, outputTokens: 10, cost: 0.5 },
+      },
+      { reviewer: 'Codex', review: 'LGTM', status: 'success' },
+    ]);
+    mockDecisionMaker.decide.mockResolvedValue({
+      reviewer: 'Claude (Decision Maker)',
+      overallAssessment: 'Code is clean.',
+      decisions: [],
+      additionalFindings: [],
+      usage: { inputTokens: 200, outputTokens: 20, unpricedModels: ['m'] },
+    });
+    mockFix.attachFixes.mockResolvedValue({
+      inputTokens: 5,
+      outputTokens: 5,
+      cost: 0.25,
+    });
+
+    const result = await service.reviewDiff('/tmp/repo', 'main');
+
+    expect(result.usage).toEqual({
+      inputTokens: 305,
+      outputTokens: 35,
+      cost: 0.75,
+      unpricedModels: ['m'],
+    });
+  });
+
+  it('should forward an explicit diff target and record it in history', async () => {
+    await service.reviewDiff('/tmp/repo', 'main', [], undefined, {
+      diff: { commit: 'abc1234' },
+    });
+    expect(mockCodeReader.readGitDiff).toHaveBeenCalledWith(
+      '/tmp/repo',
+      'main',
+      { commit: 'abc1234', since: undefined },
+    );
+    const [record] = mockHistory.save.mock.calls[0] as [ReviewHistoryRecord];
+    expect(record.request.commit).toBe('abc1234');
+  });
+
+  describe('incremental diff review', () => {
+    const priorRecord = {
+      id: 'review-prior111',
+      createdAt: '2025-01-01T00:00:00.000Z',
+      request: {
+        kind: 'diff',
+        mode: 'inline',
+        checks: [],
+        repoPath: '/tmp/repo',
+        baseBranch: 'main',
+        branch: 'feature/login',
+        headSha: 'aaaa1111',
+      },
+      result: {
+        id: 'review-prior111',
+        status: 'completed',
+        individualReviews: [],
+        decision: {
+          reviewer: 'Claude (Decision Maker)',
+          overallAssessment: '',
+          decisions: [
+            {
+              severity: 'high',
+              category: 'security',
+              description: 'SQL injection',
+              file: 'src/db.ts',
+              line: 3,
+              raisedBy: ['Gemini'],
+              verdict: 'accepted',
+              reasoning: '',
+              suggestion: 'Use parameters',
+            },
+          ],
+          additionalFindings: [],
+        },
+      },
+    };
+
+    it('should diff from the last reviewed commit and carry prior findings', async () => {
+      mockHistory.findLatest.mockResolvedValue(priorRecord);
+      mockCodeReader.readGitDiff.mockResolvedValue(
+        'diff --git a/src/db.ts b/src/db.ts\n--- a/src/db.ts\n+++ b/src/db.ts\n@@ -3,1 +3,2 @@\n',
+      );
+      const result = await service.reviewDiff(
+        '/tmp/repo',
+        'main',
+        [],
+        undefined,
+        { diff: { incremental: true } },
+      );
+      expect(mockCodeReader.readGitDiff).toHaveBeenCalledWith(
+        '/tmp/repo',
+        'main',
+        { since: 'aaaa1111' },
+      );
+      expect(result.incremental).toEqual({
+        sinceReviewId: 'review-prior111',
+        sinceSha: 'aaaa1111',
+      });
+      expect(result.carriedFindings).toEqual([
+        expect.objectContaining({
+          description: 'SQL injection',
+          fromReviewId: 'review-prior111',
+          status: 'needs-recheck',
+        }),
+      ]);
+    });
+
+    it('should reject incremental reviews of an explicit diff target', async () => {
+      await expect(
+        service.reviewDiff('/tmp/repo', 'main', [], undefined, {
+          diff: { incremental: true, range: 'v1..v2' },
+        }),
+      ).rejects.toThrow('Incremental review only applies');
+    });
+
+    it('should fall back to a full review when the prior commit was rebased away', async () => {
+      mockHistory.findLatest.mockResolvedValue(priorRecord);
+      mockCodeReader.isAncestorOfHead.mockResolvedValue(false);
+      const result = await service.reviewDiff(
+        '/tmp/repo',
+        'main',
+        [],
+        undefined,
+        { diff: { incremental: true } },
+      );
+      expect(mockCodeReader.readGitDiff).toHaveBeenCalledWith(
+        '/tmp/repo',
+        'main',
+        { since: undefined },
+      );
+      expect(result.incremental).toBeUndefined();
+      expect(result.carriedFindings).toBeUndefined();
+    });
+  });
+
+  it('should still return the result when saving history fails', async () => {
+    mockHistory.save.mockRejectedValueOnce(new Error('disk full'));
+    const result = await service.reviewFiles(['test.ts']);
+    expect(result.status).toBe('completed');
+  });
+
   it('should review git diff end-to-end', async () => {
     const result = await service.reviewDiff('/tmp/repo', 'main');
     expect(result.status).toBe('completed');
@@ -97,6 +325,7 @@ describe('ReviewService', () => {
     expect(mockCodeReader.readGitDiff).toHaveBeenCalledWith(
       '/tmp/repo',
       'main',
+      { since: undefined },
     );
     // Decision maker receives both code and reviews
     expect(mockDecisionMaker.decide).toHaveBeenCalledWith(
@@ -177,6 +406,71 @@ describe('ReviewService', () => {
     });
   });
 
+  it('should pass the debate transcript to the decision maker and the result', async () => {
+    const debate = [
+      {
+        round: 1,
+        entries: [
+          { reviewer: 'Gemini', status: 'success', response: 'agree' },
+          { reviewer: 'Codex', status: 'success', response: 'dispute' },
+        ],
+      },
+    ];
+    mockCouncil.debate.mockResolvedValue(debate);
+    const result = await service.reviewDiff('/tmp/repo', 'main');
+    expect(mockCouncil.debate).toHaveBeenCalledWith(
+      expect.objectContaining({ code: 'diff --git a/test.ts' }),
+      expect.arrayContaining([expect.objectContaining({ reviewer: 'Codex' })]),
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+    );
+    expect(mockDecisionMaker.decide.mock.calls[0][7]).toBe(debate);
+    expect(result.debate).toBe(debate);
+  });
+
+  it('should anchor decision findings against the reviewed diff', async () => {
+    mockCodeReader.readGitDiff.mockResolvedValue(
+      'diff --git a/src/db.ts b/src/db.ts\n--- a/src/db.ts\n+++ b/src/db.ts\n@@ -3,1 +3,2 @@\n const a = 1;\n+const q = `SELECT ${id}`;\n',
+    );
+    const item = {
+      severity: 'high' as const,
+      category: 'security' as const,
+      raisedBy: ['Gemini'],
+      verdict: 'accepted' as const,
+      reasoning: 'r',
+      suggestion: 's',
+    };
+    mockDecisionMaker.decide.mockResolvedValue({
+      reviewer: 'Claude (Decision Maker)',
+      overallAssessment: 'ok',
+      decisions: [
+        {
+          ...item,
+          file: 'db.ts',
+          line: 1,
+          description: 'Injection via `SELECT ${id}`',
+        },
+        { ...item, file: 'src/ghost.ts', description: 'Made up' },
+      ],
+      additionalFindings: [],
+    });
+    const result = await service.reviewDiff('/tmp/repo', 'main');
+    expect(result.decision?.decisions[0]).toMatchObject({
+      file: 'src/db.ts',
+      line: 4,
+      anchor: 'corrected',
+    });
+    expect(result.decision?.decisions[1].anchor).toBe('unknown-file');
+  });
+
+  it('should omit debate from the result when no rounds ran', async () => {
+    const result = await service.reviewDiff('/tmp/repo', 'main');
+    expect(result).not.toHaveProperty('debate');
+  });
+
   describe('decision maker failure degradation', () => {
     it('should return partial result when decision maker fails for reviewDiff', async () => {
       mockDecisionMaker.decide.mockRejectedValue(new Error('DM timeout'));
@@ -215,6 +509,45 @@ describe('ReviewService', () => {
     });
   });
 
+  describe('cancellation', () => {
+    it('should reject instead of degrading to a partial result', async () => {
+      const controller = new AbortController();
+      mockDecisionMaker.decide.mockImplementationOnce(() => {
+        controller.abort();
+        return Promise.reject(new Error('Review cancelled'));
+      });
+      await expect(
+        service.reviewFiles(['test.ts'], [], undefined, {
+          signal: controller.signal,
+        }),
+      ).rejects.toThrow('Review cancelled');
+      expect(mockCouncil.dispatchReviews).toHaveBeenCalledWith(
+        expect.anything(),
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        controller.signal,
+      );
+      expect(mockFix.attachFixes).not.toHaveBeenCalled();
+      expect(mockHistory.save).not.toHaveBeenCalled();
+    });
+
+    it('should not start a review that is already cancelled', async () => {
+      const controller = new AbortController();
+      controller.abort();
+      mockCouncil.dispatchReviews.mockRejectedValueOnce(
+        new Error('Review cancelled'),
+      );
+      await expect(
+        service.reviewDiff('/tmp/repo', 'main', [], undefined, {
+          signal: controller.signal,
+        }),
+      ).rejects.toThrow('Review cancelled');
+      expect(mockDecisionMaker.decide).not.toHaveBeenCalled();
+    });
+  });
+
   describe('exploration mode (mode=explore)', () => {
     beforeEach(() => {
       mockConfigService.getConfig.mockReturnValue({
@@ -228,6 +561,7 @@ describe('ReviewService', () => {
       expect(mockCodeReader.readGitDiff).toHaveBeenCalledWith(
         '/tmp/repo',
         'main',
+        { since: undefined },
       );
 
       // Should pass repoPath to council
@@ -291,4 +625,208 @@ describe('ReviewService', () => {
       expect(result.decision).toBeUndefined();
     });
   });
+
+  describe('review budget', () => {
+    const agent = (name: string) => ({
+      name,
+      cliPath: name.toLowerCase(),
+      cliArgs: [],
+    });
+    const withBudget = (budget: Record<string, unknown>, mode = 'batch') => ({
+      reviewers: [agent('Gemini'), agent('Codex')],
+      decisionMaker: agent('Claude'),
+      review: { defaultChecks: [], language: 'en', mode, budget },
+    });
+
+    beforeEach(() => {
+      mockCodeReader.readCodebase.mockResolvedValue([
+        [{ path: 'src/a.ts', content: 'a'.repeat(1000) }],
+        [{ path: 'src/b.ts', content: 'b'.repeat(1000) }],
+      ]);
+    });
+
+    it('should refuse a review over budget before contacting any agent', async () => {
+      mockConfigService.getConfig.mockReturnValue(
+        withBudget({ maxInputChars: 1500 }),
+      );
+      await expect(service.reviewCodebase('/tmp/project')).rejects.toThrow(
+        'Review exceeds the budget: 2000 chars of code exceed review.budget.maxInputChars (1500)',
+      );
+      expect(mockCouncil.dispatchReviews).not.toHaveBeenCalled();
+      expect(mockHistory.save).not.toHaveBeenCalled();
+    });
+
+    it('should review fewer batches when downscaling is allowed', async () => {
+      mockConfigService.getConfig.mockReturnValue(
+        withBudget({ maxInputChars: 1500, onExceed: 'downscale' }),
+      );
+      const result = await service.reviewCodebase('/tmp/project');
+      expect(mockCouncil.dispatchReviews).toHaveBeenCalledTimes(1);
+      const [request] = mockCouncil.dispatchReviews.mock.calls[0] as [
+        { code: string },
+      ];
+      expect(request.code).toContain('src/a.ts');
+      expect(request.code).not.toContain('src/b.ts');
+      expect(result.downscaled).toEqual([
+        'Reviewing the first 1 of 2 batches (1 of 2 files)',
+      ]);
+    });
+
+    it('should review with fewer reviewers when tokens are over budget', async () => {
+      // Two reviewers and a decision are ~13k tokens, one reviewer ~8k
+      mockConfigService.getConfig.mockReturnValue(
+        withBudget(
+          { maxEstimatedTokens: 10_000, onExceed: 'downscale' },
+          'inline',
+        ),
+      );
+      const result = await service.reviewFiles(['test.ts']);
+      const config = mockCouncil.dispatchReviews.mock.calls[0][4] as {
+        reviewers: { name: string }[];
+      };
+      expect(config.reviewers.map((r) => r.name)).toEqual(['Gemini']);
+      expect(result.downscaled).toEqual(['Dropped reviewer "Codex"']);
+    });
+
+    it('should plan a dry run without contacting any agent', async () => {
+      mockConfigService.getConfig.mockReturnValue(
+        withBudget({ maxInputChars: 1500 }),
+      );
+      const plan = await service.planCodebase('/tmp/project');
+      expect(plan).toMatchObject({
+        mode: 'batch',
+        reviewers: ['Gemini', 'Codex'],
+        files: 2,
+        batches: 2,
+        inputChars: 2000,
+        overBudget: [expect.stringContaining('maxInputChars')],
+      });
+      expect(mockCouncil.dispatchReviews).not.toHaveBeenCalled();
+      expect(mockDecisionMaker.decide).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('checkpoints', () => {
+    const agent = (name: string) => ({
+      name,
+      cliPath: name.toLowerCase(),
+      cliArgs: [],
+    });
+    const config = {
+      reviewers: [agent('Gemini'), agent('Codex')],
+      decisionMaker: agent('Claude'),
+      review: { defaultChecks: [], language: 'en', mode: 'batch' },
+    };
+    const success = (reviewer: string, review: string) => ({
+      reviewer,
+      review,
+      status: 'success',
+    });
+    const lastCheckpoint = (): ReviewCheckpoint =>
+      structuredClone(
+        mockCheckpoints.save.mock.calls.at(-1)![0] as ReviewCheckpoint,
+      );
+
+    beforeEach(() => {
+      mockConfigService.getConfig.mockReturnValue(config);
+      mockCodeReader.readCodebase.mockResolvedValue([
+        [{ path: 'src/a.ts', content: 'a' }],
+        [{ path: 'src/b.ts', content: 'b' }],
+      ]);
+      Object.assign(mockCouncil, {
+        synthesizeReview: vi.fn((reviewerConfig: { name: string }) =>
+          Promise.resolve(success(reviewerConfig.name, 'merged')),
+        ),
+      });
+    });
+
+    /** First run: batch 2 fails for Codex and the decision maker fails, so only batch 1 is checkpointed. */
+    const interruptedRun = async (): Promise<ReviewCheckpoint> => {
+      mockDecisionMaker.decide.mockRejectedValueOnce(new Error('killed'));
+      mockCouncil.dispatchReviews
+        .mockResolvedValueOnce([
+          success('Gemini', 'batch 1'),
+          success('Codex', 'batch 1'),
+        ])
+        .mockResolvedValueOnce([
+          success('Gemini', 'batch 2'),
+          { reviewer: 'Codex', review: '[error]', status: 'error' },
+        ]);
+      const result = await service.reviewCodebase('/tmp/project');
+      expect(result.status).toBe('partial');
+      expect(mockCheckpoints.remove).not.toHaveBeenCalled();
+      const checkpoint = lastCheckpoint();
+      vi.clearAllMocks();
+      mockCheckpoints.get.mockResolvedValue(checkpoint);
+      return checkpoint;
+    };
+
+    it('should checkpoint batches and syntheses and drop the checkpoint once completed', async () => {
+      const result = await service.reviewCodebase('/tmp/project');
+      expect(result.status).toBe('completed');
+      const checkpoint = lastCheckpoint();
+      expect(checkpoint).toMatchObject({
+        id: result.id,
+        request: { kind: 'codebase', directory: '/tmp/project' },
+        totalBatches: 2,
+      });
+      expect(checkpoint.batches.map((b) => b.index).sort()).toEqual([0, 1]);
+      expect(checkpoint.syntheses.map((r) => r.reviewer).sort()).toEqual([
+        'Codex',
+        'Gemini',
+      ]);
+      expect(mockCheckpoints.remove).toHaveBeenCalledWith(result.id);
+    });
+
+    it('should resume with only the unfinished batches', async () => {
+      const checkpoint = await interruptedRun();
+      expect(checkpoint.batches.map((b) => b.index)).toEqual([0]);
+
+      const result = await service.resumeCodebase(checkpoint.id);
+
+      expect(result.id).toBe(checkpoint.id);
+      expect(result.status).toBe('completed');
+      expect(mockCouncil.dispatchReviews).toHaveBeenCalledTimes(1);
+      const [request] = mockCouncil.dispatchReviews.mock.calls[0] as [
+        { code: string },
+      ];
+      expect(request.code).toContain('src/b.ts');
+      expect(request.code).not.toContain('src/a.ts');
+      expect(mockCheckpoints.remove).toHaveBeenCalledWith(checkpoint.id);
+    });
+
+    it('should review a checkpointed batch again when its files changed', async () => {
+      const checkpoint = await interruptedRun();
+      mockCodeReader.readCodebase.mockResolvedValue([
+        [{ path: 'src/a.ts', content: 'a2' }],
+        [{ path: 'src/b.ts', content: 'b' }],
+      ]);
+
+      await service.resumeCodebase(checkpoint.id);
+
+      expect(mockCouncil.dispatchReviews).toHaveBeenCalledTimes(2);
+    });
+
+    it('should keep the checkpoint of a cancelled review', async () => {
+      const controller = new AbortController();
+      mockDecisionMaker.decide.mockImplementationOnce(() => {
+        controller.abort();
+        return Promise.reject(new Error('Review cancelled'));
+      });
+      await expect(
+        service.reviewCodebase('/tmp/project', {}, [], undefined, {
+          signal: controller.signal,
+        }),
+      ).rejects.toThrow('Review cancelled');
+      expect(lastCheckpoint().batches).toHaveLength(2);
+      expect(mockCheckpoints.remove).not.toHaveBeenCalled();
+      expect(mockHistory.save).not.toHaveBeenCalled();
+    });
+
+    it('should reject an unknown review id', async () => {
+      await expect(service.resumeCodebase('review-missing')).rejects.toThrow(
+        'No checkpoint found for review "review-missing"',
+      );
+    });
+  });
 });
@@ -1,5 +1,5 @@
 import { Injectable, ConsoleLogger, Inject } from '@nestjs/common';
-import { randomUUID } from 'node:crypto';
+import { createHash, randomUUID } from 'node:crypto';
 import { resolve, relative } from 'node:path';
 import { realpath } from 'node:fs/promises';
 import { simpleGit } from 'simple-git';
@@ -7,15 +7,52 @@ import {
   CodeReaderService,
   CodebaseOptions,
   FileContent,
+  GitBranchState,
 } from './code-reader.service.js';
 import { CouncilService } from './council.service.js';
 import { DecisionMakerService } from './decision-maker.service.js';
+import { FixService, FixTarget } from './fix.service.js';
 import { ConfigService } from '../config/config.service.js';
 import { CouncilConfig } from '../config/config.types.js';
-import { IndividualReview, ReviewResult } from './review.types.js';
-import { sanitizeErrorMessage } from './retry-utils.js';
+import {
+  CarriedFinding,
+  DebateRound,
+  DiffReviewOptions,
+  IncrementalInfo,
+  IndividualReview,
+  ReviewRequest,
+  ReviewResult,
+  TokenUsage,
+} from './review.types.js';
+import { sanitizeErrorMessage, throwIfCancelled } from './retry-utils.js';
+import { sumUsage, totalUsage, usageField } from './usage.js';
+import { mergeBatchFindings } from './review-findings.js';
 import { isWithinRoot } from './path-utils.js';
+import {
+  contentScope,
+  diffScope,
+  pathScope,
+  planReview,
+  ReviewPlan,
+  ReviewScope,
+} from './review-budget.js';
 import { BATCH_CONCURRENCY } from '../constants.js';
+import { HistoryService } from '../history/history.service.js';
+import { CheckpointService } from '../history/checkpoint.service.js';
+import {
+  ReviewCheckpoint,
+  ReviewHistoryRequest,
+} from '../history/history.types.js';
+import {
+  carryForwardFindings,
+  collectPriorFindings,
+} from './incremental-review.js';
+import {
+  anchorReviewResult,
+  ReviewedFile,
+  reviewedFilesFromContent,
+  reviewedFilesFromDiff,
+} from './finding-anchors.js';
 
 // eslint-disable-next-line no-control-regex
 const CONTROL_CHARS = /[\x00-\x08\x09\x0B\x0C\x0E-\x1F\x7F]/g;
@@ -23,6 +60,32 @@ function sanitizeFileName(name: string): string {
   return name.replace(CONTROL_CHARS, '').replace(/[\r\n]+/g, ' ');
 }
 
+/** Identifies a batch by its files and their content, so a resumed run only reuses unchanged batches. */
+function batchHash(batch: FileContent[]): string {
+  const hash = createHash('sha256');
+  for (const f of batch) hash.update(`${f.path}\0${f.content}\0`);
+  return hash.digest('hex');
+}
+
+/** Progress callbacks, overrides and cancellation of a review run. */
+export interface ReviewRunOptions {
+  onDelta?: (reviewer: string, delta: string) => void;
+  onReviewerDone?: (
+    reviewer: string,
+    status: 'done' | 'error',
+    durationMs: number,
+    error?: string,
+  ) => void;
+  onToolActivity?: (reviewer: string, toolName: string, args?: unknown) => void;
+  onDmDelta?: (content: string, decisionMaker: string) => void;
+  onDmStart?: (dmName: string) => void;
+  /** Overrides `review.mode` of the config. */
+  mode?: 'inline' | 'batch' | 'explore';
+  /** Used instead of the loaded config, e.g. the config sent with a web review. */
+  config?: CouncilConfig;
+  signal?: AbortSignal;
+}
+
 @Injectable()
 export class ReviewService {
   constructor(
@@ -32,6 +95,10 @@ export class ReviewService {
     @Inject(DecisionMakerService)
     private readonly decisionMaker: DecisionMakerService,
     @Inject(ConfigService) private readonly configService: ConfigService,
+    @Inject(HistoryService) private readonly history: HistoryService,
+    @Inject(FixService) private readonly fixService: FixService,
+    @Inject(CheckpointService)
+    private readonly checkpoints: CheckpointService,
   ) {
     this.logger.setContext(ReviewService.name);
   }
@@ -45,23 +112,31 @@ export class ReviewService {
     baseBranch: string = 'main',
     checks: string[] = [],
     extraInstructions?: string,
-    onDelta?: (reviewer: string, delta: string) => void,
-    onReviewerDone?: (reviewer: string, status: 'done' | 'error', durationMs: number, error?: string) => void,
-    onToolActivity?: (reviewer: string, toolName: string, args?: unknown) => void,
-    modeOverride?: 'inline' | 'batch' | 'explore',
-    configOverride?: CouncilConfig,
-    onDmDelta?: (content: string) => void,
-    onDmStart?: (dmName: string) => void,
+    options: ReviewRunOptions & { diff?: DiffReviewOptions } = {},
   ): Promise<ReviewResult> {
+    const {
+      onDelta,
+      onReviewerDone,
+      onToolActivity,
+      onDmDelta,
+      onDmStart,
+      mode: modeOverride,
+      diff: diffOptions = {},
+      signal,
+    } = options;
+    let configOverride = options.config;
     const id = `review-${randomUUID().slice(0, 8)}`;
     const startMs = Date.now();
     this.logger.log(`Starting diff review ${id} (mode: ${modeOverride ?? 'config'})`);
 
-    // Always send diff content inline, even in explore mode.
-    // Unlike reviewFiles/reviewCodebase (which send only file paths in explore mode
-    // and let the agent read files itself), diff content must be provided because
-    // the agent cannot reproduce `git diff` on its own.
-    const code = await this.codeReader.readGitDiff(repoPath, baseBranch);
+    const { incremental, ...target } = diffOptions;
+    const { code, branchState, base } = await this.readDiff(
+      repoPath,
+      baseBranch,
+      diffOptions,
+    );
+    const budget = this.applyBudget(diffScope(code), configOverride);
+    configOverride = budget.config;
 
     let result: ReviewResult;
     const mode = this.resolveMode(modeOverride, configOverride);
@@ -75,12 +150,41 @@ export class ReviewService {
       result = await this.runReview(
         id, code, checks, extraInstructions, absolutePath,
         onDelta, onReviewerDone, onToolActivity, configOverride, onDmDelta, onDmStart,
+        signal,
       );
     } else {
-      result = await this.runReview(id, code, checks, extraInstructions, undefined, onDelta, onReviewerDone, onToolActivity, configOverride, onDmDelta, onDmStart);
+      result = await this.runReview(id, code, checks, extraInstructions, undefined, onDelta, onReviewerDone, onToolActivity, configOverride, onDmDelta, onDmStart, signal);
+    }
+    this.anchorFindings(result, reviewedFilesFromDiff(code));
+    const fixUsage = await this.fixService.attachFixes(
+      result,
+      { dir: repoPath, rootRelative: true },
+      configOverride,
+      signal,
+    );
+    this.recordUsage(result, fixUsage);
+    if (budget.plan?.downscaled) result.downscaled = budget.plan.downscaled;
+    if (base) {
+      result.incremental = base.incremental;
+      result.carriedFindings = carryForwardFindings(base.priorFindings, code);
     }
     result.durationMs = Date.now() - startMs;
     this.logger.log(`Diff review ${id} completed in ${result.durationMs}ms`);
+    await this.saveHistory(
+      {
+        kind: 'diff',
+        mode,
+        checks,
+        extraInstructions,
+        repoPath,
+        baseBranch,
+        ...branchState,
+        incremental,
+        ...target,
+      },
+      result,
+      configOverride,
+    );
     return result;
   }
 
@@ -88,140 +192,598 @@ export class ReviewService {
     filePaths: string[],
     checks: string[] = [],
     extraInstructions?: string,
-    onDelta?: (reviewer: string, delta: string) => void,
-    onReviewerDone?: (reviewer: string, status: 'done' | 'error', durationMs: number, error?: string) => void,
-    onToolActivity?: (reviewer: string, toolName: string, args?: unknown) => void,
-    modeOverride?: 'inline' | 'batch' | 'explore',
-    configOverride?: CouncilConfig,
-    onDmDelta?: (content: string) => void,
-    onDmStart?: (dmName: string) => void,
+    options: ReviewRunOptions = {},
   ): Promise<ReviewResult> {
+    const {
+      onDelta,
+      onReviewerDone,
+      onToolActivity,
+      onDmDelta,
+      onDmStart,
+      mode: modeOverride,
+      signal,
+    } = options;
+    let configOverride = options.config;
     const id = `review-${randomUUID().slice(0, 8)}`;
     const startMs = Date.now();
     this.logger.log(`Starting file review ${id} (mode: ${modeOverride ?? 'config'})`);
 
     let result: ReviewResult;
+    let plan: ReviewPlan | undefined;
+    let fixTarget: FixTarget = { dir: process.cwd() };
     const mode = this.resolveMode(modeOverride, configOverride);
     if (mode === 'explore') {
       // Exploration mode: only send file paths, agent reads content itself
-      const repoRoot = await this.resolveGitRoot();
-      const safePaths: string[] = [];
-      const REALPATH_CHUNK = 20;
-      for (let i = 0; i < filePaths.length; i += REALPATH_CHUNK) {
-        const chunk = filePaths.slice(i, i + REALPATH_CHUNK);
-        const results = await Promise.all(
-          chunk.map(async (p) => {
-            const abs = resolve(p);
-            try {
-              const real = await realpath(abs);
-              if (!isWithinRoot(real, repoRoot)) {
-                this.logger.warn(`Skipping file outside repo root: ${p}`);
-                return null;
-              }
-              if (this.codeReader.isSensitiveFile(real)) {
-                this.logger.warn(`Skipping sensitive file: ${p}`);
-                return null;
-              }
-              return relative(repoRoot, real);
-            } catch {
-              this.logger.warn(`Skipping unresolvable path: ${p}`);
-              return null;
-            }
-          }),
-        );
-        for (const r of results) {
-          if (r !== null) safePaths.push(r);
-        }
-      }
-      if (safePaths.length === 0) {
-        throw new Error('No valid files to review after path validation');
-      }
+      const { repoRoot, safePaths } = await this.resolveExplorePaths(filePaths);
+      ({ plan, config: configOverride } = this.applyBudget(
+        pathScope(safePaths),
+        configOverride,
+      ));
       this.logger.log(
         `Exploration mode: sending ${safePaths.length} file paths (no content)`,
       );
       result = await this.runExplorationReview(
         id, safePaths, checks, extraInstructions, repoRoot,
         onDelta, onReviewerDone, onToolActivity, configOverride, onDmDelta, onDmStart,
+        signal,
       );
+      this.anchorFindings(
+        result,
+        reviewedFilesFromContent(safePaths.map((path) => ({ path }))),
+      );
+      fixTarget = { dir: repoRoot, rootRelative: true };
     } else {
       const files = await this.codeReader.readFiles(filePaths);
       if (mode === 'inline') {
+        ({ plan, config: configOverride } = this.applyBudget(
+          contentScope(mode, [files]),
+          configOverride,
+        ));
         const code = files
           .map((f) => `=== ${sanitizeFileName(f.path)} ===\n${f.content}`)
           .join('\n\n');
         this.logger.log(`Inline mode: ${files.length} files, ${code.length} chars`);
-        result = await this.runReview(id, code, checks, extraInstructions, undefined, onDelta, onReviewerDone, onToolActivity, configOverride, onDmDelta, onDmStart);
+        result = await this.runReview(id, code, checks, extraInstructions, undefined, onDelta, onReviewerDone, onToolActivity, configOverride, onDmDelta, onDmStart, signal);
       } else {
-        const batches = this.codeReader.createBatches(files);
+        let batches = this.codeReader.createBatches(files);
+        ({ plan, config: configOverride } = this.applyBudget(
+          contentScope(mode, batches),
+          configOverride,
+        ));
+        batches = batches.slice(0, plan?.batches);
         this.logger.log(`Batch mode: ${files.length} files split into ${batches.length} batch(es)`);
         result = await this.runBatchedInlineReview(
           id, batches, checks, extraInstructions,
           onDelta, onReviewerDone, onToolActivity, configOverride, onDmDelta, onDmStart,
+          undefined, signal,
         );
       }
+      this.anchorFindings(result, reviewedFilesFromContent(files));
     }
+    const fixUsage = await this.fixService.attachFixes(
+      result,
+      fixTarget,
+      configOverride,
+      signal,
+    );
+    this.recordUsage(result, fixUsage);
+    if (plan?.downscaled) result.downscaled = plan.downscaled;
     result.durationMs = Date.now() - startMs;
     this.logger.log(`File review ${id} completed in ${result.durationMs}ms`);
+    await this.saveHistory(
+      { kind: 'file', mode, checks, extraInstructions, filePaths },
+      result,
+      configOverride,
+    );
     return result;
   }
 
   async reviewCodebase(
     directory: string,
-    options: CodebaseOptions = {},
+    codebaseOptions: CodebaseOptions = {},
     checks: string[] = [],
     extraInstructions?: string,
-    onDelta?: (reviewer: string, delta: string) => void,
-    onReviewerDone?: (reviewer: string, status: 'done' | 'error', durationMs: number, error?: string) => void,
-    onToolActivity?: (reviewer: string, toolName: string, args?: unknown) => void,
-    modeOverride?: 'inline' | 'batch' | 'explore',
-    configOverride?: CouncilConfig,
-    onDmDelta?: (content: string) => void,
-    onDmStart?: (dmName: string) => void,
+    options: ReviewRunOptions & { resumeFrom?: ReviewCheckpoint } = {},
   ): Promise<ReviewResult> {
-    const id = `review-${randomUUID().slice(0, 8)}`;
+    const {
+      onDelta,
+      onReviewerDone,
+      onToolActivity,
+      onDmDelta,
+      onDmStart,
+      mode: modeOverride,
+      resumeFrom,
+      signal,
+    } = options;
+    let configOverride = options.config;
+    const id = resumeFrom?.id ?? `review-${randomUUID().slice(0, 8)}`;
     const startMs = Date.now();
-    this.logger.log(`Starting codebase review ${id} (mode: ${modeOverride ?? 'config'})`);
+    this.logger.log(
+      resumeFrom
+        ? `Resuming codebase review ${id} (${resumeFrom.batches.length}/${resumeFrom.totalBatches} batches done)`
+        : `Starting codebase review ${id} (mode: ${modeOverride ?? 'config'})`,
+    );
 
     let result: ReviewResult;
+    let plan: ReviewPlan | undefined;
     const mode = this.resolveMode(modeOverride, configOverride);
+    const request: ReviewHistoryRequest = {
+      kind: 'codebase',
+      mode,
+      checks,
+      extraInstructions,
+      directory,
+      extensions: codebaseOptions.extensions,
+      maxBatchSize: codebaseOptions.maxBatchSize,
+    };
+    let checkpoint: ReviewCheckpoint | undefined;
 
     if (mode === 'explore') {
-      let absoluteDir: string;
-      try {
-        absoluteDir = await realpath(resolve(directory));
-      } catch {
-        absoluteDir = resolve(directory);
-      }
-      const filePaths = await this.codeReader.listCodebaseFiles(absoluteDir, options);
+      const absoluteDir = await this.resolveDirectory(directory);
+      const filePaths = await this.codeReader.listCodebaseFiles(absoluteDir, codebaseOptions);
+      ({ plan, config: configOverride } = this.applyBudget(
+        pathScope(filePaths),
+        configOverride,
+      ));
       this.logger.log(`Exploration mode: found ${filePaths.length} files (no content)`);
       result = await this.runExplorationReview(
         id, filePaths, checks, extraInstructions, absoluteDir,
         onDelta, onReviewerDone, onToolActivity, configOverride, onDmDelta, onDmStart,
+        signal,
+      );
+      this.anchorFindings(
+        result,
+        reviewedFilesFromContent(filePaths.map((path) => ({ path }))),
       );
     } else if (mode === 'inline') {
-      const batches = await this.codeReader.readCodebase(directory, options);
+      const batches = await this.codeReader.readCodebase(directory, codebaseOptions);
+      ({ plan, config: configOverride } = this.applyBudget(
+        contentScope(mode, batches),
+        configOverride,
+      ));
       const allFiles = batches.flat();
       const code = allFiles
         .map((f) => `=== ${sanitizeFileName(f.path)} ===\n${f.content}`)
         .join('\n\n');
       this.logger.log(`Inline mode: ${allFiles.length} files, ${code.length} chars`);
-      result = await this.runReview(id, code, checks, extraInstructions, undefined, onDelta, onReviewerDone, onToolActivity, configOverride, onDmDelta, onDmStart);
+      result = await this.runReview(id, code, checks, extraInstructions, undefined, onDelta, onReviewerDone, onToolActivity, configOverride, onDmDelta, onDmStart, signal);
+      this.anchorFindings(result, reviewedFilesFromContent(allFiles));
     } else {
-      const batches = await this.codeReader.readCodebase(directory, options);
+      let batches = await this.codeReader.readCodebase(directory, codebaseOptions);
+      ({ plan, config: configOverride } = this.applyBudget(
+        contentScope(mode, batches),
+        configOverride,
+      ));
+      batches = batches.slice(0, plan?.batches);
       this.logger.log(`Batch mode: split into ${batches.length} batch(es)`);
+      if (batches.length > 1) {
+        checkpoint = this.openCheckpoint(
+          id,
+          request,
+          batches,
+          configOverride,
+          resumeFrom,
+        );
+      }
       result = await this.runBatchedInlineReview(
         id, batches, checks, extraInstructions,
         onDelta, onReviewerDone, onToolActivity, configOverride, onDmDelta, onDmStart,
+        checkpoint, signal,
       );
+      this.anchorFindings(result, reviewedFilesFromContent(batches.flat()));
     }
+    const fixUsage = await this.fixService.attachFixes(
+      result,
+      { dir: directory },
+      configOverride,
+      signal,
+    );
+    this.recordUsage(result, fixUsage);
+    if (plan?.downscaled) result.downscaled = plan.downscaled;
 
     result.durationMs = Date.now() - startMs;
     this.logger.log(
       `Codebase review ${id} completed in ${result.durationMs}ms`,
     );
+    await this.saveHistory(request, result, configOverride);
+    if (checkpoint) await this.closeCheckpoint(checkpoint, result);
     return result;
   }
 
+  /**
+   * Continue an interrupted batch-mode codebase review from its checkpoint:
+   * batches whose files are unchanged keep their reviews, the rest are reviewed
+   * again with the reviewers and settings the review started with.
+   */
+  async resumeCodebase(
+    reviewId: string,
+    options: Omit<ReviewRunOptions, 'mode' | 'config'> = {},
+  ): Promise<ReviewResult> {
+    const checkpoint = await this.checkpoints.get(reviewId);
+    if (!checkpoint) {
+      throw new Error(`No checkpoint found for review "${reviewId}"`);
+    }
+    const { request } = checkpoint;
+    return this.reviewCodebase(
+      request.directory ?? '.',
+      { extensions: request.extensions, maxBatchSize: request.maxBatchSize },
+      request.checks,
+      request.extraInstructions,
+      {
+        ...options,
+        mode: 'batch',
+        config: checkpoint.config,
+        resumeFrom: checkpoint,
+      },
+    );
+  }
+
+  /** Plan of a diff review, read but not sent to any agent (--dry-run). */
+  async planDiff(
+    repoPath: string,
+    baseBranch: string = 'main',
+    configOverride?: CouncilConfig,
+    diffOptions: DiffReviewOptions = {},
+  ): Promise<ReviewPlan> {
+    const { code } = await this.readDiff(repoPath, baseBranch, diffOptions);
+    return planReview(
+      configOverride ?? this.configService.getConfig(),
+      diffScope(code),
+    );
+  }
+
+  /** Plan of a file review, read but not sent to any agent (--dry-run). */
+  async planFiles(
+    filePaths: string[],
+    modeOverride?: 'inline' | 'batch' | 'explore',
+    configOverride?: CouncilConfig,
+  ): Promise<ReviewPlan> {
+    const config = configOverride ?? this.configService.getConfig();
+    const mode = this.resolveMode(modeOverride, config);
+    if (mode === 'explore') {
+      const { safePaths } = await this.resolveExplorePaths(filePaths);
+      return planReview(config, pathScope(safePaths));
+    }
+    const files = await this.codeReader.readFiles(filePaths);
+    const batches =
+      mode === 'inline' ? [files] : this.codeReader.createBatches(files);
+    return planReview(config, contentScope(mode, batches));
+  }
+
+  /** Plan of a codebase review, read but not sent to any agent (--dry-run). */
+  async planCodebase(
+    directory: string,
+    options: CodebaseOptions = {},
+    modeOverride?: 'inline' | 'batch' | 'explore',
+    configOverride?: CouncilConfig,
+  ): Promise<ReviewPlan> {
+    const config = configOverride ?? this.configService.getConfig();
+    const mode = this.resolveMode(modeOverride, config);
+    if (mode === 'explore') {
+      const filePaths = await this.codeReader.listCodebaseFiles(
+        await this.resolveDirectory(directory),
+        options,
+      );
+      return planReview(config, pathScope(filePaths));
+    }
+    const batches = await this.codeReader.readCodebase(directory, options);
+    return planReview(config, contentScope(mode, batches));
+  }
+
+  /**
+   * Check the review against `review.budget` before any agent is contacted.
+   * Returns the config to review with (fewer reviewers when downscaled) and
+   * the plan, whose `batches` is the number of batches to keep; throws when
+   * the review is over budget.
+   */
+  private applyBudget(
+    scope: ReviewScope,
+    configOverride?: CouncilConfig,
+  ): { config?: CouncilConfig; plan?: ReviewPlan } {
+    const config = configOverride ?? this.configService.getConfig();
+    const budget = config.review.budget;
+    if (!budget) return { config: configOverride };
+    const plan = planReview(config, scope);
+    if (plan.overBudget) {
+      const hint =
+        budget.onExceed === 'downscale'
+          ? ''
+          : '. Set "review.budget.onExceed" to "downscale" to review with fewer reviewers or batches instead';
+      throw new Error(
+        `Review exceeds the budget: ${plan.overBudget.join('; ')}${hint}`,
+      );
+    }
+    if (!plan.downscaled) return { config: configOverride, plan };
+    for (const note of plan.downscaled) {
+      this.logger.warn(`Downscaled to fit the budget: ${note}`);
+    }
+    return {
+      config: {
+        ...config,
+        reviewers: config.reviewers.filter((r) =>
+          plan.reviewers.includes(r.name),
+        ),
+      },
+      plan,
+    };
+  }
+
+  /**
+   * Read the diff to review. Incremental reviews diff from the last reviewed
+   * commit of the branch (see findIncrementalBase).
+   */
+  private async readDiff(
+    repoPath: string,
+    baseBranch: string,
+    diffOptions: DiffReviewOptions,
+  ): Promise<{
+    code: string;
+    branchState?: GitBranchState;
+    base?: { incremental: IncrementalInfo; priorFindings: CarriedFinding[] };
+  }> {
+    const { incremental, ...target } = diffOptions;
+    const hasExplicitTarget = Object.values(target).some(
+      (v) => v !== undefined && v !== false,
+    );
+    if (incremental && hasExplicitTarget) {
+      throw new Error(
+        'Incremental review only applies to base-vs-HEAD diffs, not to a range, commit, staged or working-tree diff',
+      );
+    }
+    const branchState = await this.readBranchState(repoPath, baseBranch);
+    const base = incremental
+      ? await this.findIncrementalBase(repoPath, baseBranch, branchState)
+      : undefined;
+
+    // Always send diff content inline, even in explore mode.
+    // Unlike reviewFiles/reviewCodebase (which send only file paths in explore mode
+    // and let the agent read files itself), diff content must be provided because
+    // the agent cannot reproduce `git diff` on its own.
+    const code = await this.codeReader.readGitDiff(repoPath, baseBranch, {
+      ...target,
+      since: base?.incremental.sinceSha,
+    });
+    return { code, branchState, base };
+  }
+
+  /** Repo-relative paths of the files an explore-mode file review may send. */
+  private async resolveExplorePaths(
+    filePaths: string[],
+  ): Promise<{ repoRoot: string; safePaths: string[] }> {
+    const repoRoot = await this.resolveGitRoot();
+    const safePaths: string[] = [];
+    const REALPATH_CHUNK = 20;
+    for (let i = 0; i < filePaths.length; i += REALPATH_CHUNK) {
+      const chunk = filePaths.slice(i, i + REALPATH_CHUNK);
+      const results = await Promise.all(
+        chunk.map(async (p) => {
+          const abs = resolve(p);
+          try {
+            const real = await realpath(abs);
+            if (!isWithinRoot(real, repoRoot)) {
+              this.logger.warn(`Skipping file outside repo root: ${p}`);
+              return null;
+            }
+            if (this.codeReader.isSensitiveFile(real)) {
+              this.logger.warn(`Skipping sensitive file: ${p}`);
+              return null;
+            }
+            return relative(repoRoot, real);
+          } catch {
+            this.logger.warn(`Skipping unresolvable path: ${p}`);
+            return null;
+          }
+        }),
+      );
+      for (const r of results) {
+        if (r !== null) safePaths.push(r);
+      }
+    }
+    if (safePaths.length === 0) {
+      throw new Error('No valid files to review after path validation');
+    }
+    return { repoRoot, safePaths };
+  }
+
+  private async resolveDirectory(directory: string): Promise<string> {
+    try {
+      return await realpath(resolve(directory));
+    } catch {
+      return resolve(directory);
+    }
+  }
+
+  /**
+   * Check finding locations against the files that were actually reviewed:
+   * fix up paths and line numbers, and flag files that were never reviewed.
+   */
+  private anchorFindings(result: ReviewResult, reviewed: ReviewedFile[]): void {
+    if (reviewed.length === 0) return;
+    const stats = anchorReviewResult(result, reviewed);
+    if (stats.verified + stats.corrected + stats.unknownFile === 0) return;
+    this.logger.log(
+      `Anchored findings: ${stats.verified} verified, ${stats.corrected} corrected, ${stats.unknownFile} in files that were not reviewed`,
+    );
+  }
+
+  /** Total token usage of the review, fix phase included, as `result.usage`. */
+  private recordUsage(result: ReviewResult, fixUsage?: TokenUsage): void {
+    const usage = totalUsage(result, fixUsage);
+    if (!usage) return;
+    result.usage = usage;
+    const cost = usage.cost !== undefined ? `, ~$${usage.cost.toFixed(4)}` : '';
+    this.logger.log(
+      `Token usage: ${usage.inputTokens} in, ${usage.outputTokens} out${cost}`,
+    );
+  }
+
+  /**
+   * Persist the finished review to the local history store.
+   * History is best-effort: a write failure is logged and never fails the review.
+   */
+  private async saveHistory(
+    request: ReviewHistoryRequest,
+    result: ReviewResult,
+    configOverride?: CouncilConfig,
+  ): Promise<void> {
+    try {
+      const filePath = await this.history.save({
+        id: result.id,
+        createdAt: new Date().toISOString(),
+        request,
+        config: configOverride ?? this.configService.getConfig(),
+        result,
+      });
+      this.logger.log(`Review ${result.id} saved to history: ${filePath}`);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to save review ${result.id} to history: ${sanitizeErrorMessage(error)}`,
+      );
+    }
+  }
+
+  /** Best-effort: a missing branch state only disables incremental reviews. */
+  private async readBranchState(
+    repoPath: string,
+    baseBranch: string,
+  ): Promise<GitBranchState | undefined> {
+    try {
+      return await this.codeReader.getBranchState(repoPath, baseBranch);
+    } catch (error) {
+      this.logger.warn(
+        `Could not read branch state: ${sanitizeErrorMessage(error)}`,
+      );
+      return undefined;
+    }
+  }
+
+  /**
+   * Find the latest reviewed commit of the same branch to diff from.
+   * Returns undefined (full review) when there is no usable previous review.
+   */
+  private async findIncrementalBase(
+    repoPath: string,
+    baseBranch: string,
+    branchState: GitBranchState | undefined,
+  ): Promise<
+    | { incremental: IncrementalInfo; priorFindings: CarriedFinding[] }
+    | undefined
+  > {
+    const branch = branchState?.branch;
+    if (!branch) {
+      this.logger.warn(
+        'Incremental review needs a checked-out branch, running a full review',
+      );
+      return undefined;
+    }
+    const repo = resolve(repoPath);
+    const prior = await this.history.findLatest(
+      (r) =>
+        r.request.kind === 'diff' &&
+        r.request.repoPath !== undefined &&
+        resolve(r.request.repoPath) === repo &&
+        r.request.branch === branch &&
+        r.request.baseBranch === baseBranch &&
+        r.request.headSha !== undefined &&
+        // Range/commit/staged/working-tree reviews do not cover the whole branch
+        !r.request.range &&
+        !r.request.commit &&
+        !r.request.staged &&
+        !r.request.workingTree &&
+        r.result.status !== 'failed',
+    );
+    const sinceSha = prior?.request.headSha;
+    if (!prior || !sinceSha) {
+      this.logger.warn(
+        `No previous review of branch "${branch}" in history, running a full review`,
+      );
+      return undefined;
+    }
+    if (!(await this.codeReader.isAncestorOfHead(repoPath, sinceSha))) {
+      this.logger.warn(
+        `Previously reviewed commit ${sinceSha.slice(0, 12)} is no longer in the branch history (rebased?), running a full review`,
+      );
+      return undefined;
+    }
+    this.logger.log(
+      `Incremental review since ${sinceSha.slice(0, 12)} (review ${prior.id})`,
+    );
+    return {
+      incremental: { sinceReviewId: prior.id, sinceSha },
+      priorFindings: collectPriorFindings(prior.result),
+    };
+  }
+
+  /**
+   * Checkpoint of a multi-batch review. When resuming, only batches whose
+   * files are unchanged are kept, and syntheses only when every batch is.
+   */
+  private openCheckpoint(
+    id: string,
+    request: ReviewHistoryRequest,
+    batches: FileContent[][],
+    configOverride?: CouncilConfig,
+    resumeFrom?: ReviewCheckpoint,
+  ): ReviewCheckpoint {
+    const hashes = batches.map(batchHash);
+    const kept = (resumeFrom?.batches ?? []).filter(
+      (b) => hashes[b.index] === b.hash,
+    );
+    if (resumeFrom && kept.length < resumeFrom.batches.length) {
+      this.logger.warn(
+        `${resumeFrom.batches.length - kept.length} checkpointed batch(es) changed since the review started and will be reviewed again`,
+      );
+    }
+    const now = new Date().toISOString();
+    const checkpoint: ReviewCheckpoint = {
+      id,
+      createdAt: resumeFrom?.createdAt ?? now,
+      updatedAt: now,
+      request,
+      config: configOverride ?? this.configService.getConfig(),
+      totalBatches: batches.length,
+      batches: kept,
+      syntheses:
+        kept.length === batches.length ? (resumeFrom?.syntheses ?? []) : [],
+    };
+    this.logger.log(
+      `Checkpointing review ${id}; resume an interrupted run with: codebase --resume ${id}`,
+    );
+    return checkpoint;
+  }
+
+  /** Best-effort: a review never fails because its checkpoint could not be written. */
+  private async saveCheckpoint(checkpoint: ReviewCheckpoint): Promise<void> {
+    try {
+      checkpoint.updatedAt = new Date().toISOString();
+      await this.checkpoints.save(checkpoint);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to save checkpoint of review ${checkpoint.id}: ${sanitizeErrorMessage(error)}`,
+      );
+    }
+  }
+
+  /** A completed review no longer needs its checkpoint; any other outcome keeps it for --resume. */
+  private async closeCheckpoint(
+    checkpoint: ReviewCheckpoint,
+    result: ReviewResult,
+  ): Promise<void> {
+    if (result.status !== 'completed') {
+      this.logger.log(
+        `Review ${checkpoint.id} is ${result.status}; resume it with: codebase --resume ${checkpoint.id}`,
+      );
+      return;
+    }
+    try {
+      await this.checkpoints.remove(checkpoint.id);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to remove checkpoint of review ${checkpoint.id}: ${sanitizeErrorMessage(error)}`,
+      );
+    }
+  }
+
   private groupReviewsByReviewer(reviews: IndividualReview[]): Map<string, IndividualReview[]> {
     const grouped = new Map<string, IndividualReview[]>();
     for (const r of reviews) {
@@ -244,12 +806,60 @@ export class ReviewService {
       return {
         reviewer,
         review: combined,
+        ...mergeBatchFindings(batchReviews),
         status: hasError ? ('error' as const) : ('success' as const),
         durationMs: batchReviews.reduce((sum, r) => sum + (r.durationMs ?? 0), 0),
+        ...usageField(sumUsage(batchReviews.map((r) => r.usage))),
+        ...(batchReviews.every((r) => r.cached) ? { cached: true } : {}),
       };
     });
   }
 
+  /**
+   * Optional debate between reviewers before the decision maker rules.
+   * Best-effort: a debate failure is logged and the decision maker proceeds without it.
+   */
+  private async runDebate(
+    request: ReviewRequest,
+    reviews: IndividualReview[],
+    onDelta?: (reviewer: string, delta: string) => void,
+    onReviewerDone?: (
+      reviewer: string,
+      status: 'done' | 'error',
+      durationMs: number,
+      error?: string,
+    ) => void,
+    onToolActivity?: (
+      reviewer: string,
+      toolName: string,
+      args?: unknown,
+    ) => void,
+    configOverride?: CouncilConfig,
+    signal?: AbortSignal,
+  ): Promise<DebateRound[]> {
+    try {
+      return await this.council.debate(
+        request,
+        reviews,
+        onDelta,
+        onReviewerDone,
+        onToolActivity,
+        configOverride,
+        signal,
+      );
+    } catch (error) {
+      throwIfCancelled(signal);
+      this.logger.warn(
+        `Debate failed, continuing without it: ${sanitizeErrorMessage(error)}`,
+      );
+      return [];
+    }
+  }
+
+  private debateField(debate: DebateRound[]): Pick<ReviewResult, 'debate'> {
+    return debate.length > 0 ? { debate } : {};
+  }
+
   private allReviewsFailed(reviews: IndividualReview[]): boolean {
     return reviews.length > 0 && reviews.every((r) => r.status === 'error');
   }
@@ -268,21 +878,39 @@ export class ReviewService {
     onReviewerDone?: (reviewer: string, status: 'done' | 'error', durationMs: number, error?: string) => void,
     onToolActivity?: (reviewer: string, toolName: string, args?: unknown) => void,
     configOverride?: CouncilConfig,
-    onDmDelta?: (content: string) => void,
+    onDmDelta?: (content: string, decisionMaker: string) => void,
     onDmStart?: (dmName: string) => void,
+    signal?: AbortSignal,
   ): Promise<ReviewResult> {
-    const individualReviews = await this.council.dispatchReviews({
+    const request: ReviewRequest = {
       checks,
       extraInstructions,
       repoPath,
       filePaths,
-    }, onDelta, onReviewerDone, onToolActivity, configOverride);
+    };
+    const individualReviews = await this.council.dispatchReviews(
+      request,
+      onDelta,
+      onReviewerDone,
+      onToolActivity,
+      configOverride,
+      signal,
+    );
 
     if (this.allReviewsFailed(individualReviews)) {
       this.logger.error('All reviewers failed, skipping decision maker');
       return { id, status: 'failed', individualReviews };
     }
 
+    const debate = await this.runDebate(
+      request,
+      individualReviews,
+      onDelta,
+      onReviewerDone,
+      onToolActivity,
+      configOverride,
+      signal,
+    );
     const fileSummary = filePaths.map(sanitizeFileName).join('\n');
     try {
       const decision = await this.decisionMaker.decide(
@@ -293,17 +921,31 @@ export class ReviewService {
         configOverride,
         onDmDelta,
         onDmStart,
+        debate,
+        signal,
       );
       const status =
         decision.parseFailed || this.hasAnyReviewerFailure(individualReviews)
           ? 'partial'
           : 'completed';
-      return { id, status, individualReviews, decision };
+      return {
+        id,
+        status,
+        individualReviews,
+        decision,
+        ...this.debateField(debate),
+      };
     } catch (error) {
+      throwIfCancelled(signal);
       this.logger.error(
         `Decision maker failed, returning partial result: ${sanitizeErrorMessage(error)}`,
       );
-      return { id, status: 'partial', individualReviews };
+      return {
+        id,
+        status: 'partial',
+        individualReviews,
+        ...this.debateField(debate),
+      };
     }
   }
 
@@ -316,14 +958,16 @@ export class ReviewService {
     onReviewerDone?: (reviewer: string, status: 'done' | 'error', durationMs: number, error?: string) => void,
     onToolActivity?: (reviewer: string, toolName: string, args?: unknown) => void,
     configOverride?: CouncilConfig,
-    onDmDelta?: (content: string) => void,
+    onDmDelta?: (content: string, decisionMaker: string) => void,
     onDmStart?: (dmName: string) => void,
+    checkpoint?: ReviewCheckpoint,
+    signal?: AbortSignal,
   ): Promise<ReviewResult> {
     if (batches.length === 1) {
       const code = batches[0]
         .map((f) => `=== ${sanitizeFileName(f.path)} ===\n${f.content}`)
         .join('\n\n');
-      return this.runReview(id, code, checks, extraInstructions, undefined, onDelta, onReviewerDone, onToolActivity, configOverride);
+      return this.runReview(id, code, checks, extraInstructions, undefined, onDelta, onReviewerDone, onToolActivity, configOverride, undefined, undefined, signal);
     }
 
     // Multi-batch: review batches with limited concurrency, then pass file summary to decision maker
@@ -341,7 +985,28 @@ export class ReviewService {
       }
     }
 
+    // Batches finished by an interrupted run of this review are not sent again
+    const restored = new Map(
+      (checkpoint?.batches ?? []).map((b) => [b.index, b.reviews]),
+    );
+    // Batches of a chunk finish concurrently; their checkpoint writes must not overlap
+    let checkpointWrite = Promise.resolve();
+    const recordBatch = (index: number, reviews: IndividualReview[]) => {
+      if (!checkpoint || reviews.some((r) => r.status === 'error')) return;
+      checkpoint.batches.push({
+        index,
+        hash: batchHash(batches[index]),
+        reviews,
+      });
+      checkpointWrite = checkpointWrite.then(() =>
+        this.saveCheckpoint(checkpoint),
+      );
+      return checkpointWrite;
+    };
+    if (checkpoint) await this.saveCheckpoint(checkpoint);
+
     for (let i = 0; i < batches.length; i += BATCH_CONCURRENCY) {
+      throwIfCancelled(signal);
       const chunk = batches.slice(i, i + BATCH_CONCURRENCY);
       // Notify UI once per chunk (before parallel dispatch) to avoid rapid-fire overwrites
       const chunkStart = i + 1;
@@ -356,6 +1021,13 @@ export class ReviewService {
       const chunkResults = await Promise.all(
         chunk.map(async (batch, j) => {
           const batchIdx = i + j;
+          const done = restored.get(batchIdx);
+          if (done) {
+            this.logger.log(
+              `[Batch ${batchIdx + 1}/${batches.length}] Restored from checkpoint.`,
+            );
+            return done;
+          }
           const code = batch
             .map((f) => `=== ${sanitizeFileName(f.path)} ===\n${f.content}`)
             .join('\n\n');
@@ -374,10 +1046,11 @@ export class ReviewService {
             code,
             checks,
             extraInstructions: batchExtra,
-          }, undefined, undefined, onToolActivity, configOverride);
+          }, undefined, undefined, onToolActivity, configOverride, signal);
           this.logger.log(
             `[Batch ${batchIdx + 1}/${batches.length}] Complete.`,
           );
+          await recordBatch(batchIdx, reviews);
           return reviews;
         }),
       );
@@ -407,15 +1080,43 @@ export class ReviewService {
           onReviewerDone?.(reviewerName, result.status === 'error' ? 'error' : 'done', result.durationMs ?? 0);
           return result;
         }
+        const saved = checkpoint?.syntheses.find(
+          (r) => r.reviewer === reviewerName,
+        );
+        if (saved) {
+          this.logger.log(
+            `[Synthesis] ${reviewerName}: restored from checkpoint`,
+          );
+          onDelta?.(reviewerName, saved.review);
+          onReviewerDone?.(reviewerName, 'done', saved.durationMs ?? 0);
+          return saved;
+        }
         this.logger.log(`[Synthesis] ${reviewerName}: consolidating ${batchReviews.length} batch reviews...`);
         // Notify UI: batch phase done, synthesis starting
         onToolActivity?.(reviewerName, 'Merging...', undefined);
         // Synthesis: stream delta content to frontend, then fire a single reviewerDone
-        const result = await this.council.synthesizeReview(reviewerConfig, batchReviews, lang, undefined, onDelta, onToolActivity);
+        const result = await this.council.synthesizeReview(reviewerConfig, batchReviews, lang, undefined, onDelta, onToolActivity, configOverride, signal);
         onReviewerDone?.(reviewerName, result.status === 'error' ? 'error' : 'done', result.durationMs ?? 0);
+        if (checkpoint && result.status === 'success') {
+          checkpoint.syntheses.push(result);
+          checkpointWrite = checkpointWrite.then(() =>
+            this.saveCheckpoint(checkpoint),
+          );
+          await checkpointWrite;
+        }
         return result;
       }),
     );
+    // Batch reviewers never saw the whole codebase, so the debate runs on findings only
+    const debate = await this.runDebate(
+      { checks, extraInstructions },
+      synthesizedReviews,
+      onDelta,
+      onReviewerDone,
+      onToolActivity,
+      configOverride,
+      signal,
+    );
     this.logger.log(`Synthesis complete. Sending ${synthesizedReviews.length} reviews to decision maker...`);
     const fileSummary = allFileNames.join('\n');
     try {
@@ -427,6 +1128,8 @@ export class ReviewService {
         configOverride,
         onDmDelta,
         onDmStart,
+        debate,
+        signal,
       );
       const status =
         decision.parseFailed || this.hasAnyReviewerFailure(synthesizedReviews)
@@ -437,12 +1140,19 @@ export class ReviewService {
         status,
         individualReviews: synthesizedReviews,
         decision,
+        ...this.debateField(debate),
       };
     } catch (error) {
+      throwIfCancelled(signal);
       this.logger.error(
         `Decision maker failed, returning partial result: ${sanitizeErrorMessage(error)}`,
       );
-      return { id, status: 'partial', individualReviews: synthesizedReviews };
+      return {
+        id,
+        status: 'partial',
+        individualReviews: synthesizedReviews,
+        ...this.debateField(debate),
+      };
     }
   }
 
@@ -467,15 +1177,24 @@ export class ReviewService {
     onReviewerDone?: (reviewer: string, status: 'done' | 'error', durationMs: number, error?: string) => void,
     onToolActivity?: (reviewer: string, toolName: string, args?: unknown) => void,
     configOverride?: CouncilConfig,
-    onDmDelta?: (content: string) => void,
+    onDmDelta?: (content: string, decisionMaker: string) => void,
     onDmStart?: (dmName: string) => void,
+    signal?: AbortSignal,
   ): Promise<ReviewResult> {
-    const individualReviews = await this.council.dispatchReviews({
+    const request: ReviewRequest = {
       code,
       checks,
       extraInstructions,
       repoPath,
-    }, onDelta, onReviewerDone, onToolActivity, configOverride);
+    };
+    const individualReviews = await this.council.dispatchReviews(
+      request,
+      onDelta,
+      onReviewerDone,
+      onToolActivity,
+      configOverride,
+      signal,
+    );
 
     // All reviewers failed → no usable data for the decision maker, return 'failed'.
     // If only some reviewers failed, proceed to the DM — partial data is still valuable.
@@ -484,8 +1203,27 @@ export class ReviewService {
       return { id, status: 'failed', individualReviews };
     }
 
+    const debate = await this.runDebate(
+      request,
+      individualReviews,
+      onDelta,
+      onReviewerDone,
+      onToolActivity,
+      configOverride,
+      signal,
+    );
     try {
-      const decision = await this.decisionMaker.decide(code, individualReviews, 'inline', repoPath, configOverride, onDmDelta, onDmStart);
+      const decision = await this.decisionMaker.decide(
+        code,
+        individualReviews,
+        'inline',
+        repoPath,
+        configOverride,
+        onDmDelta,
+        onDmStart,
+        debate,
+        signal,
+      );
       const status =
         decision.parseFailed || this.hasAnyReviewerFailure(individualReviews)
           ? 'partial'
@@ -495,12 +1233,19 @@ export class ReviewService {
         status,
         individualReviews,
         decision,
+        ...this.debateField(debate),
       };
     } catch (error) {
+      throwIfCancelled(signal);
       this.logger.error(
         `Decision maker failed, returning partial result: ${sanitizeErrorMessage(error)}`,
       );
-      return { id, status: 'partial', individualReviews };
+      return {
+        id,
+        status: 'partial',
+        individualReviews,
+        ...this.debateField(debate),
+      };
     }
   }
 }
@@ -1,10 +1,3 @@
-export interface IndividualReview {
-  reviewer: string;
-  review: string;
-  status: 'success' | 'error';
-  durationMs?: number;
-}
-
 export type ReviewCategory =
   | 'security'
   | 'performance'
@@ -13,6 +6,105 @@ export type ReviewCategory =
   | 'best-practices'
   | 'other';
 
+/**
+ * How a finding's location held up against the reviewed code: `verified` when
+ * quoted code was found on the reported line, `corrected` when the file or line
+ * was fixed up, `unknown-file` when the file is not among the reviewed files
+ * (likely hallucinated).
+ */
+export type FindingAnchor = 'verified' | 'corrected' | 'unknown-file';
+
+export interface ReviewFinding {
+  severity: 'high' | 'medium' | 'low';
+  category: ReviewCategory;
+  description: string;
+  file?: string;
+  line?: number;
+  suggestion: string;
+  anchor?: FindingAnchor;
+}
+
+/** Tokens reported by the agents for one or more prompts, retries included. */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  /** Estimated cost in USD of the usage whose model has an entry in `pricing`. */
+  cost?: number;
+  /** Models that reported usage without an entry in `pricing`; their tokens are not in `cost`. */
+  unpricedModels?: string[];
+}
+
+export interface IndividualReview {
+  reviewer: string;
+  /** Persona from the reviewer's config, if any. */
+  persona?: string;
+  /** Focus checks from the reviewer's config, if any. */
+  checks?: string[];
+  /** Raw reviewer output, kept as the fallback when structured findings could not be parsed. */
+  review: string;
+  status: 'success' | 'error';
+  durationMs?: number;
+  /** Structured findings parsed from `review`; undefined when parsing failed. */
+  findings?: ReviewFinding[];
+  /** General observations that are not tied to a specific issue. */
+  notes?: string[];
+  /** Tokens spent on this review, including batches and their synthesis. */
+  usage?: TokenUsage;
+  /** Served from the response cache: every prompt of this review (batches and synthesis included) was a cache hit. */
+  cached?: boolean;
+}
+
+/** A reviewer's response to another reviewer's finding during a debate round. */
+export interface DebateStance {
+  /** Reviewer whose finding is being answered. */
+  reviewer: string;
+  /** The finding being answered, as quoted by the responding reviewer. */
+  finding: string;
+  stance: 'agree' | 'dispute';
+  /** Reasoning or evidence supporting the stance. */
+  comment: string;
+}
+
+/** One reviewer's turn in a debate round. */
+export interface DebateEntry {
+  reviewer: string;
+  status: 'success' | 'error';
+  /** Raw reviewer output for this turn. */
+  response: string;
+  durationMs?: number;
+  /** Structured stances parsed from `response`; undefined when parsing failed. */
+  stances?: DebateStance[];
+  /** New findings raised in this turn after seeing the other reviews. */
+  findings?: ReviewFinding[];
+  usage?: TokenUsage;
+  /** Served from the response cache. */
+  cached?: boolean;
+}
+
+export interface DebateRound {
+  /** 1-based; round 1 is the first debate round after the independent reviews. */
+  round: number;
+  entries: DebateEntry[];
+}
+
+/** One decision maker's ruling on an item when several decision makers vote. */
+export interface JudgeVote {
+  judge: string;
+  verdict: 'accepted' | 'rejected' | 'modified';
+  severity: 'high' | 'medium' | 'low';
+  reasoning: string;
+}
+
+/** Patch proposed by the fix phase for an accepted / modified decision. */
+export interface FindingFix {
+  /** Unified diff with paths relative to the repository root. */
+  patch: string;
+  /** Whether `git apply --check` accepted the patch against the reviewed tree. */
+  status: 'valid' | 'invalid';
+  /** `git apply --check` error for invalid patches. */
+  error?: string;
+}
+
 export interface ReviewDecisionItem {
   severity: 'high' | 'medium' | 'low';
   category: ReviewCategory;
@@ -23,6 +115,11 @@ export interface ReviewDecisionItem {
   verdict: 'accepted' | 'rejected' | 'modified';
   reasoning: string;
   suggestion: string;
+  anchor?: FindingAnchor;
+  /** Per-judge rulings when `decisionMakers` has several judges; `verdict` / `severity` are their aggregate. */
+  votes?: JudgeVote[];
+  /** Set by the fix phase (`fix.enabled`) when the fix agent proposed a patch. */
+  fix?: FindingFix;
 }
 
 export interface AdditionalFinding {
@@ -30,7 +127,9 @@ export interface AdditionalFinding {
   category: ReviewCategory;
   description: string;
   file?: string;
+  line?: number;
   suggestion: string;
+  anchor?: FindingAnchor;
 }
 
 export interface ReviewDecision {
@@ -39,6 +138,39 @@ export interface ReviewDecision {
   decisions: ReviewDecisionItem[];
   additionalFindings: AdditionalFinding[];
   parseFailed?: boolean;
+  /** Decision makers whose rulings were merged into this decision (multi-judge mode only). */
+  judges?: string[];
+  /** Tokens spent by the decision maker(s), including judges that failed. */
+  usage?: TokenUsage;
+  /** Served from the response cache (every judge's ruling, in multi-judge mode). */
+  cached?: boolean;
+}
+
+/** A finding from an earlier review of the same branch, kept by an incremental diff review. */
+export interface CarriedFinding extends ReviewFinding {
+  /** Review the finding was first reported in. */
+  fromReviewId: string;
+  /** `needs-recheck` when the finding's lines (or file, if no line) changed since that review. */
+  status: 'unchanged' | 'needs-recheck';
+}
+
+export interface DiffReviewOptions {
+  /** Review only changes since the last reviewed commit of the same branch (from history). */
+  incremental?: boolean;
+  /** Review `A..B` / `A...B` instead of base-vs-HEAD. */
+  range?: string;
+  /** Review a single commit against its parent. */
+  commit?: string;
+  /** Review staged changes only. */
+  staged?: boolean;
+  /** Review unstaged working tree changes only. */
+  workingTree?: boolean;
+}
+
+/** Set on incremental diff reviews: the diff only covers changes since `sinceSha`. */
+export interface IncrementalInfo {
+  sinceReviewId: string;
+  sinceSha: string;
 }
 
 export interface ReviewResult {
@@ -46,7 +178,15 @@ export interface ReviewResult {
   status: 'completed' | 'failed' | 'partial';
   individualReviews: IndividualReview[];
   decision?: ReviewDecision;
+  /** Debate transcript, when `review.debateRounds` is enabled and at least two reviewers succeeded. */
+  debate?: DebateRound[];
   durationMs?: number;
+  incremental?: IncrementalInfo;
+  carriedFindings?: CarriedFinding[];
+  /** Total tokens spent on the review: reviewers, debate, decision and fix phase. */
+  usage?: TokenUsage;
+  /** How the review was downscaled to fit `review.budget` (fewer reviewers or batches). */
+  downscaled?: string[];
 }
 
 export interface ReviewRequest {
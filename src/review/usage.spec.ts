@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { addUsage, sumUsage, totalUsage } from './usage.js';
+import { ReviewResult } from './review.types.js';
+
+const pricing = {
+  'gpt-4.1': { inputPerMillion: 2, outputPerMillion: 8 },
+};
+
+describe('addUsage', () => {
+  it('should accumulate tokens and price known models', () => {
+    let usage = addUsage(
+      undefined,
+      { model: 'gpt-4.1', inputTokens: 1000, outputTokens: 500 },
+      pricing,
+    );
+    usage = addUsage(
+      usage,
+      { model: 'gpt-4.1', inputTokens: 500, outputTokens: 0 },
+      pricing,
+    );
+    expect(usage).toEqual({
+      inputTokens: 1500,
+      outputTokens: 500,
+      cost: 0.007,
+    });
+  });
+
+  it('should record models without a price', () => {
+    let usage = addUsage(
+      undefined,
+      { model: 'llama3', inputTokens: 10, outputTokens: 5 },
+      pricing,
+    );
+    usage = addUsage(usage, { inputTokens: 1, outputTokens: 1 });
+    usage = addUsage(usage, { model: 'idle' }, pricing);
+    expect(usage).toEqual({
+      inputTokens: 11,
+      outputTokens: 6,
+      unpricedModels: ['llama3', 'unknown'],
+    });
+  });
+
+  it('should ignore inherited keys of the pricing table', () => {
+    const usage = addUsage(
+      undefined,
+      { model: 'constructor', inputTokens: 1, outputTokens: 1 },
+      pricing,
+    );
+    expect(usage.cost).toBeUndefined();
+    expect(usage.unpricedModels).toEqual(['constructor']);
+  });
+});
+
+describe('sumUsage', () => {
+  it('should return undefined when nothing was reported', () => {
+    expect(sumUsage([undefined, undefined])).toBeUndefined();
+  });
+
+  it('should add tokens, costs and unpriced models', () => {
+    expect(
+      sumUsage([
+        { inputTokens: 1, outputTokens: 2, cost: 0.5 },
+        undefined,
+        { inputTokens: 3, outputTokens: 4, unpricedModels: ['b'] },
+        { inputTokens: 5, outputTokens: 6, cost: 0.25, unpricedModels: ['a'] },
+      ]),
+    ).toEqual({
+      inputTokens: 9,
+      outputTokens: 12,
+      cost: 0.75,
+      unpricedModels: ['a', 'b'],
+    });
+  });
+});
+
+describe('totalUsage', () => {
+  it('should include reviewers, debate turns, the decision and extra usage', () => {
+    const result: ReviewResult = {
+      id: 'review-1',
+      status: 'completed',
+      individualReviews: [
+        {
+          reviewer: 'Gemini',
+          review: '{}',
+          status: 'success',
+          usage: { inputTokens: 100, outputTokens: 10 },
+        },
+        { reviewer: 'Codex', review: '[error]', status: 'error' },
+      ],
+      debate: [
+        {
+          round: 1,
+          entries: [
+            {
+              reviewer: 'Gemini',
+              status: 'success',
+              response: '{}',
+              usage: { inputTokens: 20, outputTokens: 2 },
+            },
+          ],
+        },
+      ],
+      decision: {
+        reviewer: 'Claude (Decision Maker)',
+        overallAssessment: '',
+        decisions: [],
+        additionalFindings: [],
+        usage: { inputTokens: 300, outputTokens: 30, cost: 0.01 },
+      },
+    };
+    expect(
+      totalUsage(result, { inputTokens: 4, outputTokens: 4 }, undefined),
+    ).toEqual({ inputTokens: 424, outputTokens: 46, cost: 0.01 });
+  });
+});
@@ -0,0 +1,94 @@
+import { ModelPricing } from '../config/config.types.js';
+import { ReviewResult, TokenUsage } from './review.types.js';
+
+/** Tokens one model reported for one prompt: an ACP `assistant.usage` event or an HTTP `usage` block. */
+export interface UsageSample {
+  model?: string;
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+/** Label for usage whose agent did not report a model. */
+const UNKNOWN_MODEL = 'unknown';
+
+function mergeModels(a: string[] = [], b: string[] = []): string[] {
+  return [...new Set([...a, ...b])].sort();
+}
+
+/**
+ * Add a sample to a running total. The sample is priced when its model has an
+ * entry in `pricing`; otherwise its model is recorded in `unpricedModels`.
+ */
+export function addUsage(
+  total: TokenUsage | undefined,
+  sample: UsageSample,
+  pricing?: Record<string, ModelPricing>,
+): TokenUsage {
+  const inputTokens = sample.inputTokens ?? 0;
+  const outputTokens = sample.outputTokens ?? 0;
+  const next: TokenUsage = {
+    ...total,
+    inputTokens: (total?.inputTokens ?? 0) + inputTokens,
+    outputTokens: (total?.outputTokens ?? 0) + outputTokens,
+  };
+  const model = sample.model ?? UNKNOWN_MODEL;
+  const price =
+    pricing && Object.hasOwn(pricing, model) ? pricing[model] : undefined;
+  if (price) {
+    next.cost =
+      (next.cost ?? 0) +
+      (inputTokens * price.inputPerMillion +
+        outputTokens * price.outputPerMillion) /
+        1_000_000;
+  } else if (inputTokens > 0 || outputTokens > 0) {
+    next.unpricedModels = mergeModels(next.unpricedModels, [model]);
+  }
+  return next;
+}
+
+/** Sum of several usages; undefined when none is set. */
+export function sumUsage(
+  usages: (TokenUsage | undefined)[],
+): TokenUsage | undefined {
+  let total: TokenUsage | undefined;
+  for (const usage of usages) {
+    if (!usage) continue;
+    const next: TokenUsage = {
+      inputTokens: (total?.inputTokens ?? 0) + usage.inputTokens,
+      outputTokens: (total?.outputTokens ?? 0) + usage.outputTokens,
+    };
+    if (total?.cost !== undefined || usage.cost !== undefined) {
+      next.cost = (total?.cost ?? 0) + (usage.cost ?? 0);
+    }
+    const models = mergeModels(total?.unpricedModels, usage.unpricedModels);
+    if (models.length > 0) next.unpricedModels = models;
+    total = next;
+  }
+  return total;
+}
+
+/**
+ * Total usage of a review: reviewers (batches and synthesis included), debate
+ * turns, the decision and any `extra` usage recorded outside the result (the
+ * fix phase).
+ */
+export function totalUsage(
+  result: ReviewResult,
+  ...extra: (TokenUsage | undefined)[]
+): TokenUsage | undefined {
+  return sumUsage([
+    ...result.individualReviews.map((r) => r.usage),
+    ...(result.debate ?? []).flatMap((round) =>
+      round.entries.map((e) => e.usage),
+    ),
+    result.decision?.usage,
+    ...extra,
+  ]);
+}
+
+/** `{ usage }` when usage was reported, for spreading into results. */
+export function usageField(usage: TokenUsage | undefined): {
+  usage?: TokenUsage;
+} {
+  return usage ? { usage } : {};
+}
@@ -9,6 +9,7 @@ WEB_LOG="$SCRIPT_DIR/logs/web.log"
 PID_DIR="$SCRIPT_DIR/logs"
 API_PID_FILE="$PID_DIR/api.pid"
 WEB_PID_FILE="$PID_DIR/web.pid"
+TOKEN_FILE="$PID_DIR/api.token"
 API_MAIN="$SCRIPT_DIR/dist/apps/api/src/main.js"
 API_PORT="${API_PORT:-3100}"
 WEB_PORT="${WEB_PORT:-4200}"
@@ -49,6 +50,18 @@ stop_service() {
   fi
 }
 
+# API token：優先使用 REVIEW_COUNCIL_API_TOKEN，否則產生一組並保存於 logs/api.token
+api_token() {
+  if [[ -n "${REVIEW_COUNCIL_API_TOKEN:-}" ]]; then
+    echo "$REVIEW_COUNCIL_API_TOKEN"
+    return
+  fi
+  if [[ ! -s "$TOKEN_FILE" ]]; then
+    (umask 077; node -e "process.stdout.write(require('node:crypto').randomBytes(24).toString('hex'))" > "$TOKEN_FILE")
+  fi
+  cat "$TOKEN_FILE"
+}
+
 # ── 指令：start ───────────────────────────────────────────────
 cmd_start() {
   # 檢查 dist 是否存在
@@ -63,7 +76,7 @@ cmd_start() {
     warn "API is already running (PID $(cat "$API_PID_FILE"))."
   else
     info "Starting API on port $API_PORT..."
-    node "$API_MAIN" >> "$API_LOG" 2>&1 &
+    REVIEW_COUNCIL_API_TOKEN="$(api_token)" node "$API_MAIN" >> "$API_LOG" 2>&1 &
     echo $! > "$API_PID_FILE"
     info "API started (PID $(cat "$API_PID_FILE")), log: $API_LOG"
   fi
@@ -81,7 +94,7 @@ cmd_start() {
   echo ""
   info "Services started:"
   info "  API → http://localhost:$API_PORT"
-  info "  Web → http://localhost:$WEB_PORT"
+  info "  Web → http://localhost:$WEB_PORT/?token=$(api_token)"
   info "Use './srvctl.sh logs' to tail logs, './srvctl.sh stop' to stop."
 }
 
@@ -160,6 +173,7 @@ case "${1:-help}" in
     echo "Env:"
     echo "  API_PORT  API 埠號（預設 3100）"
     echo "  WEB_PORT  Web 埠號（預設 4200）"
+    echo "  REVIEW_COUNCIL_API_TOKEN  API token（預設自動產生並保存於 logs/api.token）"
     echo ""
     ;;
   *)